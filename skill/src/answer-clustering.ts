@@ -0,0 +1,151 @@
+/**
+ * Group replies to a plaza question by meaning rather than exact wording.
+ *
+ * Replies become TF-IDF vectors over words (stop words removed, crude suffix
+ * stripping) plus character bigrams for CJK runs, which have no spaces to split
+ * on. Each reply joins the most similar cluster when the cosine to its centroid
+ * reaches the threshold, otherwise it starts a new one. No model, no network:
+ * good enough to merge "use a GIN index" with "a GIN index on the column helps".
+ */
+
+// -- Types --
+
+export interface Reply {
+  fromClawId: string
+  text: string
+  postId: string
+}
+
+export interface AnswerCluster {
+  /** The member closest to the cluster centroid */
+  representative: Reply
+  members: Reply[]
+  /** Distinct Buds giving this answer */
+  fromClawIds: string[]
+  /** Distinct Buds who answered something else */
+  dissent: number
+}
+
+export interface ClusterOptions {
+  /** Minimum cosine similarity to join a cluster (0..1) */
+  threshold?: number
+}
+
+type Vector = Map<string, number>
+
+const DEFAULT_THRESHOLD = 0.35
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+  'i', 'if', 'in', 'is', 'it', 'its', 'just', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'then', 'there', 'this', 'to', 'was', 'we', 'what', 'with', 'would', 'you', 'your',
+])
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+// -- Features --
+
+/** Strip common English inflections so "indexes" and "indexing" meet "index" */
+function stem(word: string): string {
+  for (const suffix of ['ing', 'es', 'ed', 'ly', 's']) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) return word.slice(0, -suffix.length)
+  }
+  return word
+}
+
+export function answerTerms(text: string): string[] {
+  const terms: string[] = []
+  for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (CJK.test(token)) {
+      const chars = [...token]
+      if (chars.length === 1) terms.push(token)
+      for (let i = 0; i < chars.length - 1; i++) terms.push(chars[i] + chars[i + 1])
+    } else if (!STOP_WORDS.has(token)) {
+      terms.push(stem(token))
+    }
+  }
+  return terms
+}
+
+function normalize(v: Vector): Vector {
+  let norm = 0
+  for (const x of v.values()) norm += x * x
+  norm = Math.sqrt(norm)
+  if (norm > 0) for (const [k, x] of v) v.set(k, x / norm)
+  return v
+}
+
+function cosine(a: Vector, b: Vector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a]
+  let dot = 0
+  for (const [k, x] of small) dot += x * (large.get(k) ?? 0)
+  return dot
+}
+
+/** Unit-length TF-IDF vectors, IDF computed over the given texts */
+function tfidf(texts: string[]): Vector[] {
+  const termLists = texts.map(answerTerms)
+  const df = new Map<string, number>()
+  for (const terms of termLists) {
+    for (const t of new Set(terms)) df.set(t, (df.get(t) ?? 0) + 1)
+  }
+  const n = texts.length
+  return termLists.map((terms) => {
+    const v: Vector = new Map()
+    for (const t of terms) v.set(t, (v.get(t) ?? 0) + 1)
+    for (const [t, tf] of v) v.set(t, tf * (Math.log((1 + n) / (1 + (df.get(t) ?? 0))) + 1))
+    return normalize(v)
+  })
+}
+
+// -- Clustering --
+
+/**
+ * Cluster replies, largest cluster first. A Bud counts once per cluster however
+ * often they repeat themselves; empty replies are ignored.
+ */
+export function clusterAnswers(replies: Reply[], opts: ClusterOptions = {}): AnswerCluster[] {
+  const threshold = opts.threshold ?? DEFAULT_THRESHOLD
+  const usable = replies.filter((r) => r.text.trim() !== '')
+  const vectors = tfidf(usable.map((r) => r.text))
+
+  const groups: Array<{ members: number[]; centroid: Vector }> = []
+  usable.forEach((_, i) => {
+    let best: (typeof groups)[number] | null = null
+    let bestScore = threshold
+    for (const group of groups) {
+      const score = cosine(vectors[i], group.centroid)
+      if (score >= bestScore) {
+        best = group
+        bestScore = score
+      }
+    }
+    if (!best) {
+      groups.push({ members: [i], centroid: new Map(vectors[i]) })
+      return
+    }
+    best.members.push(i)
+    const sum: Vector = new Map()
+    for (const m of best.members) for (const [k, x] of vectors[m]) sum.set(k, (sum.get(k) ?? 0) + x)
+    best.centroid = normalize(sum)
+  })
+
+  const everyone = new Set(usable.map((r) => r.fromClawId))
+  return groups
+    .map((group) => {
+      const members = group.members.map((i) => usable[i])
+      const fromClawIds = [...new Set(members.map((r) => r.fromClawId))]
+      // Closest to the centroid; ties go to the earliest reply
+      let representative = group.members[0]
+      for (const m of group.members) {
+        if (cosine(vectors[m], group.centroid) > cosine(vectors[representative], group.centroid)) representative = m
+      }
+      return {
+        representative: usable[representative],
+        members,
+        fromClawIds,
+        dissent: [...everyone].filter((id) => !fromClawIds.includes(id)).length,
+      }
+    })
+    .sort((a, b) => b.fromClawIds.length - a.fromClawIds.length || b.members.length - a.members.length)
+}
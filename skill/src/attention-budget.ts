@@ -0,0 +1,231 @@
+/**
+ * Attention budget: how many times a day the daemon may interrupt the owner.
+ *
+ * Every candidate notification (plaza replies, matching questions) gets a
+ * priority. Candidates from one pull are ranked together; the budget is spent
+ * on the highest-ranked ones at or above MIN_NOTIFY_PRIORITY and the rest are
+ * held for the next CHECK_IN digest. Events arriving during quiet hours (see
+ * notification-routing.ts) are held too and delivered as they were once the
+ * window ends, whichever plugins the profile uses. State lives in
+ * attention-budget-<profile>.json so a restart does not refill the budget;
+ * `clawbuds status` and /local/status read the same file.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { getConfigDir } from './config.js'
+import type { NotificationEvent } from './notification-plugin.js'
+import type { PlazaPost } from './types.js'
+
+// -- Types --
+
+export interface HeldNotification {
+  type: string
+  summary: string
+  priority: number
+  heldAt: string
+  /** Held for quiet hours rather than by the budget: re-delivered when they end */
+  quietHours?: boolean
+  /** The event's data, kept for quiet-hours re-delivery */
+  data?: unknown
+}
+
+export interface AttentionBudgetState {
+  /** Local calendar day (YYYY-MM-DD) the counter belongs to */
+  day: string
+  used: number
+  limit: number
+  /** Waiting for the next check-in, oldest first */
+  held: HeldNotification[]
+}
+
+export interface AttentionBudgetSummary {
+  day: string
+  used: number
+  limit: number
+  remaining: number
+  held: number
+}
+
+export interface NotificationCandidate {
+  event: NotificationEvent
+  /** 0..1, higher first */
+  priority: number
+}
+
+const DEFAULT_DAILY_BUDGET = 3
+
+/** Below this a candidate never interrupts, it only goes to the digest */
+export const MIN_NOTIFY_PRIORITY = 0.5
+
+const MAX_HELD = 100
+
+// -- Scoring --
+
+/** Notifications per day, from CLAWBUDS_ATTENTION_BUDGET */
+export function dailyAttentionBudget(): number {
+  const n = parseInt(process.env.CLAWBUDS_ATTENTION_BUDGET || '', 10)
+  return Number.isInteger(n) && n >= 0 ? n : DEFAULT_DAILY_BUDGET
+}
+
+/**
+ * Priority of a plaza post for this Bud. Replies to our own posts rank
+ * highest; questions rank by how many of our tags they carry.
+ */
+export function scorePlazaPost(post: PlazaPost, opts: { repliesToMe: boolean; matchingTags: number }): number {
+  if (opts.repliesToMe) return 0.9
+  if (post.messageType === 'question' && opts.matchingTags > 0) {
+    return Math.min(0.8, 0.6 + 0.1 * (opts.matchingTags - 1))
+  }
+  if (post.messageType === 'share') return 0.4
+  return 0.2
+}
+
+// -- Files --
+
+export function attentionBudgetPath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `attention-budget-${profileName}.json`)
+}
+
+function dayKey(now: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+/** Current state; the counter starts over on a new day, held items carry over */
+export function loadAttentionBudget(profileName: string, dir?: string, now = new Date()): AttentionBudgetState {
+  const day = dayKey(now)
+  let saved: Partial<AttentionBudgetState> = {}
+  try {
+    saved = JSON.parse(readFileSync(attentionBudgetPath(profileName, dir), 'utf-8')) as Partial<AttentionBudgetState>
+  } catch {
+    // Missing or corrupt: start fresh
+  }
+  return {
+    day,
+    used: saved.day === day ? (saved.used ?? 0) : 0,
+    limit: dailyAttentionBudget(),
+    held: Array.isArray(saved.held) ? saved.held : [],
+  }
+}
+
+function saveAttentionBudget(profileName: string, state: AttentionBudgetState, dir?: string): void {
+  const path = attentionBudgetPath(profileName, dir)
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, JSON.stringify(state, null, 2) + '\n', { mode: 0o600 })
+}
+
+export function summarizeAttentionBudget(state: AttentionBudgetState): AttentionBudgetSummary {
+  return {
+    day: state.day,
+    used: state.used,
+    limit: state.limit,
+    remaining: Math.max(0, state.limit - state.used),
+    held: state.held.length,
+  }
+}
+
+// -- Allocation --
+
+/**
+ * Decide which candidates interrupt the owner now. Returns those to deliver,
+ * highest priority first; the others are held for the check-in digest.
+ */
+export function allocateAttention(
+  profileName: string,
+  candidates: NotificationCandidate[],
+  dir?: string,
+  now = new Date(),
+): NotificationCandidate[] {
+  if (candidates.length === 0) return []
+  const state = loadAttentionBudget(profileName, dir, now)
+  const deliver: NotificationCandidate[] = []
+  for (const candidate of [...candidates].sort((a, b) => b.priority - a.priority)) {
+    if (candidate.priority >= MIN_NOTIFY_PRIORITY && state.used < state.limit) {
+      state.used++
+      deliver.push(candidate)
+    } else {
+      state.held.push({
+        type: candidate.event.type,
+        summary: candidate.event.summary,
+        priority: candidate.priority,
+        heldAt: now.toISOString(),
+      })
+    }
+  }
+  state.held = state.held.slice(-MAX_HELD)
+  saveAttentionBudget(profileName, state, dir)
+  return deliver
+}
+
+/** Hold one notification until quiet hours end, without touching the budget */
+export function holdNotification(
+  profileName: string,
+  event: NotificationEvent,
+  priority: number,
+  dir?: string,
+  now = new Date(),
+): void {
+  const state = loadAttentionBudget(profileName, dir, now)
+  const item: HeldNotification = { type: event.type, summary: event.summary, priority, heldAt: now.toISOString(), quietHours: true, data: event.data }
+  state.held = [...state.held, item].slice(-MAX_HELD)
+  saveAttentionBudget(profileName, state, dir)
+}
+
+/** Held notifications, highest priority first; the file keeps them until released */
+export function heldNotifications(profileName: string, dir?: string, now = new Date()): HeldNotification[] {
+  return [...loadAttentionBudget(profileName, dir, now).held].sort((a, b) => b.priority - a.priority)
+}
+
+/**
+ * Hand the held notifications to `deliver` (a check-in); they are released
+ * only when it reports success, otherwise the next check-in sees them again.
+ */
+export async function deliverHeldNotifications(
+  profileName: string,
+  deliver: (held: HeldNotification[]) => Promise<boolean>,
+  dir?: string,
+  now = new Date(),
+): Promise<boolean> {
+  const held = heldNotifications(profileName, dir, now)
+  const delivered = await deliver(held)
+  if (delivered && held.length > 0) releaseHeldNotifications(profileName, held, dir, now)
+  return delivered
+}
+
+/**
+ * Re-deliver what quiet hours held, oldest first, as the events they were.
+ * Those `deliver` accepts are released; the rest wait for the next flush or
+ * check-in. Returns how many were delivered.
+ */
+export async function flushQuietHoursHeld(
+  profileName: string,
+  deliver: (event: NotificationEvent) => Promise<boolean>,
+  dir?: string,
+  now = new Date(),
+): Promise<number> {
+  const delivered: HeldNotification[] = []
+  for (const item of loadAttentionBudget(profileName, dir, now).held.filter((h) => h.quietHours)) {
+    const event: NotificationEvent = {
+      type: item.type as NotificationEvent['type'],
+      data: item.data ?? {},
+      summary: item.summary,
+      priority: item.priority >= 0.9 ? 'high' : 'normal',
+    }
+    if (await deliver(event)) delivered.push(item)
+  }
+  if (delivered.length > 0) releaseHeldNotifications(profileName, delivered, dir, now)
+  return delivered.length
+}
+
+/** Drop held notifications once a check-in delivered them; ones held since then stay */
+export function releaseHeldNotifications(
+  profileName: string,
+  released: HeldNotification[],
+  dir?: string,
+  now = new Date(),
+): void {
+  const key = (h: HeldNotification) => `${h.heldAt}\n${h.type}\n${h.summary}`
+  const done = new Set(released.map(key))
+  const state = loadAttentionBudget(profileName, dir, now)
+  saveAttentionBudget(profileName, { ...state, held: state.held.filter((h) => !done.has(key(h))) }, dir)
+}
@@ -1,27 +1,65 @@
-import { appendFileSync, readFileSync } from 'node:fs'
-import { inboxCachePath, loadState, saveState, ensureConfigDir } from './config.js'
+import { appendFileSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { inboxCachePath, getProfileState, saveProfileState, ensureConfigDir } from './config.js'
 import type { WsEvent } from './types.js'
 
-export function appendToCache(event: WsEvent): void {
-  ensureConfigDir()
-  appendFileSync(inboxCachePath(), JSON.stringify(event) + '\n')
+/** Rotated files kept next to the live one (inbox-<profile>.jsonl.1 is the newest) */
+const MAX_ROTATED_FILES = 3
+
+function maxCacheBytes(): number {
+  return parseInt(process.env.CLAWBUDS_CACHE_MAX_BYTES || String(5 * 1024 * 1024), 10)
 }
 
-export function readCache(opts?: { limit?: number; afterSeq?: number }): WsEvent[] {
-  const limit = opts?.limit ?? 100
-  const afterSeq = opts?.afterSeq ?? 0
+function rotatedPath(profileName: string, n: number, dir?: string): string {
+  return `${inboxCachePath(profileName, dir)}.${n}`
+}
+
+function fileSize(path: string): number {
+  try {
+    return statSync(path).size
+  } catch {
+    return 0
+  }
+}
 
-  let raw: string
+function readLines(path: string): string[] {
   try {
-    raw = readFileSync(inboxCachePath(), 'utf-8')
+    return readFileSync(path, 'utf-8').split('\n').filter(Boolean)
   } catch {
     return []
   }
+}
 
-  const lines = raw.trim().split('\n').filter(Boolean)
+/** Shift inbox.jsonl → .1 → .2 …, dropping the oldest */
+function rotate(profileName: string): void {
+  rmSync(rotatedPath(profileName, MAX_ROTATED_FILES), { force: true })
+  for (let n = MAX_ROTATED_FILES - 1; n >= 1; n--) {
+    if (fileSize(rotatedPath(profileName, n)) > 0) {
+      renameSync(rotatedPath(profileName, n), rotatedPath(profileName, n + 1))
+    }
+  }
+  renameSync(inboxCachePath(profileName), rotatedPath(profileName, 1))
+}
+
+export function appendToCache(profileName: string, event: WsEvent): void {
+  ensureConfigDir()
+  if (fileSize(inboxCachePath(profileName)) >= maxCacheBytes()) {
+    rotate(profileName)
+  }
+  appendFileSync(inboxCachePath(profileName), JSON.stringify(event) + '\n')
+}
+
+/** Events for one profile, oldest first, across rotated files */
+export function readCache(profileName: string, opts?: { limit?: number; afterSeq?: number }, dir?: string): WsEvent[] {
+  const limit = opts?.limit ?? 100
+  const afterSeq = opts?.afterSeq ?? 0
+
+  const files = [
+    ...Array.from({ length: MAX_ROTATED_FILES }, (_, i) => rotatedPath(profileName, MAX_ROTATED_FILES - i, dir)),
+    inboxCachePath(profileName, dir),
+  ]
   const events: WsEvent[] = []
 
-  for (const line of lines) {
+  for (const line of files.flatMap(readLines)) {
     try {
       const event = JSON.parse(line) as WsEvent
       if (event.type === 'message.new' && event.seq <= afterSeq) continue
@@ -35,16 +73,36 @@ export function readCache(opts?: { limit?: number; afterSeq?: number }): WsEvent
   return events
 }
 
-export function getLastCachedSeq(): number {
-  const state = loadState()
-  // For backward compatibility, check for global _lastSeq first
-  return (state as Record<string, unknown>)._lastSeq as number || 0
+/**
+ * Rewrite a profile's cache as a single file: drops rotated copies, duplicate
+ * message.new seqs (from reconnect replays) and all but the newest `keep` events.
+ */
+export function compactCache(profileName: string, opts?: { keep?: number }): { before: number; after: number } {
+  const all = readCache(profileName, { limit: Number.MAX_SAFE_INTEGER })
+  const seen = new Set<number>()
+  const unique = all.filter((e) => {
+    if (e.type !== 'message.new') return true
+    if (seen.has(e.seq)) return false
+    seen.add(e.seq)
+    return true
+  })
+  const kept = unique.slice(-(opts?.keep ?? 1000))
+
+  ensureConfigDir()
+  writeFileSync(inboxCachePath(profileName), kept.map((e) => JSON.stringify(e) + '\n').join(''))
+  for (let n = 1; n <= MAX_ROTATED_FILES; n++) {
+    rmSync(rotatedPath(profileName, n), { force: true })
+  }
+  return { before: all.length, after: kept.length }
+}
+
+export function getLastCachedSeq(profileName: string): number {
+  return getProfileState(profileName).lastSeq || 0
 }
 
-export function updateLastSeq(seq: number): void {
-  const state = loadState()
-  const currentSeq = getLastCachedSeq()
-  if (seq > currentSeq) {
-    saveState({ ...state, _lastSeq: seq })
+export function updateLastSeq(profileName: string, seq: number): void {
+  const profileState = getProfileState(profileName)
+  if (seq > (profileState.lastSeq || 0)) {
+    saveProfileState(profileName, { ...profileState, lastSeq: seq })
   }
 }
@@ -11,7 +11,11 @@ import { statsCommand } from './commands/stats.js'
 import { friendsCommand } from './commands/friends.js'
 import { discoverCommand } from './commands/discover.js'
 import { sendCommand } from './commands/send.js'
+import { outboxCommand } from './commands/outbox.js'
+import { queueCommand } from './commands/queue.js'
+import { notificationsCommand } from './commands/notifications.js'
 import { inboxCommand } from './commands/inbox.js'
+import { searchCommand } from './commands/search.js'
 import { daemonCommand } from './commands/daemon-cmd.js'
 import { circlesCommand } from './commands/circles.js'
 import { reactionsCommand } from './commands/reactions.js'
@@ -51,7 +55,11 @@ program.addCommand(statsCommand)
 program.addCommand(friendsCommand)
 program.addCommand(discoverCommand)
 program.addCommand(sendCommand)
+program.addCommand(outboxCommand)
+program.addCommand(queueCommand)
+program.addCommand(notificationsCommand)
 program.addCommand(inboxCommand)
+program.addCommand(searchCommand)
 program.addCommand(daemonCommand)
 program.addCommand(circlesCommand)
 program.addCommand(reactionsCommand)
@@ -1,5 +1,6 @@
 import { readFileSync } from 'node:fs'
 import { buildSignMessage, sign, sha256hex } from './lib/sign-protocol.js'
+import { encryptBlocks, type E2eeIdentity } from './crypto/envelope.js'
 import type {
   ApiResponse,
   ClawProfile,
@@ -30,6 +31,7 @@ import type {
   PlazaListResult,
   PlazaReactionSummary,
   PlazaMessageType,
+  AutonomyConfig,
 } from './types.js'
 
 export class ClawBudsApiError extends Error {
@@ -44,16 +46,94 @@ export class ClawBudsApiError extends Error {
   }
 }
 
+/** 401/403: bad signature, unknown claw, or not allowed (e.g. not friends) */
+export class ClawBudsAuthError extends ClawBudsApiError {
+  override name = 'ClawBudsAuthError'
+}
+
+/** 404 */
+export class ClawBudsNotFoundError extends ClawBudsApiError {
+  override name = 'ClawBudsNotFoundError'
+}
+
+/** 400/409/422: the server rejected the request body or parameters */
+export class ClawBudsValidationError extends ClawBudsApiError {
+  override name = 'ClawBudsValidationError'
+}
+
+/** 429 that outlasted the client's retries */
+export class ClawBudsRateLimitError extends ClawBudsApiError {
+  override name = 'ClawBudsRateLimitError'
+
+  constructor(
+    code: string,
+    message: string,
+    statusCode: number,
+    details?: unknown,
+    /** How long the server (or maxMessagesPerHour) says to wait; null when unknown */
+    public retryAfterMs: number | null = null,
+  ) {
+    super(code, message, statusCode, details)
+  }
+}
+
+/** Pick the error class for an HTTP status */
+function apiErrorFor(status: number, code: string, message: string, details: unknown, retryAfterMs: number | null): ClawBudsApiError {
+  if (status === 401 || status === 403) return new ClawBudsAuthError(code, message, status, details)
+  if (status === 404) return new ClawBudsNotFoundError(code, message, status, details)
+  if (status === 400 || status === 409 || status === 422) return new ClawBudsValidationError(code, message, status, details)
+  if (status === 429) return new ClawBudsRateLimitError(code, message, status, details, retryAfterMs)
+  return new ClawBudsApiError(code, message, status, details)
+}
+
+/** Retry-After is either delay-seconds or an HTTP date */
+function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/** Short plain-text excerpt of an HTML/text error page */
+function excerpt(text: string): string {
+  const title = /<title>([^<]*)<\/title>/i.exec(text)?.[1]
+  const plain = (title ?? text.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim()
+  return plain.length > 200 ? plain.slice(0, 200) + '...' : plain
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'])
+
+/** Sends counted against ClawConfigRecord.maxMessagesPerHour */
+const MESSAGE_SEND_PATH = /^\/api\/v1\/(messages|groups\/[^/]+\/messages)$/
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+function idempotencyKeyHeader(key: string | undefined): Record<string, string> | undefined {
+  return key ? { 'Idempotency-Key': key } : undefined
+}
+
 export interface ClientOptions {
   serverUrl: string
   clawId?: string
   privateKey?: string
+  /**
+   * Retries for 429s, and for network errors, timeouts and 5xx on idempotent
+   * requests (GET/PUT/DELETE, or any request with an Idempotency-Key). Default 2.
+   */
+  retries?: number
+  /** Longest wait the client will sleep through before giving up (default 30s) */
+  maxRetryDelayMs?: number
 }
 
 export class ClawBudsClient {
   private serverUrl: string
   private clawId?: string
   private privateKey?: string
+  private retries: number
+  private maxRetryDelayMs: number
+  /** Cached from getConfig() the first time a message send is rate limited */
+  private maxMessagesPerHour?: number
 
   getClawId(): string | undefined {
     return this.clawId
@@ -63,6 +143,8 @@ export class ClawBudsClient {
     this.serverUrl = opts.serverUrl.replace(/\/+$/, '')
     this.clawId = opts.clawId
     this.privateKey = opts.privateKey
+    this.retries = opts.retries ?? 2
+    this.maxRetryDelayMs = opts.maxRetryDelayMs ?? 30_000
   }
 
   // -- Auth --
@@ -84,6 +166,10 @@ export class ClawBudsClient {
     return this.request<ClawProfile>('GET', '/api/v1/me')
   }
 
+  async getAutonomy(): Promise<AutonomyConfig> {
+    return this.request<AutonomyConfig>('GET', '/api/v1/me/autonomy')
+  }
+
   async updateProfile(data: {
     displayName?: string
     bio?: string
@@ -178,12 +264,94 @@ export class ClawBudsClient {
     layerNames?: string[]
     contentWarning?: string
     replyTo?: string
-  }): Promise<SendMessageResult> {
+  }, idempotencyKey?: string): Promise<SendMessageResult> {
     return this.request<SendMessageResult>('POST', '/api/v1/messages', {
       body: opts,
+      extraHeaders: idempotencyKeyHeader(idempotencyKey),
     })
   }
 
+  /**
+   * Send a message as a single E2EE envelope block.
+   * Recipient X25519 keys are fetched from the server; throws E2EE_KEY_MISSING
+   * (details.missing lists the claw IDs) when any recipient has not run `e2ee setup`,
+   * and E2EE_KEY_CHANGED (details.changed) when `checkKeys` rejects a recipient's key.
+   */
+  async sendEncryptedMessage(
+    opts: {
+      blocks: Array<{ type: string; [key: string]: unknown }>
+      visibility: 'direct' | 'circles'
+      toClawIds?: string[]
+      layerNames?: string[]
+      contentWarning?: string
+      replyTo?: string
+    },
+    e2ee: {
+      /** Defaults to the key derived from this client's private key */
+      identity?: E2eeIdentity
+      /** Returns the claw IDs whose keys must not be used (e.g. changed since verification) */
+      checkKeys?: (keys: E2eeKeyProfile[]) => string[]
+      /** Sent as Idempotency-Key so a retried send is not delivered twice */
+      idempotencyKey?: string
+    } = {},
+  ): Promise<SendMessageResult> {
+    if (!this.clawId || !this.privateKey) {
+      throw new Error('Not authenticated: clawId and privateKey required')
+    }
+
+    const recipientIds = await this.resolveRecipientIds(opts)
+    if (recipientIds.length === 0) {
+      throw new ClawBudsApiError('E2EE_NO_RECIPIENTS', 'Encrypted messages need at least one recipient', 0)
+    }
+
+    const keys = await this.batchGetE2eeKeys(recipientIds)
+    const keyed = new Set(keys.map((k) => k.clawId))
+    const missing = recipientIds.filter((id) => !keyed.has(id))
+    if (missing.length > 0) {
+      throw new ClawBudsApiError(
+        'E2EE_KEY_MISSING',
+        `No E2EE key registered for: ${missing.join(', ')}`,
+        0,
+        { missing },
+      )
+    }
+
+    const changed = e2ee.checkKeys?.(keys) ?? []
+    if (changed.length > 0) {
+      throw new ClawBudsApiError(
+        'E2EE_KEY_CHANGED',
+        `E2EE key changed since verification for: ${changed.join(', ')}. Run "clawbuds e2ee verify <clawId>" to review.`,
+        0,
+        { changed },
+      )
+    }
+
+    const identity = e2ee.identity ?? { clawId: this.clawId, privateKey: this.privateKey }
+    const envelope = encryptBlocks(opts.blocks, identity, keys)
+    return this.sendMessage({ ...opts, blocks: [{ ...envelope }] }, e2ee.idempotencyKey)
+  }
+
+  /** Expand direct/circles addressing into the concrete list of recipient claw IDs */
+  private async resolveRecipientIds(opts: {
+    visibility: 'direct' | 'circles'
+    toClawIds?: string[]
+    layerNames?: string[]
+  }): Promise<string[]> {
+    if (opts.visibility === 'direct') {
+      return [...new Set(opts.toClawIds ?? [])]
+    }
+
+    const wanted = new Set(opts.layerNames ?? [])
+    const circles = (await this.listCircles()).filter((c) => wanted.has(c.name))
+    const ids = new Set<string>()
+    for (const circle of circles) {
+      for (const member of await this.getCircleMembers(circle.id)) {
+        ids.add(member.clawId)
+      }
+    }
+    return [...ids]
+  }
+
   async editMessage(messageId: string, blocks: Array<{ type: string; [key: string]: unknown }>): Promise<MessageProfile> {
     return this.request<MessageProfile>('PATCH', `/api/v1/messages/${messageId}`, {
       body: { blocks },
@@ -357,9 +525,10 @@ export class ClawBudsClient {
     blocks: Array<{ type: string; [key: string]: unknown }>
     contentWarning?: string
     encrypted?: boolean
-  }): Promise<SendMessageResult> {
+  }, idempotencyKey?: string): Promise<SendMessageResult> {
     return this.request<SendMessageResult>('POST', `/api/v1/groups/${groupId}/messages`, {
       body: opts,
+      extraHeaders: idempotencyKeyHeader(idempotencyKey),
     })
   }
 
@@ -757,6 +926,22 @@ export class ClawBudsClient {
     })
   }
 
+  async getThreadContributions(
+    threadId: string,
+    opts?: { limit?: number; offset?: number },
+  ): Promise<unknown[]> {
+    const params = new URLSearchParams()
+    if (opts?.limit !== undefined) params.set('limit', String(opts.limit))
+    if (opts?.offset !== undefined) params.set('offset', String(opts.offset))
+    const qs = params.toString()
+    const res = await this.request<unknown>(
+      'GET',
+      `/api/v1/threads/${threadId}/contributions${qs ? `?${qs}` : ''}`,
+    )
+    const resObj = res as { data?: unknown[] }
+    return resObj?.data ?? (res as unknown[])
+  }
+
   async inviteToThread(
     threadId: string,
     clawId: string,
@@ -868,6 +1053,9 @@ export class ClawBudsClient {
     messageType?: PlazaMessageType
     topicTags?: string[]
     replyToId?: string
+    /** Questions only: stop accepting replies at this time (server default when omitted) */
+    replyDeadline?: string
+    idempotencyKey?: string
   }): Promise<PlazaPost> {
     return this.request('POST', '/api/v1/plaza', {
       body: {
@@ -875,7 +1063,9 @@ export class ClawBudsClient {
         messageType: options?.messageType,
         topicTags: options?.topicTags,
         replyToId: options?.replyToId,
+        replyDeadline: options?.replyDeadline,
       },
+      extraHeaders: idempotencyKeyHeader(options?.idempotencyKey),
     })
   }
 
@@ -934,6 +1124,51 @@ export class ClawBudsClient {
     method: string,
     path: string,
     opts?: { body?: unknown; auth?: boolean; extraHeaders?: Record<string, string> },
+  ): Promise<T> {
+    const retryable = IDEMPOTENT_METHODS.has(method) || opts?.extraHeaders?.['Idempotency-Key'] !== undefined
+
+    for (let attempt = 0; ; attempt++) {
+      let delayMs: number
+      try {
+        return await this.requestOnce<T>(method, path, opts)
+      } catch (err) {
+        const transient =
+          err instanceof TypeError ||
+          (err instanceof ClawBudsApiError && (err.code === 'TIMEOUT' || err.statusCode >= 500))
+        if (attempt >= this.retries || !(err instanceof ClawBudsRateLimitError || (retryable && transient))) {
+          throw err
+        }
+        if (err instanceof ClawBudsRateLimitError) {
+          if (err.retryAfterMs === null && MESSAGE_SEND_PATH.test(path)) {
+            err.retryAfterMs = await this.messageInterval()
+          }
+          delayMs = err.retryAfterMs ?? 1000 * 2 ** attempt
+        } else {
+          delayMs = 500 * 2 ** attempt + Math.floor(Math.random() * 250)
+        }
+        // The caller (or the outbox) is better placed to wait this long
+        if (delayMs > this.maxRetryDelayMs) throw err
+      }
+      await sleep(delayMs)
+    }
+  }
+
+  /** Minimum spacing between sends allowed by the account's maxMessagesPerHour, or null */
+  private async messageInterval(): Promise<number | null> {
+    if (this.maxMessagesPerHour === undefined) {
+      try {
+        this.maxMessagesPerHour = (await this.requestOnce<ClawConfigRecord>('GET', '/api/v1/me/config')).maxMessagesPerHour
+      } catch {
+        return null
+      }
+    }
+    return this.maxMessagesPerHour > 0 ? Math.ceil(3_600_000 / this.maxMessagesPerHour) : null
+  }
+
+  private async requestOnce<T>(
+    method: string,
+    path: string,
+    opts?: { body?: unknown; auth?: boolean; extraHeaders?: Record<string, string> },
   ): Promise<T> {
     const auth = opts?.auth !== false
     const bodyStr = opts?.body ? JSON.stringify(opts.body) : ''
@@ -950,6 +1185,7 @@ export class ClawBudsClient {
       if (!this.clawId || !this.privateKey) {
         throw new Error('Not authenticated: clawId and privateKey required')
       }
+      // Signed per attempt: the server rejects stale timestamps
       const timestamp = String(Date.now())
       const signMsg = buildSignMessage(method, path.split('?')[0], timestamp, bodyStr)
       const signature = sign(signMsg, this.privateKey)
@@ -979,14 +1215,34 @@ export class ClawBudsClient {
     }
     clearTimeout(timeout)
 
-    const json = (await res.json()) as ApiResponse<T>
+    const retryAfterMs = parseRetryAfter(res.headers?.get('retry-after'))
+
+    // Proxies and load balancers answer with HTML error pages
+    const contentType = res.headers?.get('content-type') ?? 'application/json'
+    if (!contentType.includes('json')) {
+      const text = await res.text().catch(() => '')
+      const message = `HTTP ${res.status}${text ? `: ${excerpt(text)}` : ''}`
+      throw res.ok
+        ? new ClawBudsApiError('INVALID_RESPONSE', `Expected JSON from server, got ${contentType}`, res.status)
+        : apiErrorFor(res.status, `HTTP_${res.status}`, message, undefined, retryAfterMs)
+    }
+
+    let json: ApiResponse<T>
+    try {
+      json = (await res.json()) as ApiResponse<T>
+    } catch {
+      throw res.ok
+        ? new ClawBudsApiError('INVALID_RESPONSE', 'Malformed JSON from server', res.status)
+        : apiErrorFor(res.status, `HTTP_${res.status}`, `HTTP ${res.status}`, undefined, retryAfterMs)
+    }
 
     if (!json.success || !res.ok) {
-      throw new ClawBudsApiError(
+      throw apiErrorFor(
+        res.status,
         json.error?.code ?? 'UNKNOWN',
         json.error?.message ?? `HTTP ${res.status}`,
-        res.status,
         json.error?.details,
+        retryAfterMs,
       )
     }
 
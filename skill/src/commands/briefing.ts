@@ -9,7 +9,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const briefingCommand = new Command('briefing').description('Manage daily social briefings')
 
@@ -58,7 +58,7 @@ briefingCommand
         success('✓ 已标记为已读')
       }
     } catch (err: any) {
-      error(`获取简报失败: ${err.message}`)
+      reportError(err, '获取简报失败')
     }
   })
 
@@ -117,7 +117,7 @@ briefingCommand
       info('')
       info(`未读: ${result.meta.unread} 条`)
     } catch (err: any) {
-      error(`获取历史失败: ${err.message}`)
+      reportError(err, '获取历史失败')
     }
   })
 
@@ -147,7 +147,7 @@ briefingCommand
       success(`✓ 简报已发布 (id: ${result.id})`)
       info(`生成时间: ${result.generatedAt}`)
     } catch (err: any) {
-      error(`发布失败: ${err.message}`)
+      reportError(err, '发布失败')
     }
   })
 
@@ -181,6 +181,6 @@ briefingCommand
       await client.acknowledgeBriefing(briefingId)
       success(`✓ 简报已标记为已读`)
     } catch (err: any) {
-      error(`标记失败: ${err.message}`)
+      reportError(err, '标记失败')
     }
   })
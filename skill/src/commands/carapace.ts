@@ -8,6 +8,7 @@
  * clawbuds carapace restore <version>  — 从服务器获取版本，写入本地文件，推送快照
  *
  * Phase 12b: server 不再持有 carapace.md，所有文件操作在客户端完成。
+ * 每个 profile 有自己的 carapace 文件（见 config.ts carapacePath）。
  * 修改后调用 POST /carapace/snapshot 将新版本推送到服务器历史。
  */
 
@@ -17,7 +18,8 @@ import { join } from 'node:path'
 import { homedir } from 'node:os'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
+import { carapacePath, getCurrentProfileName } from '../config.js'
 
 export const carapaceCommand = new Command('carapace').description('Manage carapace.md evolution')
 
@@ -25,19 +27,19 @@ addProfileOption(carapaceCommand)
 
 // ─── 本地 carapace.md 路径工具 ────────────────────────────────────────────────
 
-function getCarapaceFilePath(): string {
+function getCarapaceFilePath(profileName: string): string {
   const configDir = process.env['CLAWBUDS_CONFIG_DIR'] ?? join(homedir(), '.clawbuds')
-  return join(configDir, 'references', 'carapace.md')
+  return carapacePath(configDir, profileName, getCurrentProfileName())
 }
 
-function readLocalCarapace(): string {
-  const filePath = getCarapaceFilePath()
+function readLocalCarapace(profileName: string): string {
+  const filePath = getCarapaceFilePath(profileName)
   if (!existsSync(filePath)) return ''
   return readFileSync(filePath, 'utf-8')
 }
 
-function writeLocalCarapace(content: string): void {
-  const filePath = getCarapaceFilePath()
+function writeLocalCarapace(profileName: string, content: string): void {
+  const filePath = getCarapaceFilePath(profileName)
   mkdirSync(join(filePath, '..'), { recursive: true })
   writeFileSync(filePath, content, 'utf-8')
 }
@@ -52,7 +54,7 @@ carapaceCommand
     if (!ctx) return
 
     try {
-      const content = readLocalCarapace()
+      const content = readLocalCarapace(ctx.profileName)
       if (!content) {
         info('本地 carapace.md 为空或不存在。使用 `clawbuds carapace restore` 从服务器获取历史版本。')
         return
@@ -62,8 +64,7 @@ carapaceCommand
       info('─'.repeat(60))
       info('使用 `clawbuds carapace allow` 或 `clawbuds carapace escalate` 快速追加规则')
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`读取 carapace.md 失败: ${message}`)
+      reportError(err, '读取 carapace.md 失败')
     }
   })
 
@@ -86,17 +87,16 @@ carapaceCommand
     })
 
     try {
-      const current = readLocalCarapace()
+      const current = readLocalCarapace(ctx.profileName)
       const noteStr = opts.note ? ` — ${opts.note}` : ''
       const rule = `\n## Allow: ${opts.friend}\n\n- 范围：${opts.scope}${noteStr}\n`
       const updated = current + rule
 
-      writeLocalCarapace(updated)
+      writeLocalCarapace(ctx.profileName, updated)
       const result = await client.pushCarapaceSnapshot(updated, 'allow')
       success(`已添加授权规则（carapace.md 版本 ${result.version}）`)
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`添加授权规则失败: ${message}`)
+      reportError(err, '添加授权规则失败')
     }
   })
 
@@ -118,16 +118,15 @@ carapaceCommand
     })
 
     try {
-      const current = readLocalCarapace()
+      const current = readLocalCarapace(ctx.profileName)
       const rule = `\n## Escalate\n\n- 条件：${opts.when}\n- 操作：${opts.action}\n`
       const updated = current + rule
 
-      writeLocalCarapace(updated)
+      writeLocalCarapace(ctx.profileName, updated)
       const result = await client.pushCarapaceSnapshot(updated, 'escalate')
       success(`已添加升级规则（carapace.md 版本 ${result.version}）`)
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`添加升级规则失败: ${message}`)
+      reportError(err, '添加升级规则失败')
     }
   })
 
@@ -174,8 +173,7 @@ carapaceCommand
       info('使用 `clawbuds carapace diff <版本>` 查看变更详情')
       info('使用 `clawbuds carapace restore <版本>` 回滚')
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`获取历史失败: ${message}`)
+      reportError(err, '获取历史失败')
     }
   })
 
@@ -202,7 +200,7 @@ carapaceCommand
 
     try {
       const [localContent, targetRecord] = await Promise.all([
-        Promise.resolve(readLocalCarapace()),
+        Promise.resolve(readLocalCarapace(ctx.profileName)),
         client.getCarapaceVersion(versionNum),
       ])
 
@@ -240,8 +238,7 @@ carapaceCommand
         info('（无差异）')
       }
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`获取 diff 失败: ${message}`)
+      reportError(err, '获取 diff 失败')
     }
   })
 
@@ -291,13 +288,12 @@ carapaceCommand
       const r = restored as { content: string; version: number }
 
       // 2. 写入本地文件
-      writeLocalCarapace(r.content)
+      writeLocalCarapace(ctx.profileName, r.content)
 
       // 3. 推送快照到服务器（记录恢复操作）
       const pushed = await client.pushCarapaceSnapshot(r.content, 'restore')
       success(`已从服务器版本 ${r.version} 恢复本地 carapace.md（新快照版本 ${pushed.version}）`)
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`回滚失败: ${message}`)
+      reportError(err, '回滚失败')
     }
   })
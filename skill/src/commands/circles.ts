@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error, info, formatFriend } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success, info, formatFriend } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const circlesCommand = new Command('circles')
   .description('Manage friend circles (groups)')
@@ -33,8 +33,7 @@ circlesCommand
         info(`  ${l.name} [${l.id.slice(0, 8)}]${desc}`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -56,8 +55,7 @@ circlesCommand
       const circle = await client.createCircle(name, opts.desc)
       success(`Circle "${circle.name}" created (ID: ${circle.id.slice(0, 8)})`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -78,8 +76,7 @@ circlesCommand
       await client.deleteCircle(circleId)
       success('Circle deleted.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -107,8 +104,7 @@ circlesCommand
         info(formatFriend(m))
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -129,8 +125,7 @@ circlesCommand
       await client.addFriendToCircle(circleId, clawId)
       success(`Added ${clawId} to layer.`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -151,7 +146,6 @@ circlesCommand
       await client.removeFriendFromCircle(circleId, clawId)
       success(`Removed ${clawId} from layer.`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
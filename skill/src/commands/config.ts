@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const configCommand = new Command('config')
   .description('Manage hard constraint configuration')
@@ -29,8 +29,7 @@ configCommand
       info(`  briefingCron:       ${cfg.briefingCron}`)
       info(`  updatedAt:          ${cfg.updatedAt}`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -89,7 +88,6 @@ configCommand
       info(`  maxPearlsPerDay:    ${cfg.maxPearlsPerDay}`)
       info(`  briefingCron:       ${cfg.briefingCron}`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
@@ -1,10 +1,20 @@
 import { Command } from 'commander'
 import { spawn } from 'node:child_process'
-import { existsSync, readFileSync, openSync } from 'node:fs'
+import { existsSync, readFileSync, openSync, readSync, closeSync, rmSync, statSync } from 'node:fs'
 import { homedir } from 'node:os'
 import { join } from 'node:path'
 import { loadState, saveState, listProfiles, getConfigDir } from '../config.js'
 import { info, error, success } from '../output.js'
+import { loadOrCreateLocalToken } from '../local-api.js'
+import type { ProfileReloadResult } from '../profile-reload.js'
+import { groupLogEntries, isLogLevel, LOG_LEVELS, matchesLogFilter, type LogFilter } from '../logger.js'
+import {
+  loadDeadLetters,
+  findDeadLetter,
+  dropDeadLetters,
+  replayDeadLetters,
+  deadLetterPath,
+} from '../webhook-deliveries.js'
 
 export const daemonCommand = new Command('daemon').description('Daemon management')
 
@@ -35,14 +45,16 @@ daemonCommand
       } catch {}
     }
 
+    // The daemon writes and rotates daemon.log itself; anything printed outside
+    // its logger (crash traces) lands in daemon-output.log
     const configDir = getConfigDir()
-    const logPath = join(configDir, 'daemon.log')
-    const logFd = openSync(logPath, 'a')
+    const logPath = daemonLogPath()
+    const outputFd = openSync(join(configDir, 'daemon-output.log'), 'a')
 
     const child = spawn('clawbuds-daemon', [], {
       detached: true,
-      stdio: ['ignore', logFd, logFd],
-      env: { ...process.env, OPENCLAW_HOOKS_TOKEN: hooksToken },
+      stdio: ['ignore', outputFd, outputFd],
+      env: { ...process.env, OPENCLAW_HOOKS_TOKEN: hooksToken, CLAWBUDS_LOG_FILE: logPath },
     })
     child.unref()
 
@@ -98,3 +110,248 @@ daemonCommand
       error(`Daemon is not running (stale PID: ${pid})`)
     }
   })
+
+daemonCommand
+  .command('token')
+  .description('Print the local gateway token used to pair web UIs')
+  .option('--rotate', 'Generate a new token (takes effect after daemon restart)')
+  .action((opts: { rotate?: boolean }) => {
+    const configDir = getConfigDir()
+    if (opts.rotate) {
+      rmSync(join(configDir, 'local-token'), { force: true })
+    }
+    info(loadOrCreateLocalToken(configDir))
+  })
+
+function daemonLogPath(): string {
+  return process.env.CLAWBUDS_LOG_FILE || join(getConfigDir(), 'daemon.log')
+}
+
+function readLogEntries(path: string, filter: LogFilter): string[] {
+  try {
+    const lines = readFileSync(path, 'utf-8').split('\n').filter(Boolean)
+    return groupLogEntries(lines).filter((entry) => matchesLogFilter(entry, filter))
+  } catch {
+    return []
+  }
+}
+
+/** Print lines appended to the log from `offset` on, forever; starts over when the log is rotated */
+function followLog(path: string, offset: number, filter: LogFilter): void {
+  let partial = ''
+  setInterval(() => {
+    let size: number
+    try {
+      size = statSync(path).size
+    } catch {
+      return
+    }
+    if (size < offset) {
+      offset = 0
+      partial = ''
+    }
+    if (size === offset) return
+    const buf = Buffer.alloc(size - offset)
+    const fd = openSync(path, 'r')
+    try {
+      readSync(fd, buf, 0, buf.length, offset)
+    } finally {
+      closeSync(fd)
+    }
+    offset = size
+    const lines = (partial + buf.toString('utf-8')).split('\n')
+    partial = lines.pop() ?? ''
+    for (const entry of groupLogEntries(lines.filter(Boolean))) {
+      if (matchesLogFilter(entry, filter)) info(entry)
+    }
+  }, 500)
+}
+
+daemonCommand
+  .command('logs')
+  .description('Show the daemon log')
+  .option('-n, --lines <n>', 'Number of lines to show', '50')
+  .option('-f, --follow', 'Keep printing new lines')
+  .option('--level <level>', `Only this level and above (${LOG_LEVELS.join(', ')})`)
+  .option('--profile <name>', 'Only lines about this profile')
+  .action((opts: { lines: string; follow?: boolean; level?: string; profile?: string }) => {
+    const count = parseInt(opts.lines, 10)
+    if (!Number.isInteger(count) || count < 0) {
+      error('--lines must be a non-negative integer')
+      process.exitCode = 1
+      return
+    }
+    const level = opts.level?.toLowerCase()
+    if (level !== undefined && !isLogLevel(level)) {
+      error(`--level must be one of ${LOG_LEVELS.join(', ')}`)
+      process.exitCode = 1
+      return
+    }
+    const filter: LogFilter = { level, profile: opts.profile }
+    const path = daemonLogPath()
+    if (!existsSync(path) && !opts.follow) {
+      info(`No daemon log yet (${path}).`)
+      return
+    }
+
+    let entries = readLogEntries(path, filter)
+    if (entries.length < count) {
+      // Just rotated: the previous file has the rest
+      entries = [...readLogEntries(`${path}.1`, filter), ...entries]
+    }
+    for (const entry of entries.slice(Math.max(entries.length - count, 0))) info(entry)
+
+    if (opts.follow) followLog(path, existsSync(path) ? statSync(path).size : 0, filter)
+  })
+
+/** POST to the running daemon's local gateway with the local token; null when it cannot be reached */
+async function postToDaemon<T>(path: string): Promise<{ status: number; body: Partial<T> & { error?: string } } | null> {
+  const port = process.env.CLAWBUDS_LOCAL_PORT || '7878'
+  let res: Response
+  try {
+    res = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${loadOrCreateLocalToken(getConfigDir())}` },
+      signal: AbortSignal.timeout(5000),
+    })
+  } catch {
+    return null
+  }
+  const body = (await res.json().catch(() => ({}))) as Partial<T> & { error?: string }
+  return { status: res.status, body }
+}
+
+daemonCommand
+  .command('reload')
+  .description('Connect, disconnect or reconnect profiles to match config.json')
+  .action(async () => {
+    const res = await postToDaemon<ProfileReloadResult>('/local/daemon/reload')
+    if (!res) {
+      // Local gateway not running: the daemon also reloads on SIGHUP
+      const pid = Number(loadState()._daemonPid)
+      if (!pid) {
+        info('Daemon is not running')
+        return
+      }
+      try {
+        process.kill(pid, 'SIGHUP')
+        success(`Asked daemon to reload profiles (PID: ${pid})`)
+      } catch {
+        error(`Failed to signal daemon — process ${pid} not found`)
+        process.exitCode = 1
+      }
+      return
+    }
+    if (res.status !== 200) {
+      error(res.body.error ?? `Daemon answered ${res.status}`)
+      process.exitCode = 1
+      return
+    }
+
+    const { connected = [], disconnected = [], reconnected = [], failed = [] } = res.body
+    for (const name of connected) success(`Connected ${name}`)
+    for (const name of reconnected) success(`Reconnected ${name}`)
+    for (const name of disconnected) success(`Disconnected ${name}`)
+    for (const f of failed) error(`${f.profile}: ${f.error}`)
+    if (connected.length + reconnected.length + disconnected.length + failed.length === 0) {
+      info('Profiles already match config.json.')
+    }
+    if (failed.length > 0) process.exitCode = 1
+  })
+
+async function controlProfile(action: 'connect' | 'disconnect', profileName: string): Promise<void> {
+  const res = await postToDaemon<{ connected: boolean }>(`/local/daemon/profiles/${encodeURIComponent(profileName)}/${action}`)
+  if (!res) {
+    error('Cannot reach the daemon local gateway — is the daemon running?')
+    process.exitCode = 1
+    return
+  }
+  if (res.status !== 200) {
+    error(res.body.error ?? `Daemon answered ${res.status}`)
+    process.exitCode = 1
+    return
+  }
+  success(action === 'connect' ? `Connected ${profileName}` : `Disconnected ${profileName} (until \`daemon connect\`)`)
+}
+
+daemonCommand
+  .command('connect <profile>')
+  .description('Connect a profile in the running daemon')
+  .action((profileName: string) => controlProfile('connect', profileName))
+
+daemonCommand
+  .command('disconnect <profile>')
+  .description('Disconnect a profile in the running daemon (kept offline across reloads)')
+  .action((profileName: string) => controlProfile('disconnect', profileName))
+
+const deliveriesCommand = daemonCommand
+  .command('deliveries')
+  .description('Webhook notifications that could not be delivered')
+  .action(() => {
+    const letters = loadDeadLetters()
+    if (letters.length === 0) {
+      info('No undelivered webhook notifications.')
+      return
+    }
+    info(`Undelivered webhook notifications (${letters.length}, ${deadLetterPath()}):`)
+    for (const letter of letters) {
+      info(`  [${letter.id.slice(0, 8)}] ${letter.payload.type} → ${letter.url}`)
+      info(`      ${letter.attempts} attempt(s), last error: ${letter.lastError}, failed ${letter.failedAt}`)
+      info(`      ${letter.payload.summary.split('\n')[0].slice(0, 100)}`)
+    }
+  })
+
+/** Resolve ids or unique prefixes; prints an error and returns null when one does not match */
+function resolveDeadLetterIds(ids: string[]): string[] | null {
+  const resolved: string[] = []
+  for (const id of ids) {
+    const letter = findDeadLetter(id)
+    if (!letter) {
+      error(`No single undelivered notification matches ${id}`)
+      process.exitCode = 1
+      return null
+    }
+    resolved.push(letter.id)
+  }
+  return resolved
+}
+
+deliveriesCommand
+  .command('replay [ids...]')
+  .description('Send undelivered notifications again (signed with CLAWBUDS_WEBHOOK_SECRET)')
+  .option('--all', 'Replay every undelivered notification')
+  .action(async (ids: string[], opts: { all?: boolean }) => {
+    if (!opts.all && ids.length === 0) {
+      error('Give one or more delivery ids or --all')
+      process.exitCode = 1
+      return
+    }
+    const resolved = opts.all ? undefined : resolveDeadLetterIds(ids)
+    if (resolved === null) return
+
+    if (loadDeadLetters().length === 0) {
+      info('No undelivered webhook notifications.')
+      return
+    }
+    const { delivered, failed } = await replayDeadLetters(process.env.CLAWBUDS_WEBHOOK_SECRET || '', resolved)
+    if (delivered.length > 0) success(`Delivered ${delivered.length} notification(s).`)
+    for (const f of failed) {
+      error(`[${f.id.slice(0, 8)}] ${f.error}`)
+    }
+    if (failed.length > 0) process.exitCode = 1
+  })
+
+deliveriesCommand
+  .command('drop [ids...]')
+  .description('Discard undelivered notifications')
+  .option('--all', 'Discard every undelivered notification')
+  .action((ids: string[], opts: { all?: boolean }) => {
+    if (!opts.all && ids.length === 0) {
+      error('Give one or more delivery ids or --all')
+      process.exitCode = 1
+      return
+    }
+    const resolved = opts.all ? undefined : resolveDeadLetterIds(ids)
+    if (resolved === null) return
+    success(`Removed ${dropDeadLetters(resolved)} notification(s).`)
+  })
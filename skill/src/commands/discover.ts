@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error, info, formatSearchResult } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success, info, formatSearchResult } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const discoverCommand = new Command('discover')
   .description('Discover and search for other claws')
@@ -53,8 +53,7 @@ discoverCommand
         info(`\n(${remaining} more results available)`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -82,7 +81,6 @@ discoverCommand
         info(formatSearchResult(claw))
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
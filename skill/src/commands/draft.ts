@@ -8,8 +8,8 @@
 
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success, info } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const draftCommand = new Command('draft').description('Manage message drafts')
 
@@ -46,8 +46,7 @@ draftCommand
       info(`原因:   ${opts.reason}`)
       info('使用 `clawbuds draft list --pending` 查看所有待审批草稿')
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`保存草稿失败: ${message}`)
+      reportError(err, '保存草稿失败')
     }
   })
 
@@ -101,8 +100,7 @@ draftCommand
         info('使用 `clawbuds draft approve <id>` 批准草稿并发送')
       }
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`获取草稿列表失败: ${message}`)
+      reportError(err, '获取草稿列表失败')
     }
   })
 
@@ -127,8 +125,7 @@ draftCommand
       info(`消息 ID: ${result.messageId}`)
       info(`收件人:  ${result.draft['toClawId']}`)
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`批准草稿失败: ${message}`)
+      reportError(err, '批准草稿失败')
     }
   })
 
@@ -152,7 +149,6 @@ draftCommand
       success(`草稿已拒绝`)
       info(`ID: ${draft['id']}  →  状态: rejected`)
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`拒绝草稿失败: ${message}`)
+      reportError(err, '拒绝草稿失败')
     }
   })
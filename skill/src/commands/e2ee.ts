@@ -1,8 +1,19 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { ed25519PrivateToX25519, x25519GetPublicKey } from '../crypto/x25519.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { x25519GetPublicKey } from '../crypto/x25519.js'
+import { currentX25519PublicKey } from '../crypto/envelope.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
+import { updateProfileConfig } from '../config.js'
+import {
+  loadE2eeIdentity,
+  rotateE2eeKey,
+  loadPins,
+  pinKey,
+  unpinKey,
+  safetyNumber,
+  safetyQrText,
+} from '../e2ee-keys.js'
 
 export const e2eeCommand = new Command('e2ee')
   .description('End-to-end encryption management')
@@ -23,17 +34,17 @@ e2eeCommand
     })
 
     try {
-      // Derive X25519 key from Ed25519 private key
-      const x25519Private = ed25519PrivateToX25519(ctx.privateKey)
-      const x25519Public = x25519GetPublicKey(x25519Private)
+      // Derived from the Ed25519 key unless `e2ee rotate` has replaced it
+      const x25519Public = currentX25519PublicKey(
+        loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey),
+      )
 
       const key = await client.registerE2eeKey(x25519Public)
       success('E2EE enabled!')
       info(`  Public key:   ${key.x25519PublicKey.slice(0, 16)}...`)
       info(`  Fingerprint:  ${key.keyFingerprint}`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -58,12 +69,12 @@ e2eeCommand
       if (key.rotatedAt) {
         info(`  Last rotated: ${key.rotatedAt}`)
       }
+      info(`  Auto-encrypt: ${ctx.profile.autoEncrypt ? 'on' : 'off'}`)
     } catch (err) {
       if ((err as { statusCode?: number }).statusCode === 404) {
         info('E2EE is not enabled. Run "clawbuds e2ee setup" to enable.')
       } else {
-        error((err as Error).message)
-        process.exitCode = 1
+        reportError(err)
       }
     }
   })
@@ -85,8 +96,7 @@ e2eeCommand
       await client.deleteE2eeKey()
       success('E2EE disabled. Your public key has been removed.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -110,8 +120,115 @@ e2eeCommand
       if ((err as { statusCode?: number }).statusCode === 404) {
         info(`${clawId} has no E2EE key registered.`)
       } else {
-        error((err as Error).message)
-        process.exitCode = 1
+        reportError(err)
+      }
+    }
+  })
+
+e2eeCommand
+  .command('rotate')
+  .description('Generate a new E2EE key and register it (old keys are kept to read past messages)')
+  .action(async (opts) => {
+    const ctx = getProfileContext(opts)
+    if (!ctx) return
+
+    const client = new ClawBudsClient({
+      serverUrl: ctx.profile.serverUrl,
+      clawId: ctx.profile.clawId,
+      privateKey: ctx.privateKey,
+    })
+
+    try {
+      const key = await client.registerE2eeKey(x25519GetPublicKey(rotateE2eeKey(ctx.profileName)))
+      success('E2EE key rotated!')
+      info(`  Public key:   ${key.x25519PublicKey.slice(0, 16)}...`)
+      info(`  Fingerprint:  ${key.keyFingerprint}`)
+      info('Contacts who verified you will be warned and need to verify again.')
+    } catch (err) {
+      reportError(err)
+    }
+  })
+
+e2eeCommand
+  .command('verify <clawId>')
+  .description('Show the safety number for a contact; --confirm pins their key after comparing')
+  .option('--confirm', 'Mark the current key as verified')
+  .option('--remove', 'Forget the verified key for this contact')
+  .action(async (clawId: string, opts: { confirm?: boolean; remove?: boolean; profile?: string }, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    if (opts.remove) {
+      if (unpinKey(ctx.profileName, clawId)) {
+        success(`Verification removed for ${clawId}.`)
+      } else {
+        info(`${clawId} was not verified.`)
+      }
+      return
+    }
+
+    const client = new ClawBudsClient({
+      serverUrl: ctx.profile.serverUrl,
+      clawId: ctx.profile.clawId,
+      privateKey: ctx.privateKey,
+    })
+
+    try {
+      const theirs = await client.getE2eeKey(clawId)
+      const me = {
+        clawId: ctx.profile.clawId,
+        x25519PublicKey: currentX25519PublicKey(
+          loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey),
+        ),
+      }
+
+      if (opts.confirm) {
+        pinKey(ctx.profileName, theirs)
+        success(`Verified ${clawId} (fingerprint ${theirs.keyFingerprint}).`)
+        return
+      }
+
+      const pin = loadPins(ctx.profileName)[clawId]
+      if (!pin) {
+        info('Status:        not verified')
+      } else if (pin.changedAt || pin.x25519PublicKey !== theirs.x25519PublicKey) {
+        info(`Status:        KEY CHANGED since verification on ${pin.verifiedAt}`)
+      } else {
+        info(`Status:        verified on ${pin.verifiedAt}`)
+      }
+      info(`Fingerprint:   ${theirs.keyFingerprint}`)
+      info('Safety number (compare with your contact out of band):')
+      const groups = safetyNumber(me, theirs).split(' ')
+      for (let i = 0; i < groups.length; i += 4) {
+        info(`  ${groups.slice(i, i + 4).join(' ')}`)
+      }
+      info(`QR text:       ${safetyQrText(me, theirs)}`)
+      info(`If they match, run "clawbuds e2ee verify ${clawId} --confirm".`)
+    } catch (err) {
+      if ((err as { statusCode?: number }).statusCode === 404) {
+        info(`${clawId} has no E2EE key registered.`)
+      } else {
+        reportError(err)
       }
     }
   })
+
+e2eeCommand
+  .command('auto-encrypt <mode>')
+  .description('Always encrypt messages when every recipient has an E2EE key (on|off)')
+  .action((mode: string, opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    if (mode !== 'on' && mode !== 'off') {
+      error('Mode must be "on" or "off"')
+      process.exitCode = 1
+      return
+    }
+
+    updateProfileConfig(ctx.profileName, { autoEncrypt: mode === 'on' })
+    success(`Auto-encrypt ${mode} for profile '${ctx.profileName}'.`)
+    if (mode === 'on') {
+      info('Messages fall back to plaintext when a recipient has no key; use --encrypt to require encryption.')
+    }
+  })
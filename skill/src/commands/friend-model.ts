@@ -7,7 +7,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { error, info, success } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 import type { FriendModelProfile } from '../types.js'
 
 // ── 时间格式化 ──────────────────────────────────────
@@ -134,7 +134,7 @@ export function createFriendModelUpdateCommand(): Command {
       if (data.inferredNeeds) info(`推断需求: ${data.inferredNeeds.join(', ')}`)
       if (data.knowledgeGaps) info(`知识盲区: ${data.knowledgeGaps.join(', ')}`)
     } catch (err: any) {
-      error(`更新失败: ${err.message}`)
+      reportError(err, '更新失败')
     }
   })
 
@@ -172,7 +172,6 @@ friendModelCommand.action(async (friendId: string | undefined, opts) => {
       process.exitCode = 1
     }
   } catch (err) {
-    error((err as Error).message)
-    process.exitCode = 1
+    reportError(err)
   }
 })
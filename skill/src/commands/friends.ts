@@ -1,7 +1,8 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info, formatFriend, formatFriendRequest } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
+import { saveFriendsMirror } from '../local-mirror.js'
 
 export const friendsCommand = new Command('friends')
   .description('Manage friends')
@@ -23,6 +24,7 @@ friendsCommand
 
     try {
       const friends = await client.listFriends()
+      saveFriendsMirror(ctx.profileName, friends)
       if (friends.length === 0) {
         info('No friends yet.')
         return
@@ -32,8 +34,7 @@ friendsCommand
         info(formatFriend(f))
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -58,8 +59,7 @@ friendsCommand
         success(`Friend request sent to ${clawId}`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -87,8 +87,7 @@ friendsCommand
         info(formatFriendRequest(r))
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -121,8 +120,7 @@ friendsCommand
       await client.acceptFriendRequest(fullId)
       success('Friend request accepted!')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -155,8 +153,7 @@ friendsCommand
       await client.rejectFriendRequest(fullId)
       success('Friend request rejected.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -201,8 +198,7 @@ friendsCommand
         info(`\n⚠️  ${(atRisk as any[]).length} at-risk relationship(s) detected.`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -230,8 +226,7 @@ friendsCommand
       await client.setRelationshipLayer(clawId, layer as 'core' | 'sympathy' | 'active' | 'casual')
       success(`Pinned ${clawId} to layer: ${layer}`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -252,7 +247,6 @@ friendsCommand
       await client.removeFriend(clawId)
       success(`Removed ${clawId} from friends.`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
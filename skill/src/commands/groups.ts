@@ -1,7 +1,24 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error, info, formatGroup, formatGroupMember, formatGroupInvitation, formatInboxEntry } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success, info, formatGroup, formatGroupMember, formatGroupInvitation, formatInboxEntry } from '../output.js'
+import { getProfileContext, addProfileOption, reportSendOutcome, reportError, type ProfileContext } from './helpers.js'
+import {
+  distributeSenderKey,
+  decryptGroupMessages,
+  forgetSenderKey,
+  type GroupE2eeContext,
+} from '../group-e2ee.js'
+import { loadE2eeIdentity } from '../e2ee-keys.js'
+import { LocalStore, fromGroupMessage } from '../local-store.js'
+import { sendOrQueue } from '../outbox.js'
+
+function groupE2eeContext(ctx: ProfileContext, client: ClawBudsClient): GroupE2eeContext {
+  return {
+    client,
+    profileName: ctx.profileName,
+    identity: loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey),
+  }
+}
 
 export const groupsCommand = new Command('groups')
   .description('Manage groups')
@@ -33,9 +50,15 @@ groupsCommand
       })
       success(`Group created: ${group.name} (${group.id})`)
       info(formatGroup(group))
+      if (group.encrypted) {
+        const result = await distributeSenderKey(groupE2eeContext(ctx, client), group.id)
+        info(`Sender key generation ${result.keyGeneration} created.`)
+        if (result.changedKeys.length > 0) {
+          info(`E2EE key changed since verification, not shared with: ${result.changedKeys.join(', ')}`)
+        }
+      }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -63,8 +86,7 @@ groupsCommand
         info(formatGroup(g))
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -90,8 +112,7 @@ groupsCommand
         info(formatGroupMember(m))
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -112,8 +133,7 @@ groupsCommand
       await client.inviteToGroup(groupId, clawId)
       success(`Invited ${clawId} to the group.`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -134,8 +154,7 @@ groupsCommand
       await client.joinGroup(groupId)
       success('Joined the group.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -154,10 +173,10 @@ groupsCommand
 
     try {
       await client.leaveGroup(groupId)
+      forgetSenderKey(ctx.profileName, groupId)
       success('Left the group.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -187,8 +206,7 @@ groupsCommand
       info('\nTo accept an invitation, run:')
       info('  clawbuds groups join <groupId>')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -206,13 +224,14 @@ groupsCommand
     })
 
     try {
-      const result = await client.sendGroupMessage(groupId, {
+      const outcome = await sendOrQueue({ ...groupE2eeContext(ctx, client), client }, {
+        type: 'group_message',
+        groupId,
         blocks: [{ type: 'text', text: message }],
       })
-      success(`Message sent to ${result.recipientCount} members.`)
+      reportSendOutcome(outcome)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -231,23 +250,52 @@ groupsCommand
     })
 
     try {
-      const messages = await client.getGroupMessages(groupId, {
+      const raw = await client.getGroupMessages(groupId, {
         limit: parseInt(opts.limit, 10),
       })
-      if (messages.length === 0) {
+      if (raw.length === 0) {
         info('No messages in this group.')
         return
       }
+      const messages = await decryptGroupMessages(groupE2eeContext(ctx, client), groupId, raw)
+      LocalStore.append(ctx.profileName, messages.map((m) => fromGroupMessage(groupId, m)))
       for (const msg of messages) {
         const text = msg.blocks.map((b) => {
           if (b.type === 'text') return b.text
+          if (b.type === 'group_encrypted') return '[encrypted — no sender key]'
           return `[${b.type}]`
         }).join(' ')
         info(`  ${msg.fromClawId}: ${text}`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
+    }
+  })
+
+groupsCommand
+  .command('rotate-key <groupId>')
+  .description('Rotate your sender key for an encrypted group and redistribute it')
+  .action(async (groupId: string, opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    const client = new ClawBudsClient({
+      serverUrl: ctx.profile.serverUrl,
+      clawId: ctx.profile.clawId,
+      privateKey: ctx.privateKey,
+    })
+
+    try {
+      const result = await distributeSenderKey(groupE2eeContext(ctx, client), groupId, { rotate: true })
+      success(`Sender key rotated to generation ${result.keyGeneration} (${result.distributedTo.length} members).`)
+      if (result.missingKeys.length > 0) {
+        info(`No E2EE key for: ${result.missingKeys.join(', ')}`)
+      }
+      if (result.changedKeys.length > 0) {
+        info(`E2EE key changed since verification, not shared with: ${result.changedKeys.join(', ')}`)
+      }
+    } catch (err) {
+      reportError(err)
     }
   })
 
@@ -266,9 +314,9 @@ groupsCommand
 
     try {
       await client.deleteGroup(groupId)
+      forgetSenderKey(ctx.profileName, groupId)
       success('Group deleted.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
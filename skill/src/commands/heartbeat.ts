@@ -5,8 +5,8 @@
 
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success, info } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const heartbeatCommand = new Command('heartbeat')
   .description('Manage heartbeats')
@@ -37,8 +37,7 @@ heartbeatCommand
       })
       success(`Heartbeat sent to ${friendId}.`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -70,7 +69,6 @@ heartbeatCommand
       info(`  Received at:   ${hb.receivedAt}`)
       success('Done.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
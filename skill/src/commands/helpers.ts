@@ -1,6 +1,14 @@
 import type { Command } from 'commander'
 import { getCurrentProfileName, getProfile, loadPrivateKey, type ProfileConfig } from '../config.js'
-import { error, info } from '../output.js'
+import { error, info, success } from '../output.js'
+import {
+  ClawBudsApiError,
+  ClawBudsAuthError,
+  ClawBudsNotFoundError,
+  ClawBudsRateLimitError,
+  ClawBudsValidationError,
+} from '../client.js'
+import type { SendOutcome } from '../outbox.js'
 
 export interface ProfileContext {
   profile: ProfileConfig
@@ -73,3 +81,49 @@ export function getProfileContext(opts: { profile?: string }, cmd?: Command): Pr
 export function addProfileOption(command: import('commander').Command): void {
   command.option('--profile <name>', 'Use specific profile instead of default')
 }
+
+/**
+ * Print the result of sendOrQueue(): the delivery summary, or where the
+ * message waits when the server could not be reached.
+ */
+export function reportSendOutcome(outcome: SendOutcome): void {
+  if (outcome.queued) {
+    info(`Server unreachable (${outcome.item.lastError}); queued in outbox as ${outcome.item.id.slice(0, 8)}.`)
+    info('The daemon retries automatically, or run: clawbuds outbox retry')
+    return
+  }
+  for (const note of outcome.notes) info(note)
+  success(outcome.summary)
+}
+
+/** Process exit codes, so scripts and agents can tell failures apart */
+export const EXIT_CODES = {
+  failure: 1,
+  auth: 3,
+  notFound: 4,
+  validation: 5,
+  rateLimited: 6,
+  /** Server unreachable, timed out or 5xx */
+  unavailable: 7,
+} as const
+
+export function exitCodeFor(err: unknown): number {
+  if (err instanceof ClawBudsAuthError) return EXIT_CODES.auth
+  if (err instanceof ClawBudsNotFoundError) return EXIT_CODES.notFound
+  if (err instanceof ClawBudsValidationError) return EXIT_CODES.validation
+  if (err instanceof ClawBudsRateLimitError) return EXIT_CODES.rateLimited
+  if (err instanceof ClawBudsApiError && (err.code === 'TIMEOUT' || err.statusCode >= 500)) return EXIT_CODES.unavailable
+  // fetch() reports DNS/connection failures as TypeError("fetch failed")
+  if (err instanceof TypeError && err.message === 'fetch failed') return EXIT_CODES.unavailable
+  return EXIT_CODES.failure
+}
+
+/** Print a command failure (optionally prefixed with what was attempted) and set the exit code */
+export function reportError(err: unknown, context?: string): void {
+  const message = err instanceof Error ? err.message : String(err)
+  error(context ? `${context}: ${message}` : message)
+  if (err instanceof ClawBudsRateLimitError && err.retryAfterMs !== null) {
+    info(`Rate limited; try again in ${Math.ceil(err.retryAfterMs / 1000)}s.`)
+  }
+  process.exitCode = exitCodeFor(err)
+}
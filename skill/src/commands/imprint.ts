@@ -6,7 +6,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const imprintCommand = new Command('imprint').description('Manage emotional milestone imprints')
 
@@ -52,7 +52,7 @@ imprintCommand
       info(`好友: ${opts.friendId} | 类型: ${opts.type}`)
       info(`摘要: ${opts.summary}`)
     } catch (err: any) {
-      error(`记录失败: ${err.message}`)
+      reportError(err, '记录失败')
     }
   })
 
@@ -92,6 +92,6 @@ imprintCommand
         info(`${time}  ${type}  ${summary}`)
       }
     } catch (err: any) {
-      error(`获取失败: ${err.message}`)
+      reportError(err, '获取失败')
     }
   })
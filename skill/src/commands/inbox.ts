@@ -1,7 +1,10 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { error, info, formatInboxEntry } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { info, formatInboxEntry } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
+import { envelopeSenders, loadE2eeIdentity, refreshSenderKeys } from '../e2ee-keys.js'
+import { readCache } from '../cache.js'
+import { LocalStore, fromInboxEntry } from '../local-store.js'
 
 export const inboxCommand = new Command('inbox')
   .description('View inbox messages')
@@ -9,6 +12,7 @@ export const inboxCommand = new Command('inbox')
   .option('--limit <n>', 'Max entries to show', '20')
   .option('--ack', 'Acknowledge entries after reading')
   .option('--count', 'Show unread count only')
+  .option('--cached', "Read the daemon's local event cache instead of the server")
 
 addProfileOption(inboxCommand)
 
@@ -16,6 +20,21 @@ inboxCommand.action(async (opts) => {
   const ctx = getProfileContext(opts)
   if (!ctx) return
 
+  if (opts.cached) {
+    const entries = readCache(ctx.profileName, { limit: Number.MAX_SAFE_INTEGER })
+      .flatMap((e) => (e.type === 'message.new' ? [e.data] : []))
+      .slice(-parseInt(opts.limit, 10))
+    if (entries.length === 0) {
+      info('No cached messages (is the daemon running for this profile?).')
+      return
+    }
+    const identity = loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey)
+    for (const entry of entries) {
+      info(formatInboxEntry(entry, identity))
+    }
+    return
+  }
+
   const client = new ClawBudsClient({
     serverUrl: ctx.profile.serverUrl,
     clawId: ctx.profile.clawId,
@@ -39,9 +58,12 @@ inboxCommand.action(async (opts) => {
       return
     }
 
+    await refreshSenderKeys(client, ctx.profileName, envelopeSenders(entries.map((e) => e.message)))
+    const identity = loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey)
     for (const entry of entries) {
-      info(formatInboxEntry(entry))
+      info(formatInboxEntry(entry, identity))
     }
+    LocalStore.append(ctx.profileName, entries.map((e) => fromInboxEntry(e, identity)))
 
     if (opts.ack && entries.length > 0) {
       const ids = entries.map((e) => e.id)
@@ -49,7 +71,6 @@ inboxCommand.action(async (opts) => {
       info(`\nAcknowledged ${result.acknowledged} entries.`)
     }
   } catch (err) {
-    error((err as Error).message)
-    process.exitCode = 1
+    reportError(err)
   }
 })
@@ -2,8 +2,8 @@ import { Command } from 'commander'
 import { existsSync, readFileSync, writeFileSync } from 'node:fs'
 import { join } from 'node:path'
 import { ClawBudsClient } from '../client.js'
-import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success, info } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 import { ensureConfigDir } from '../config.js'
 
 function getTagsPath(configDir: string, profileName: string): string {
@@ -116,7 +116,7 @@ learnTagsCommand.action(async (opts) => {
       saveTags(configDir, ctx.profileName, data)
       success(`Synced ${data.tags.length} tags to server profile.`)
     } catch (err) {
-      error(`Sync failed: ${(err as Error).message}`)
+      reportError(err, 'Sync failed')
     }
     return
   }
@@ -6,7 +6,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const micromoltCommand = new Command('micromolt').description('Manage Micro-Molt suggestions')
 
@@ -64,8 +64,7 @@ micromoltCommand
         }
       }
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err)
-      error(`获取建议失败: ${message}`)
+      reportError(err, '获取建议失败')
     }
   })
 
@@ -98,8 +97,7 @@ async function applyOrSkip(
     await client.applyMicroMoltSuggestion({ suggestionIndex: index, confirmed: true })
     success(`    已应用`)
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : String(err)
-    error(`    应用失败: ${message}`)
+    reportError(err, '    应用失败')
   }
   info('')
 }
@@ -0,0 +1,129 @@
+import { Command } from 'commander'
+import { ClawBudsClient } from '../client.js'
+import { error, info } from '../output.js'
+import { getProfileContext, addProfileOption } from './helpers.js'
+import { defaultPluginTypes, type NotificationEvent } from '../notification-plugin.js'
+import {
+  loadRoutingRules,
+  routingRulesPath,
+  routeNotification,
+  type RoutingRule,
+  type RoutingRules,
+} from '../notification-routing.js'
+
+export const notificationsCommand = new Command('notifications')
+  .description('Daemon notification routing (notification-rules-<profile>.json)')
+
+addProfileOption(notificationsCommand)
+
+/** Prints the error and returns undefined when the file is invalid */
+function loadRules(profileName: string): RoutingRules | null | undefined {
+  try {
+    return loadRoutingRules(profileName)
+  } catch (err) {
+    error((err as Error).message)
+    process.exitCode = 1
+    return undefined
+  }
+}
+
+function describeRule(rule: RoutingRule, index: number): string {
+  const m = rule.match ?? {}
+  const criteria = [
+    m.types && `type ${m.types.join('|')}`,
+    m.from && `from ${m.from.join('|')}`,
+    m.circles && `circle ${m.circles.join('|')}`,
+    m.layers && `layer ${m.layers.join('|')}`,
+    m.keywords && `keyword ${m.keywords.join('|')}`,
+  ].filter(Boolean)
+  const target = rule.action === 'mute' ? '→ muted' : `→ ${(rule.plugins ?? ['default']).join(', ')}`
+  const quiet = rule.quietHours === 'ignore' ? ' (ignores quiet hours)' : ''
+  return `  ${index + 1}. ${rule.name ? `${rule.name}: ` : ''}${criteria.join(', ') || 'any event'} ${target}${quiet}`
+}
+
+notificationsCommand
+  .command('rules')
+  .description('Check the routing rules file and show what it does')
+  .action((opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    const rules = loadRules(ctx.profileName)
+    if (rules === undefined) return
+    if (rules === null) {
+      info(`No routing rules (${routingRulesPath(ctx.profileName)}); every notification goes to ${defaultPluginTypes().join(', ')}.`)
+      return
+    }
+
+    info(`Rules from ${routingRulesPath(ctx.profileName)}:`)
+    rules.rules.forEach((rule, i) => info(describeRule(rule, i)))
+    info(`  otherwise → ${(rules.defaultPlugins ?? defaultPluginTypes()).join(', ')}`)
+    if (rules.quietHours) {
+      const q = rules.quietHours
+      const days = q.days ? ` on days ${q.days.join(',')}` : ''
+      info(`Quiet hours: ${q.start}-${q.end} ${q.timezone ?? 'local time'}${days}`)
+    }
+  })
+
+notificationsCommand
+  .command('route <type>')
+  .description('Show where an event would be sent (message.new, plaza.reply, ...)')
+  .option('--from <clawId>', 'Sender of the event')
+  .option('--circle <names>', 'Circles the sender is in (comma-separated)')
+  .option('--layer <layer>', 'Relationship layer of the sender')
+  .option('--text <text>', 'Event summary, for keyword rules and escalation', '')
+  .option('--at <time>', 'Evaluate quiet hours at this time (ISO 8601)')
+  .action(async (type: string, opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    const rules = loadRules(ctx.profileName)
+    if (rules === undefined) return
+
+    const now = opts.at ? new Date(opts.at) : new Date()
+    if (Number.isNaN(now.getTime())) {
+      error(`Invalid --at time: ${opts.at}`)
+      process.exitCode = 1
+      return
+    }
+
+    let escalationKeywords: string[] = []
+    try {
+      const client = new ClawBudsClient({
+        serverUrl: ctx.profile.serverUrl,
+        clawId: ctx.profile.clawId,
+        privateKey: ctx.privateKey,
+      })
+      escalationKeywords = (await client.getAutonomy()).autonomyConfig?.escalationKeywords ?? []
+    } catch (err) {
+      info(`⚠ Escalation keywords not checked: ${(err as Error).message}`)
+    }
+
+    const event = {
+      type,
+      data: opts.from ? { fromClawId: opts.from } : {},
+      summary: opts.text,
+    } as NotificationEvent
+    const decision = routeNotification(event, rules, {
+      defaultPlugins: defaultPluginTypes(),
+      escalationKeywords,
+      sender: opts.circle || opts.layer
+        ? { circles: opts.circle ? String(opts.circle).split(',').map((c: string) => c.trim()) : [], layer: opts.layer ?? null }
+        : undefined,
+      now,
+    })
+
+    const via = decision.rule ? `rule ${decision.rule}` : 'no rule matched'
+    const escalated = decision.escalated ? ', escalated to high priority' : ''
+    switch (decision.outcome) {
+      case 'deliver':
+        info(`Delivered to ${decision.plugins.join(', ') || '(no plugins)'} (${via}${escalated})`)
+        break
+      case 'muted':
+        info(`Muted (${via})`)
+        break
+      case 'quiet_hours':
+        info(`Held until after quiet hours (${via})`)
+        break
+    }
+  })
@@ -0,0 +1,121 @@
+import { Command } from 'commander'
+import { ClawBudsClient } from '../client.js'
+import { success, error, info } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
+import { loadE2eeIdentity } from '../e2ee-keys.js'
+import {
+  loadOutbox,
+  findOutboxItem,
+  dropOutboxItems,
+  drainOutbox,
+  describeOperation,
+  type OutboxItem,
+} from '../outbox.js'
+
+export const outboxCommand = new Command('outbox')
+  .description('Messages waiting to be sent (queued while the server was unreachable)')
+
+addProfileOption(outboxCommand)
+
+function formatOutboxItem(item: OutboxItem): string {
+  const state = item.failed ? 'FAILED' : `next try ${new Date(item.nextAttemptAt).toLocaleTimeString()}`
+  const lastError = item.lastError ? `\n      last error: ${item.lastError}` : ''
+  return `  [${item.id.slice(0, 8)}] ${describeOperation(item.op)}\n      queued ${item.createdAt}, ${item.attempts} attempt(s), ${state}${lastError}`
+}
+
+outboxCommand
+  .command('list')
+  .description('Show queued messages')
+  .action((opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    const items = loadOutbox(ctx.profileName)
+    if (items.length === 0) {
+      info('Outbox is empty.')
+      return
+    }
+    info(`Outbox (${items.length}):`)
+    for (const item of items) {
+      info(formatOutboxItem(item))
+    }
+  })
+
+outboxCommand
+  .command('retry [id]')
+  .description('Send queued messages now (all, or one by id), including failed ones')
+  .action(async (id: string | undefined, opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    let ids: string[] | undefined
+    if (id) {
+      const item = findOutboxItem(ctx.profileName, id)
+      if (!item) {
+        error(`No single outbox item matches ${id}`)
+        process.exitCode = 1
+        return
+      }
+      ids = [item.id]
+    }
+
+    const client = new ClawBudsClient({
+      serverUrl: ctx.profile.serverUrl,
+      clawId: ctx.profile.clawId,
+      privateKey: ctx.privateKey,
+    })
+
+    try {
+      const result = await drainOutbox(
+        {
+          client,
+          profileName: ctx.profileName,
+          identity: loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey),
+        },
+        { ignoreBackoff: true, includeFailed: true, ids },
+      )
+      for (const sent of result.sent) {
+        for (const note of sent.notes) info(note)
+        success(`[${sent.item.id.slice(0, 8)}] ${sent.summary}`)
+      }
+      for (const item of result.failed) {
+        error(`[${item.id.slice(0, 8)}] rejected: ${item.lastError}`)
+      }
+      if (result.pending > 0) {
+        info(`${result.pending} message(s) still queued (server unreachable?).`)
+      }
+      if (result.failed.length > 0 || result.pending > 0) {
+        process.exitCode = 1
+      }
+    } catch (err) {
+      reportError(err)
+    }
+  })
+
+outboxCommand
+  .command('drop [id]')
+  .description('Discard a queued message without sending it')
+  .option('--all', 'Discard every queued message')
+  .action((id: string | undefined, opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    if (opts.all) {
+      const dropped = dropOutboxItems(ctx.profileName, loadOutbox(ctx.profileName).map((i) => i.id))
+      success(`Dropped ${dropped} message(s).`)
+      return
+    }
+    if (!id) {
+      error('Give an outbox id or --all')
+      process.exitCode = 1
+      return
+    }
+    const item = findOutboxItem(ctx.profileName, id)
+    if (!item) {
+      error(`No single outbox item matches ${id}`)
+      process.exitCode = 1
+      return
+    }
+    dropOutboxItems(ctx.profileName, [item.id])
+    success(`Dropped ${item.id.slice(0, 8)}: ${describeOperation(item.op)}`)
+  })
@@ -5,8 +5,8 @@
 
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { info } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const patternHealthCommand = new Command('pattern-health')
   .description('Show pattern health report and staleness alerts')
@@ -65,7 +65,6 @@ patternHealthCommand.action(async (opts) => {
     const lastUpdate = healthScore.lastUpdated.slice(0, 10)
     info(`carapace.md 上次更新: ${lastUpdate}`)
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : String(err)
-    error(`获取模式健康报告失败: ${message}`)
+    reportError(err, '获取模式健康报告失败')
   }
 })
@@ -7,7 +7,7 @@ import { Command } from 'commander'
 import * as readline from 'node:readline'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const pearlCommand = new Command('pearl').description('Manage Pearl cognitive assets')
 
@@ -60,7 +60,7 @@ pearlCommand
       const shareMap: Record<string, string> = { private: '私有', friends_only: '好友可见', public: '公开' }
       info(`可见性:    ${shareMap[p['shareability'] as string] ?? p['shareability']}`)
     } catch (err: any) {
-      error(`创建失败: ${err.message}`)
+      reportError(err, '创建失败')
     }
   })
 
@@ -108,7 +108,7 @@ pearlCommand
         info(`${typeName}   ${luster}    ${tags.padEnd(22, ' ')}  "${trigger}"`)
       }
     } catch (err: any) {
-      error(`获取失败: ${err.message}`)
+      reportError(err, '获取失败')
     }
   })
 
@@ -157,7 +157,7 @@ pearlCommand
       }
       info(`创建:      ${p['createdAt']} | 更新: ${p['updatedAt']}`)
     } catch (err: any) {
-      error(`查看失败: ${err.message}`)
+      reportError(err, '查看失败')
     }
   })
 
@@ -192,7 +192,7 @@ pearlCommand
       await client.updatePearl(id, data as any)
       success('Pearl 已更新')
     } catch (err: any) {
-      error(`更新失败: ${err.message}`)
+      reportError(err, '更新失败')
     }
   })
 
@@ -232,7 +232,7 @@ pearlCommand
       await client.deletePearl(id)
       success('Pearl 已删除')
     } catch (err: any) {
-      error(`删除失败: ${err.message}`)
+      reportError(err, '删除失败')
     }
   })
 
@@ -258,7 +258,7 @@ pearlCommand
       if (err.message?.includes('already')) {
         success('已分享过此 Pearl')
       } else {
-        error(`分享失败: ${err.message}`)
+        reportError(err, '分享失败')
       }
     }
   })
@@ -291,7 +291,7 @@ pearlCommand
       success('背书已提交')
       info(`新 Luster:  ${Number(result.newLuster).toFixed(2)}`)
     } catch (err: any) {
-      error(`背书失败: ${err.message}`)
+      reportError(err, '背书失败')
     }
   })
 
@@ -330,7 +330,7 @@ pearlCommand
         info(`${fromId}   ${time}   ${pearl['type']}      "${trigger}"`)
       }
     } catch (err: any) {
-      error(`获取失败: ${err.message}`)
+      reportError(err, '获取失败')
     }
   })
 
@@ -388,7 +388,7 @@ pearlCommand
       info('')
       info('💡 完整路由统计（主动路由/Thread 引用）请在每日简报中查看')
     } catch (err: any) {
-      error(`获取路由统计失败: ${err.message}`)
+      reportError(err, '获取路由统计失败')
     }
   })
 
@@ -422,6 +422,6 @@ pearlCommand
       info('💡 完整 Luster 分解（背书方信任分 × 分数 + Thread 引用加成）')
       info('   将在下一次背书或 Thread 引用后重算')
     } catch (err: any) {
-      error(`获取 Luster 详情失败: ${err.message}`)
+      reportError(err, '获取 Luster 详情失败')
     }
   })
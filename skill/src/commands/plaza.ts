@@ -1,7 +1,21 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportSendOutcome, reportError } from './helpers.js'
+import { loadE2eeIdentity } from '../e2ee-keys.js'
+import { sendOrQueue } from '../outbox.js'
+import { LocalStore, fromPlazaPost } from '../local-store.js'
+import {
+  loadQueuedQuestions,
+  updateQueuedQuestions,
+  queueQuestion,
+  selectQueuedQuestions,
+  sameQueuedQuestion,
+  loadTrackedQuestions,
+  findDuplicateQuestion,
+  type AskedQuestion,
+  type QueuedQuestion,
+} from '../plaza-questions.js'
 import type { PlazaMessageType } from '../types.js'
 
 export const plazaCommand = new Command('plaza')
@@ -9,6 +23,10 @@ export const plazaCommand = new Command('plaza')
 
 addProfileOption(plazaCommand)
 
+function parseTags(raw: string | undefined): string[] | undefined {
+  return raw ? raw.split(',').map((s) => s.trim()).filter(Boolean) : undefined
+}
+
 // plaza post
 const postCmd = new Command('post')
   .description('Post to the plaza')
@@ -36,22 +54,24 @@ postCmd.action(async (opts) => {
     return
   }
 
-  const topicTags = opts.tags
-    ? (opts.tags as string).split(',').map((s: string) => s.trim()).filter(Boolean)
-    : undefined
+  const topicTags = parseTags(opts.tags)
 
   try {
-    const post = await client.plazaPost(
-      [{ type: 'text', text: opts.text }],
-      { messageType, topicTags, replyToId: opts.replyTo },
+    const outcome = await sendOrQueue(
+      {
+        client,
+        profileName: ctx.profileName,
+        identity: loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey),
+      },
+      {
+        type: 'plaza_post',
+        blocks: [{ type: 'text', text: opts.text }],
+        options: { messageType, topicTags, replyToId: opts.replyTo },
+      },
     )
-
-    success(`Posted to plaza: ${post.id}`)
-    if (messageType === 'question') {
-      info(`Question will accept replies until ${post.replyDeadline}`)
-    }
+    reportSendOutcome(outcome)
   } catch (err) {
-    error((err as Error).message)
+    reportError(err)
   }
 })
 
@@ -87,6 +107,8 @@ feedCmd.action(async (opts) => {
       sort: opts.sort === 'hot' ? 'hot' : 'time',
     })
 
+    LocalStore.append(ctx.profileName, result.posts.map(fromPlazaPost))
+
     if (result.posts.length === 0) {
       info('No posts found.')
       return
@@ -110,7 +132,7 @@ feedCmd.action(async (opts) => {
       info(`More posts available. Use --after-id ${result.posts[result.posts.length - 1].id}`)
     }
   } catch (err) {
-    error((err as Error).message)
+    reportError(err)
   }
 })
 
@@ -139,6 +161,8 @@ discussionCmd.action(async (postId: string, opts) => {
       limit: parseInt(opts.limit, 10),
     })
 
+    LocalStore.append(ctx.profileName, posts.map(fromPlazaPost))
+
     if (posts.length === 0) {
       info('Discussion not found.')
       return
@@ -155,7 +179,7 @@ discussionCmd.action(async (postId: string, opts) => {
       console.log()
     }
   } catch (err) {
-    error((err as Error).message)
+    reportError(err)
   }
 })
 
@@ -180,9 +204,7 @@ replyCmd.action(async (postId: string, opts) => {
     privateKey: ctx.privateKey,
   })
 
-  const topicTags = opts.tags
-    ? (opts.tags as string).split(',').map((s: string) => s.trim()).filter(Boolean)
-    : undefined
+  const topicTags = parseTags(opts.tags)
 
   try {
     const post = await client.plazaPost(
@@ -191,7 +213,7 @@ replyCmd.action(async (postId: string, opts) => {
     )
     success(`Reply posted: ${post.id}`)
   } catch (err) {
-    error((err as Error).message)
+    reportError(err)
   }
 })
 
@@ -206,65 +228,31 @@ const queueCmd = new Command('queue')
 
 addProfileOption(queueCmd)
 
-queueCmd.action(async (_opts) => {
-  const ctx = getProfileContext(_opts)
+queueCmd.action((opts) => {
+  const ctx = getProfileContext(opts)
   if (!ctx) return
 
-  const { ensureConfigDir } = await import('../config.js')
-  const { existsSync, readFileSync, writeFileSync } = await import('node:fs')
-  const { join } = await import('node:path')
-
-  const configDir = ensureConfigDir()
-  const queuePath = join(configDir, `pending-questions-${ctx.profileName}.json`)
-
-  const topicTags = _opts.tags
-    ? (_opts.tags as string).split(',').map((s: string) => s.trim()).filter(Boolean)
-    : []
-
-  let queue: Array<Record<string, unknown>> = []
-  try {
-    if (existsSync(queuePath)) {
-      queue = JSON.parse(readFileSync(queuePath, 'utf-8'))
-    }
-  } catch { /* ignore */ }
-
-  queue.push({
-    text: _opts.text,
-    topicTags,
-    context: _opts.context ?? null,
-    queuedAt: new Date().toISOString(),
+  const count = queueQuestion(ctx.profileName, {
+    text: opts.text,
+    topicTags: parseTags(opts.tags) ?? [],
+    context: opts.context ?? null,
   })
-
-  writeFileSync(queuePath, JSON.stringify(queue, null, 2))
-  success(`Question queued (${queue.length} pending). Will be reviewed at next check-in.`)
+  success(`Question queued (${count} pending). Will be reviewed at next check-in.`)
 })
 
 plazaCommand.addCommand(queueCmd)
 
-// plaza pending — show queued questions
+// plaza pending — show queued questions; publish, edit or drop them
 const pendingCmd = new Command('pending')
   .description('Show queued questions waiting to be posted')
 
 addProfileOption(pendingCmd)
 
-pendingCmd.action(async (_opts) => {
-  const ctx = getProfileContext(_opts)
+pendingCmd.action((opts) => {
+  const ctx = getProfileContext(opts)
   if (!ctx) return
 
-  const { ensureConfigDir } = await import('../config.js')
-  const { existsSync, readFileSync } = await import('node:fs')
-  const { join } = await import('node:path')
-
-  const configDir = ensureConfigDir()
-  const queuePath = join(configDir, `pending-questions-${ctx.profileName}.json`)
-
-  let queue: Array<Record<string, unknown>> = []
-  try {
-    if (existsSync(queuePath)) {
-      queue = JSON.parse(readFileSync(queuePath, 'utf-8'))
-    }
-  } catch { /* ignore */ }
-
+  const queue = loadQueuedQuestions(ctx.profileName)
   if (queue.length === 0) {
     info('No pending questions.')
     return
@@ -272,7 +260,7 @@ pendingCmd.action(async (_opts) => {
 
   for (let i = 0; i < queue.length; i++) {
     const q = queue[i]
-    const tags = (q.topicTags as string[])?.length > 0 ? ` #${(q.topicTags as string[]).join(' #')}` : ''
+    const tags = q.topicTags.length > 0 ? ` #${q.topicTags.join(' #')}` : ''
     console.log(`  [${i + 1}] ${q.text}${tags}`)
     if (q.context) console.log(`      Context: ${q.context}`)
     console.log(`      Queued: ${q.queuedAt}`)
@@ -280,4 +268,179 @@ pendingCmd.action(async (_opts) => {
   }
 })
 
+/** Questions we already asked: open ones the daemon tracks, plus our recent ones on the plaza */
+async function askedQuestions(client: ClawBudsClient, profileName: string): Promise<AskedQuestion[]> {
+  const asked: AskedQuestion[] = loadTrackedQuestions(profileName).map((q) => ({
+    postId: q.postId,
+    text: q.text,
+    source: 'daemon',
+  }))
+  try {
+    const recent = await client.plazaList({ type: 'question', limit: 100 })
+    for (const post of recent.posts) {
+      if (post.fromClawId !== client.getClawId() || asked.some((q) => q.postId === post.id)) continue
+      const textBlock = post.blocks.find((b) => b.type === 'text')
+      asked.push({ postId: post.id, text: textBlock && 'text' in textBlock ? textBlock.text : '', source: 'plaza' })
+    }
+  } catch (err) {
+    // Offline: publishing queues in the outbox anyway, so only the daemon's list is checked
+    info(`Could not fetch recent questions (${(err as Error).message}); checking against tracked questions only.`)
+  }
+  return asked
+}
+
+const publishCmd = new Command('publish')
+  .description('Post queued questions to the plaza (skips ones we already asked)')
+  .argument('[n...]', 'Positions as shown by "plaza pending"')
+  .option('--all', 'Publish every queued question')
+  .option('--reply-hours <hours>', 'Accept replies for this many hours (server default otherwise)')
+  .option('--force', 'Publish even when a similar question was already asked')
+
+addProfileOption(publishCmd)
+
+publishCmd.action(async (positions: string[], opts) => {
+  const ctx = getProfileContext(opts)
+  if (!ctx) return
+
+  let replyDeadline: string | undefined
+  if (opts.replyHours !== undefined) {
+    const hours = Number(opts.replyHours)
+    if (!(hours > 0)) {
+      error(`Invalid --reply-hours: ${opts.replyHours}`)
+      process.exitCode = 1
+      return
+    }
+    replyDeadline = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+  }
+
+  const queue = loadQueuedQuestions(ctx.profileName)
+  let selected: QueuedQuestion[]
+  try {
+    if (opts.all) selected = queue
+    else if (positions.length > 0) selected = selectQueuedQuestions(queue, positions)
+    else throw new Error('Give question numbers (see "clawbuds plaza pending") or --all')
+  } catch (err) {
+    error((err as Error).message)
+    process.exitCode = 1
+    return
+  }
+  if (selected.length === 0) {
+    info('No pending questions.')
+    return
+  }
+
+  const client = new ClawBudsClient({
+    serverUrl: ctx.profile.serverUrl,
+    clawId: ctx.profile.clawId,
+    privateKey: ctx.privateKey,
+  })
+  const outboxCtx = {
+    client,
+    profileName: ctx.profileName,
+    identity: loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey),
+  }
+  const asked = opts.force ? [] : await askedQuestions(client, ctx.profileName)
+
+  for (const question of selected) {
+    const duplicate = opts.force ? null : findDuplicateQuestion(question.text, asked)
+    if (duplicate) {
+      const { postId, source } = duplicate.question
+      const reason = source === 'published'
+        ? 'same as a question published above'
+        : `already asked as ${postId.slice(0, 8)} (${source === 'daemon' ? 'still collecting answers' : 'recent plaza question'})`
+      info(`Skipped "${question.text.slice(0, 60)}": ${reason}. Use --force to post anyway.`)
+      continue
+    }
+
+    try {
+      const outcome = await sendOrQueue(outboxCtx, {
+        type: 'plaza_post',
+        blocks: [{ type: 'text', text: question.text }],
+        options: { messageType: 'question', topicTags: question.topicTags, replyDeadline },
+      })
+      reportSendOutcome(outcome)
+    } catch (err) {
+      reportError(err, `Failed to publish "${question.text.slice(0, 60)}"`)
+      continue
+    }
+    // Posted or in the outbox: either way it leaves the pending list
+    updateQueuedQuestions(ctx.profileName, (current) => {
+      const index = current.findIndex((q) => sameQueuedQuestion(q, question))
+      if (index >= 0) current.splice(index, 1)
+    })
+    // Later questions in the same run must not repeat this one
+    asked.push({ postId: '', text: question.text, source: 'published' })
+  }
+})
+
+pendingCmd.addCommand(publishCmd)
+
+const editCmd = new Command('edit')
+  .description('Change a queued question before publishing it')
+  .argument('<n>', 'Position as shown by "plaza pending"')
+  .option('--text <question>', 'New question text')
+  .option('--tags <tags>', 'New comma-separated topic tags (empty to clear)')
+  .option('--context <context>', 'New context note')
+
+addProfileOption(editCmd)
+
+editCmd.action((position: string, opts) => {
+  const ctx = getProfileContext(opts)
+  if (!ctx) return
+
+  if (opts.text === undefined && opts.tags === undefined && opts.context === undefined) {
+    error('Nothing to change: give --text, --tags or --context')
+    process.exitCode = 1
+    return
+  }
+
+  try {
+    const edited = updateQueuedQuestions(ctx.profileName, (queue) => {
+      const [question] = selectQueuedQuestions(queue, [position])
+      if (opts.text !== undefined) question.text = opts.text
+      if (opts.tags !== undefined) question.topicTags = parseTags(opts.tags) ?? []
+      if (opts.context !== undefined) question.context = opts.context || null
+      return question
+    })
+    success(`Updated [${position}] ${edited.text}`)
+  } catch (err) {
+    error((err as Error).message)
+    process.exitCode = 1
+  }
+})
+
+pendingCmd.addCommand(editCmd)
+
+const dropCmd = new Command('drop')
+  .description('Remove queued questions without publishing them')
+  .argument('[n...]', 'Positions as shown by "plaza pending"')
+  .option('--all', 'Remove every queued question')
+
+addProfileOption(dropCmd)
+
+dropCmd.action((positions: string[], opts) => {
+  const ctx = getProfileContext(opts)
+  if (!ctx) return
+
+  if (!opts.all && positions.length === 0) {
+    error('Give question numbers (see "clawbuds plaza pending") or --all')
+    process.exitCode = 1
+    return
+  }
+
+  try {
+    const dropped = updateQueuedQuestions(ctx.profileName, (queue) => {
+      const remove = opts.all ? [...queue] : selectQueuedQuestions(queue, positions)
+      queue.splice(0, queue.length, ...queue.filter((q) => !remove.includes(q)))
+      return remove.length
+    })
+    success(`Dropped ${dropped} question(s).`)
+  } catch (err) {
+    error((err as Error).message)
+    process.exitCode = 1
+  }
+})
+
+pendingCmd.addCommand(dropCmd)
+
 plazaCommand.addCommand(pendingCmd)
@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error, info, formatPollResults } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success, info, formatPollResults } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const pollCommand = new Command('poll')
   .description('Vote on polls and view results')
@@ -25,8 +25,7 @@ pollCommand
       await client.votePoll(pollId, parseInt(optionIndex, 10))
       success('Vote recorded!')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -47,7 +46,6 @@ pollCommand
       const results = await client.getPollResults(pollId)
       info(formatPollResults(results))
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
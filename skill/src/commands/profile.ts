@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 async function getProfile(opts: { profile?: string }): Promise<void> {
   const ctx = getProfileContext(opts)
@@ -35,8 +35,7 @@ async function getProfile(opts: { profile?: string }): Promise<void> {
     info(`  Created:      ${profile.createdAt}`)
     info(`  Last Seen:    ${profile.lastSeenAt}`)
   } catch (err) {
-    error((err as Error).message)
-    process.exitCode = 1
+    reportError(err)
   }
 }
 
@@ -130,7 +129,6 @@ profileCommand
         info(`  Discoverable: ${profile.discoverable ? 'Yes' : 'No'}`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
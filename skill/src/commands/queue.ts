@@ -0,0 +1,141 @@
+import { Command } from 'commander'
+import { success, error, info } from '../output.js'
+import { getProfileContext, addProfileOption } from './helpers.js'
+import {
+  listOwnerQueue,
+  findOwnerQueueItem,
+  ackOwnerQueueItems,
+  clearOwnerQueue,
+  parsePriority,
+  priorityLabel,
+  describeOwnerQueueItem,
+  type OwnerQueueItem,
+  type AggregatedAnswer,
+} from '../owner-queue.js'
+
+export const queueCommand = new Command('queue')
+  .description('Items the daemon collected for you (answers to your questions, consult requests)')
+
+addProfileOption(queueCommand)
+
+function formatQueueItem(item: OwnerQueueItem): string {
+  const acked = item.ackedAt ? ' (acked)' : ''
+  return `  [${item.id.slice(0, 8)}] ${priorityLabel(item.priority)} ${item.createdAt}${acked}\n      ${describeOwnerQueueItem(item)}`
+}
+
+/** Resolve ids or unique prefixes; prints an error and returns null when one does not match */
+function resolveIds(profileName: string, ids: string[]): string[] | null {
+  const resolved: string[] = []
+  for (const id of ids) {
+    const item = findOwnerQueueItem(profileName, id)
+    if (!item) {
+      error(`No single queue item matches ${id}`)
+      process.exitCode = 1
+      return null
+    }
+    resolved.push(item.id)
+  }
+  return resolved
+}
+
+queueCommand
+  .command('list')
+  .description('Show pending items, highest priority first')
+  .option('--all', 'Include acknowledged items')
+  .option('--priority <level>', 'Only items at or above this priority (high, normal, low or 0-1)')
+  .option('--type <type>', 'Only items of this type (question_answers, consult, ...)')
+  .action((opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    let minPriority: number | undefined
+    try {
+      minPriority = opts.priority ? parsePriority(opts.priority) : undefined
+    } catch (err) {
+      error((err as Error).message)
+      process.exitCode = 1
+      return
+    }
+
+    const items = listOwnerQueue(ctx.profileName, { all: opts.all, minPriority, type: opts.type })
+    if (items.length === 0) {
+      info(opts.all ? 'Owner queue is empty.' : 'No pending items.')
+      return
+    }
+    info(`Owner queue (${items.length}):`)
+    for (const item of items) {
+      info(formatQueueItem(item))
+    }
+  })
+
+queueCommand
+  .command('show <id>')
+  .description('Show one item in full')
+  .action((id: string, opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    const item = findOwnerQueueItem(ctx.profileName, id)
+    if (!item) {
+      error(`No single queue item matches ${id}`)
+      process.exitCode = 1
+      return
+    }
+
+    info(`ID:       ${item.id}`)
+    info(`Type:     ${item.type}`)
+    info(`Priority: ${priorityLabel(item.priority)} (${item.priority})`)
+    info(`Created:  ${item.createdAt}`)
+    info(`Acked:    ${item.ackedAt ?? 'no'}`)
+    info('')
+
+    if (item.type === 'question_answers' && Array.isArray(item.aggregatedAnswers)) {
+      info(`Question ${String(item.questionPostId)} got ${String(item.totalReplies ?? 0)} replies:`)
+      if (typeof item.consensus === 'number') {
+        info(`Consensus: ${Math.round(item.consensus * 100)}% back the leading answer`)
+      }
+      for (const answer of item.aggregatedAnswers as AggregatedAnswer[]) {
+        info(`  (${answer.count}x) ${answer.text}`)
+        // Items queued before clustering have no agreement/dissent counts
+        const votes = answer.agreement !== undefined ? ` (${answer.agreement} agree, ${answer.dissent ?? 0} answered otherwise)` : ''
+        info(`      from ${answer.fromClawIds.join(', ')}${votes}`)
+        for (const variant of answer.variants ?? []) info(`      also: ${variant}`)
+      }
+      return
+    }
+
+    const common = new Set(['id', 'type', 'priority', 'createdAt', 'ackedAt'])
+    info(JSON.stringify(Object.fromEntries(Object.entries(item).filter(([key]) => !common.has(key))), null, 2))
+  })
+
+queueCommand
+  .command('ack [ids...]')
+  .description('Mark items as handled (they stay listed with --all until cleared)')
+  .option('--all', 'Acknowledge every pending item')
+  .action((ids: string[], opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    if (!opts.all && ids.length === 0) {
+      error('Give one or more queue ids or --all')
+      process.exitCode = 1
+      return
+    }
+    const resolved = opts.all ? undefined : resolveIds(ctx.profileName, ids)
+    if (resolved === null) return
+
+    const acked = ackOwnerQueueItems(ctx.profileName, resolved)
+    success(`Acknowledged ${acked} item(s).`)
+  })
+
+queueCommand
+  .command('clear')
+  .description('Remove acknowledged items from the queue')
+  .option('--all', 'Remove every item, including pending ones')
+  .action((opts, cmd) => {
+    const ctx = getProfileContext(opts, cmd)
+    if (!ctx) return
+
+    const removed = clearOwnerQueue(ctx.profileName, { all: opts.all })
+    success(`Removed ${removed} item(s).`)
+  })
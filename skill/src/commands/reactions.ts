@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error, info, formatReaction } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success, info, formatReaction } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const reactionsCommand = new Command('reactions')
   .description('Manage reactions on messages')
@@ -25,8 +25,7 @@ reactionsCommand
       await client.addReaction(messageId, emoji)
       success(`Reacted with ${emoji}`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -47,8 +46,7 @@ reactionsCommand
       await client.removeReaction(messageId, emoji)
       success(`Removed ${emoji} reaction`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -76,7 +74,6 @@ reactionsCommand
         info(formatReaction(r))
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
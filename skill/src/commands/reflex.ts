@@ -6,7 +6,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const reflexCommand = new Command('reflex').description('Manage ReflexEngine behaviors')
 
@@ -77,7 +77,7 @@ reflexCommand
         info(`${name}  ${layer}    ${vl}  ${enabled}   ${conf}${noDisable}`)
       }
     } catch (err: any) {
-      error(`获取失败: ${err.message}`)
+      reportError(err, '获取失败')
     }
   })
 
@@ -103,7 +103,7 @@ reflexCommand
       if (err.message?.includes('not found') || err.message?.includes('NOT_FOUND')) {
         error(`Reflex 未找到: ${name}`)
       } else {
-        error(`启用失败: ${err.message}`)
+        reportError(err, '启用失败')
       }
     }
   })
@@ -132,7 +132,7 @@ reflexCommand
       } else if (err.message?.includes('not found') || err.message?.includes('NOT_FOUND')) {
         error(`Reflex 未找到: ${name}`)
       } else {
-        error(`禁用失败: ${err.message}`)
+        reportError(err, '禁用失败')
       }
     }
   })
@@ -205,7 +205,7 @@ reflexCommand
       }
       info(`\n共 ${resp.meta?.total ?? executions.length} 条`)
     } catch (err: any) {
-      error(`获取失败: ${err.message}`)
+      reportError(err, '获取失败')
     }
   })
 
@@ -232,7 +232,7 @@ reflexCommand
       if (err.message?.includes('not found') || err.message?.includes('NOT_FOUND')) {
         error(`Batch 未找到: ${opts.batchId}`)
       } else {
-        error(`确认失败: ${err.message}`)
+        reportError(err, '确认失败')
       }
     }
   })
@@ -260,6 +260,6 @@ reflexCommand
         info(`最早条目: ${status.oldestEntry}`)
       }
     } catch (err: any) {
-      error(`获取失败: ${err.message}`)
+      reportError(err, '获取失败')
     }
   })
@@ -13,6 +13,7 @@ import {
   ensureConfigDir,
 } from '../config.js'
 import { success, error, info, formatProfile } from '../output.js'
+import { reportError } from './helpers.js'
 import { initializeCarapaceTemplate } from '../carapace-init.js'
 
 export const registerCommand = new Command('register')
@@ -97,7 +98,6 @@ export const registerCommand = new Command('register')
         info(`  clawbuds server switch ${profileName}`)
       }
     } catch (err) {
-      error(`Registration failed: ${(err as Error).message}`)
-      process.exitCode = 1
+      reportError(err, 'Registration failed')
     }
   })
@@ -0,0 +1,40 @@
+import { Command } from 'commander'
+import { info } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
+import { LocalStore, parseSearchFilters, formatStoredMessage } from '../local-store.js'
+
+export const searchCommand = new Command('search')
+  .description('Search locally stored messages, plaza posts and thread contributions (offline)')
+  .argument('[query]', 'Words to match (all must appear)', '')
+  .option('--from <clawId>', 'Sender clawId or display name')
+  .option('--since <date>', 'Created on or after (ISO date/time)')
+  .option('--until <date>', 'Created on or before (ISO date/time)')
+  .option('--visibility <v>', 'public or direct')
+  .option('--type <blockType>', 'Block type: text, link, image, code, poll')
+  .option('--kind <kind>', 'inbox, group, plaza, or thread')
+  .option('--limit <n>', 'Max results', '20')
+
+addProfileOption(searchCommand)
+
+searchCommand.action((query: string, opts) => {
+  const ctx = getProfileContext(opts)
+  if (!ctx) return
+
+  try {
+    const store = LocalStore.open(ctx.profileName)
+    const results = store.search(query, parseSearchFilters(opts))
+
+    if (results.length === 0) {
+      info(store.size === 0
+        ? 'Local store is empty. It fills as the daemon receives messages and as you view inbox, groups, plaza and threads.'
+        : 'No matches.')
+      return
+    }
+
+    for (const m of results) {
+      info(formatStoredMessage(m))
+    }
+  } catch (err) {
+    reportError(err)
+  }
+})
@@ -1,7 +1,9 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { error } from '../output.js'
+import { getProfileContext, addProfileOption, reportSendOutcome, reportError } from './helpers.js'
+import { loadE2eeIdentity } from '../e2ee-keys.js'
+import { sendOrQueue } from '../outbox.js'
 
 export const sendCommand = new Command('send')
   .description('Send a message')
@@ -16,6 +18,8 @@ export const sendCommand = new Command('send')
   .option('--circles <names>', 'Comma-separated layer names (for circles visibility)')
   .option('--cw <warning>', 'Content warning')
   .option('--reply-to <messageId>', 'Reply to a message ID')
+  .option('--encrypt', 'End-to-end encrypt the message (all recipients need an E2EE key)')
+  .option('--no-encrypt', 'Send plaintext even when auto-encrypt is enabled for this profile')
 
 addProfileOption(sendCommand)
 
@@ -61,18 +65,27 @@ sendCommand.action(async (opts) => {
     return
   }
 
+  // --encrypt / --no-encrypt win; otherwise follow the profile's auto-encrypt default
+  const explicitEncrypt = opts.encrypt as boolean | undefined
+  const wantEncrypt = explicitEncrypt ?? ctx.profile.autoEncrypt === true
+
+  if (explicitEncrypt && visibility === 'public') {
+    error('Public messages cannot be encrypted')
+    process.exitCode = 1
+    return
+  }
+
+  const message = { blocks, visibility, toClawIds, layerNames, contentWarning: opts.cw, replyTo: opts.replyTo }
+  const encrypt = !wantEncrypt ? 'off' : explicitEncrypt ? 'required' : 'auto'
+
   try {
-    const result = await client.sendMessage({
-      blocks,
-      visibility,
-      toClawIds,
-      layerNames,
-      contentWarning: opts.cw,
-      replyTo: opts.replyTo,
-    })
-    success(`Message sent! ID: ${result.messageId}, recipients: ${result.recipientCount}`)
+    const identity = loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey)
+    const outcome = await sendOrQueue(
+      { client, profileName: ctx.profileName, identity },
+      { type: 'message', message, encrypt },
+    )
+    reportSendOutcome(outcome)
   } catch (err) {
-    error((err as Error).message)
-    process.exitCode = 1
+    reportError(err)
   }
 })
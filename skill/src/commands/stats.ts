@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { info } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const statsCommand = new Command('stats')
   .description('View your statistics')
@@ -28,7 +28,6 @@ statsCommand.action(async (opts) => {
       info(`  Last Message:      ${stats.lastMessageAt}`)
     }
   } catch (err) {
-    error((err as Error).message)
-    process.exitCode = 1
+    reportError(err)
   }
 })
@@ -1,6 +1,6 @@
 /**
  * status 命令（Phase 1）
- * clawbuds status        — 展示当前 status text
+ * clawbuds status        — 展示当前 status text 和今日 attention budget
  * clawbuds status set    — 设置 status text
  * clawbuds status clear  — 清除 status text
  */
@@ -8,7 +8,8 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
+import { loadAttentionBudget, summarizeAttentionBudget } from '../attention-budget.js'
 
 export const statusCommand = new Command('status')
   .description('Manage your status text')
@@ -35,9 +36,13 @@ statusCommand.action(async (opts) => {
       info('No status text set.')
     }
   } catch (err) {
-    error((err as Error).message)
-    process.exitCode = 1
+    reportError(err)
   }
+
+  // Kept by the daemon; readable without it
+  const budget = summarizeAttentionBudget(loadAttentionBudget(ctx.profileName))
+  const held = budget.held > 0 ? `, ${budget.held} held back` : ''
+  info(`Attention budget: ${budget.used}/${budget.limit} notification(s) used today${held}`)
 })
 
 // status set <text...>
@@ -65,8 +70,7 @@ statusCommand
       await client.setStatusText(text)
       success(`Status set to: ${text}`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -88,7 +92,6 @@ statusCommand
       await client.setStatusText(null)
       success('Status cleared.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
@@ -1,14 +1,24 @@
 /**
  * thread 命令（Phase 8 更新：Thread V5 协作话题工作区）
  * 旧命令（view/reply）保留向后兼容
- * 新命令：create / list / contribute / digest / invite / complete / archive
+ * 新命令：create / list / contribute / view-contributions / digest / invite / complete / archive
+ * 贡献内容使用 Thread 密钥加密（见 thread-e2ee.ts）
  */
 
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
-import { randomUUID } from 'node:crypto'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
+import { loadE2eeIdentity } from '../e2ee-keys.js'
+import {
+  createThreadKeys,
+  loadThreadKey,
+  sealThreadKeyFor,
+  encryptContribution,
+  decryptContributions,
+  formatContribution,
+} from '../thread-e2ee.js'
+import { LocalStore, fromContribution } from '../local-store.js'
 
 const PURPOSE_LABELS: Record<string, string> = {
   tracking: '追踪',
@@ -51,8 +61,7 @@ threadCommand
         info(`  [${m.id.slice(0, 8)}] ${m.fromClawId.slice(0, 12)}...${edited}: ${text}`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -87,8 +96,7 @@ threadCommand
       })
       success(`Reply sent! ID: ${result.messageId}, recipients: ${result.recipientCount}`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -119,10 +127,13 @@ threadCommand
 
     try {
       const participants = opts.invite ? opts.invite.split(',').map((s) => s.trim()) : undefined
+      const identity = loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey)
+      const { encryptedKeys, missingKeys } = await createThreadKeys(client, identity, participants ?? [])
       const thread = await client.createThreadV5({
         purpose: opts.purpose as 'tracking' | 'debate' | 'creation' | 'accountability' | 'coordination',
         title: opts.title,
         participants,
+        encryptedKeys,
       }) as Record<string, unknown>
 
       success('Thread 已创建')
@@ -130,9 +141,11 @@ threadCommand
       info(`意图:    ${PURPOSE_LABELS[opts.purpose] ?? opts.purpose} (${opts.purpose})`)
       info(`标题:    "${opts.title}"`)
       info(`状态:    ${STATUS_LABELS['active']}`)
+      if (missingKeys.length > 0) {
+        info(`以下参与者未注册 E2EE 密钥，无法解密贡献: ${missingKeys.join(', ')}`)
+      }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -173,8 +186,7 @@ threadCommand
         info(`${purpose.padEnd(8)} ${status.padEnd(6)} ${String(t['title'])}`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -182,7 +194,7 @@ threadCommand
 threadCommand
   .command('contribute <threadId>')
   .description('Submit a contribution to a Thread V5 workspace')
-  .option('--text <content>', 'Submit text (NOTE: will be sent as plaintext in demo mode)')
+  .option('--text <content>', 'Submit text')
   .option('--reaction <emoji>', 'Submit reaction emoji')
   .option('--link <url>', 'Submit a link')
   .option('--pearl <pearlId>', 'Reference a Pearl')
@@ -217,15 +229,52 @@ threadCommand
         return
       }
 
-      // 演示模式：直接用 base64 编码（实际应在客户端 E2EE 加密）
-      const nonce = randomUUID().replace(/-/g, '').slice(0, 16)
-      const encryptedContent = Buffer.from(content).toString('base64')
+      const key = await loadThreadKey(client, loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey), threadId)
+      const { encryptedContent, nonce } = encryptContribution(key, content)
 
       const contrib = await client.contributeToThread(threadId, encryptedContent, nonce, contentType) as Record<string, unknown>
       success(`贡献已提交（ID: ${contrib['id']}）`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
+    }
+  })
+
+// thread view-contributions
+threadCommand
+  .command('view-contributions <threadId>')
+  .description('Decrypt and show contributions in a Thread V5 workspace')
+  .option('--limit <n>', 'Max results', '50')
+  .action(async (threadId: string, opts: { limit?: string; profile?: string }) => {
+    const ctx = getProfileContext(opts)
+    if (!ctx) return
+
+    const client = new ClawBudsClient({
+      serverUrl: ctx.profile.serverUrl,
+      clawId: ctx.profile.clawId,
+      privateKey: ctx.privateKey,
+    })
+
+    try {
+      const key = await loadThreadKey(client, loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey), threadId)
+      const contributions = decryptContributions(
+        key,
+        await client.getThreadContributions(threadId, { limit: opts.limit ? parseInt(opts.limit, 10) : 50 }),
+      )
+
+      LocalStore.append(ctx.profileName, contributions.map((c) => fromContribution(threadId, c)))
+
+      if (contributions.length === 0) {
+        info('暂无贡献')
+        return
+      }
+
+      info(`贡献 (${contributions.length}):`)
+      for (const c of contributions) {
+        const who = c.contributorId === ctx.profile.clawId ? 'me' : `${c.contributorId.slice(0, 12)}...`
+        info(`  [${c.id.slice(0, 8)}] ${who}: ${formatContribution(c)}`)
+      }
+    } catch (err) {
+      reportError(err)
     }
   })
 
@@ -248,8 +297,7 @@ threadCommand
       success('正在为你生成个性化摘要，稍后通过通知推送...')
       info('（通常在 10-30 秒内）')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -268,12 +316,13 @@ threadCommand
     })
 
     try {
-      // 演示模式：空密钥（实际应在客户端用被邀请方公钥加密 Thread 密钥）
-      await client.inviteToThread(threadId, friendId, 'placeholder_key_for_demo')
+      const identity = loadE2eeIdentity(ctx.profileName, ctx.profile.clawId, ctx.privateKey)
+      const key = await loadThreadKey(client, identity, threadId)
+      const inviteeKey = await client.getE2eeKey(friendId)
+      await client.inviteToThread(threadId, friendId, sealThreadKeyFor(key, identity, inviteeKey))
       success(`${friendId} 已被邀请加入 Thread ${threadId}`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -295,8 +344,7 @@ threadCommand
       await client.updateThreadStatus(threadId, 'completed')
       success(`Thread ${threadId} 已标记为完成`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -318,7 +366,6 @@ threadCommand
       await client.updateThreadStatus(threadId, 'archived')
       success(`Thread ${threadId} 已归档`)
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
@@ -8,7 +8,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const trustCommand = new Command('trust').description('Manage trust scores for friends')
 
@@ -62,7 +62,7 @@ trustCommand
       info('──────────────────────────────────────────────')
       info('Q=代理互动  H=人工背书  N=网络位置  W=见证信誉  "-"=未设置')
     } catch (err: any) {
-      error(`查询失败: ${err.message}`)
+      reportError(err, '查询失败')
     }
   })
 
@@ -110,6 +110,6 @@ trustCommand
         info('⚠ 注意: 低信任分会降低 Pearl 自动路由频率')
       }
     } catch (err: any) {
-      error(`背书失败: ${err.message}`)
+      reportError(err, '背书失败')
     }
   })
@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
-import { success, error } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { success } from '../output.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const uploadCommand = new Command('upload')
   .description('Upload a file')
@@ -24,7 +24,6 @@ uploadCommand.action(async (opts: { file: string; profile?: string }) => {
     const url = (result as Record<string, unknown>).url || `ID: ${result.id}`
     success(`Uploaded: ${result.filename} (${result.size} bytes)\n  URL: ${url}`)
   } catch (err) {
-    error((err as Error).message)
-    process.exitCode = 1
+    reportError(err)
   }
 })
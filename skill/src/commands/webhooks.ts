@@ -1,7 +1,7 @@
 import { Command } from 'commander'
 import { ClawBudsClient } from '../client.js'
 import { success, error, info, formatWebhook } from '../output.js'
-import { getProfileContext, addProfileOption } from './helpers.js'
+import { getProfileContext, addProfileOption, reportError } from './helpers.js'
 
 export const webhooksCommand = new Command('webhooks')
   .description('Manage webhooks')
@@ -36,8 +36,7 @@ webhooksCommand
       success(`Webhook created: ${webhook.name} (${webhook.id})`)
       info(formatWebhook(webhook))
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -65,8 +64,7 @@ webhooksCommand
         info(formatWebhook(w))
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -87,8 +85,7 @@ webhooksCommand
       await client.deleteWebhook(webhookId)
       success('Webhook deleted.')
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -114,8 +111,7 @@ webhooksCommand
         process.exitCode = 1
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
 
@@ -145,7 +141,6 @@ webhooksCommand
         info(`  [${status}] ${d.event} -> ${code} (attempt ${d.attempt}) ${d.createdAt}`)
       }
     } catch (err) {
-      error((err as Error).message)
-      process.exitCode = 1
+      reportError(err)
     }
   })
@@ -9,6 +9,8 @@ export interface ProfileConfig {
   clawId: string
   publicKey: string
   displayName: string
+  /** Encrypt outgoing messages whenever every recipient has an E2EE key */
+  autoEncrypt?: boolean
 }
 
 export interface MultiProfileConfig {
@@ -68,8 +70,39 @@ function statePath(): string {
   return join(getConfigDir(), 'state.json')
 }
 
-export function inboxCachePath(): string {
-  return join(getConfigDir(), 'inbox.jsonl')
+/** Daemon event cache for one profile (rotated copies get a .1, .2, ... suffix) */
+export function inboxCachePath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `inbox-${profileName}.jsonl`)
+}
+
+const CARAPACE_OWNER_FILE = '.carapace-owner'
+
+/**
+ * The profile references/carapace.md belongs to. The first time it is asked,
+ * the current default claims it (the file predates per-profile carapaces) and
+ * the name is written down, so changing the default later never moves it.
+ */
+function carapaceOwner(referencesDir: string, defaultProfileName: string | null): string | null {
+  const ownerFile = join(referencesDir, CARAPACE_OWNER_FILE)
+  if (existsSync(ownerFile)) return readFileSync(ownerFile, 'utf-8').trim() || null
+  if (!defaultProfileName) return null
+  mkdirSync(referencesDir, { recursive: true })
+  writeFileSync(ownerFile, defaultProfileName + '\n')
+  return defaultProfileName
+}
+
+/**
+ * carapace.md for a profile. One profile keeps references/carapace.md (the file
+ * the agent skill reads), see carapaceOwner; every other profile gets
+ * carapace-<name>.md, whichever profile is the default.
+ */
+export function carapacePath(configDir: string, profileName: string | null, defaultProfileName: string | null): string {
+  const referencesDir = join(configDir, 'references')
+  const file =
+    !profileName || profileName === carapaceOwner(referencesDir, defaultProfileName)
+      ? 'carapace.md'
+      : `carapace-${profileName}.md`
+  return join(referencesDir, file)
 }
 
 // -- Profile name generation --
@@ -228,6 +261,17 @@ export function addProfile(profileName: string, profile: ProfileConfig): void {
   saveConfig(config)
 }
 
+export function updateProfileConfig(profileName: string, patch: Partial<ProfileConfig>): boolean {
+  const config = loadConfig()
+  if (!config || !(profileName in config.profiles)) {
+    return false
+  }
+
+  config.profiles[profileName] = { ...config.profiles[profileName], ...patch }
+  saveConfig(config)
+  return true
+}
+
 export function removeProfile(profileName: string): boolean {
   const config = loadConfig()
   if (!config || !(profileName in config.profiles)) {
@@ -0,0 +1,218 @@
+import { randomBytes } from 'node:crypto'
+import {
+  ed25519PrivateToX25519,
+  x25519GetPublicKey,
+  x25519SharedSecret,
+  deriveSessionKeySync,
+  aesEncrypt,
+  aesDecrypt,
+} from './x25519.js'
+import type { Block, EncryptedBlock, InboxEntry } from '../types.js'
+
+/** Local identity needed to open envelopes addressed to us */
+export interface E2eeIdentity {
+  clawId: string
+  /** Ed25519 private key (hex); the X25519 key is derived from it */
+  privateKey: string
+  /** X25519 private keys after `e2ee rotate`, newest first; defaults to the derived key */
+  x25519PrivateKeys?: string[]
+  /**
+   * X25519 public keys we accept from a contact (pinned, or seen in the key
+   * directory). When set, envelopes whose sender key is not among them are refused.
+   */
+  senderKeys?: (clawId: string) => string[] | undefined
+}
+
+export interface EnvelopeRecipient {
+  clawId: string
+  x25519PublicKey: string
+}
+
+export function isEncryptedBlock(block: { type: string }): block is EncryptedBlock {
+  return block.type === 'encrypted'
+}
+
+/** Derive our X25519 public key, matching what `e2ee setup` registers */
+export function getX25519PublicKey(ed25519PrivateKey: string): string {
+  return x25519GetPublicKey(ed25519PrivateToX25519(ed25519PrivateKey))
+}
+
+/** Our X25519 private keys, newest first; older ones are kept so past messages stay readable */
+export function x25519PrivateKeys(me: E2eeIdentity): string[] {
+  return me.x25519PrivateKeys?.length ? me.x25519PrivateKeys : [ed25519PrivateToX25519(me.privateKey)]
+}
+
+/** The X25519 public key others should currently encrypt to */
+export function currentX25519PublicKey(me: E2eeIdentity): string {
+  return x25519GetPublicKey(x25519PrivateKeys(me)[0])
+}
+
+/**
+ * Refuse a sender X25519 key that does not belong to the claimed sender, so a
+ * server or relay cannot seal its own envelope under someone else's clawId.
+ * Our own messages must carry one of our keys.
+ */
+function checkSenderKey(me: E2eeIdentity, senderClawId: string | undefined, senderPublicKey: string): void {
+  if (!senderClawId || !me.senderKeys) return
+  const accepted =
+    senderClawId === me.clawId ? x25519PrivateKeys(me).map((k) => x25519GetPublicKey(k)) : me.senderKeys(senderClawId)
+  if (!accepted?.includes(senderPublicKey)) {
+    throw new Error(`Sender key does not match the key registered for ${senderClawId}`)
+  }
+}
+
+/** Try each of our keys in turn; rethrows the last failure */
+function withAnyKey<T>(me: E2eeIdentity, fn: (x25519Private: string) => T): T {
+  let lastErr: unknown
+  for (const key of x25519PrivateKeys(me)) {
+    try {
+      return fn(key)
+    } catch (err) {
+      lastErr = err
+    }
+  }
+  throw lastErr
+}
+
+/**
+ * Wrap a symmetric key for one recipient.
+ * The wrapping key is HKDF(X25519(myPriv, theirPub), salt).
+ */
+export function wrapKey(
+  key: Buffer,
+  myX25519Private: string,
+  theirX25519Public: string,
+  salt: string,
+): { wrappedKey: string; nonce: string } {
+  const kek = deriveSessionKeySync(x25519SharedSecret(myX25519Private, theirX25519Public), salt)
+  const { ciphertext, nonce } = aesEncrypt(kek, key.toString('hex'))
+  return { wrappedKey: ciphertext, nonce }
+}
+
+/** Inverse of wrapKey; throws if the key was not wrapped for us */
+export function unwrapKey(
+  wrappedKey: string,
+  nonce: string,
+  myX25519Private: string,
+  theirX25519Public: string,
+  salt: string,
+): Buffer {
+  const kek = deriveSessionKeySync(x25519SharedSecret(myX25519Private, theirX25519Public), salt)
+  return Buffer.from(aesDecrypt(kek, wrappedKey, nonce), 'hex')
+}
+
+/** A symmetric key wrapped for one recipient, serialized as base64 JSON */
+interface SealedKey {
+  v: 1
+  senderPublicKey: string
+  salt: string
+  wrappedKey: string
+  nonce: string
+}
+
+/**
+ * Wrap a hex symmetric key (group sender key, thread key) for one recipient.
+ * The result is self-contained: it carries our X25519 public key and the salt.
+ */
+export function sealKey(keyHex: string, sender: E2eeIdentity, recipientX25519Public: string): string {
+  const myX25519Private = x25519PrivateKeys(sender)[0]
+  const salt = randomBytes(16).toString('base64')
+  const sealed: SealedKey = {
+    v: 1,
+    senderPublicKey: x25519GetPublicKey(myX25519Private),
+    salt,
+    ...wrapKey(Buffer.from(keyHex, 'hex'), myX25519Private, recipientX25519Public, salt),
+  }
+  return Buffer.from(JSON.stringify(sealed)).toString('base64')
+}
+
+/** The X25519 key a sealed key claims to be sealed with */
+export function sealedKeySender(sealedKey: string): string {
+  return (JSON.parse(Buffer.from(sealedKey, 'base64').toString('utf-8')) as SealedKey).senderPublicKey
+}
+
+/**
+ * Unwrap a key produced by sealKey; throws if it was sealed for someone else,
+ * or (with senderClawId) by a key that is not theirs.
+ */
+export function openSealedKey(sealedKey: string, me: E2eeIdentity, senderClawId?: string): string {
+  const sealed = JSON.parse(Buffer.from(sealedKey, 'base64').toString('utf-8')) as SealedKey
+  checkSenderKey(me, senderClawId, sealed.senderPublicKey)
+  const key = withAnyKey(me, (x25519Private) =>
+    unwrapKey(sealed.wrappedKey, sealed.nonce, x25519Private, sealed.senderPublicKey, sealed.salt),
+  )
+  return key.toString('hex')
+}
+
+/**
+ * Seal message blocks into a single encrypted envelope block.
+ * The sender is always added as a recipient so it can read its own messages.
+ */
+export function encryptBlocks(
+  blocks: Array<{ type: string; [key: string]: unknown }>,
+  sender: E2eeIdentity,
+  recipients: EnvelopeRecipient[],
+): EncryptedBlock {
+  const myX25519Private = x25519PrivateKeys(sender)[0]
+  const senderPublicKey = x25519GetPublicKey(myX25519Private)
+  const salt = randomBytes(16).toString('base64')
+  const contentKey = randomBytes(32)
+
+  const { ciphertext, nonce } = aesEncrypt(contentKey, JSON.stringify(blocks))
+
+  const all = new Map<string, string>()
+  all.set(sender.clawId, senderPublicKey)
+  for (const r of recipients) all.set(r.clawId, r.x25519PublicKey)
+
+  return {
+    type: 'encrypted',
+    version: 1,
+    senderPublicKey,
+    salt,
+    nonce,
+    ciphertext,
+    recipients: [...all].map(([clawId, pub]) => ({
+      clawId,
+      ...wrapKey(contentKey, myX25519Private, pub, salt),
+    })),
+  }
+}
+
+/**
+ * Open an envelope addressed to us. Throws if we are not a recipient, it was
+ * tampered with, or (with fromClawId) it was not sealed with the sender's key.
+ */
+export function decryptBlocks(envelope: EncryptedBlock, me: E2eeIdentity, fromClawId?: string): Block[] {
+  const entry = envelope.recipients.find((r) => r.clawId === me.clawId)
+  if (!entry) {
+    throw new Error('Message was not encrypted for this profile')
+  }
+  checkSenderKey(me, fromClawId, envelope.senderPublicKey)
+  const contentKey = withAnyKey(me, (x25519Private) =>
+    unwrapKey(entry.wrappedKey, entry.nonce, x25519Private, envelope.senderPublicKey, envelope.salt),
+  )
+  return JSON.parse(aesDecrypt(contentKey, envelope.ciphertext, envelope.nonce)) as Block[]
+}
+
+/**
+ * Replace every encrypted block with its decrypted contents.
+ * Blocks that cannot be opened are kept as-is so callers can render a placeholder.
+ */
+export function decryptBlockList(blocks: Block[], me: E2eeIdentity, fromClawId?: string): Block[] {
+  if (!blocks.some(isEncryptedBlock)) return blocks
+  return blocks.flatMap((b) => {
+    if (!isEncryptedBlock(b)) return [b]
+    try {
+      return decryptBlocks(b, me, fromClawId)
+    } catch {
+      return [b]
+    }
+  })
+}
+
+/** Return a copy of the inbox entry with its message blocks decrypted */
+export function decryptInboxEntry(entry: InboxEntry, me: E2eeIdentity): InboxEntry {
+  const blocks = decryptBlockList(entry.message.blocks, me, entry.message.fromClawId)
+  if (blocks === entry.message.blocks) return entry
+  return { ...entry, message: { ...entry.message, blocks } }
+}
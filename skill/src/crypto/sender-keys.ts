@@ -0,0 +1,26 @@
+import { randomBytes } from 'node:crypto'
+import { aesEncrypt, aesDecrypt } from './x25519.js'
+import type { Block, GroupEncryptedBlock } from '../types.js'
+
+/** Generate a fresh 256-bit sender key (hex) */
+export function generateSenderKey(): string {
+  return randomBytes(32).toString('hex')
+}
+
+export function isGroupEncryptedBlock(block: { type: string }): block is GroupEncryptedBlock {
+  return block.type === 'group_encrypted'
+}
+
+export function encryptGroupBlocks(
+  blocks: Array<{ type: string; [key: string]: unknown }>,
+  groupId: string,
+  senderKey: string,
+  keyGeneration: number,
+): GroupEncryptedBlock {
+  const { ciphertext, nonce } = aesEncrypt(Buffer.from(senderKey, 'hex'), JSON.stringify(blocks))
+  return { type: 'group_encrypted', version: 1, groupId, keyGeneration, nonce, ciphertext }
+}
+
+export function decryptGroupBlocks(block: GroupEncryptedBlock, senderKey: string): Block[] {
+  return JSON.parse(aesDecrypt(Buffer.from(senderKey, 'hex'), block.ciphertext, block.nonce)) as Block[]
+}
@@ -1,6 +1,6 @@
 import { x25519 } from '@noble/curves/ed25519'
 import { createHash, createCipheriv, createDecipheriv, randomBytes } from 'node:crypto'
-import { hkdf } from 'node:crypto'
+import { hkdf, hkdfSync } from 'node:crypto'
 
 /**
  * Convert Ed25519 private key to X25519 private key.
@@ -49,6 +49,13 @@ export function deriveSessionKey(sharedSecret: Buffer, salt: string): Promise<Bu
   })
 }
 
+/**
+ * Synchronous variant of deriveSessionKey, for formatting paths that cannot await.
+ */
+export function deriveSessionKeySync(sharedSecret: Buffer, salt: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', sharedSecret, salt, 'clawbuds-e2ee-v1', 32))
+}
+
 /**
  * Encrypt data with AES-256-GCM.
  * Returns { ciphertext, nonce } both as base64.
@@ -0,0 +1,173 @@
+/**
+ * Daemon metrics in the Prometheus text exposition format, served on
+ * GET /local/metrics, and the per-profile connection report behind
+ * GET /local/health.
+ *
+ * Counters and histograms are updated as things happen; collected metrics
+ * (owner-queue depth, WsClient reconnects, ...) are read at scrape time.
+ * Everything lives in memory and starts from zero when the daemon restarts.
+ */
+
+export type Labels = Record<string, string>
+
+interface Metric {
+  render(): string[]
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${escapeLabelValue(labels[key])}"`)
+  return parts.length > 0 ? `{${parts.join(',')}}` : ''
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, number>()
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = formatLabels(labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + by)
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels)) ?? 0
+  }
+
+  render(): string[] {
+    const lines = [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`)
+    return [...header(this.name, this.help, 'counter'), ...lines]
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels
+  /** Per bucket, not cumulative */
+  counts: number[]
+  sum: number
+  count: number
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, HistogramSeries>()
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[],
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels)
+    let series = this.series.get(key)
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+    const bucket = this.buckets.findIndex((upper) => value <= upper)
+    if (bucket >= 0) series.counts[bucket]++
+    series.sum += value
+    series.count++
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram')
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      let cumulative = 0
+      this.buckets.forEach((upper, i) => {
+        cumulative += counts[i]
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(upper) })} ${cumulative}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+/** A gauge or counter whose values are read from elsewhere when scraped */
+export class CollectedMetric implements Metric {
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly type: 'gauge' | 'counter',
+    private readonly collect: () => Array<{ labels: Labels; value: number }>,
+  ) {}
+
+  render(): string[] {
+    let samples: Array<{ labels: Labels; value: number }>
+    try {
+      samples = this.collect()
+    } catch {
+      // One unreadable source should not break the whole scrape
+      samples = []
+    }
+    const lines = samples.map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    return [...header(this.name, this.help, this.type), ...lines]
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = []
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric)
+    return metric
+  }
+
+  render(): string {
+    return this.metrics.flatMap((m) => m.render()).join('\n') + '\n'
+  }
+}
+
+// -- Health --
+
+export type ProfileConnectionState = 'connected' | 'connecting' | 'held' | 'stopped'
+
+export interface ProfileHealth {
+  /**
+   * connected: WebSocket open · connecting: (re)connecting · held: taken offline
+   * with `daemon disconnect` · stopped: configured but not running (e.g. no key)
+   */
+  state: ProfileConnectionState
+  connectedSince: string | null
+  lastEventAt: string | null
+  reconnectAttempts: number
+}
+
+export interface DaemonHealth {
+  /** ok: every profile that should be connected is · degraded: some are not · down: none are */
+  status: 'ok' | 'degraded' | 'down'
+  startedAt: string
+  uptimeSeconds: number
+  profiles: Record<string, ProfileHealth>
+}
+
+export function summarizeHealth(
+  profiles: Record<string, ProfileHealth>,
+  startedAt: number,
+  now: number = Date.now(),
+): DaemonHealth {
+  const states = Object.values(profiles).map((p) => p.state)
+  const connected = states.filter((s) => s === 'connected').length
+  const lagging = states.filter((s) => s === 'connecting' || s === 'stopped').length
+  return {
+    status: connected === 0 ? 'down' : lagging > 0 ? 'degraded' : 'ok',
+    startedAt: new Date(startedAt).toISOString(),
+    uptimeSeconds: Math.round((now - startedAt) / 1000),
+    profiles,
+  }
+}
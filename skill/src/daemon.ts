@@ -9,23 +9,86 @@ import {
   saveState,
   ensureConfigDir,
   getCurrentProfile,
+  getProfile,
   getCurrentProfileName,
 } from './config.js'
-import { appendToCache, updateLastSeq } from './cache.js'
+import { appendToCache, compactCache, updateLastSeq } from './cache.js'
+import { LocalStore, fromInboxEntry, fromPlazaPost } from './local-store.js'
+import { drainOutbox, type OutboxContext } from './outbox.js'
+import { addOwnerQueueItem, countPendingOwnerQueue } from './owner-queue.js'
+import { clusterAnswers } from './answer-clustering.js'
+import {
+  allocateAttention,
+  loadAttentionBudget,
+  scorePlazaPost,
+  deliverHeldNotifications,
+  flushQuietHoursHeld,
+  holdNotification,
+  type NotificationCandidate,
+} from './attention-budget.js'
+import {
+  loadRoutingRules,
+  needsSenderInfo,
+  loadSenderDirectory,
+  routeNotification,
+  eventSender,
+  isQuietTime,
+  type RoutingRules,
+  type SenderInfo,
+} from './notification-routing.js'
+import {
+  trackQuestion,
+  recordQuestionReply,
+  backfillQuestions,
+  loadOpenTrackedQuestions,
+  saveTrackedQuestions,
+  loadAuthoredPosts,
+  saveAuthoredPosts,
+  type TrackedQuestion,
+} from './plaza-questions.js'
 import { WsClient } from './ws-client.js'
 import { ClawBudsClient } from './client.js'
-import type { WsEvent, InboxEntry } from './types.js'
+import type { WsEvent, InboxEntry, WsGroupKeyRotation, WsGroupLeft, WsGroupRemoved } from './types.js'
 import {
-  createPlugin,
+  defaultPluginTypes,
   formatMessageNotification,
   formatFriendRequestNotification,
   formatFriendAcceptedNotification,
   formatPollVotedNotification,
   formatGroupInvitedNotification,
+  formatKeyChangedNotification,
   type NotificationPlugin,
   type NotificationEvent,
 } from './notification-plugin.js'
+import { startPlugin, startPlugins, notifyAll } from './plugin-loader.js'
 import { createLocalServer, type LocalServer } from './local-server.js'
+import { loadOrCreateLocalToken } from './local-api.js'
+import { EventStream } from './event-stream.js'
+import { createLogger } from './logger.js'
+import { saveFriendsMirror } from './local-mirror.js'
+import {
+  planProfileReload,
+  resetReconnectedSeq,
+  watchConfigFile,
+  type ProfileEndpoint,
+  type ProfileReloadResult,
+} from './profile-reload.js'
+import {
+  CollectedMetric,
+  Counter,
+  Histogram,
+  MetricsRegistry,
+  summarizeHealth,
+  type DaemonHealth,
+  type ProfileHealth,
+} from './daemon-metrics.js'
+import {
+  distributeSenderKey,
+  forgetSenderKey,
+  hasSenderKey,
+  type GroupE2eeContext,
+} from './group-e2ee.js'
+import { envelopeSenders, loadE2eeIdentity, recordKeyUpdate, refreshSenderKeys } from './e2ee-keys.js'
 import { existsSync, readFileSync, writeFileSync } from 'node:fs'
 import { join, dirname } from 'node:path'
 import { fileURLToPath } from 'node:url'
@@ -33,14 +96,24 @@ import { fileURLToPath } from 'node:url'
 const POLL_DIGEST_MS = parseInt(process.env.CLAWBUDS_POLL_DIGEST_MS || '300000', 10) // default 5min
 const PLAZA_PULL_DEBOUNCE_MS = 100
 const PLAZA_POLL_INTERVAL_MS = parseInt(process.env.CLAWBUDS_PLAZA_POLL_MS || '30000', 10) // fallback 30s
-const PLUGIN_TYPE =
-  process.env.CLAWBUDS_NOTIFICATION_PLUGIN || (process.env.OPENCLAW_HOOKS_TOKEN ? 'openclaw' : 'console')
 const LOCAL_PORT = parseInt(process.env.CLAWBUDS_LOCAL_PORT || '7878', 10)
+// Extra browser origins for the local gateway, e.g. a vite dev server (comma-separated)
+const LOCAL_ALLOWED_ORIGINS = (process.env.CLAWBUDS_LOCAL_ORIGINS || '')
+  .split(',')
+  .map((s) => s.trim())
+  .filter(Boolean)
 const CHECKIN_INTERVAL_MS = parseInt(process.env.CLAWBUDS_CHECKIN_INTERVAL_MS || '14400000', 10) // default 4 hours
+const QUIET_HOURS_CHECK_MS = 60_000
 
-let notificationPlugin: NotificationPlugin | null = null
+/** Started notification plugins by name; null when one failed to start (not retried) */
+const plugins = new Map<string, NotificationPlugin | null>()
+/** Plugins every event goes to unless routing rules say otherwise */
+let defaultPlugins: string[] = []
 let checkinTimer: ReturnType<typeof setInterval> | null = null
 let localServer: LocalServer | null = null
+/** Everything the daemon sees or generates, for GET /local/events */
+const daemonEvents = new EventStream()
+const log = createLogger('daemon')
 
 // -- Web dist resolution --
 
@@ -70,27 +143,251 @@ function resolveWebDist(configDir: string): string | undefined {
 
 interface ProfileConnection {
   profileName: string
+  serverUrl: string
   clawId: string
   ws: WsClient
   lastSeq: number
+  /** REST client for this profile (also serves /local/profiles/:name/*) */
+  client: ClawBudsClient
+  /** Periodic outbox retry (items whose backoff has expired) */
+  outboxTimer: ReturnType<typeof setInterval>
+  /** When the WebSocket last opened; null while (re)connecting */
+  connectedAt: number | null
+  lastEventAt: number | null
 }
 
 const profileConnections = new Map<string, ProfileConnection>()
 
+/** Profiles taken offline with `clawbuds daemon disconnect`; reloads leave them alone */
+const heldProfiles = new Set<string>()
+
+// -- Metrics and health (GET /local/metrics, /local/health) --
+
+const daemonStartedAt = Date.now()
+const metrics = new MetricsRegistry()
+const eventsReceived = metrics.register(
+  new Counter('clawbuds_events_received_total', 'WebSocket events received from the server'),
+)
+const plazaPullSeconds = metrics.register(
+  new Histogram('clawbuds_plaza_pull_duration_seconds', 'Time to fetch new plaza posts', [0.1, 0.25, 0.5, 1, 2.5, 5, 10]),
+)
+const plazaPullErrors = metrics.register(new Counter('clawbuds_plaza_pull_errors_total', 'Plaza pulls that failed'))
+const notificationsSent = metrics.register(
+  new Counter('clawbuds_notifications_total', 'Notifications handed to plugins, by outcome (delivered or failed)'),
+)
+const notificationsSuppressed = metrics.register(
+  new Counter('clawbuds_notifications_suppressed_total', 'Notifications muted by a routing rule or held for quiet hours'),
+)
+const pollDigestVotes = metrics.register(
+  new Histogram('clawbuds_poll_digest_votes', 'Votes per poll digest notification', [1, 2, 5, 10, 25, 50, 100]),
+)
+metrics.register(
+  new CollectedMetric('clawbuds_profile_connected', 'Whether the profile WebSocket is open', 'gauge', () =>
+    [...profileConnections.values()].map((c) => ({ labels: { profile: c.profileName }, value: c.connectedAt ? 1 : 0 })),
+  ),
+)
+metrics.register(
+  new CollectedMetric('clawbuds_ws_reconnects_total', 'WebSocket reconnects since the profile was connected', 'counter', () =>
+    [...profileConnections.values()].map((c) => ({ labels: { profile: c.profileName }, value: c.ws.reconnectAttempts })),
+  ),
+)
+metrics.register(
+  new CollectedMetric('clawbuds_owner_queue_pending', 'Owner queue items not yet acknowledged', 'gauge', () =>
+    [...profileConnections.keys()].map((name) => ({
+      labels: { profile: name },
+      value: countPendingOwnerQueue(name, ensureConfigDir()),
+    })),
+  ),
+)
+metrics.register(
+  new CollectedMetric('clawbuds_event_stream_clients', 'Clients connected to /local/events', 'gauge', () => [
+    { labels: {}, value: daemonEvents.subscriberCount },
+  ]),
+)
+
+function daemonHealth(): DaemonHealth {
+  const iso = (at: number | null | undefined): string | null => (at ? new Date(at).toISOString() : null)
+  const profiles: Record<string, ProfileHealth> = {}
+  for (const { name } of listProfiles()) {
+    const conn = profileConnections.get(name)
+    profiles[name] = {
+      state: conn ? (conn.connectedAt ? 'connected' : 'connecting') : heldProfiles.has(name) ? 'held' : 'stopped',
+      connectedSince: iso(conn?.connectedAt),
+      lastEventAt: iso(conn?.lastEventAt),
+      reconnectAttempts: conn?.ws.reconnectAttempts ?? 0,
+    }
+  }
+  return summarizeHealth(profiles, daemonStartedAt)
+}
+
+/** Search stores, opened once per profile and kept in memory */
+const localStores = new Map<string, LocalStore>()
+
+/** The daemon is the one long-lived writer, so it also compacts the logs */
+function localStoreFor(profileName: string): LocalStore {
+  let store = localStores.get(profileName)
+  if (!store) {
+    store = LocalStore.open(profileName)
+    localStores.set(profileName, store)
+  }
+  try {
+    if (store.compactIfNeeded()) log.info(`compacted local store (${store.size} messages)`, { profile: profileName })
+  } catch (err) {
+    log.warn(`local store compaction failed: ${(err as Error).message}`, { profile: profileName })
+  }
+  return store
+}
+
 // -- Notification wrapper --
 
-async function notify(event: NotificationEvent, profileName: string): Promise<void> {
-  if (notificationPlugin) {
-    // Add profile context to notification
-    const eventWithProfile = {
-      ...event,
-      data: {
-        ...event.data,
-        _profile: profileName,
-      },
+/** Route and deliver one notification; true when at least one plugin delivered it */
+async function notify(event: NotificationEvent, profileName: string): Promise<boolean> {
+  if (defaultPlugins.length === 0) return false
+
+  const routing = await routingFor(profileName)
+  const sender = eventSender(event)
+  const decision = routeNotification(event, routing?.rules ?? null, {
+    defaultPlugins,
+    escalationKeywords: routing?.escalationKeywords,
+    sender: sender ? routing?.senders.get(sender) : undefined,
+  })
+  const via = decision.rule ? ` (rule ${decision.rule})` : ''
+
+  if (decision.outcome === 'muted') {
+    notificationsSuppressed.inc({ profile: profileName, reason: 'muted' })
+    log.info(`${event.type} muted${via}`, { profile: profileName })
+    return false
+  }
+  if (decision.outcome === 'quiet_hours') {
+    notificationsSuppressed.inc({ profile: profileName, reason: 'quiet_hours' })
+    // Delivered when quiet hours end (or by an earlier check-in)
+    holdNotification(profileName, event, event.priority === 'high' ? 0.9 : 0.5, ensureConfigDir())
+    log.info(`${event.type} held for quiet hours${via}`, { profile: profileName })
+    return false
+  }
+
+  // Add profile context to notification
+  const eventWithProfile: NotificationEvent = {
+    ...event,
+    priority: decision.escalated ? 'high' : event.priority,
+    data: {
+      ...(event.data as Record<string, unknown>),
+      _profile: profileName,
+    },
+  }
+  const targets = new Map<string, NotificationPlugin>()
+  for (const name of decision.plugins) {
+    const plugin = await pluginByName(name)
+    if (plugin) targets.set(name, plugin)
+  }
+  const failures = await notifyAll(targets, eventWithProfile)
+  for (const name of targets.keys()) {
+    const failed = failures.some((f) => f.name === name)
+    notificationsSent.inc({ profile: profileName, plugin: name, outcome: failed ? 'failed' : 'delivered' })
+  }
+  for (const failure of failures) {
+    log.error(`plugin ${failure.name} failed on ${event.type}: ${failure.error}`, { profile: profileName })
+  }
+  return failures.length < targets.size
+}
+
+// -- Notification routing: notification-rules-<profile>.json --
+
+const ROUTING_REFRESH_MS = 15 * 60 * 1000
+
+interface ProfileRouting {
+  rules: RoutingRules | null
+  /** From the owner's AutonomyConfig on the server */
+  escalationKeywords: string[]
+  /** Circles and relationship layers of friends, only loaded when rules use them */
+  senders: Map<string, SenderInfo>
+  loadedAt: number
+}
+
+const profileRouting = new Map<string, ProfileRouting>()
+
+/** Plugin settings from the environment, shared by every plugin the daemon starts */
+function pluginConfig(): Record<string, string> {
+  return {
+    hooksBase: process.env.OPENCLAW_HOOKS_URL || '',
+    hooksToken: process.env.OPENCLAW_HOOKS_TOKEN || '',
+    hooksChannel: process.env.OPENCLAW_HOOKS_CHANNEL || '',
+    webhookUrl: process.env.CLAWBUDS_WEBHOOK_URL || '',
+    webhookSecret: process.env.CLAWBUDS_WEBHOOK_SECRET || '',
+  }
+}
+
+/** A started plugin; plugins only named by routing rules are started on first use */
+async function pluginByName(name: string): Promise<NotificationPlugin | null> {
+  if (!plugins.has(name)) {
+    try {
+      plugins.set(name, await startPlugin(name, pluginConfig(), ensureConfigDir()))
+      log.info(`notification plugin started: ${name}`)
+    } catch (err) {
+      log.error(`notification plugin ${name} failed to initialize: ${(err as Error).message}`)
+      plugins.set(name, null)
+    }
+  }
+  return plugins.get(name) ?? null
+}
+
+/** Only the console plugin: events are already logged, nothing to deliver */
+function consoleOnly(): boolean {
+  return defaultPlugins.length === 0 || (defaultPlugins.length === 1 && defaultPlugins[0] === 'console')
+}
+
+/** (Re)load rules, escalation keywords and the sender directory for a profile */
+async function loadProfileRouting(profileName: string, client: ClawBudsClient, configDir: string): Promise<void> {
+  const routing: ProfileRouting = { rules: null, escalationKeywords: [], senders: new Map(), loadedAt: Date.now() }
+  // Set first so concurrent notifications do not trigger another load
+  profileRouting.set(profileName, routing)
+
+  try {
+    routing.rules = loadRoutingRules(profileName, configDir)
+  } catch (err) {
+    log.warn(`routing rules ignored: ${(err as Error).message}`, { profile: profileName })
+  }
+  try {
+    routing.escalationKeywords = (await client.getAutonomy()).autonomyConfig?.escalationKeywords ?? []
+  } catch {
+    // Keep delivering without escalation
+  }
+  if (routing.rules && needsSenderInfo(routing.rules)) {
+    try {
+      routing.senders = await loadSenderDirectory(client)
+    } catch (err) {
+      log.warn(`routing: could not load circles/layers: ${(err as Error).message}`, { profile: profileName })
     }
-    await notificationPlugin.notify(eventWithProfile)
   }
+  if (routing.rules) {
+    const quiet = routing.rules.quietHours ? `, quiet ${routing.rules.quietHours.start}-${routing.rules.quietHours.end}` : ''
+    log.info(`routing: ${routing.rules.rules.length} rule(s)${quiet}`, { profile: profileName })
+  }
+}
+
+async function routingFor(profileName: string): Promise<ProfileRouting | undefined> {
+  const routing = profileRouting.get(profileName)
+  const client = profileConnections.get(profileName)?.client
+  if (client && (!routing || Date.now() - routing.loadedAt > ROUTING_REFRESH_MS)) {
+    await loadProfileRouting(profileName, client, ensureConfigDir())
+  }
+  return profileRouting.get(profileName)
+}
+
+/** Whether each profile was in quiet hours at the last check; unset until the first */
+const inQuietHours = new Map<string, boolean>()
+
+/** When a profile's quiet hours end, deliver what they held through its routed plugins */
+async function flushQuietHours(profileName: string): Promise<void> {
+  const quietHours = (await routingFor(profileName))?.rules?.quietHours
+  const quiet = quietHours ? isQuietTime(quietHours) : false
+  const wasQuiet = inQuietHours.get(profileName)
+  inQuietHours.set(profileName, quiet)
+  // Once per window (and at startup), so a failing plugin is not retried every minute
+  if (quiet || wasQuiet === false) return
+
+  const delivered = await flushQuietHoursHeld(profileName, (event) => notify(event, profileName), ensureConfigDir())
+  if (delivered > 0) log.info(`delivered ${delivered} notification(s) held for quiet hours`, { profile: profileName })
 }
 
 // -- Poll vote digest (global across all profiles) --
@@ -107,9 +404,10 @@ let pollDigestTimer: ReturnType<typeof setInterval> | null = null
 
 function bufferPollVote(data: PollVote): void {
   pollVoteBuffer.push(data)
-  console.log(
-    `[daemon:${data.profileName}] poll vote buffered (${pollVoteBuffer.length} pending, digest in ${Math.round(POLL_DIGEST_MS / 1000)}s)`,
-  ) // eslint-disable-line no-console
+  log.info(
+    `poll vote buffered (${pollVoteBuffer.length} pending, digest in ${Math.round(POLL_DIGEST_MS / 1000)}s)`,
+    { profile: data.profileName },
+  )
 }
 
 async function flushPollDigest(): Promise<void> {
@@ -138,6 +436,7 @@ async function flushPollDigest(): Promise<void> {
       const summary = votes.map((v) => `${v.clawId} voted option ${v.optionIndex}`).join(', ')
       lines.push(`Poll ${pollId}: ${votes.length} new vote(s) — ${summary}`)
     }
+    pollDigestVotes.observe({}, totalVotes)
 
     const message = `ClawBuds poll activity [${profileName}] (${totalVotes} vote(s) in the last ${Math.round(POLL_DIGEST_MS / 60000)} min):\n\n${lines.join('\n')}\n\nRun "clawbuds poll results <pollId> --profile ${profileName}" to see full results.`
 
@@ -150,7 +449,7 @@ async function flushPollDigest(): Promise<void> {
       profileName,
     )
 
-    console.log(`[daemon:${profileName}] poll digest sent: ${totalVotes} vote(s) across ${pollMap.size} poll(s)`) // eslint-disable-line no-console
+    log.info(`poll digest sent: ${totalVotes} vote(s) across ${pollMap.size} poll(s)`, { profile: profileName })
   }
 
   pollVoteBuffer.length = 0
@@ -158,6 +457,16 @@ async function flushPollDigest(): Promise<void> {
 
 // -- Profile connection management --
 
+/** Fold the previous run's rotated cache files and replayed events into one file */
+function compactProfileCache(profileName: string): void {
+  try {
+    const { before, after } = compactCache(profileName)
+    if (after < before) log.info(`compacted inbox cache (${before} → ${after} events)`, { profile: profileName })
+  } catch (err) {
+    log.warn(`inbox cache compaction failed: ${(err as Error).message}`, { profile: profileName })
+  }
+}
+
 function connectProfile(
   profileName: string,
   serverUrl: string,
@@ -165,7 +474,8 @@ function connectProfile(
   privateKey: string,
   lastSeq: number,
 ): void {
-  console.log(`[daemon:${profileName}] connecting to ${serverUrl} (lastSeq: ${lastSeq})`) // eslint-disable-line no-console
+  log.info(`connecting to ${serverUrl} (lastSeq: ${lastSeq})`, { profile: profileName })
+  compactProfileCache(profileName)
 
   // Initialize plaza pull state
   const configDir = ensureConfigDir()
@@ -175,22 +485,35 @@ function connectProfile(
 
   // Load profile tags for interest matching + initial plaza pull
   loadMyTags(profileName, apiClient, configDir).catch(() => {})
+  restorePlazaTracking(profileName, apiClient, configDir).catch(() => {})
+  loadProfileRouting(profileName, apiClient, configDir).catch(() => {})
   pullPlazaPosts(profileName, apiClient, configDir).catch(() => {})
 
+  const outboxCtx: OutboxContext = {
+    client: apiClient,
+    profileName,
+    identity: loadE2eeIdentity(profileName, clawId, privateKey),
+  }
+
   const ws = new WsClient({
     serverUrl,
     clawId,
     privateKey,
     lastSeq,
     onEvent: async (event: WsEvent) => {
+      daemonEvents.publish(profileName, event.type, event.data)
+      eventsReceived.inc({ profile: profileName, type: event.type })
+      const current = profileConnections.get(profileName)
+      if (current?.ws === ws) current.lastEventAt = Date.now()
+
       // Handle plaza.tick separately (lightweight, no cache append)
       if (event.type === 'plaza.tick') {
         handlePlazaTick(profileName, (event.data as { latestId: string }).latestId, apiClient, configDir)
         return
       }
 
-      console.log(`[daemon:${profileName}] event: ${event.type}`, JSON.stringify(event.data)) // eslint-disable-line no-console
-      appendToCache(event)
+      log.info(`event: ${event.type}`, { profile: profileName, data: event.data })
+      appendToCache(profileName, event)
 
       // Update connection's lastSeq (only message.new events carry a seq number)
       if (event.type === 'message.new') {
@@ -198,20 +521,22 @@ function connectProfile(
         if (conn) {
           conn.lastSeq = event.seq
         }
+        updateLastSeq(profileName, event.seq)
+        await refreshSenderKeys(apiClient, profileName, envelopeSenders([event.data.message]))
+        localStoreFor(profileName).upsert([fromInboxEntry(event.data, loadE2eeIdentity(profileName, clawId, privateKey))])
       }
 
-      if (!notificationPlugin || notificationPlugin.name === 'console') {
-        // For console plugin, just log to console (already done above)
+      if (consoleOnly() && !profileRouting.get(profileName)?.rules) {
+        // For console plugin, just log to console (already done above); routing rules may still send elsewhere
       } else {
         // Notify via plugin
         switch (event.type) {
           case 'message.new':
-            updateLastSeq(event.seq)
             await notify(
               {
                 type: 'message.new',
                 data: event.data,
-                summary: formatMessageNotification(event.data as InboxEntry),
+                summary: formatMessageNotification(event.data as InboxEntry, loadE2eeIdentity(profileName, clawId, privateKey)),
               },
               profileName,
             )
@@ -233,6 +558,7 @@ function connectProfile(
             )
             break
           case 'friend.accepted':
+            refreshFriendsMirror(profileName, apiClient, configDir).catch(() => {})
             await notify(
               {
                 type: 'friend.accepted',
@@ -257,26 +583,54 @@ function connectProfile(
 
       // Log human-readable summaries for new event types
       if (event.type === 'group.invited') {
-        console.log(`[daemon:${profileName}] Invited to group "${event.data.groupName}" by ${event.data.inviterId}`) // eslint-disable-line no-console
+        log.info(`Invited to group "${event.data.groupName}" by ${event.data.inviterId}`, { profile: profileName })
       } else if (event.type === 'group.joined') {
-        console.log(`[daemon:${profileName}] ${event.data.clawId} joined group ${event.data.groupId}`) // eslint-disable-line no-console
+        log.info(`${event.data.clawId} joined group ${event.data.groupId}`, { profile: profileName })
       } else if (event.type === 'group.left') {
-        console.log(`[daemon:${profileName}] ${event.data.clawId} left group ${event.data.groupId}`) // eslint-disable-line no-console
+        log.info(`${event.data.clawId} left group ${event.data.groupId}`, { profile: profileName })
       } else if (event.type === 'group.removed') {
-        console.log(`[daemon:${profileName}] Removed from group ${event.data.groupId} by ${event.data.removedBy}`) // eslint-disable-line no-console
+        log.info(`Removed from group ${event.data.groupId} by ${event.data.removedBy}`, { profile: profileName })
       } else if (event.type === 'e2ee.key_updated') {
-        console.log(`[daemon:${profileName}] E2EE key updated for ${event.data.clawId} (${event.data.fingerprint})`) // eslint-disable-line no-console
+        log.info(`E2EE key updated for ${event.data.clawId} (${event.data.fingerprint})`, { profile: profileName })
       } else if (event.type === 'group.key_rotation_needed') {
-        console.log(`[daemon:${profileName}] Key rotation needed for group ${event.data.groupId}: ${event.data.reason}`) // eslint-disable-line no-console
+        log.info(`Key rotation needed for group ${event.data.groupId}: ${event.data.reason}`, { profile: profileName })
+      }
+
+      if (event.type === 'e2ee.key_updated' && recordKeyUpdate(profileName, event.data.clawId, event.data.fingerprint)) {
+        await notify(
+          {
+            type: 'e2ee.key_changed',
+            data: event.data,
+            summary: formatKeyChangedNotification(event.data),
+            priority: 'high',
+          },
+          profileName,
+        )
+      }
+
+      if (event.type === 'group.key_rotation_needed' || event.type === 'group.left' || event.type === 'group.removed') {
+        const groupKeyCtx = { client: apiClient, profileName, identity: loadE2eeIdentity(profileName, clawId, privateKey) }
+        handleGroupKeyEvent(event, groupKeyCtx).catch((err: Error) => {
+          log.error(`sender key rotation failed for ${event.data.groupId}: ${err.message}`, { profile: profileName })
+        })
       }
     },
     onConnect: () => {
-      console.log(`[daemon:${profileName}] connected`) // eslint-disable-line no-console
+      log.info('connected', { profile: profileName })
+      const current = profileConnections.get(profileName)
+      if (current?.ws === ws) current.connectedAt = Date.now()
       // WebSocket connected: stop fallback polling
       stopPlazaPoll(profileName)
+      // Link is back: send whatever queued up while it was down
+      flushOutbox(outboxCtx, true)
+      refreshFriendsMirror(profileName, apiClient, configDir).catch(() => {})
     },
     onDisconnect: () => {
-      console.log(`[daemon:${profileName}] disconnected`) // eslint-disable-line no-console
+      log.info('disconnected', { profile: profileName })
+      // A closed connection that a reload already replaced must not touch the new one
+      const current = profileConnections.get(profileName)
+      if (current?.ws !== ws) return
+      current.connectedAt = null
       // WebSocket lost: start fallback polling for plaza
       startPlazaPoll(profileName, apiClient, configDir)
     },
@@ -286,30 +640,160 @@ function connectProfile(
 
   profileConnections.set(profileName, {
     profileName,
+    serverUrl,
     clawId,
     ws,
     lastSeq,
+    client: apiClient,
+    outboxTimer: setInterval(() => flushOutbox(outboxCtx, false), OUTBOX_INTERVAL_MS),
+    connectedAt: null,
+    lastEventAt: null,
   })
 }
 
-function disconnectProfile(profileName: string): void {
+/**
+ * With saveSeq false the connection's lastSeq is not written back: on reload the
+ * profile's state may already belong to a new identity (`clawbuds register`).
+ */
+function disconnectProfile(profileName: string, saveSeq = true): void {
   stopPlazaPoll(profileName)
   plazaPullStates.delete(profileName)
+  localStores.delete(profileName)
+  if (pendingQuestions.has(profileName) || authoredPosts.has(profileName)) {
+    savePlazaTracking(profileName, ensureConfigDir())
+  }
+  pendingQuestions.delete(profileName)
+  authoredPosts.delete(profileName)
+  profileRouting.delete(profileName)
 
   const conn = profileConnections.get(profileName)
   if (conn) {
-    console.log(`[daemon:${profileName}] disconnecting...`) // eslint-disable-line no-console
+    log.info('disconnecting...', { profile: profileName })
     conn.ws.close()
+    clearInterval(conn.outboxTimer)
 
     // Save final state
-    saveProfileState(profileName, {
-      lastSeq: conn.lastSeq,
-    })
+    if (saveSeq) {
+      saveProfileState(profileName, {
+        ...getProfileState(profileName),
+        lastSeq: conn.lastSeq,
+      })
+    }
 
     profileConnections.delete(profileName)
   }
 }
 
+// -- Runtime profile control --
+
+/** Connect a configured profile; returns why it could not be, or null */
+function startProfile(profileName: string): string | null {
+  const profile = getProfile(profileName)
+  if (!profile) return 'profile not found'
+  const privateKey = loadPrivateKey(profileName)
+  if (!privateKey) return 'private key not found'
+  connectProfile(profileName, profile.serverUrl, profile.clawId, privateKey, getProfileState(profileName).lastSeq)
+  return null
+}
+
+/** Bring the connections in line with config.json */
+function reloadProfiles(): ProfileReloadResult {
+  const configured = new Map<string, ProfileEndpoint>(listProfiles().map(({ name, profile }) => [name, profile]))
+  const plan = planProfileReload(configured, profileConnections, heldProfiles)
+  const result: ProfileReloadResult = { connected: [], disconnected: [], reconnected: [], failed: [] }
+
+  // lastSeq is persisted as events arrive; the old connection's must not overwrite the new state
+  for (const name of [...plan.disconnect, ...plan.reconnect]) disconnectProfile(name, false)
+  resetReconnectedSeq(plan)
+  result.disconnected.push(...plan.disconnect)
+  for (const name of [...plan.connect, ...plan.reconnect]) {
+    const failure = startProfile(name)
+    if (failure) result.failed.push({ profile: name, error: failure })
+    else (plan.reconnect.includes(name) ? result.reconnected : result.connected).push(name)
+  }
+
+  const changes = [
+    ...result.connected.map((n) => `+${n}`),
+    ...result.disconnected.map((n) => `-${n}`),
+    ...result.reconnected.map((n) => `~${n}`),
+  ]
+  if (changes.length > 0) {
+    log.info(`profiles reloaded: ${changes.join(' ')}`)
+  }
+  for (const { profile, error } of result.failed) {
+    log.warn(`not connected: ${error}`, { profile })
+  }
+  return result
+}
+
+const daemonControl = {
+  reload: reloadProfiles,
+  connect(profileName: string): string | null {
+    heldProfiles.delete(profileName)
+    if (profileConnections.has(profileName)) return null
+    return startProfile(profileName)
+  },
+  disconnect(profileName: string): void {
+    heldProfiles.add(profileName)
+    disconnectProfile(profileName)
+  },
+}
+
+// -- Outbox --
+
+const OUTBOX_INTERVAL_MS = 60_000
+const outboxDraining = new Set<string>()
+
+/** Drain a profile's outbox; on reconnect everything is retried regardless of backoff */
+function flushOutbox(ctx: OutboxContext, reconnected: boolean): void {
+  if (outboxDraining.has(ctx.profileName)) return
+  outboxDraining.add(ctx.profileName)
+  drainOutbox(ctx, { ignoreBackoff: reconnected })
+    .then((result) => {
+      for (const sent of result.sent) {
+        log.info(`outbox: ${sent.summary}`, { profile: ctx.profileName })
+      }
+      for (const item of result.failed) {
+        log.error(`outbox: ${item.id.slice(0, 8)} rejected: ${item.lastError}`, { profile: ctx.profileName })
+      }
+    })
+    .catch((err: Error) => {
+      log.warn(`outbox drain failed: ${err.message}`, { profile: ctx.profileName })
+    })
+    .finally(() => outboxDraining.delete(ctx.profileName))
+}
+
+// -- Group sender-key maintenance --
+
+/**
+ * Keep our sender keys in step with group membership:
+ * drop the key when we leave / are removed, rotate it when someone else leaves
+ * or the server asks for it, so former members cannot read new messages.
+ */
+async function handleGroupKeyEvent(
+  event: WsGroupKeyRotation | WsGroupLeft | WsGroupRemoved,
+  ctx: GroupE2eeContext,
+): Promise<void> {
+  const { groupId } = event.data
+  const leftSelf = event.type === 'group.left' && event.data.clawId === ctx.identity.clawId
+
+  if (event.type === 'group.removed' || leftSelf) {
+    if (forgetSenderKey(ctx.profileName, groupId)) {
+      log.info(`dropped sender key for group ${groupId}`, { profile: ctx.profileName })
+    }
+    return
+  }
+
+  // A member left: only groups we hold a sender key for are encrypted
+  if (event.type === 'group.left' && !hasSenderKey(ctx.profileName, groupId)) return
+
+  const result = await distributeSenderKey(ctx, groupId, { rotate: true })
+  log.info(`rotated sender key for group ${groupId} to generation ${result.keyGeneration} (${result.distributedTo.length} member(s))`, { profile: ctx.profileName })
+  if (result.changedKeys.length > 0) {
+    log.warn(`E2EE key changed since verification, sender key not shared with: ${result.changedKeys.join(', ')}`, { profile: ctx.profileName })
+  }
+}
+
 // -- Plaza pull mechanism --
 
 interface PlazaPullState {
@@ -321,7 +805,22 @@ interface PlazaPullState {
 const plazaPullStates = new Map<string, PlazaPullState>()
 
 // Track post IDs I've authored, so we can detect replies to my posts
-const myPostIds = new Set<string>()
+// (persisted to authored-posts-<profile>.json, see plaza-questions.ts)
+const authoredPosts = new Map<string, Map<string, string>>() // profileName → postId → createdAt
+
+function authoredFor(profileName: string): Map<string, string> {
+  let posts = authoredPosts.get(profileName)
+  if (!posts) {
+    posts = new Map()
+    authoredPosts.set(profileName, posts)
+  }
+  return posts
+}
+
+// Keep the friends list served by /local/friends current while the server is reachable
+async function refreshFriendsMirror(profileName: string, client: ClawBudsClient, configDir: string): Promise<void> {
+  saveFriendsMirror(profileName, await client.listFriends(), configDir)
+}
 
 // Cache my profile tags for interest matching
 const myProfileTags = new Map<string, string[]>() // profileName → tags
@@ -332,7 +831,7 @@ async function loadMyTags(profileName: string, client: ClawBudsClient, configDir
     const me = await client.getMe()
     if (me.tags && me.tags.length > 0) {
       myProfileTags.set(profileName, me.tags)
-      console.log(`[daemon:${profileName}] loaded profile tags: ${me.tags.join(', ')}`) // eslint-disable-line no-console
+      log.info(`loaded profile tags: ${me.tags.join(', ')}`, { profile: profileName })
       return
     }
   } catch {
@@ -346,7 +845,7 @@ async function loadMyTags(profileName: string, client: ClawBudsClient, configDir
       const data = JSON.parse(readFileSync(learnedPath, 'utf-8'))
       if (data.tags && data.tags.length > 0) {
         myProfileTags.set(profileName, data.tags)
-        console.log(`[daemon:${profileName}] loaded learned tags: ${data.tags.join(', ')}`) // eslint-disable-line no-console
+        log.info(`loaded learned tags: ${data.tags.join(', ')}`, { profile: profileName })
       }
     }
   } catch {
@@ -355,12 +854,12 @@ async function loadMyTags(profileName: string, client: ClawBudsClient, configDir
 }
 
 /** Check if a post's tags overlap with my profile tags */
-function hasTagOverlap(postTags: string[] | null, profileName: string): boolean {
-  if (!postTags || postTags.length === 0) return false
+function countTagOverlap(postTags: string[] | null, profileName: string): number {
+  if (!postTags || postTags.length === 0) return 0
   const myTags = myProfileTags.get(profileName)
-  if (!myTags || myTags.length === 0) return false
+  if (!myTags || myTags.length === 0) return 0
   const myTagsLower = new Set(myTags.map(t => t.toLowerCase()))
-  return postTags.some(t => myTagsLower.has(t.toLowerCase()))
+  return postTags.filter(t => myTagsLower.has(t.toLowerCase())).length
 }
 
 function getPlazaCursorPath(configDir: string, profileName: string): string {
@@ -389,85 +888,108 @@ async function pullPlazaPosts(profileName: string, client: ClawBudsClient, confi
   if (!state) return
 
   try {
+    const pullStarted = Date.now()
     const result = await client.plazaList({
       afterId: state.lastSeenId ?? undefined,
       limit: 100,
     })
+    plazaPullSeconds.observe({ profile: profileName }, (Date.now() - pullStarted) / 1000)
 
     if (result.posts.length > 0) {
       const lastPost = result.posts[result.posts.length - 1]
       state.lastSeenId = lastPost.id
       savePlazaCursor(configDir, profileName, lastPost.id)
 
-      console.log(`[daemon:${profileName}] plaza: pulled ${result.posts.length} new post(s)`) // eslint-disable-line no-console
+      log.info(`plaza: pulled ${result.posts.length} new post(s)`, { profile: profileName })
+      localStoreFor(profileName).upsert(result.posts.map(fromPlazaPost))
+
+      // Ranked together after the loop; the attention budget decides which interrupt the owner
+      const candidates: NotificationCandidate[] = []
 
       for (const post of result.posts) {
         const typeTag = post.messageType !== 'normal' ? ` [${post.messageType}]` : ''
         const tags = post.topicTags ? ` #${post.topicTags.join(' #')}` : ''
-        console.log(`[daemon:${profileName}] plaza: ${post.fromClawId}${typeTag}${tags}`) // eslint-disable-line no-console
+        log.info(`plaza: ${post.fromClawId}${typeTag}${tags}`, { profile: profileName })
 
         const isMyPost = post.fromClawId === client.getClawId()
 
         // Track my own posts for reply detection
         if (isMyPost) {
-          myPostIds.add(post.id)
+          authoredFor(profileName).set(post.id, post.createdAt)
         }
 
         // Track my own questions for answer collection
         if (post.messageType === 'question' && isMyPost) {
-          trackMyQuestion(post)
+          trackQuestion(questionsFor(profileName), post)
         }
 
         // Record replies to my tracked questions
-        if (post.replyToId || post.discussionRootId) {
-          recordQuestionReply(post)
+        if (!isMyPost && (post.replyToId || post.discussionRootId)) {
+          recordQuestionReply(questionsFor(profileName), post)
         }
 
         // --- Notifications ---
 
         // Someone replied to my post
-        if (!isMyPost && post.replyToId && myPostIds.has(post.replyToId)) {
+        if (!isMyPost && post.replyToId && authoredFor(profileName).has(post.replyToId)) {
           const textBlock = post.blocks.find((b) => b.type === 'text')
           const preview = textBlock && 'text' in textBlock
             ? (textBlock as { text: string }).text.slice(0, 100)
             : '[non-text]'
-          await notify(
-            {
+          candidates.push({
+            event: {
               type: 'plaza.reply',
               data: { postId: post.id, fromClawId: post.fromClawId, replyToId: post.replyToId },
               summary: `${post.fromClawId} replied to your plaza post: "${preview}"`,
             },
-            profileName,
-          )
+            priority: scorePlazaPost(post, { repliesToMe: true, matchingTags: 0 }),
+          })
         }
 
         // A question matches my tags
+        const matchingTags = countTagOverlap(post.topicTags, profileName)
         if (
           !isMyPost &&
           post.messageType === 'question' &&
           post.acceptingReplies &&
-          hasTagOverlap(post.topicTags, profileName)
+          matchingTags > 0
         ) {
           const textBlock = post.blocks.find((b) => b.type === 'text')
           const questionText = textBlock && 'text' in textBlock
             ? (textBlock as { text: string }).text.slice(0, 150)
             : '[question]'
-          await notify(
-            {
+          candidates.push({
+            event: {
               type: 'plaza.question_match',
               data: { postId: post.id, fromClawId: post.fromClawId, topicTags: post.topicTags },
               summary: `A question matching your interests was posted on the plaza: "${questionText}"\n\nRun "clawbuds plaza feed --type question" to see open questions.`,
             },
-            profileName,
-          )
+            priority: scorePlazaPost(post, { repliesToMe: false, matchingTags }),
+          })
         }
 
         // Accumulate for digest (Phase D)
         accumulateForDigest(configDir, profileName, post)
       }
+
+      savePlazaTracking(profileName, configDir)
+
+      // The event stream gets every candidate; the attention budget only limits notifications
+      for (const { event, priority } of candidates) {
+        daemonEvents.publish(profileName, event.type, { ...(event.data as Record<string, unknown>), summary: event.summary, priority })
+      }
+
+      const deliver = allocateAttention(profileName, candidates, configDir)
+      for (const { event } of deliver) {
+        await notify(event, profileName)
+      }
+      if (deliver.length < candidates.length) {
+        log.info(`attention budget: ${candidates.length - deliver.length} notification(s) held for check-in`, { profile: profileName })
+      }
     }
   } catch (err) {
-    console.error(`[daemon:${profileName}] plaza pull error: ${(err as Error).message}`) // eslint-disable-line no-console
+    plazaPullErrors.inc({ profile: profileName })
+    log.warn(`plaza pull error: ${(err as Error).message}`, { profile: profileName })
   }
 }
 
@@ -543,158 +1065,110 @@ function accumulateForDigest(configDir: string, profileName: string, post: impor
   }
 }
 
-// -- Attention Budget: control how many times per day we notify the owner --
-
-const ATTENTION_BUDGET_DAILY = parseInt(process.env.CLAWBUDS_ATTENTION_BUDGET || '3', 10)
-
-interface AttentionBudgetState {
-  usedToday: number
-  dayStart: number
-}
+// -- Answer dedup: collect and aggregate replies to my questions --
 
-const attentionBudgets = new Map<string, AttentionBudgetState>()
+// Persisted to tracked-questions-<profile>.json (also read by `plaza pending publish`)
+const pendingQuestions = new Map<string, Map<string, TrackedQuestion>>() // profileName → postId → question
+const QUESTION_CHECK_INTERVAL_MS = 60_000 // check every 1 minute
 
-function getAttentionBudget(profileName: string): AttentionBudgetState {
-  let state = attentionBudgets.get(profileName)
-  if (!state) {
-    state = { usedToday: 0, dayStart: Date.now() }
-    attentionBudgets.set(profileName, state)
+function questionsFor(profileName: string): Map<string, TrackedQuestion> {
+  let questions = pendingQuestions.get(profileName)
+  if (!questions) {
+    questions = new Map()
+    pendingQuestions.set(profileName, questions)
   }
-  // Reset if day has passed
-  if (Date.now() - state.dayStart > 86400000) {
-    state.usedToday = 0
-    state.dayStart = Date.now()
-  }
-  return state
-}
-
-/** Check if we can spend attention budget for a notification */
-function canNotifyOwner(profileName: string): boolean {
-  const budget = getAttentionBudget(profileName)
-  return budget.usedToday < ATTENTION_BUDGET_DAILY
+  return questions
 }
 
-/** Spend one unit of attention budget */
-function spendAttentionBudget(profileName: string): void {
-  const budget = getAttentionBudget(profileName)
-  budget.usedToday++
+function savePlazaTracking(profileName: string, configDir: string): void {
+  saveTrackedQuestions(profileName, [...questionsFor(profileName).values()], configDir)
+  saveAuthoredPosts(
+    profileName,
+    [...authoredFor(profileName)].map(([id, createdAt]) => ({ id, createdAt })),
+    configDir,
+  )
 }
 
-/** Calculate priority score for a plaza post relative to this bud */
-function calculatePostPriority(
-  post: import('./types.js').PlazaPost,
-  myClawId: string | undefined,
-): number {
-  // reply to my post
-  if (post.replyToId && myClawId) {
-    // We can't check ownership here without extra state, so use a moderate score
-    return 0.9
+/**
+ * Reload question tracking and authored posts saved by an earlier run, then
+ * catch up on questions and replies posted while the daemon was down.
+ */
+async function restorePlazaTracking(profileName: string, client: ClawBudsClient, configDir: string): Promise<void> {
+  const questions = questionsFor(profileName)
+  for (const question of loadOpenTrackedQuestions(profileName, configDir)) {
+    questions.set(question.postId, question)
+  }
+  const authored = authoredFor(profileName)
+  for (const post of loadAuthoredPosts(profileName, configDir)) {
+    authored.set(post.id, post.createdAt)
   }
-  // question type
-  if (post.messageType === 'question') return 0.7
-  // share type (knowledge)
-  if (post.messageType === 'share') return 0.6
-  // normal
-  return 0.3
-}
-
-// -- Answer dedup: collect and aggregate replies to my questions --
-
-interface PendingQuestion {
-  postId: string
-  topicTags: string[]
-  replyDeadline: string
-  replies: Array<{ fromClawId: string; text: string; postId: string }>
-}
-
-const pendingQuestions = new Map<string, PendingQuestion>()
-const QUESTION_CHECK_INTERVAL_MS = 60_000 // check every 1 minute
-
-/** Track a question I posted for later answer collection */
-function trackMyQuestion(post: import('./types.js').PlazaPost): void {
-  if (post.messageType !== 'question' || !post.replyDeadline) return
-  pendingQuestions.set(post.id, {
-    postId: post.id,
-    topicTags: post.topicTags ?? [],
-    replyDeadline: post.replyDeadline,
-    replies: [],
-  })
-}
-
-/** Record a reply to one of my tracked questions */
-function recordQuestionReply(post: import('./types.js').PlazaPost): void {
-  if (!post.replyToId) return
-  // Check if this replies to a root question, or to a discussion that roots at one
-  const rootId = post.discussionRootId ?? post.replyToId
-  const question = pendingQuestions.get(rootId)
-  if (!question) return
 
-  const textBlock = post.blocks.find((b) => b.type === 'text')
-  const text = textBlock && 'text' in textBlock ? (textBlock as { text: string }).text : ''
-  question.replies.push({ fromClawId: post.fromClawId, text, postId: post.id })
+  try {
+    const { discovered, replies } = await backfillQuestions(client, questions)
+    for (const post of discovered) authored.set(post.id, post.createdAt)
+    log.info(`tracking ${questions.size} question(s), ${authored.size} authored post(s); back-filled ${discovered.length} question(s) and ${replies} reply(s)`, { profile: profileName })
+  } catch (err) {
+    log.warn(`question back-fill failed: ${(err as Error).message}`, { profile: profileName })
+  }
+  savePlazaTracking(profileName, configDir)
 }
 
 /** Check for expired questions and generate aggregated answer reports */
 function checkExpiredQuestions(configDir: string, profileName: string): void {
   const now = new Date().toISOString()
-  for (const [postId, question] of pendingQuestions) {
+  const questions = questionsFor(profileName)
+  let closed = 0
+  for (const [postId, question] of questions) {
     if (question.replyDeadline > now) continue // not yet expired
 
-    // Aggregate replies by text similarity (simple: exact text match for grouping)
-    const groups = new Map<string, { count: number; fromClawIds: string[]; text: string }>()
-    for (const reply of question.replies) {
-      // Normalize: lowercase, trim, first 200 chars
-      const key = reply.text.toLowerCase().trim().slice(0, 200)
-      const existing = groups.get(key)
-      if (existing) {
-        existing.count++
-        existing.fromClawIds.push(reply.fromClawId)
-      } else {
-        groups.set(key, { count: 1, fromClawIds: [reply.fromClawId], text: reply.text })
-      }
-    }
+    // Merge paraphrased replies; each cluster is reported by its most typical reply
+    const clusters = clusterAnswers(question.replies)
+    const repliers = new Set(question.replies.map((r) => r.fromClawId)).size
 
-    // Sort by count descending
-    const sorted = [...groups.values()].sort((a, b) => b.count - a.count)
-
-    // Write to owner queue file (to be consumed by SKILL.md DIGEST_GENERATE)
-    const ownerQueuePath = join(configDir, `owner-queue-${profileName}.json`)
-    let queue: Array<Record<string, unknown>> = []
-    try {
-      if (existsSync(ownerQueuePath)) {
-        queue = JSON.parse(readFileSync(ownerQueuePath, 'utf-8'))
-      }
-    } catch { /* ignore */ }
-
-    queue.push({
+    // Queue for the owner (`clawbuds queue`, /local/owner-queue, SKILL.md DIGEST_GENERATE)
+    addOwnerQueueItem(profileName, {
       type: 'question_answers',
       priority: 1.0,
       questionPostId: postId,
       topicTags: question.topicTags,
       totalReplies: question.replies.length,
-      aggregatedAnswers: sorted.map((g) => ({
-        text: g.text.slice(0, 500),
-        count: g.count,
-        fromClawIds: g.fromClawIds,
+      distinctAnswers: clusters.length,
+      // Share of the Buds who replied that back the leading answer
+      consensus: clusters.length > 0 ? Math.round((clusters[0].fromClawIds.length / repliers) * 100) / 100 : 0,
+      aggregatedAnswers: clusters.map((c) => ({
+        text: c.representative.text.slice(0, 500),
+        count: c.members.length,
+        fromClawIds: c.fromClawIds,
+        agreement: c.fromClawIds.length,
+        dissent: c.dissent,
+        variants: [...new Set(c.members.map((m) => m.text))]
+          .filter((text) => text !== c.representative.text)
+          .slice(0, 3)
+          .map((text) => text.slice(0, 200)),
       })),
       collectedAt: now,
-    })
+    }, configDir)
 
-    writeFileSync(ownerQueuePath, JSON.stringify(queue, null, 2))
+    log.info(`question ${postId.slice(0, 8)} closed: ${question.replies.length} replies, ${clusters.length} distinct answers`, { profile: profileName })
 
-    console.log(`[daemon:${profileName}] question ${postId.slice(0, 8)} closed: ${question.replies.length} replies, ${groups.size} unique answers`) // eslint-disable-line no-console
-
-    pendingQuestions.delete(postId)
+    questions.delete(postId)
+    closed++
   }
+
+  if (closed > 0) saveTrackedQuestions(profileName, [...questions.values()], configDir)
 }
 
 // -- CHECK_IN: periodically inject check-in trigger via OpenClaw hooks --
 
 async function sendCheckIn(profileName: string): Promise<void> {
-  if (!notificationPlugin || notificationPlugin.name !== 'openclaw') return
+  if (!defaultPlugins.includes('openclaw')) return
 
   const configDir = ensureConfigDir()
 
+  // Held items wait for the first check-in after quiet hours
+  const quietHours = profileRouting.get(profileName)?.rules?.quietHours
+  if (quietHours && isQuietTime(quietHours)) return
+
   // Only send if there's something to check in about
   const hasDigest = (() => {
     try {
@@ -707,16 +1181,8 @@ async function sendCheckIn(profileName: string): Promise<void> {
     return false
   })()
 
-  const hasOwnerQueue = (() => {
-    try {
-      const queuePath = join(configDir, `owner-queue-${profileName}.json`)
-      if (existsSync(queuePath)) {
-        const data = JSON.parse(readFileSync(queuePath, 'utf-8'))
-        return Array.isArray(data) && data.length > 0
-      }
-    } catch { /* ignore */ }
-    return false
-  })()
+  // Acknowledged items stay in the file until `queue clear`; only pending ones count
+  const hasOwnerQueue = countPendingOwnerQueue(profileName, configDir) > 0
 
   const hasPendingQuestions = (() => {
     try {
@@ -729,31 +1195,48 @@ async function sendCheckIn(profileName: string): Promise<void> {
     return false
   })()
 
-  if (!hasDigest && !hasOwnerQueue && !hasPendingQuestions) {
+  // Notifications the attention budget held back
+  const heldCount = loadAttentionBudget(profileName, configDir).held.length
+
+  if (!hasDigest && !hasOwnerQueue && !hasPendingQuestions && heldCount === 0) {
     return // nothing to report, skip check-in
   }
 
-  // Build a summary of what's pending
-  const parts: string[] = ['[CHECK_IN] Your ClawBuds Bud has updates:']
-  if (hasDigest) parts.push('- New plaza activity to review')
-  if (hasOwnerQueue) parts.push('- Pending items in owner queue (answers to your questions, or questions from other Buds)')
-  if (hasPendingQuestions) parts.push('- Queued questions ready to post')
-  parts.push('\nRun "clawbuds" commands or say "clawbuds check in" to process them.')
+  // Held items are released only once the check-in reached a plugin
+  const delivered = await deliverHeldNotifications(profileName, async (held) => {
+    // Build a summary of what's pending
+    const parts: string[] = ['[CHECK_IN] Your ClawBuds Bud has updates:']
+    if (hasDigest) parts.push('- New plaza activity to review')
+    if (hasOwnerQueue) parts.push('- Pending items in owner queue (answers to your questions, or questions from other Buds)')
+    if (hasPendingQuestions) parts.push('- Queued questions ready to post')
+    if (held.length > 0) {
+      parts.push(`- ${held.length} notification(s) held back by today's attention budget:`)
+      for (const item of held.slice(0, 5)) parts.push(`  • ${item.summary.split('\n')[0]}`)
+      if (held.length > 5) parts.push(`  • ...and ${held.length - 5} more`)
+    }
+    parts.push('\nRun "clawbuds" commands or say "clawbuds check in" to process them.')
 
-  await notify(
-    {
-      type: 'plaza.question_match', // reuse existing type for hook delivery
-      data: { checkIn: true },
-      summary: parts.join('\n'),
-    },
-    profileName,
-  )
+    const summary = parts.join('\n')
+    daemonEvents.publish(profileName, 'daemon.check_in', { summary })
+    return notify(
+      {
+        type: 'plaza.question_match', // reuse existing type for hook delivery
+        data: { checkIn: true },
+        summary,
+      },
+      profileName,
+    )
+  }, configDir)
+  if (!delivered) {
+    log.warn('CHECK_IN not delivered; held notifications kept for the next one', { profile: profileName })
+    return
+  }
 
-  console.log(`[daemon:${profileName}] sent CHECK_IN via hooks`) // eslint-disable-line no-console
+  log.info('sent CHECK_IN via hooks', { profile: profileName })
 }
 
 function startCheckInTimer(): void {
-  if (notificationPlugin?.name !== 'openclaw') return
+  if (!defaultPlugins.includes('openclaw')) return
 
   checkinTimer = setInterval(() => {
     for (const { profileName } of profileConnections.values()) {
@@ -761,7 +1244,7 @@ function startCheckInTimer(): void {
     }
   }, CHECKIN_INTERVAL_MS)
 
-  console.log(`[daemon] CHECK_IN timer started (interval: ${CHECKIN_INTERVAL_MS / 1000 / 60} min)`) // eslint-disable-line no-console
+  log.info(`CHECK_IN timer started (interval: ${CHECKIN_INTERVAL_MS / 1000 / 60} min)`)
 }
 
 // -- Main --
@@ -770,7 +1253,7 @@ async function main(): Promise<void> {
   const profiles = listProfiles()
 
   if (profiles.length === 0) {
-    console.error('No profiles registered. Run "clawbuds register" first.') // eslint-disable-line no-console
+    log.error('No profiles registered. Run "clawbuds register" first.')
     process.exit(1)
   }
 
@@ -781,55 +1264,48 @@ async function main(): Promise<void> {
     _daemonPid: process.pid,
   })
 
-  // Initialize notification plugin
-  try {
-    notificationPlugin = createPlugin(PLUGIN_TYPE)
-    await notificationPlugin.init({
-      hooksBase: process.env.OPENCLAW_HOOKS_URL || '',
-      hooksToken: process.env.OPENCLAW_HOOKS_TOKEN || '',
-      hooksChannel: process.env.OPENCLAW_HOOKS_CHANNEL || '',
-      webhookUrl: process.env.CLAWBUDS_WEBHOOK_URL || '',
-      webhookSecret: process.env.CLAWBUDS_WEBHOOK_SECRET || '',
-    })
-    console.log(`[daemon] notification plugin: ${notificationPlugin.name}`) // eslint-disable-line no-console
-  } catch (err) {
-    console.error(`[daemon] failed to initialize plugin: ${(err as Error).message}`) // eslint-disable-line no-console
-    console.log('[daemon] falling back to console plugin') // eslint-disable-line no-console
-    notificationPlugin = createPlugin('console')
-    await notificationPlugin.init({})
+  // Initialize notification plugins; one failing does not take the others down
+  const started = await startPlugins(defaultPluginTypes(), pluginConfig(), ensureConfigDir())
+  for (const { name, error } of started.failed) {
+    log.error(`notification plugin ${name} failed to initialize: ${error}`)
+    plugins.set(name, null)
+  }
+  for (const [name, plugin] of started.plugins) plugins.set(name, plugin)
+  defaultPlugins = [...started.plugins.keys()]
+  if (defaultPlugins.length === 0) {
+    log.info('falling back to console plugin')
+    plugins.set('console', await startPlugin('console', {}))
+    defaultPlugins = ['console']
   }
+  log.info(`notification plugins: ${defaultPlugins.join(', ')}`)
 
-  if (notificationPlugin.name !== 'console') {
-    console.log(`[daemon] poll digest interval: ${POLL_DIGEST_MS / 1000}s`) // eslint-disable-line no-console
+  if (!consoleOnly()) {
+    log.info(`poll digest interval: ${POLL_DIGEST_MS / 1000}s`)
     pollDigestTimer = setInterval(() => flushPollDigest(), POLL_DIGEST_MS)
   }
 
-  console.log(`[daemon] starting (PID: ${process.pid}, managing ${profiles.length} profile(s))`) // eslint-disable-line no-console
+  log.info(`starting (PID: ${process.pid}, managing ${profiles.length} profile(s))`)
 
   // Connect all profiles
-  for (const { name, profile } of profiles) {
-    const privateKey = loadPrivateKey(name)
-    if (!privateKey) {
-      console.error(`[daemon:${name}] private key not found, skipping`) // eslint-disable-line no-console
-      continue
+  for (const { name } of profiles) {
+    const failure = startProfile(name)
+    if (failure) {
+      log.warn(`${failure}, skipping`, { profile: name })
     }
-
-    const state = getProfileState(name)
-    connectProfile(name, profile.serverUrl, profile.clawId, privateKey, state.lastSeq)
   }
 
   if (profileConnections.size === 0) {
-    console.error('[daemon] no profiles could be connected') // eslint-disable-line no-console
+    log.error('no profiles could be connected')
     process.exit(1)
   }
 
-  console.log(`[daemon] connected ${profileConnections.size} profile(s)`) // eslint-disable-line no-console
+  log.info(`connected ${profileConnections.size} profile(s)`)
 
   // Start CHECK_IN timer (only for OpenClaw plugin)
   startCheckInTimer()
 
   // Also send an initial check-in after 30s (give plaza pull time to finish)
-  if (notificationPlugin?.name === 'openclaw') {
+  if (defaultPlugins.includes('openclaw')) {
     setTimeout(() => {
       for (const { profileName } of profileConnections.values()) {
         sendCheckIn(profileName).catch(() => {})
@@ -844,6 +1320,15 @@ async function main(): Promise<void> {
     }
   }, QUESTION_CHECK_INTERVAL_MS)
 
+  // Deliver quiet-hours holds once the window ends, whatever the plugins
+  const quietHoursTimer = setInterval(() => {
+    for (const { profileName } of profileConnections.values()) {
+      flushQuietHours(profileName).catch((err: unknown) => {
+        log.error(`quiet hours flush failed: ${(err as Error).message}`, { profile: profileName })
+      })
+    }
+  }, QUIET_HOURS_CHECK_MS)
+
   // Start local HTTP gateway (127.0.0.1 only)
   const configDir = ensureConfigDir()
   const defaultProfile = getCurrentProfile()
@@ -859,31 +1344,58 @@ async function main(): Promise<void> {
       port: LOCAL_PORT,
       configDir,
       client: apiClient as never,
+      getClient: (name) => (profileConnections.get(name)?.client ?? null) as never,
       config: {
         getCurrentProfile,
+        getProfile,
         listProfiles: () => listProfiles().map((p) => p.name),
         getCurrentProfileName,
       },
       getServerConnected: () => profileConnections.size > 0,
       getActiveProfiles: () => [...profileConnections.keys()],
+      authToken: loadOrCreateLocalToken(configDir),
+      allowedOrigins: LOCAL_ALLOWED_ORIGINS,
       staticDir: resolveWebDist(configDir),
+      events: daemonEvents,
+      control: daemonControl,
+      getMetrics: () => metrics.render(),
+      getHealth: daemonHealth,
+      getSigner: (name) => {
+        const profile = getProfile(name)
+        const privateKey = loadPrivateKey(name)
+        return profile && privateKey ? { serverUrl: profile.serverUrl, clawId: profile.clawId, privateKey } : null
+      },
     })
 
     try {
       const { port } = await localServer.start()
-      console.log(`[daemon] local HTTP gateway started on http://127.0.0.1:${port}`) // eslint-disable-line no-console
+      log.info(`local HTTP gateway started on http://127.0.0.1:${port}`)
     } catch (err) {
-      console.error(`[daemon] failed to start local HTTP server: ${(err as Error).message}`) // eslint-disable-line no-console
+      log.error(`failed to start local HTTP server: ${(err as Error).message}`)
       localServer = null
     }
   }
 
+  // Pick up profiles added or removed by the CLI without a restart
+  let stopWatchingConfig: (() => void) | null = null
+  try {
+    stopWatchingConfig = watchConfigFile(configDir, () => reloadProfiles())
+  } catch (err) {
+    log.warn(`cannot watch config.json, use SIGHUP to reload: ${(err as Error).message}`)
+  }
+  process.on('SIGHUP', () => {
+    log.info('SIGHUP: reloading profiles')
+    reloadProfiles()
+  })
+
   // Graceful shutdown
   const cleanup = async () => {
-    console.log('[daemon] shutting down...') // eslint-disable-line no-console
+    log.info('shutting down...')
+    stopWatchingConfig?.()
     if (pollDigestTimer) clearInterval(pollDigestTimer)
     if (checkinTimer) clearInterval(checkinTimer)
     clearInterval(questionCheckTimer)
+    clearInterval(quietHoursTimer)
     await flushPollDigest() // send remaining votes before exit
 
     // Stop local HTTP gateway
@@ -897,8 +1409,8 @@ async function main(): Promise<void> {
       disconnectProfile(profileName)
     }
 
-    if (notificationPlugin?.shutdown) {
-      await notificationPlugin.shutdown()
+    for (const plugin of plugins.values()) {
+      await plugin?.shutdown?.().catch(() => {})
     }
 
     // Clear global daemon PID
@@ -0,0 +1,247 @@
+/**
+ * Local E2EE key state: our rotated X25519 keys and the contact keys we verified.
+ *
+ * Without `e2ee rotate` our X25519 key is derived from the Ed25519 identity key.
+ * Rotating generates a random key; older keys stay in the keyring so messages and
+ * sender keys sealed to them can still be opened. Pins record the key a contact
+ * had when we compared safety numbers; a later change blocks encrypting to them
+ * until they are verified again.
+ *
+ * Incoming envelopes name the sender's X25519 key themselves, so we only open
+ * those sealed with a key we know belongs to the sender: the pinned key for
+ * verified contacts, otherwise any key the server's key directory has reported
+ * for them (older keys are kept so messages from before a rotation still open).
+ */
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { createHash, randomBytes } from 'node:crypto'
+import { ensureConfigDir, getConfigDir } from './config.js'
+import { ed25519PrivateToX25519 } from './crypto/x25519.js'
+import { isEncryptedBlock, type E2eeIdentity } from './crypto/envelope.js'
+import type { Block, E2eeKeyProfile } from './types.js'
+
+/** Subset of ClawBudsClient used to look up sender keys */
+export interface KeyDirectoryClient {
+  batchGetE2eeKeys(clawIds: string[]): Promise<E2eeKeyProfile[]>
+}
+
+// -- Types --
+
+interface KeyringEntry {
+  x25519PrivateKey: string
+  createdAt: string
+}
+
+interface Keyring {
+  /** Newest first */
+  keys: KeyringEntry[]
+}
+
+export interface PinnedKey {
+  x25519PublicKey: string
+  fingerprint: string
+  verifiedAt: string
+  /** Set when the server reports a different key after verification */
+  changedAt?: string
+  changedFingerprint?: string
+}
+
+export type PinStore = Record<string, PinnedKey>
+
+/** clawId -> X25519 public keys the key directory has reported, oldest first */
+type KnownKeyStore = Record<string, string[]>
+
+// -- Files (private key material, 0600) --
+
+function keyringPath(profileName: string): string {
+  return join(getConfigDir(), `e2ee-keyring-${profileName}.json`)
+}
+
+function pinsPath(profileName: string): string {
+  return join(getConfigDir(), `e2ee-pins-${profileName}.json`)
+}
+
+function knownKeysPath(profileName: string): string {
+  return join(getConfigDir(), `e2ee-known-keys-${profileName}.json`)
+}
+
+function readJson<T>(path: string, fallback: T): T {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as T
+  } catch {
+    return fallback
+  }
+}
+
+function writeJson(path: string, data: unknown): void {
+  ensureConfigDir()
+  writeFileSync(path, JSON.stringify(data, null, 2) + '\n', { mode: 0o600 })
+}
+
+// -- Keyring --
+
+/** Build the identity used for encryption, including any rotated keys */
+export function loadE2eeIdentity(profileName: string, clawId: string, privateKey: string): E2eeIdentity {
+  const ring = readJson<Keyring>(keyringPath(profileName), { keys: [] })
+  return {
+    clawId,
+    privateKey,
+    x25519PrivateKeys: [...ring.keys.map((k) => k.x25519PrivateKey), ed25519PrivateToX25519(privateKey)],
+    // Read on use so keys recorded by refreshSenderKeys() after loading still count
+    senderKeys: (sender) => acceptedSenderKeys(profileName, sender),
+  }
+}
+
+/** Generate a new X25519 key and make it current. The caller registers its public half. */
+export function rotateE2eeKey(profileName: string): string {
+  const ring = readJson<Keyring>(keyringPath(profileName), { keys: [] })
+  const x25519PrivateKey = randomBytes(32).toString('hex')
+  ring.keys.unshift({ x25519PrivateKey, createdAt: new Date().toISOString() })
+  writeJson(keyringPath(profileName), ring)
+  return x25519PrivateKey
+}
+
+// -- Pins --
+
+export function loadPins(profileName: string): PinStore {
+  return readJson<PinStore>(pinsPath(profileName), {})
+}
+
+export function pinKey(profileName: string, key: E2eeKeyProfile): PinnedKey {
+  const pins = loadPins(profileName)
+  const pin: PinnedKey = {
+    x25519PublicKey: key.x25519PublicKey,
+    fingerprint: key.keyFingerprint,
+    verifiedAt: new Date().toISOString(),
+  }
+  pins[key.clawId] = pin
+  writeJson(pinsPath(profileName), pins)
+  return pin
+}
+
+export function unpinKey(profileName: string, clawId: string): boolean {
+  const pins = loadPins(profileName)
+  if (!(clawId in pins)) return false
+  delete pins[clawId]
+  writeJson(pinsPath(profileName), pins)
+  return true
+}
+
+/**
+ * Handle an e2ee.key_updated event. Returns true when a verified contact's key
+ * changed, i.e. the owner should be warned.
+ */
+export function recordKeyUpdate(profileName: string, clawId: string, fingerprint: string): boolean {
+  const pins = loadPins(profileName)
+  const pin = pins[clawId]
+  if (!pin || pin.fingerprint === fingerprint) return false
+  pin.changedAt = new Date().toISOString()
+  pin.changedFingerprint = fingerprint
+  writeJson(pinsPath(profileName), pins)
+  return true
+}
+
+/** Contacts whose current key differs from the one we verified */
+export function findChangedKeys(profileName: string, keys: E2eeKeyProfile[]): string[] {
+  const pins = loadPins(profileName)
+  return keys
+    .filter((k) => {
+      const pin = pins[k.clawId]
+      return pin !== undefined && (pin.changedAt !== undefined || pin.x25519PublicKey !== k.x25519PublicKey)
+    })
+    .map((k) => k.clawId)
+}
+
+// -- Sender keys --
+
+/** Keys we accept on envelopes from a contact; undefined when we know none */
+export function acceptedSenderKeys(profileName: string, clawId: string): string[] | undefined {
+  const pin = loadPins(profileName)[clawId]
+  if (pin) return [pin.x25519PublicKey]
+  return readJson<KnownKeyStore>(knownKeysPath(profileName), {})[clawId]
+}
+
+/**
+ * Look up, in the key directory, senders whose envelopes carry a key we have
+ * not seen for them yet, and remember what it reports. Keys it does not report
+ * stay unknown, so decryption refuses those envelopes.
+ */
+export async function refreshSenderKeys(
+  client: KeyDirectoryClient,
+  profileName: string,
+  senders: Array<{ clawId: string; senderPublicKey: string }>,
+): Promise<void> {
+  const known = readJson<KnownKeyStore>(knownKeysPath(profileName), {})
+  const pins = loadPins(profileName)
+  const unknown = [
+    ...new Set(
+      senders
+        .filter((s) => !(s.clawId in pins) && !known[s.clawId]?.includes(s.senderPublicKey))
+        .map((s) => s.clawId),
+    ),
+  ]
+  if (unknown.length === 0) return
+
+  let keys: E2eeKeyProfile[]
+  try {
+    keys = await client.batchGetE2eeKeys(unknown)
+  } catch {
+    // Offline: the envelopes stay unreadable until the next lookup succeeds
+    return
+  }
+  let changed = false
+  for (const k of keys) {
+    const list = (known[k.clawId] ??= [])
+    if (!list.includes(k.x25519PublicKey)) {
+      list.push(k.x25519PublicKey)
+      changed = true
+    }
+  }
+  if (changed) writeJson(knownKeysPath(profileName), known)
+}
+
+/** Sender and sender key of every E2EE envelope in these messages */
+export function envelopeSenders(
+  messages: Array<{ fromClawId: string; blocks: Block[] }>,
+): Array<{ clawId: string; senderPublicKey: string }> {
+  return messages.flatMap((m) =>
+    m.blocks.filter(isEncryptedBlock).map((b) => ({ clawId: m.fromClawId, senderPublicKey: b.senderPublicKey })),
+  )
+}
+
+// -- Safety numbers --
+
+interface SafetyParty {
+  clawId: string
+  x25519PublicKey: string
+}
+
+/** 30 digits identifying one party's key (iterated SHA-512, Signal-style) */
+function partyDigits(party: SafetyParty): string {
+  const pub = Buffer.from(party.x25519PublicKey, 'hex')
+  let hash = createHash('sha512').update(Buffer.from([0, 0])).update(pub).update(party.clawId).digest()
+  for (let i = 1; i < 1024; i++) {
+    hash = createHash('sha512').update(hash).update(pub).digest()
+  }
+  let digits = ''
+  for (let i = 0; i < 30; i += 5) {
+    digits += String(hash.readUIntBE(i, 5) % 100000).padStart(5, '0')
+  }
+  return digits
+}
+
+function ordered(a: SafetyParty, b: SafetyParty): [SafetyParty, SafetyParty] {
+  return a.clawId < b.clawId ? [a, b] : [b, a]
+}
+
+/** 60-digit safety number in groups of five; identical on both sides */
+export function safetyNumber(a: SafetyParty, b: SafetyParty): string {
+  const digits = ordered(a, b).map(partyDigits).join('')
+  return (digits.match(/.{5}/g) ?? []).join(' ')
+}
+
+/** Text form for a QR code; scanning and comparing it verifies both keys at once */
+export function safetyQrText(a: SafetyParty, b: SafetyParty): string {
+  const [first, second] = ordered(a, b)
+  return `clawbuds-verify:1:${first.clawId}:${first.x25519PublicKey}:${second.clawId}:${second.x25519PublicKey}`
+}
@@ -0,0 +1,151 @@
+/**
+ * In-memory stream of daemon events, served as Server-Sent Events on
+ * GET /local/events so local tools get real-time events without their own
+ * signed /ws connection.
+ *
+ * Every WsEvent the daemon receives is published here, along with events the
+ * daemon generates itself (plaza.reply, plaza.question_match,
+ * daemon.check_in). Each SSE message is unnamed (EventSource.onmessage sees
+ * them all) and carries { profile, type, data, at } as JSON.
+ *
+ * Event ids are "<epoch>-<seq>", unique across daemon restarts. A client that
+ * reconnects with Last-Event-ID gets what it missed from the last
+ * EVENT_BUFFER_SIZE events; when that is not enough (or the daemon restarted)
+ * it first gets a `stream.gap` message so it can refetch instead.
+ */
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+export interface StreamEvent {
+  id: string
+  profile: string
+  type: string
+  data: unknown
+  at: string
+}
+
+export interface EventFilter {
+  /** Only these profiles (all when omitted) */
+  profiles?: string[]
+  /** Exact types, or prefixes ending in "*" such as "friend.*" */
+  types?: string[]
+}
+
+export const EVENT_BUFFER_SIZE = 500
+const HEARTBEAT_MS = 25_000
+/** Clients further behind than this are dropped; they resume with Last-Event-ID */
+const MAX_PENDING_BYTES = 1024 * 1024
+
+export class EventStream {
+  private readonly epoch = Date.now().toString(36)
+  private seq = 0
+  private buffer: Array<StreamEvent & { seq: number }> = []
+  private listeners = new Set<(event: StreamEvent) => void>()
+
+  constructor(private readonly capacity = EVENT_BUFFER_SIZE) {}
+
+  publish(profile: string, type: string, data: unknown): StreamEvent {
+    const seq = ++this.seq
+    const event = { id: `${this.epoch}-${seq}`, profile, type, data, at: new Date().toISOString() }
+    this.buffer.push({ ...event, seq })
+    if (this.buffer.length > this.capacity) this.buffer.shift()
+    for (const listener of this.listeners) listener(event)
+    return event
+  }
+
+  subscribe(listener: (event: StreamEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size
+  }
+
+  /**
+   * Buffered events after lastEventId; gap is true when some of them are no
+   * longer buffered or were published by an earlier daemon run.
+   */
+  since(lastEventId: string | undefined): { events: StreamEvent[]; gap: boolean } {
+    if (!lastEventId) return { events: [], gap: false }
+    const [epoch, seqText] = lastEventId.split('-')
+    const seq = Number(seqText)
+    const strip = (list: Array<StreamEvent & { seq: number }>): StreamEvent[] => list.map(({ seq: _seq, ...event }) => event)
+    if (epoch !== this.epoch || !Number.isInteger(seq)) return { events: strip(this.buffer), gap: true }
+    const oldest = this.buffer[0]?.seq ?? this.seq + 1
+    return { events: strip(this.buffer.filter((e) => e.seq > seq)), gap: seq < oldest - 1 }
+  }
+}
+
+// ── Filtering ─────────────────────────────────────────────────────────────────
+
+function splitList(value: string | null): string[] | undefined {
+  const items = (value ?? '').split(',').map((s) => s.trim()).filter(Boolean)
+  return items.length > 0 ? items : undefined
+}
+
+/** ?profile=a,b&types=message.new,friend.* */
+export function parseEventFilter(params: URLSearchParams): EventFilter {
+  return { profiles: splitList(params.get('profile')), types: splitList(params.get('types')) }
+}
+
+export function matchesEventFilter(event: Pick<StreamEvent, 'profile' | 'type'>, filter: EventFilter): boolean {
+  if (filter.profiles && !filter.profiles.includes(event.profile)) return false
+  if (!filter.types) return true
+  return filter.types.some((t) => (t.endsWith('*') ? event.type.startsWith(t.slice(0, -1)) : event.type === t))
+}
+
+// ── SSE ───────────────────────────────────────────────────────────────────────
+
+function formatSse(event: StreamEvent): string {
+  const { id, ...payload } = event
+  return `id: ${id}\ndata: ${JSON.stringify(payload)}\n\n`
+}
+
+/**
+ * Stream matching events to an HTTP response until the client disconnects,
+ * starting with whatever it missed since lastEventId.
+ */
+export function serveEventStream(
+  stream: EventStream,
+  filter: EventFilter,
+  lastEventId: string | undefined,
+  req: IncomingMessage,
+  res: ServerResponse,
+): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  })
+  res.write('retry: 3000\n\n')
+
+  const missed = stream.since(lastEventId)
+  if (missed.gap) {
+    res.write(`data: ${JSON.stringify({ type: 'stream.gap', data: { lastEventId } })}\n\n`)
+  }
+  for (const event of missed.events) {
+    if (matchesEventFilter(event, filter)) res.write(formatSse(event))
+  }
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS)
+  heartbeat.unref?.()
+
+  const unsubscribe = stream.subscribe((event) => {
+    if (!matchesEventFilter(event, filter)) return
+    if (res.writableLength > MAX_PENDING_BYTES) {
+      res.end()
+      return
+    }
+    res.write(formatSse(event))
+  })
+
+  const close = (): void => {
+    clearInterval(heartbeat)
+    unsubscribe()
+  }
+  req.on('close', close)
+  res.on('close', close)
+}
@@ -0,0 +1,115 @@
+/**
+ * Local commands run by the exec and desktop notification plugins.
+ *
+ * Hooks work like git hooks: an executable file named after the event type in
+ * ~/.clawbuds/hooks (e.g. hooks/message.new, hooks/friend.request) runs for
+ * each such event, with the NotificationEvent as JSON on stdin and the event
+ * type as its only argument. Non-executable files are ignored, so a hook can
+ * be disabled with `chmod -x`.
+ */
+import { spawn } from 'node:child_process'
+import { accessSync, constants, statSync } from 'node:fs'
+import { delimiter, join } from 'node:path'
+import { getConfigDir } from './config.js'
+
+export interface ProcessResult {
+  /** null when killed by a signal or the command could not be started */
+  code: number | null
+  signal: NodeJS.Signals | null
+  timedOut: boolean
+  /** stdout and stderr interleaved, cut at MAX_OUTPUT */
+  output: string
+  /** Spawn error (ENOENT, EACCES, ...) */
+  error?: string
+}
+
+const MAX_OUTPUT = 8 * 1024
+/** Between SIGTERM and SIGKILL once a command times out */
+const KILL_GRACE_MS = 2000
+
+export function hooksDir(dir: string = getConfigDir()): string {
+  return join(dir, 'hooks')
+}
+
+function isExecutableFile(path: string): boolean {
+  try {
+    if (!statSync(path).isFile()) return false
+    accessSync(path, constants.X_OK)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** The hook for an event type, or null when none is installed (or it is not executable) */
+export function findHook(type: string, dir: string = hooksDir()): string | null {
+  if (!/^[\w.-]+$/.test(type) || type.startsWith('.')) return null
+  const path = join(dir, type)
+  return isExecutableFile(path) ? path : null
+}
+
+/** Full path of an executable on PATH */
+export function findOnPath(command: string): string | null {
+  for (const dir of (process.env.PATH || '').split(delimiter)) {
+    if (dir && isExecutableFile(join(dir, command))) return join(dir, command)
+  }
+  return null
+}
+
+/** Run a command to completion, killing it after timeoutMs; never rejects */
+export function runProcess(
+  file: string,
+  args: string[],
+  opts: { input?: string; timeoutMs: number; env?: NodeJS.ProcessEnv; cwd?: string },
+): Promise<ProcessResult> {
+  return new Promise((resolve) => {
+    let output = ''
+    let timedOut = false
+    let settled = false
+    const finish = (result: Omit<ProcessResult, 'output' | 'timedOut'>): void => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      clearTimeout(killTimer)
+      resolve({ ...result, timedOut, output })
+    }
+    const collect = (chunk: Buffer): void => {
+      if (output.length < MAX_OUTPUT) output = (output + chunk.toString()).slice(0, MAX_OUTPUT)
+    }
+
+    // Own process group, so a timeout also stops whatever a script started
+    const detached = process.platform !== 'win32'
+    const child = spawn(file, args, { cwd: opts.cwd, env: opts.env ?? process.env, stdio: ['pipe', 'pipe', 'pipe'], detached })
+    const kill = (signal: NodeJS.Signals): void => {
+      try {
+        if (detached && child.pid) process.kill(-child.pid, signal)
+        else child.kill(signal)
+      } catch {
+        // Already gone
+      }
+    }
+    let killTimer: ReturnType<typeof setTimeout> | undefined
+    const timer = setTimeout(() => {
+      timedOut = true
+      kill('SIGTERM')
+      killTimer = setTimeout(() => kill('SIGKILL'), KILL_GRACE_MS)
+    }, opts.timeoutMs)
+
+    child.stdout.on('data', collect)
+    child.stderr.on('data', collect)
+    child.on('error', (err) => finish({ code: null, signal: null, error: err.message }))
+    child.on('close', (code, signal) => finish({ code, signal }))
+    // Commands that exit without reading stdin close the pipe early
+    child.stdin.on('error', () => {})
+    child.stdin.end(opts.input ?? '')
+  })
+}
+
+/** "exit 1: <first line of output>", "timed out after 10s", ... */
+export function describeFailure(result: ProcessResult, timeoutMs: number): string {
+  const firstLine = result.output.trim().split('\n')[0]
+  const reason = result.error
+    ?? (result.timedOut ? `timed out after ${Math.round(timeoutMs / 1000)}s`
+      : result.signal ? `killed by ${result.signal}` : `exit ${result.code}`)
+  return firstLine ? `${reason}: ${firstLine.slice(0, 200)}` : reason
+}
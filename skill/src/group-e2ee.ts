@@ -0,0 +1,250 @@
+/**
+ * Sender-key encryption for E2EE groups.
+ *
+ * Every member keeps one symmetric sender key per group. It is wrapped for each
+ * member's X25519 key and uploaded with uploadSenderKeys(); group messages are
+ * sealed with it. Rotating bumps keyGeneration so departed members cannot read
+ * anything sent afterwards.
+ */
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { ensureConfigDir, getConfigDir } from './config.js'
+import {
+  generateSenderKey,
+  encryptGroupBlocks,
+  decryptGroupBlocks,
+  isGroupEncryptedBlock,
+} from './crypto/sender-keys.js'
+import {
+  currentX25519PublicKey,
+  sealKey,
+  openSealedKey,
+  sealedKeySender,
+  type E2eeIdentity,
+} from './crypto/envelope.js'
+import { findChangedKeys, refreshSenderKeys } from './e2ee-keys.js'
+import type {
+  Block,
+  E2eeKeyProfile,
+  GroupEncryptedBlock,
+  GroupMemberProfile,
+  MessageProfile,
+  SenderKeyProfile,
+} from './types.js'
+
+// -- Types --
+
+/** Subset of ClawBudsClient used here (kept narrow so tests can stub it) */
+export interface GroupKeyClient {
+  getGroupMembers(groupId: string): Promise<GroupMemberProfile[]>
+  batchGetE2eeKeys(clawIds: string[]): Promise<E2eeKeyProfile[]>
+  uploadSenderKeys(
+    groupId: string,
+    keys: Array<{ recipientId: string; encryptedKey: string }>,
+    keyGeneration?: number,
+  ): Promise<SenderKeyProfile[]>
+  getSenderKeys(groupId: string): Promise<SenderKeyProfile[]>
+}
+
+export interface GroupE2eeContext {
+  client: GroupKeyClient
+  profileName: string
+  identity: E2eeIdentity
+}
+
+interface StoredSenderKey {
+  keyGeneration: number
+  key: string
+  /** Members that already hold this generation */
+  distributedTo: string[]
+  createdAt: string
+}
+
+type SenderKeyStore = Record<string, StoredSenderKey>
+
+export interface DistributionResult {
+  keyGeneration: number
+  distributedTo: string[]
+  /** Members without a registered E2EE key; they cannot read our messages */
+  missingKeys: string[]
+  /** Verified members whose key changed since; skipped until `clawbuds e2ee verify` */
+  changedKeys: string[]
+}
+
+// -- Store (private key material, 0600) --
+
+function senderKeyStorePath(profileName: string): string {
+  return join(getConfigDir(), `sender-keys-${profileName}.json`)
+}
+
+function loadStore(profileName: string): SenderKeyStore {
+  try {
+    return JSON.parse(readFileSync(senderKeyStorePath(profileName), 'utf-8')) as SenderKeyStore
+  } catch {
+    return {}
+  }
+}
+
+function saveStore(profileName: string, store: SenderKeyStore): void {
+  ensureConfigDir()
+  writeFileSync(senderKeyStorePath(profileName), JSON.stringify(store, null, 2) + '\n', { mode: 0o600 })
+}
+
+export function hasSenderKey(profileName: string, groupId: string): boolean {
+  return groupId in loadStore(profileName)
+}
+
+/** Drop our sender key for a group (after leaving or being removed) */
+export function forgetSenderKey(profileName: string, groupId: string): boolean {
+  const store = loadStore(profileName)
+  if (!(groupId in store)) return false
+  delete store[groupId]
+  saveStore(profileName, store)
+  return true
+}
+
+// -- Distribution --
+
+/**
+ * Make sure every current member holds our sender key.
+ * Creates the key on first use; with `rotate`, starts a new generation and
+ * re-distributes to the current member list only.
+ */
+export async function distributeSenderKey(
+  ctx: GroupE2eeContext,
+  groupId: string,
+  opts: { rotate?: boolean } = {},
+): Promise<DistributionResult> {
+  const store = loadStore(ctx.profileName)
+  const existing = store[groupId]
+  const entry: StoredSenderKey =
+    existing && !opts.rotate
+      ? existing
+      : {
+          keyGeneration: (existing?.keyGeneration ?? 0) + 1,
+          key: generateSenderKey(),
+          distributedTo: [],
+          createdAt: new Date().toISOString(),
+        }
+
+  const memberIds = (await ctx.client.getGroupMembers(groupId)).map((m) => m.clawId)
+  const members = new Set(memberIds)
+  const pending = memberIds.filter((id) => !entry.distributedTo.includes(id))
+
+  // Our own copy is sealed locally so it works even before `e2ee setup`
+  const myId = ctx.identity.clawId
+  const others = pending.filter((id) => id !== myId)
+  const fetched = others.length > 0 ? await ctx.client.batchGetE2eeKeys(others) : []
+  // Same rule as direct messages: never seal to a key that replaced a verified one
+  const changedKeys = findChangedKeys(ctx.profileName, fetched)
+  const keys = fetched.filter((k) => !changedKeys.includes(k.clawId))
+  if (pending.includes(myId)) {
+    keys.push({
+      clawId: myId,
+      x25519PublicKey: currentX25519PublicKey(ctx.identity),
+      keyFingerprint: '',
+      createdAt: '',
+      rotatedAt: null,
+    })
+  }
+
+  if (keys.length > 0) {
+    await ctx.client.uploadSenderKeys(
+      groupId,
+      keys.map((k) => ({
+        recipientId: k.clawId,
+        encryptedKey: sealKey(entry.key, ctx.identity, k.x25519PublicKey),
+      })),
+      entry.keyGeneration,
+    )
+  }
+
+  const keyed = new Set(keys.map((k) => k.clawId))
+  entry.distributedTo = [
+    ...entry.distributedTo.filter((id) => members.has(id)),
+    ...keys.map((k) => k.clawId),
+  ]
+  store[groupId] = entry
+  saveStore(ctx.profileName, store)
+
+  return {
+    keyGeneration: entry.keyGeneration,
+    distributedTo: entry.distributedTo,
+    missingKeys: pending.filter((id) => !keyed.has(id) && !changedKeys.includes(id)),
+    changedKeys,
+  }
+}
+
+// -- Messages --
+
+/** Seal blocks for the group, distributing our sender key to any new members first */
+export async function encryptForGroup(
+  ctx: GroupE2eeContext,
+  groupId: string,
+  blocks: Array<{ type: string; [key: string]: unknown }>,
+): Promise<{ block: GroupEncryptedBlock; missingKeys: string[]; changedKeys: string[] }> {
+  const result = await distributeSenderKey(ctx, groupId)
+  const entry = loadStore(ctx.profileName)[groupId]
+  return {
+    block: encryptGroupBlocks(blocks, groupId, entry.key, entry.keyGeneration),
+    missingKeys: result.missingKeys,
+    changedKeys: result.changedKeys,
+  }
+}
+
+/**
+ * Decrypt sender-key blocks in group messages.
+ * Messages we hold no key for keep their encrypted block so callers can show a placeholder.
+ */
+export async function decryptGroupMessages(
+  ctx: GroupE2eeContext,
+  groupId: string,
+  messages: MessageProfile[],
+): Promise<MessageProfile[]> {
+  if (!messages.some((m) => m.blocks.some(isGroupEncryptedBlock))) return messages
+
+  const sealed = new Map<string, string>()
+  const sealers: Array<{ clawId: string; senderPublicKey: string }> = []
+  for (const k of await ctx.client.getSenderKeys(groupId)) {
+    if (k.recipientId === ctx.identity.clawId) {
+      sealed.set(`${k.senderId}:${k.keyGeneration}`, k.encryptedKey)
+      try {
+        sealers.push({ clawId: k.senderId, senderPublicKey: sealedKeySender(k.encryptedKey) })
+      } catch {
+        // Malformed; openSealedKey fails on it below as well
+      }
+    }
+  }
+  await refreshSenderKeys(ctx.client, ctx.profileName, sealers)
+
+  const opened = new Map<string, string | null>()
+  const keyFor = (senderId: string, generation: number): string | null => {
+    const id = `${senderId}:${generation}`
+    if (!opened.has(id)) {
+      const encryptedKey = sealed.get(id)
+      let key: string | null = null
+      try {
+        key = encryptedKey ? openSealedKey(encryptedKey, ctx.identity, senderId) : null
+      } catch {
+        key = null
+      }
+      opened.set(id, key)
+    }
+    return opened.get(id) ?? null
+  }
+
+  return messages.map((msg) => {
+    if (!msg.blocks.some(isGroupEncryptedBlock)) return msg
+    const blocks = msg.blocks.flatMap((b): Block[] => {
+      if (!isGroupEncryptedBlock(b)) return [b]
+      const key = keyFor(msg.fromClawId, b.keyGeneration)
+      if (!key) return [b]
+      try {
+        return decryptGroupBlocks(b, key)
+      } catch {
+        return [b]
+      }
+    })
+    return { ...msg, blocks }
+  })
+}
@@ -4,10 +4,27 @@
  *
  * Provides /local/* endpoints for the daemon's local HTTP gateway.
  * Listens only on 127.0.0.1; never exposes to network.
+ *
+ * Browsers are only let in from the gateway's own origin or an explicit
+ * allow-list, and mutating routes require the per-daemon token
+ * (Authorization: Bearer) so other web pages cannot rewrite local state.
+ * The signing proxy (/local/api/*) acts as the profile, so it requires the
+ * token on every method.
  */
 import type { IncomingMessage, ServerResponse } from 'node:http'
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs'
 import { join } from 'node:path'
+import { randomBytes, timingSafeEqual } from 'node:crypto'
+import { carapacePath } from './config.js'
+import { LocalStore, parseSearchFilters } from './local-store.js'
+import { listOwnerQueue, ackOwnerQueueItems, clearOwnerQueue, parsePriority } from './owner-queue.js'
+import { loadAttentionBudget, summarizeAttentionBudget } from './attention-budget.js'
+import { parseEventFilter, serveEventStream, type EventStream } from './event-stream.js'
+import { mirrorFriends, mirrorGroupMessages, mirrorInbox, mirrorPlaza, parseMirrorQuery } from './local-mirror.js'
+import { API_PROXY_ROUTE, proxySignedRequest, type ProxySigner } from './signing-proxy.js'
+import type { ProfileReloadResult } from './profile-reload.js'
+import type { DaemonHealth } from './daemon-metrics.js'
+import { createLogger } from './logger.js'
 
 // ── Dependency-injection interfaces ──────────────────────────────────────────
 
@@ -20,46 +37,148 @@ export interface LocalApiClient {
   getCarapaceVersion(version?: number): Promise<{ content: string; version: number }>
 }
 
+export interface LocalProfileInfo {
+  serverUrl: string
+  clawId: string
+  publicKey: string
+  displayName: string
+}
+
 export interface LocalApiConfig {
-  getCurrentProfile(): {
-    serverUrl: string
-    clawId: string
-    publicKey: string
-    displayName: string
-  } | null
+  getCurrentProfile(): LocalProfileInfo | null
+  /** Look up any profile by name (for /local/profiles/:name/config) */
+  getProfile?(name: string): LocalProfileInfo | null
   /** Returns either string[] (names) or full profile objects */
   listProfiles(): string[] | Array<{ name: string }>
   getCurrentProfileName(): string | null
 }
 
+export interface DaemonControl {
+  /** Re-read config.json and connect, disconnect or reconnect profiles to match */
+  reload(): ProfileReloadResult
+  /** Connect a configured profile (and stop holding it offline); returns why it failed, or null */
+  connect(profileName: string): string | null
+  /** Disconnect a profile and hold it offline across reloads */
+  disconnect(profileName: string): void
+}
+
 export interface LocalApiHandlerOptions {
   /** Path to the .clawbuds config directory (e.g. ~/.clawbuds) */
   configDir: string
+  /** Client for the current profile, used by the unscoped routes */
   client: LocalApiClient
+  /** Client for a named profile; null when that profile is not connected */
+  getClient?: (profileName: string) => LocalApiClient | null
   config: LocalApiConfig
   getServerConnected: () => boolean
   getActiveProfiles: () => string[]
+  /** Token required on mutating routes. Omit to disable the check (tests, embedding). */
+  authToken?: string
+  /** Extra browser origins allowed to call /local/* (the gateway's own origin always is) */
+  allowedOrigins?: string[]
+  /** Daemon events for GET /local/events; the route answers 503 without it */
+  events?: EventStream
+  /** Server URL, claw id and private key of a profile, for the /local/api/* signing proxy */
+  getSigner?: (profileName: string) => ProxySigner | null
+  /** Runtime profile control for /local/daemon/*; the routes answer 503 without it */
+  control?: DaemonControl
+  /** Prometheus text for GET /local/metrics; the route answers 503 without it */
+  getMetrics?: () => string
+  /** Per-profile connection state for GET /local/health; the route answers 503 without it */
+  getHealth?: () => DaemonHealth
 }
 
 export type LocalApiHandler = (req: IncomingMessage, res: ServerResponse) => void
 
 // ── Internal helpers ──────────────────────────────────────────────────────────
 
+const log = createLogger('local-api')
+
 const CORS_HEADERS = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key',
   // Required for Chrome's Private Network Access policy:
   // browsers block localhost → 127.0.0.1 unless this header is present in preflight
   'Access-Control-Allow-Private-Network': 'true',
 } as const
 
+const TOKEN_FILE = 'local-token'
+
 function sendJson(res: ServerResponse, statusCode: number, data: unknown): void {
   const body = JSON.stringify(data)
-  res.writeHead(statusCode, { 'Content-Type': 'application/json', ...CORS_HEADERS })
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' })
   res.end(body)
 }
 
+/** A percent-encoded path segment, or null when its escapes are malformed */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+const LOOPBACK_HOSTNAMES = ['127.0.0.1', 'localhost', '[::1]']
+
+/**
+ * True when Host names this gateway on a loopback address. A DNS-rebinding page
+ * (evil.example resolving to 127.0.0.1) sends its own name here and is refused
+ * before its matching Origin can pass isSameOrigin.
+ */
+function isLoopbackHost(req: IncomingMessage): boolean {
+  const host = req.headers.host
+  if (!host) return false
+  try {
+    const url = new URL(`http://${host}`)
+    return LOOPBACK_HOSTNAMES.includes(url.hostname) && url.port === String(req.socket.localPort)
+  } catch {
+    return false
+  }
+}
+
+/** True when the request comes from a page served by this gateway */
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin
+  // Browsers omit Origin on same-origin GETs but always send Sec-Fetch-Site
+  if (!origin) return req.headers['sec-fetch-site'] === 'same-origin'
+  try {
+    return new URL(origin).host === req.headers.host
+  } catch {
+    return false
+  }
+}
+
+function isOriginAllowed(req: IncomingMessage, allowedOrigins: string[]): boolean {
+  const origin = req.headers.origin
+  // Non-browser callers (CLI, curl) send no Origin; the token still guards writes
+  if (!origin) return true
+  return allowedOrigins.includes(origin) || isSameOrigin(req)
+}
+
+function hasValidToken(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization ?? ''
+  const presented = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '')
+  const expected = Buffer.from(authToken)
+  return presented.length === expected.length && timingSafeEqual(presented, expected)
+}
+
+/**
+ * Read the daemon's local API token, generating it on first use.
+ * Stored 0600 in the config dir; the CLI reads it directly, browsers pair for it.
+ */
+export function loadOrCreateLocalToken(configDir: string): string {
+  const tokenPath = join(configDir, TOKEN_FILE)
+  if (existsSync(tokenPath)) {
+    const existing = readFileSync(tokenPath, 'utf-8').trim()
+    if (existing) return existing
+  }
+  const token = randomBytes(32).toString('hex')
+  mkdirSync(configDir, { recursive: true })
+  writeFileSync(tokenPath, token + '\n', { mode: 0o600 })
+  return token
+}
+
 const MAX_BODY_BYTES = 1024 * 1024 // 1 MB
 
 function readBody(req: IncomingMessage): Promise<string> {
@@ -80,29 +199,89 @@ function readBody(req: IncomingMessage): Promise<string> {
   })
 }
 
-function carapaceFilePath(configDir: string): string {
-  return join(configDir, 'references', 'carapace.md')
+/** Route target: which profile's carapace file and server client to use */
+interface ProfileTarget {
+  carapaceFile: string
+  client: LocalApiClient
 }
 
+/** /local/events or /local/profiles/:name/events (Server-Sent Events) */
+const EVENTS_ROUTE = /^\/local(?:\/profiles\/([^/]+))?\/events$/
+
+/** Matches /local/profiles/:name/<rest> */
+const PROFILE_ROUTE = /^\/local\/profiles\/([^/]+)(\/.+)$/
+
+/** /local/search or /local/profiles/:name/search (works without a server connection) */
+const SEARCH_ROUTE = /^\/local(?:\/profiles\/([^/]+))?\/search$/
+
+/** Read-only mirror of cached server data, optionally profile-scoped (works without a server connection) */
+const MIRROR_ROUTE = /^\/local(?:\/profiles\/([^/]+))?\/(inbox|friends|plaza|groups\/([^/]+)\/messages)$/
+
+/** POST /local/daemon/reload and /local/daemon/profiles/:name/(connect|disconnect) */
+const DAEMON_CONTROL_ROUTE = /^\/local\/daemon\/(?:(reload)|profiles\/([^/]+)\/(connect|disconnect))$/
+
+/** /local/owner-queue[/ack], optionally profile-scoped (reads and writes the daemon's queue file) */
+const OWNER_QUEUE_ROUTE = /^\/local(?:\/profiles\/([^/]+))?\/owner-queue(\/ack)?$/
+
 // ── Route handlers ────────────────────────────────────────────────────────────
 
 function handleGetStatus(opts: LocalApiHandlerOptions, res: ServerResponse): void {
+  const activeProfiles = opts.getActiveProfiles()
   sendJson(res, 200, {
     running: true,
     serverConnected: opts.getServerConnected(),
-    activeProfiles: opts.getActiveProfiles(),
+    activeProfiles,
+    attentionBudget: Object.fromEntries(
+      activeProfiles.map((name) => [name, summarizeAttentionBudget(loadAttentionBudget(name, opts.configDir))]),
+    ),
   })
 }
 
-function handleGetCarapace(configDir: string, res: ServerResponse): void {
-  const filePath = carapaceFilePath(configDir)
+function handleProfileControl(
+  control: DaemonControl,
+  action: string,
+  profileName: string,
+  opts: LocalApiHandlerOptions,
+  res: ServerResponse,
+): void {
+  if (action === 'connect') {
+    const failure = control.connect(profileName)
+    if (failure) {
+      sendJson(res, 409, { error: `Cannot connect ${profileName}: ${failure}` })
+      return
+    }
+  } else {
+    control.disconnect(profileName)
+  }
+  sendJson(res, 200, { profile: profileName, connected: opts.getActiveProfiles().includes(profileName) })
+}
+
+function handleGetMetrics(opts: LocalApiHandlerOptions, res: ServerResponse): void {
+  if (!opts.getMetrics) {
+    sendJson(res, 503, { error: 'Metrics are not available' })
+    return
+  }
+  res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+  res.end(opts.getMetrics())
+}
+
+function handleGetHealth(opts: LocalApiHandlerOptions, res: ServerResponse): void {
+  if (!opts.getHealth) {
+    sendJson(res, 503, { error: 'Health is not available' })
+    return
+  }
+  const health = opts.getHealth()
+  // Monitors that only look at the status code see a daemon with nothing connected as down
+  sendJson(res, health.status === 'down' ? 503 : 200, health)
+}
+
+function handleGetCarapace(filePath: string, res: ServerResponse): void {
   const content = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : ''
   sendJson(res, 200, { content })
 }
 
 async function handlePutCarapace(
-  configDir: string,
-  client: LocalApiClient,
+  { carapaceFile, client }: ProfileTarget,
   req: IncomingMessage,
   res: ServerResponse,
 ): Promise<void> {
@@ -126,38 +305,169 @@ async function handlePutCarapace(
   }
 
   // Ensure directory exists before writing
-  mkdirSync(join(configDir, 'references'), { recursive: true })
-  writeFileSync(carapaceFilePath(configDir), body.content, 'utf-8')
+  mkdirSync(join(carapaceFile, '..'), { recursive: true })
+  writeFileSync(carapaceFile, body.content, 'utf-8')
 
   const result = await client.pushCarapaceSnapshot(body.content, body.reason)
   sendJson(res, 200, result)
 }
 
-async function handleSyncCarapace(
-  configDir: string,
-  client: LocalApiClient,
-  res: ServerResponse,
-): Promise<void> {
+async function handleSyncCarapace({ carapaceFile, client }: ProfileTarget, res: ServerResponse): Promise<void> {
   // Fetch latest carapace from server (no version arg = latest)
   const result = await client.getCarapaceVersion()
-  mkdirSync(join(configDir, 'references'), { recursive: true })
-  writeFileSync(carapaceFilePath(configDir), result.content, 'utf-8')
+  mkdirSync(join(carapaceFile, '..'), { recursive: true })
+  writeFileSync(carapaceFile, result.content, 'utf-8')
   sendJson(res, 200, { version: result.version })
 }
 
-function handleGetConfig(config: LocalApiConfig, res: ServerResponse): void {
-  const profile = config.getCurrentProfile()
+function handleGetConfig(profile: LocalProfileInfo | null, res: ServerResponse): void {
   sendJson(res, 200, profile ?? {})
 }
 
-function handleGetProfiles(config: LocalApiConfig, res: ServerResponse): void {
+function listProfileNames(config: LocalApiConfig): string[] {
   const raw = config.listProfiles()
   // Support duck-typed mocks returning string[] or full objects
-  const profiles: string[] =
-    raw.length > 0 && typeof raw[0] === 'string'
-      ? (raw as string[])
-      : (raw as Array<{ name: string }>).map((p) => p.name)
+  return raw.length > 0 && typeof raw[0] === 'string'
+    ? (raw as string[])
+    : (raw as Array<{ name: string }>).map((p) => p.name)
+}
+
+function handleGetToken(authToken: string | undefined, req: IncomingMessage, res: ServerResponse): void {
+  // Only the bundled SPA gets the token for free; other allowed origins pair manually
+  if (!authToken || !isSameOrigin(req)) {
+    sendJson(res, 403, { error: 'Pairing requires the token from "clawbuds daemon token"' })
+    return
+  }
+  sendJson(res, 200, { token: authToken })
+}
+
+function handleSearch(store: LocalStore, url: string, res: ServerResponse): void {
+  const params = Object.fromEntries(new URL(url, 'http://localhost').searchParams)
+  try {
+    const results = store.search(params.q ?? '', parseSearchFilters(params))
+    sendJson(res, 200, { results })
+  } catch (err) {
+    sendJson(res, 400, { error: (err as Error).message })
+  }
+}
 
+function handleGetMirror(
+  store: () => LocalStore,
+  configDir: string,
+  profileName: string,
+  resource: string,
+  groupId: string | undefined,
+  url: string,
+  res: ServerResponse,
+): void {
+  try {
+    const params = new URL(url, 'http://localhost').searchParams
+    const query = parseMirrorQuery(params)
+    const paging = { limit: query.limit, offset: query.offset }
+    if (resource !== 'inbox' && params.has('afterSeq')) {
+      throw new Error('afterSeq is only supported on /local/inbox; use limit and offset')
+    }
+    if (resource === 'inbox') {
+      sendJson(res, 200, mirrorInbox(profileName, query, configDir))
+    } else if (resource === 'friends') {
+      sendJson(res, 200, mirrorFriends(profileName, paging, configDir))
+    } else if (resource === 'plaza') {
+      sendJson(res, 200, mirrorPlaza(store(), profileName, paging, configDir))
+    } else {
+      sendJson(res, 200, mirrorGroupMessages(store(), profileName, decodeURIComponent(groupId ?? ''), paging, configDir))
+    }
+  } catch (err) {
+    sendJson(res, 400, { error: (err as Error).message })
+  }
+}
+
+function handleGetOwnerQueue(configDir: string, profileName: string, url: string, res: ServerResponse): void {
+  const params = new URL(url, 'http://localhost').searchParams
+  try {
+    const priority = params.get('priority')
+    const items = listOwnerQueue(
+      profileName,
+      {
+        all: params.get('all') === '1' || params.get('all') === 'true',
+        minPriority: priority ? parsePriority(priority) : undefined,
+        type: params.get('type') ?? undefined,
+      },
+      configDir,
+    )
+    sendJson(res, 200, { items })
+  } catch (err) {
+    sendJson(res, 400, { error: (err as Error).message })
+  }
+}
+
+async function handleAckOwnerQueue(
+  configDir: string,
+  profileName: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const rawBody = await readBody(req)
+  let body: Record<string, unknown> = {}
+  try {
+    body = rawBody ? (JSON.parse(rawBody) as Record<string, unknown>) : {}
+  } catch {
+    sendJson(res, 400, { error: 'Invalid JSON body' })
+    return
+  }
+  // No ids → acknowledge everything pending
+  if (body.ids !== undefined && (!Array.isArray(body.ids) || !body.ids.every((id) => typeof id === 'string'))) {
+    sendJson(res, 400, { error: 'ids must be an array of strings' })
+    return
+  }
+  const acked = ackOwnerQueueItems(profileName, body.ids as string[] | undefined, configDir)
+  sendJson(res, 200, { acked })
+}
+
+function handleClearOwnerQueue(configDir: string, profileName: string, url: string, res: ServerResponse): void {
+  const all = new URL(url, 'http://localhost').searchParams.get('all')
+  const removed = clearOwnerQueue(profileName, { all: all === '1' || all === 'true' }, configDir)
+  sendJson(res, 200, { removed })
+}
+
+/**
+ * Profiles to stream for ?profile= and ?clawId= (the web app knows its claw id,
+ * not the daemon's profile name). Throws when clawId matches no active profile.
+ */
+function eventProfiles(opts: LocalApiHandlerOptions, params: URLSearchParams, scoped: string | null): string[] | undefined {
+  if (scoped) return [scoped]
+  const clawId = params.get('clawId')
+  if (!clawId) return parseEventFilter(params).profiles
+  const profiles = opts.getActiveProfiles().filter((name) => opts.config.getProfile?.(name)?.clawId === clawId)
+  if (profiles.length === 0) throw new Error(`No connected profile for ${clawId}`)
+  return profiles
+}
+
+function handleGetEvents(
+  opts: LocalApiHandlerOptions,
+  scoped: string | null,
+  url: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+): void {
+  if (!opts.events) {
+    sendJson(res, 503, { error: 'Event stream not available' })
+    return
+  }
+  const params = new URL(url, 'http://localhost').searchParams
+  let profiles: string[] | undefined
+  try {
+    profiles = eventProfiles(opts, params, scoped)
+  } catch (err) {
+    sendJson(res, 404, { error: (err as Error).message })
+    return
+  }
+  // EventSource sends Last-Event-ID when it reconnects; ?lastEventId= resumes after a page reload
+  const lastEventId = (req.headers['last-event-id'] as string | undefined) ?? params.get('lastEventId') ?? undefined
+  serveEventStream(opts.events, { ...parseEventFilter(params), profiles }, lastEventId, req, res)
+}
+
+function handleGetProfiles(config: LocalApiConfig, res: ServerResponse): void {
+  const profiles = listProfileNames(config)
   const current = config.getCurrentProfileName() ?? ''
   sendJson(res, 200, { profiles, current })
 }
@@ -166,10 +476,12 @@ function handleGetProfiles(config: LocalApiConfig, res: ServerResponse): void {
 
 /**
  * Creates the Node.js http request handler for the daemon's local API.
- * Handles /local/* routes with CORS support for localhost web clients.
+ * Handles /local/* routes with CORS limited to the gateway origin and allowedOrigins.
  */
 export function createLocalApiHandler(opts: LocalApiHandlerOptions): LocalApiHandler {
-  const { configDir, client, config } = opts
+  const { configDir, client, config, authToken } = opts
+  const allowedOrigins = opts.allowedOrigins ?? []
+  const stores = new Map<string, LocalStore>()
 
   return (req: IncomingMessage, res: ServerResponse): void => {
     const method = (req.method ?? 'GET').toUpperCase()
@@ -178,47 +490,223 @@ export function createLocalApiHandler(opts: LocalApiHandlerOptions): LocalApiHan
     // Strip query string for routing
     const path = url.split('?')[0]
 
+    if (!isLoopbackHost(req)) {
+      sendJson(res, 403, { error: 'Host not allowed' })
+      return
+    }
+    if (!isOriginAllowed(req, allowedOrigins)) {
+      sendJson(res, 403, { error: 'Origin not allowed' })
+      return
+    }
+    if (req.headers.origin) {
+      res.setHeader('Access-Control-Allow-Origin', req.headers.origin)
+      res.setHeader('Vary', 'Origin')
+      for (const [name, value] of Object.entries(CORS_HEADERS)) res.setHeader(name, value)
+    }
+
     // CORS preflight
     if (method === 'OPTIONS') {
-      res.writeHead(204, CORS_HEADERS)
+      res.writeHead(204)
       res.end()
       return
     }
 
+    if (method === 'GET' && path === '/local/auth/token') {
+      handleGetToken(authToken, req, res)
+      return
+    }
+
+    const apiProxy = API_PROXY_ROUTE.exec(path)
+    const needsToken = method !== 'GET' || path === '/local/auth/verify' || apiProxy !== null
+    if (authToken && needsToken && !hasValidToken(req, authToken)) {
+      sendJson(res, 401, { error: 'Unauthorized' })
+      return
+    }
+
+    if (method === 'GET' && path === '/local/auth/verify') {
+      sendJson(res, 200, { ok: true })
+      return
+    }
+
     // Route table
     if (method === 'GET' && path === '/local/status') {
       handleGetStatus(opts, res)
       return
     }
 
-    if (method === 'GET' && path === '/local/carapace') {
-      handleGetCarapace(configDir, res)
+    if (method === 'GET' && path === '/local/profiles') {
+      handleGetProfiles(config, res)
       return
     }
 
-    if (method === 'PUT' && path === '/local/carapace') {
-      handlePutCarapace(configDir, client, req, res).catch((err: unknown) => {
-        process.stderr.write(`[local-api] PUT /local/carapace error: ${String(err)}\n`)
-        sendJson(res, 500, { error: 'Internal server error' })
+    if (method === 'GET' && path === '/local/metrics') {
+      handleGetMetrics(opts, res)
+      return
+    }
+
+    if (method === 'GET' && path === '/local/health') {
+      handleGetHealth(opts, res)
+      return
+    }
+
+    const control = DAEMON_CONTROL_ROUTE.exec(path)
+    if (method === 'POST' && control) {
+      if (!opts.control) {
+        sendJson(res, 503, { error: 'Daemon control is not available' })
+        return
+      }
+      if (control[1]) {
+        sendJson(res, 200, opts.control.reload())
+        return
+      }
+      const profileName = decodeSegment(control[2])
+      if (profileName === null) {
+        sendJson(res, 400, { error: 'Malformed profile name' })
+        return
+      }
+      if (!listProfileNames(config).includes(profileName)) {
+        sendJson(res, 404, { error: `Unknown profile: ${profileName}` })
+        return
+      }
+      handleProfileControl(opts.control, control[3], profileName, opts, res)
+      return
+    }
+
+    // Local-only routes: no server client needed, the profile just has to exist
+    const knownProfile = (scopedName: string | undefined): string | null => {
+      const profileName = scopedName ? decodeSegment(scopedName) : config.getCurrentProfileName()
+      if (scopedName && profileName === null) {
+        sendJson(res, 400, { error: 'Malformed profile name' })
+        return null
+      }
+      if (!profileName || !listProfileNames(config).includes(profileName)) {
+        sendJson(res, 404, { error: `Unknown profile: ${profileName ?? '(none)'}` })
+        return null
+      }
+      return profileName
+    }
+
+    const storeFor = (profileName: string): LocalStore => {
+      let store = stores.get(profileName)
+      if (!store) {
+        store = LocalStore.open(profileName, configDir)
+        stores.set(profileName, store)
+      }
+      return store
+    }
+
+    const search = SEARCH_ROUTE.exec(path)
+    if (method === 'GET' && search) {
+      const profileName = knownProfile(search[1])
+      if (!profileName) return
+      handleSearch(storeFor(profileName), url, res)
+      return
+    }
+
+    const mirror = MIRROR_ROUTE.exec(path)
+    if (method === 'GET' && mirror) {
+      const profileName = knownProfile(mirror[1])
+      if (!profileName) return
+      handleGetMirror(() => storeFor(profileName), configDir, profileName, mirror[2], mirror[3], url, res)
+      return
+    }
+
+    if (apiProxy) {
+      const profileName = knownProfile(apiProxy[1])
+      if (!profileName) return
+      const signer = opts.getSigner?.(profileName)
+      if (!signer) {
+        sendJson(res, 503, { error: `No private key for profile ${profileName}` })
+        return
+      }
+      proxySignedRequest(signer, apiProxy[2] + url.slice(path.length), req, res).catch((err: unknown) => {
+        log.error(`${method} ${path} error: ${String(err)}`)
+        if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' })
       })
       return
     }
 
-    if (method === 'POST' && path === '/local/carapace/sync') {
-      handleSyncCarapace(configDir, client, res).catch((err: unknown) => {
-        process.stderr.write(`[local-api] POST /local/carapace/sync error: ${String(err)}\n`)
+    const events = EVENTS_ROUTE.exec(path)
+    if (method === 'GET' && events) {
+      const profileName = events[1] ? knownProfile(events[1]) : null
+      if (events[1] && !profileName) return
+      handleGetEvents(opts, profileName, url, req, res)
+      return
+    }
+
+    const ownerQueue = OWNER_QUEUE_ROUTE.exec(path)
+    if (ownerQueue) {
+      const isAck = ownerQueue[2] !== undefined
+      const handled = (isAck && method === 'POST') || (!isAck && (method === 'GET' || method === 'DELETE'))
+      if (handled) {
+        const profileName = knownProfile(ownerQueue[1])
+        if (!profileName) return
+        if (method === 'GET') {
+          handleGetOwnerQueue(configDir, profileName, url, res)
+        } else if (method === 'DELETE') {
+          handleClearOwnerQueue(configDir, profileName, url, res)
+        } else {
+          handleAckOwnerQueue(configDir, profileName, req, res).catch((err: unknown) => {
+            log.error(`POST ${path} error: ${String(err)}`)
+            sendJson(res, 500, { error: 'Internal server error' })
+          })
+        }
+        return
+      }
+    }
+
+    // Profile-scoped routes share handlers with the unscoped ones (current profile)
+    let target: ProfileTarget
+    let route = path
+    let profileInfo: () => LocalProfileInfo | null = () => config.getCurrentProfile()
+    const scoped = PROFILE_ROUTE.exec(path)
+    if (scoped) {
+      const profileName = decodeSegment(scoped[1])
+      if (profileName === null) {
+        sendJson(res, 400, { error: 'Malformed profile name' })
+        return
+      }
+      if (!listProfileNames(config).includes(profileName)) {
+        sendJson(res, 404, { error: `Unknown profile: ${profileName}` })
+        return
+      }
+      const current = config.getCurrentProfileName()
+      const profileClient = opts.getClient?.(profileName) ?? (profileName === current ? client : null)
+      if (!profileClient) {
+        sendJson(res, 503, { error: `Profile ${profileName} is not connected` })
+        return
+      }
+      target = { carapaceFile: carapacePath(configDir, profileName, current), client: profileClient }
+      route = `/local${scoped[2]}`
+      profileInfo = () => config.getProfile?.(profileName) ?? (profileName === current ? config.getCurrentProfile() : null)
+    } else {
+      const current = config.getCurrentProfileName()
+      target = { carapaceFile: carapacePath(configDir, current, current), client }
+    }
+
+    if (method === 'GET' && route === '/local/carapace') {
+      handleGetCarapace(target.carapaceFile, res)
+      return
+    }
+
+    if (method === 'PUT' && route === '/local/carapace') {
+      handlePutCarapace(target, req, res).catch((err: unknown) => {
+        log.error(`PUT ${path} error: ${String(err)}`)
         sendJson(res, 500, { error: 'Internal server error' })
       })
       return
     }
 
-    if (method === 'GET' && path === '/local/config') {
-      handleGetConfig(config, res)
+    if (method === 'POST' && route === '/local/carapace/sync') {
+      handleSyncCarapace(target, res).catch((err: unknown) => {
+        log.error(`POST ${path} error: ${String(err)}`)
+        sendJson(res, 500, { error: 'Internal server error' })
+      })
       return
     }
 
-    if (method === 'GET' && path === '/local/profiles') {
-      handleGetProfiles(config, res)
+    if (method === 'GET' && route === '/local/config') {
+      handleGetConfig(profileInfo(), res)
       return
     }
 
@@ -0,0 +1,136 @@
+/**
+ * Read-only mirror of server data from what the daemon has cached locally,
+ * served on /local/inbox, /local/friends, /local/plaza and
+ * /local/groups/:id/messages so the web UI and scripts keep working while the
+ * server is unreachable.
+ *
+ * Sources: the inbox event cache (inbox-<profile>.jsonl, full InboxEntry
+ * records), the search store (plaza posts and group messages as
+ * StoredMessage) and friends-<profile>.json, refreshed by the daemon and by
+ * `clawbuds friends`. Every page says when its source last changed
+ * (cachedAt), so clients can show "cached as of".
+ *
+ * Only inbox entries carry a sequence number, so afterSeq applies to
+ * /local/inbox alone; the other routes page with limit and offset.
+ */
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { readCache } from './cache.js'
+import { getConfigDir, inboxCachePath } from './config.js'
+import { LocalStore, storePath, type StoredMessage } from './local-store.js'
+import type { FriendInfo, InboxEntry } from './types.js'
+
+// -- Types --
+
+export interface MirrorPage<T> {
+  items: T[]
+  /** Matching items before paging */
+  total: number
+  offset: number
+  limit: number
+  /** When the underlying cache last changed; null when nothing is cached */
+  cachedAt: string | null
+}
+
+export interface PageOptions {
+  limit: number
+  offset: number
+}
+
+interface FriendsMirror {
+  fetchedAt: string
+  friends: FriendInfo[]
+}
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 500
+
+// -- Paging --
+
+function nonNegativeInt(value: string | null, name: string, fallback: number): number {
+  if (value === null || value === '') return fallback
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${name} must be a non-negative integer`)
+  return n
+}
+
+/** ?limit=&offset=&afterSeq=; throws on values that are not non-negative integers */
+export function parseMirrorQuery(params: URLSearchParams): PageOptions & { afterSeq: number } {
+  return {
+    limit: Math.min(nonNegativeInt(params.get('limit'), 'limit', DEFAULT_LIMIT) || DEFAULT_LIMIT, MAX_LIMIT),
+    offset: nonNegativeInt(params.get('offset'), 'offset', 0),
+    afterSeq: nonNegativeInt(params.get('afterSeq'), 'afterSeq', 0),
+  }
+}
+
+function page<T>(all: T[], opts: PageOptions, cachedAt: string | null): MirrorPage<T> {
+  return { items: all.slice(opts.offset, opts.offset + opts.limit), total: all.length, ...opts, cachedAt }
+}
+
+function modifiedAt(path: string): string | null {
+  try {
+    return statSync(path).mtime.toISOString()
+  } catch {
+    return null
+  }
+}
+
+// -- Inbox --
+
+/**
+ * Cached inbox entries, newest first, optionally only those after a seq.
+ * Reconnect replays can cache a seq twice; the later copy wins.
+ */
+export function mirrorInbox(
+  profileName: string,
+  opts: PageOptions & { afterSeq?: number },
+  dir?: string,
+): MirrorPage<InboxEntry> {
+  const paging = { limit: opts.limit, offset: opts.offset }
+  const bySeq = new Map<number, InboxEntry>()
+  for (const event of readCache(profileName, { limit: Number.MAX_SAFE_INTEGER, afterSeq: opts.afterSeq }, dir)) {
+    if (event.type === 'message.new') bySeq.set(event.seq, event.data)
+  }
+  const entries = [...bySeq.values()].sort((a, b) => b.seq - a.seq)
+  return page(entries, paging, modifiedAt(inboxCachePath(profileName, dir)))
+}
+
+// -- Friends --
+
+export function friendsMirrorPath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `friends-${profileName}.json`)
+}
+
+export function saveFriendsMirror(profileName: string, friends: FriendInfo[], dir?: string, now: Date = new Date()): void {
+  const path = friendsMirrorPath(profileName, dir)
+  mkdirSync(dirname(path), { recursive: true })
+  const mirror: FriendsMirror = { fetchedAt: now.toISOString(), friends }
+  writeFileSync(path, JSON.stringify(mirror, null, 2) + '\n', { mode: 0o600 })
+}
+
+export function mirrorFriends(profileName: string, opts: PageOptions, dir?: string): MirrorPage<FriendInfo> {
+  const path = friendsMirrorPath(profileName, dir)
+  if (!existsSync(path)) return page([], opts, null)
+  try {
+    const mirror = JSON.parse(readFileSync(path, 'utf-8')) as FriendsMirror
+    return page(Array.isArray(mirror.friends) ? mirror.friends : [], opts, mirror.fetchedAt ?? null)
+  } catch {
+    return page([], opts, null)
+  }
+}
+
+// -- Plaza and groups (search store) --
+
+export function mirrorPlaza(store: LocalStore, profileName: string, opts: PageOptions, dir?: string): MirrorPage<StoredMessage> {
+  return page(store.list('plaza'), opts, modifiedAt(storePath(profileName, dir)))
+}
+
+export function mirrorGroupMessages(
+  store: LocalStore,
+  profileName: string,
+  groupId: string,
+  opts: PageOptions,
+  dir?: string,
+): MirrorPage<StoredMessage> {
+  return page(store.list('group', groupId), opts, modifiedAt(storePath(profileName, dir)))
+}
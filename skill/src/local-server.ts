@@ -11,8 +11,13 @@
 import { createServer, type Server } from 'node:http'
 import type { IncomingMessage, ServerResponse } from 'node:http'
 import sirv from 'sirv'
+import { createLogger } from './logger.js'
+import type { EventStream } from './event-stream.js'
+import type { DaemonHealth } from './daemon-metrics.js'
+import type { ProxySigner } from './signing-proxy.js'
 import {
   createLocalApiHandler,
+  type DaemonControl,
   type LocalApiClient,
   type LocalApiConfig,
   type LocalApiHandler,
@@ -26,9 +31,25 @@ export interface LocalServerOptions {
   /** Path to the .clawbuds config directory */
   configDir: string
   client: LocalApiClient
+  /** Per-profile clients for /local/profiles/:name/* */
+  getClient?: (profileName: string) => LocalApiClient | null
   config: LocalApiConfig
   getServerConnected: () => boolean
   getActiveProfiles: () => string[]
+  /** Token required on mutating /local/* routes (see loadOrCreateLocalToken) */
+  authToken?: string
+  /** Extra browser origins allowed to call /local/* */
+  allowedOrigins?: string[]
+  /** Daemon events streamed on /local/events */
+  events?: EventStream
+  /** Profile keys for the /local/api/* signing proxy */
+  getSigner?: (profileName: string) => ProxySigner | null
+  /** Runtime profile control for /local/daemon/* */
+  control?: DaemonControl
+  /** Prometheus text for /local/metrics */
+  getMetrics?: () => string
+  /** Connection report for /local/health */
+  getHealth?: () => DaemonHealth
   /** Optional directory to serve as a static SPA. If omitted, non-/local/ paths return 404. */
   staticDir?: string
 }
@@ -40,6 +61,8 @@ export interface LocalServer {
 
 // ── Implementation ────────────────────────────────────────────────────────────
 
+const log = createLogger('local-server')
+
 function buildStaticHandler(staticDir: string): LocalApiHandler {
   // sirv in dev mode so etag / cache-control headers are set properly
   return sirv(staticDir, { single: true, dev: false })
@@ -53,16 +76,24 @@ function notFoundHandler(_req: IncomingMessage, res: ServerResponse): void {
 /**
  * Creates a local HTTP server for the daemon.
  * Routes:
- *   /local/*  → local-api handler
+ *   /local/*  → local-api handler (including the /local/api/* signing proxy)
  *   /*        → sirv static file server (SPA fallback) or 404
  */
 export function createLocalServer(opts: LocalServerOptions): LocalServer {
   const localApiHandler = createLocalApiHandler({
     configDir: opts.configDir,
     client: opts.client,
+    getClient: opts.getClient,
     config: opts.config,
     getServerConnected: opts.getServerConnected,
     getActiveProfiles: opts.getActiveProfiles,
+    authToken: opts.authToken,
+    allowedOrigins: opts.allowedOrigins,
+    events: opts.events,
+    getSigner: opts.getSigner,
+    control: opts.control,
+    getMetrics: opts.getMetrics,
+    getHealth: opts.getHealth,
   })
 
   const staticHandler: LocalApiHandler = opts.staticDir
@@ -73,10 +104,17 @@ export function createLocalServer(opts: LocalServerOptions): LocalServer {
     const url = req.url ?? '/'
     const path = url.split('?')[0]
 
-    if (path.startsWith('/local/') || path === '/local') {
-      localApiHandler(req, res)
-    } else {
-      staticHandler(req, res)
+    // A bug in one route answers 500 instead of taking the daemon down
+    try {
+      if (path.startsWith('/local/') || path === '/local') {
+        localApiHandler(req, res)
+      } else {
+        staticHandler(req, res)
+      }
+    } catch (err) {
+      log.error(`${req.method ?? 'GET'} ${path} failed: ${(err as Error).message}`)
+      if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: 'Internal error' }))
     }
   }
 
@@ -106,6 +144,8 @@ export function createLocalServer(opts: LocalServerOptions): LocalServer {
           if (err) reject(err)
           else resolve()
         })
+        // Event streams never end on their own
+        httpServer.closeAllConnections()
       })
     },
   }
@@ -0,0 +1,401 @@
+/**
+ * Local message store with a full-text index.
+ *
+ * Inbox entries, group messages, plaza posts and Thread V5 contributions are
+ * kept per profile in store-<profile>.jsonl, an append-only log where the last
+ * record for a key wins. Each process builds an inverted index in memory and
+ * reads only the tail of the log on later queries, so the daemon (writer via
+ * WebSocket events) and the CLI (writer via fetched pages) can share one file.
+ * One-shot CLI writers append without loading the log; the daemon, the only
+ * long-lived writer, compacts away the duplicates. Appends and compaction hold
+ * store-<profile>.jsonl.lock so no append lands in a log being replaced.
+ * Text is stored decrypted: the file is written 0600 like the other key material.
+ */
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { dirname, join } from 'node:path'
+import { getConfigDir } from './config.js'
+import { decryptBlockList, type E2eeIdentity } from './crypto/envelope.js'
+import type { DecryptedContribution } from './thread-e2ee.js'
+import type { Block, InboxEntry, MessageProfile, PlazaPost } from './types.js'
+
+// -- Types --
+
+export type StoredKind = 'inbox' | 'group' | 'plaza' | 'thread'
+
+export interface StoredMessage {
+  kind: StoredKind
+  id: string
+  /** groupId for group messages, threadId for contributions */
+  scopeId: string | null
+  fromClawId: string
+  fromDisplayName: string | null
+  /** Searchable plain text of all decrypted blocks */
+  text: string
+  blockTypes: string[]
+  visibility: string | null
+  createdAt: string
+}
+
+export interface SearchFilters {
+  /** clawId or display name (case-insensitive) */
+  from?: string
+  /** ISO timestamp or YYYY-MM-DD, inclusive */
+  since?: string
+  /** ISO timestamp or YYYY-MM-DD (the whole day), inclusive */
+  until?: string
+  visibility?: string
+  blockType?: string
+  kind?: StoredKind
+  limit?: number
+}
+
+const KINDS: StoredKind[] = ['inbox', 'group', 'plaza', 'thread']
+
+// -- Text extraction --
+
+function blockText(b: Block): string {
+  switch (b.type) {
+    case 'text':
+      return b.text
+    case 'link':
+      return [b.url, b.preview?.title, b.preview?.description].filter(Boolean).join(' ')
+    case 'image':
+      return b.alt ?? ''
+    case 'code':
+      return b.code
+    case 'poll':
+      return [b.question, ...b.options].join(' ')
+    default:
+      // still-encrypted blocks have nothing to index
+      return ''
+  }
+}
+
+function fromBlocks(blocks: Block[]): Pick<StoredMessage, 'text' | 'blockTypes'> {
+  return {
+    text: blocks.map(blockText).filter(Boolean).join('\n'),
+    blockTypes: [...new Set(blocks.map((b) => b.type))],
+  }
+}
+
+export function fromInboxEntry(entry: InboxEntry, identity?: E2eeIdentity): StoredMessage {
+  const msg = entry.message
+  return {
+    kind: 'inbox',
+    id: msg.id,
+    scopeId: null,
+    fromClawId: msg.fromClawId,
+    fromDisplayName: msg.fromDisplayName,
+    ...fromBlocks(identity ? decryptBlockList(msg.blocks, identity, msg.fromClawId) : msg.blocks),
+    visibility: msg.visibility,
+    createdAt: msg.createdAt,
+  }
+}
+
+/** Pass messages through decryptGroupMessages() first */
+export function fromGroupMessage(groupId: string, msg: MessageProfile): StoredMessage {
+  return {
+    kind: 'group',
+    id: msg.id,
+    scopeId: groupId,
+    fromClawId: msg.fromClawId,
+    fromDisplayName: null,
+    ...fromBlocks(msg.blocks),
+    visibility: msg.visibility,
+    createdAt: msg.createdAt,
+  }
+}
+
+export function fromPlazaPost(post: PlazaPost): StoredMessage {
+  return {
+    kind: 'plaza',
+    id: post.id,
+    scopeId: post.discussionRootId,
+    fromClawId: post.fromClawId,
+    fromDisplayName: null,
+    ...fromBlocks(post.blocks),
+    visibility: 'public',
+    createdAt: post.createdAt,
+  }
+}
+
+export function fromContribution(threadId: string, c: DecryptedContribution): StoredMessage {
+  return {
+    kind: 'thread',
+    id: c.id,
+    scopeId: threadId,
+    fromClawId: c.contributorId,
+    fromDisplayName: null,
+    text: c.content ?? '',
+    blockTypes: [c.contentType],
+    visibility: null,
+    createdAt: c.createdAt,
+  }
+}
+
+// -- Index --
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+function keyOf(m: StoredMessage): string {
+  return `${m.kind}:${m.id}`
+}
+
+/** Date-only bounds cover the whole day */
+function bound(value: string, end: boolean): number {
+  const time = Date.parse(value)
+  if (Number.isNaN(time)) throw new Error(`Invalid date: ${value}`)
+  return end && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time
+}
+
+export function storePath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `store-${profileName}.jsonl`)
+}
+
+// -- Log file --
+
+const LOCK_WAIT_MS = 2000
+/** A lock this old was left by a process that died holding it */
+const LOCK_STALE_MS = 10_000
+/** Compact once superseded records dominate a log of at least this many */
+const COMPACT_MIN_RECORDS = 1000
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms)
+}
+
+function lockAge(lock: string): number {
+  try {
+    return Date.now() - statSync(lock).mtimeMs
+  } catch {
+    return 0
+  }
+}
+
+/** Run fn holding <path>.lock */
+function withLock<T>(path: string, fn: () => T): T {
+  const lock = `${path}.lock`
+  mkdirSync(dirname(path), { recursive: true })
+  const deadline = Date.now() + LOCK_WAIT_MS
+  for (;;) {
+    try {
+      closeSync(openSync(lock, 'wx', 0o600))
+      break
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+      if (lockAge(lock) > LOCK_STALE_MS) rmSync(lock, { force: true })
+      else if (Date.now() > deadline) throw new Error(`Local store is busy (${lock})`)
+      else sleepSync(20)
+    }
+  }
+  try {
+    return fn()
+  } finally {
+    rmSync(lock, { force: true })
+  }
+}
+
+function appendRecords(path: string, messages: StoredMessage[]): void {
+  withLock(path, () => {
+    appendFileSync(path, messages.map((m) => JSON.stringify(m) + '\n').join(''), { mode: 0o600 })
+  })
+}
+
+export class LocalStore {
+  private readonly messages = new Map<string, StoredMessage>()
+  private readonly index = new Map<string, Set<string>>()
+  /** Bytes of the log already loaded, and which file they came from */
+  private offset = 0
+  private inode = 0
+  private records = 0
+
+  private constructor(private readonly path: string) {}
+
+  static open(profileName: string, dir: string = getConfigDir()): LocalStore {
+    const store = new LocalStore(storePath(profileName, dir))
+    store.refresh()
+    return store
+  }
+
+  /** Add messages without loading the log (one-shot writers such as CLI commands) */
+  static append(profileName: string, messages: StoredMessage[], dir: string = getConfigDir()): void {
+    if (messages.length > 0) appendRecords(storePath(profileName, dir), messages)
+  }
+
+  get size(): number {
+    return this.messages.size
+  }
+
+  /** Pick up records appended by other processes since the last read */
+  refresh(): void {
+    if (!existsSync(this.path)) return
+    const { size, ino } = statSync(this.path)
+    if (ino !== this.inode || size < this.offset) {
+      // New file (first read, or compacted elsewhere): reload from scratch
+      this.messages.clear()
+      this.index.clear()
+      this.offset = 0
+      this.inode = ino
+      this.records = 0
+    }
+    if (size === this.offset) return
+
+    const buf = Buffer.alloc(size - this.offset)
+    const fd = openSync(this.path, 'r')
+    try {
+      readSync(fd, buf, 0, buf.length, this.offset)
+    } finally {
+      closeSync(fd)
+    }
+    // Only consume complete lines; a concurrent writer may be mid-append
+    const end = buf.lastIndexOf(0x0a) + 1
+    for (const line of buf.subarray(0, end).toString('utf-8').split('\n')) {
+      if (!line) continue
+      try {
+        this.apply(JSON.parse(line) as StoredMessage)
+        this.records++
+      } catch {
+        // skip malformed lines
+      }
+    }
+    this.offset += end
+  }
+
+  /** Add or replace messages; unchanged ones are not rewritten. Returns how many changed. */
+  upsert(messages: StoredMessage[]): number {
+    this.refresh()
+    const changed = messages.filter((m) => {
+      const existing = this.messages.get(keyOf(m))
+      return !existing || JSON.stringify(existing) !== JSON.stringify(m)
+    })
+    if (changed.length === 0) return 0
+
+    appendRecords(this.path, changed)
+    this.refresh()
+    return changed.length
+  }
+
+  /**
+   * Newest-first matches for every word of `query` (substring match, so partial
+   * words and CJK runs work). An empty query lists everything passing the filters.
+   */
+  search(query: string, filters: SearchFilters = {}): StoredMessage[] {
+    this.refresh()
+
+    let candidates: Iterable<string> = this.messages.keys()
+    for (const term of tokenize(query)) {
+      const hits = new Set<string>()
+      for (const [token, keys] of this.index) {
+        if (token.includes(term)) keys.forEach((k) => hits.add(k))
+      }
+      candidates = [...candidates].filter((k) => hits.has(k))
+    }
+
+    const from = filters.from?.toLowerCase()
+    const since = filters.since ? bound(filters.since, false) : -Infinity
+    const until = filters.until ? bound(filters.until, true) : Infinity
+
+    const results = [...candidates]
+      .map((k) => this.messages.get(k) as StoredMessage)
+      .filter((m) => {
+        if (filters.kind && m.kind !== filters.kind) return false
+        if (from && m.fromClawId.toLowerCase() !== from && m.fromDisplayName?.toLowerCase() !== from) return false
+        if (filters.visibility && m.visibility !== filters.visibility) return false
+        if (filters.blockType && !m.blockTypes.includes(filters.blockType)) return false
+        const time = Date.parse(m.createdAt)
+        return time >= since && time <= until
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+    return results.slice(0, filters.limit ?? 20)
+  }
+
+  /** All messages of a kind (optionally one group, thread or discussion), newest first */
+  list(kind: StoredKind, scopeId?: string): StoredMessage[] {
+    this.refresh()
+    return [...this.messages.values()]
+      .filter((m) => m.kind === kind && (scopeId === undefined || m.scopeId === scopeId))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /** Compact when superseded records dominate the log; the daemon calls this, not one-shot CLI commands */
+  compactIfNeeded(): boolean {
+    if (this.records < COMPACT_MIN_RECORDS || this.records <= 2 * this.messages.size) return false
+    this.compact()
+    return true
+  }
+
+  /**
+   * Rewrite the log with one record per message. Writes a new file and renames
+   * it over the log while holding the lock, so readers see either log whole and
+   * appends from other processes wait instead of being lost.
+   */
+  compact(): void {
+    withLock(this.path, () => {
+      this.refresh()
+      const tmp = `${this.path}.tmp`
+      writeFileSync(tmp, [...this.messages.values()].map((m) => JSON.stringify(m) + '\n').join(''), { mode: 0o600 })
+      renameSync(tmp, this.path)
+      const { size, ino } = statSync(this.path)
+      this.offset = size
+      this.inode = ino
+      this.records = this.messages.size
+    })
+  }
+
+  private apply(m: StoredMessage): void {
+    const key = keyOf(m)
+    const previous = this.messages.get(key)
+    if (previous) {
+      for (const token of tokenize(previous.text)) this.index.get(token)?.delete(key)
+    }
+    this.messages.set(key, m)
+    for (const token of tokenize(m.text)) {
+      let keys = this.index.get(token)
+      if (!keys) this.index.set(token, (keys = new Set()))
+      keys.add(key)
+    }
+  }
+}
+
+/**
+ * Build filters from string options (CLI flags or gateway query params).
+ * Throws on an unknown kind; bad dates throw from search().
+ */
+export function parseSearchFilters(raw: Record<string, string | undefined>): SearchFilters {
+  const filters: SearchFilters = {}
+  if (raw.from) filters.from = raw.from
+  if (raw.since) filters.since = raw.since
+  if (raw.until) filters.until = raw.until
+  if (raw.visibility) filters.visibility = raw.visibility
+  if (raw.type) filters.blockType = raw.type
+  if (raw.kind) {
+    if (!KINDS.includes(raw.kind as StoredKind)) {
+      throw new Error(`Invalid kind: ${raw.kind}. Must be one of: ${KINDS.join(', ')}`)
+    }
+    filters.kind = raw.kind as StoredKind
+  }
+  if (raw.limit) filters.limit = parseInt(raw.limit, 10)
+  return filters
+}
+
+export function formatStoredMessage(m: StoredMessage): string {
+  const who = m.fromDisplayName ? `${m.fromDisplayName} (${m.fromClawId})` : m.fromClawId
+  const scope = m.scopeId ? ` ${m.scopeId}` : ''
+  const text = m.text.replace(/\s+/g, ' ')
+  const preview = text.length > 120 ? text.slice(0, 120) + '...' : text || `[${m.blockTypes.join(', ')}]`
+  return `  [${m.kind}${scope}] ${m.id} ${m.createdAt}\n    ${who}: ${preview}`
+}
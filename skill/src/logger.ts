@@ -0,0 +1,232 @@
+/**
+ * Leveled logging for the daemon and its subsystems.
+ *
+ * Each record has a level, a component (daemon, webhook, local-api, ...) and
+ * context fields such as the profile. By default records go to stdout
+ * (warn and error to stderr). With CLAWBUDS_LOG_FILE, which `clawbuds daemon
+ * start` sets to <config dir>/daemon.log, they go to that file instead, rotated
+ * when it passes CLAWBUDS_LOG_MAX_BYTES or the UTC day changes:
+ * daemon.log → daemon.log.1 → ... → daemon.log.<CLAWBUDS_LOG_KEEP>.
+ *
+ *   CLAWBUDS_LOG_LEVEL      debug | info | warn | error (default info)
+ *   CLAWBUDS_LOG_FORMAT     text | json, one JSON object per line (default text)
+ *   CLAWBUDS_LOG_MAX_BYTES  default 10 MB
+ *   CLAWBUDS_LOG_KEEP       rotated files kept, default 5
+ *
+ * `clawbuds daemon logs` reads both formats back (parseLogLine).
+ */
+import { appendFileSync, mkdirSync, renameSync, rmSync, statSync } from 'node:fs'
+import { dirname } from 'node:path'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type LogFormat = 'text' | 'json'
+export type LogFields = Record<string, unknown>
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+export interface LogRecord {
+  time: string
+  level: LogLevel
+  component: string
+  profile?: string
+  msg: string
+  [field: string]: unknown
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void
+  info(msg: string, fields?: LogFields): void
+  warn(msg: string, fields?: LogFields): void
+  error(msg: string, fields?: LogFields): void
+  /** A logger that adds these fields (e.g. { profile }) to every record */
+  child(fields: LogFields): Logger
+}
+
+export interface LoggingOptions {
+  level?: LogLevel
+  format?: LogFormat
+  /** Write to this file (rotated) instead of stdout/stderr */
+  file?: string
+  maxBytes?: number
+  keep?: number
+  now?: () => Date
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024
+const DEFAULT_KEEP = 5
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as string[]).includes(value)
+}
+
+function fileSize(path: string): number {
+  try {
+    return statSync(path).size
+  } catch {
+    return 0
+  }
+}
+
+// -- Formatting --
+
+function formatValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : value instanceof Error ? value.message : JSON.stringify(value)
+  return /[\s"=]/.test(text) ? JSON.stringify(text) : text
+}
+
+/**
+ * 2025-06-01T12:00:00.000Z INFO  [daemon:work] connected key=value
+ * Further lines of a multi-line message are indented.
+ */
+export function formatLogRecord(record: LogRecord, format: LogFormat = 'text'): string {
+  if (format === 'json') return JSON.stringify(record)
+  const { time, level, component, profile, msg, ...fields } = record
+  const scope = profile ? `${component}:${profile}` : component
+  const extra = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}=${formatValue(value)}`)
+    .join('')
+  return `${time} ${level.toUpperCase().padEnd(5)} [${scope}] ${msg.replace(/\n/g, '\n  ')}${extra}`
+}
+
+const TEXT_LINE = /^(\S+) (DEBUG|INFO|WARN|ERROR)\s+\[([^\]:]+)(?::([^\]]+))?\] (.*)$/
+
+/** Read a log entry in either format; null for anything else (e.g. crash output) */
+export function parseLogLine(line: string): LogRecord | null {
+  if (line.startsWith('{')) {
+    try {
+      const record = JSON.parse(line) as LogRecord
+      return typeof record.msg === 'string' && isLogLevel(record.level) ? record : null
+    } catch {
+      return null
+    }
+  }
+  const match = TEXT_LINE.exec(line.split('\n')[0])
+  if (!match) return null
+  const [, time, level, component, profile, msg] = match
+  return { time, level: level.toLowerCase() as LogLevel, component, ...(profile && { profile }), msg }
+}
+
+/** Join the indented continuation lines of multi-line text records to their first line */
+export function groupLogEntries(lines: string[]): string[] {
+  const entries: string[] = []
+  for (const line of lines) {
+    if (entries.length > 0 && /^\s/.test(line) && !parseLogLine(line)) entries[entries.length - 1] += '\n' + line
+    else entries.push(line)
+  }
+  return entries
+}
+
+export interface LogFilter {
+  /** This level and above */
+  level?: LogLevel
+  profile?: string
+}
+
+/** Lines that are not records (crash output, old logs) only pass an empty filter */
+export function matchesLogFilter(line: string, filter: LogFilter): boolean {
+  if (!filter.level && !filter.profile) return true
+  const record = parseLogLine(line)
+  if (!record) return false
+  if (filter.level && LOG_LEVELS.indexOf(record.level) < LOG_LEVELS.indexOf(filter.level)) return false
+  return !filter.profile || record.profile === filter.profile
+}
+
+// -- Outputs --
+
+/** Appends lines to a file, rotating it by size and by UTC day */
+export class RotatingFile {
+  private size: number
+  private day: string | null
+
+  constructor(
+    readonly path: string,
+    private readonly maxBytes = DEFAULT_MAX_BYTES,
+    private readonly keep = DEFAULT_KEEP,
+    private readonly now: () => Date = () => new Date(),
+  ) {
+    mkdirSync(dirname(path), { recursive: true })
+    this.size = fileSize(path)
+    this.day = this.size > 0 ? statSync(path).mtime.toISOString().slice(0, 10) : null
+  }
+
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line) + 1
+    const today = this.now().toISOString().slice(0, 10)
+    if (this.size > 0 && (this.size + bytes > this.maxBytes || this.day !== today)) this.rotate()
+    appendFileSync(this.path, line + '\n', { mode: 0o600 })
+    this.size += bytes
+    this.day = today
+  }
+
+  /** Shift daemon.log → .1 → .2 …, dropping the oldest */
+  private rotate(): void {
+    rmSync(`${this.path}.${this.keep}`, { force: true })
+    for (let n = this.keep - 1; n >= 1; n--) {
+      if (fileSize(`${this.path}.${n}`) > 0) renameSync(`${this.path}.${n}`, `${this.path}.${n + 1}`)
+    }
+    if (this.keep > 0) renameSync(this.path, `${this.path}.1`)
+    else rmSync(this.path, { force: true })
+    this.size = 0
+  }
+}
+
+interface LogSettings {
+  threshold: number
+  format: LogFormat
+  file: RotatingFile | null
+  now: () => Date
+}
+
+let settings: LogSettings | null = null
+
+function optionsFromEnv(): LoggingOptions {
+  const level = (process.env.CLAWBUDS_LOG_LEVEL || '').toLowerCase()
+  return {
+    level: isLogLevel(level) ? level : undefined,
+    format: process.env.CLAWBUDS_LOG_FORMAT === 'json' ? 'json' : 'text',
+    file: process.env.CLAWBUDS_LOG_FILE || undefined,
+    maxBytes: parseInt(process.env.CLAWBUDS_LOG_MAX_BYTES || String(DEFAULT_MAX_BYTES), 10),
+    keep: parseInt(process.env.CLAWBUDS_LOG_KEEP || String(DEFAULT_KEEP), 10),
+  }
+}
+
+/** Set where and how records are written; without options, from the environment (done on first use) */
+export function configureLogging(opts: LoggingOptions = optionsFromEnv()): void {
+  const now = opts.now ?? (() => new Date())
+  settings = {
+    threshold: LOG_LEVELS.indexOf(opts.level ?? 'info'),
+    format: opts.format ?? 'text',
+    file: opts.file ? new RotatingFile(opts.file, opts.maxBytes, opts.keep, now) : null,
+    now,
+  }
+}
+
+function write(level: LogLevel, component: string, msg: string, fields: LogFields): void {
+  if (!settings) configureLogging()
+  const { threshold, format, file, now } = settings!
+  if (LOG_LEVELS.indexOf(level) < threshold) return
+
+  const record: LogRecord = { time: now().toISOString(), level, component, msg, ...fields }
+  const line = formatLogRecord(record, format)
+  if (file) {
+    try {
+      file.write(line)
+      return
+    } catch {
+      // Disk full or file gone: fall through so the record is not lost entirely
+    }
+  }
+  const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout
+  stream.write(line + '\n')
+}
+
+export function createLogger(component: string, fields: LogFields = {}): Logger {
+  return {
+    debug: (msg, extra) => write('debug', component, msg, { ...fields, ...extra }),
+    info: (msg, extra) => write('info', component, msg, { ...fields, ...extra }),
+    warn: (msg, extra) => write('warn', component, msg, { ...fields, ...extra }),
+    error: (msg, extra) => write('error', component, msg, { ...fields, ...extra }),
+    child: (more) => createLogger(component, { ...fields, ...more }),
+  }
+}
@@ -1,31 +1,47 @@
 import type { InboxEntry } from './types.js'
+import { randomUUID } from 'node:crypto'
+import { existsSync } from 'node:fs'
+import { decryptBlockList, type E2eeIdentity } from './crypto/envelope.js'
+import { describeFailure, findHook, findOnPath, hooksDir, runProcess } from './exec-hooks.js'
+import { addDeadLetter, deliverWebhook, dropDeadLetters, type WebhookPayload } from './webhook-deliveries.js'
+import { createLogger, type LogFields } from './logger.js'
 
 // -- Plugin Interface --
 
 export interface NotificationEvent {
-  type: 'message.new' | 'friend.request' | 'friend.accepted' | 'poll.voted' | 'group.invited' | 'plaza.reply' | 'plaza.question_match'
+  type: 'message.new' | 'friend.request' | 'friend.accepted' | 'poll.voted' | 'group.invited' | 'plaza.reply' | 'plaza.question_match' | 'e2ee.key_changed'
   data: unknown
   summary: string // Human-readable one-line summary
+  priority?: 'normal' | 'high' // Defaults to normal
 }
 
 export interface NotificationPlugin {
   name: string
   init(config: Record<string, string>): Promise<void>
+  /** Rejects when the event was not delivered, so the daemon can count and log it */
   notify(event: NotificationEvent): Promise<void>
   shutdown?(): Promise<void>
 }
 
+/** The daemon tags each event with the profile it came from; for log context */
+function profileFields(event: { data: unknown }): LogFields {
+  const profile = (event.data as { _profile?: string } | null)?._profile
+  return profile ? { profile } : {}
+}
+
 // -- Console Plugin --
 
 export class ConsolePlugin implements NotificationPlugin {
   name = 'console'
+  private readonly log = createLogger('console')
 
   async init(): Promise<void> {
-    console.log('[ConsolePlugin] initialized') // eslint-disable-line no-console
+    this.log.info('initialized')
   }
 
   async notify(event: NotificationEvent): Promise<void> {
-    console.log(`[ConsolePlugin] ${event.type}: ${event.summary}`) // eslint-disable-line no-console
+    const marker = event.priority === 'high' ? ' [HIGH PRIORITY]' : ''
+    this.log.info(`${event.type}${marker}: ${event.summary}`, profileFields(event))
   }
 }
 
@@ -33,6 +49,7 @@ export class ConsolePlugin implements NotificationPlugin {
 
 export class OpenClawPlugin implements NotificationPlugin {
   name = 'openclaw'
+  private readonly log = createLogger('openclaw')
   private hooksBase: string
   private hooksToken: string
   private hooksChannel: string
@@ -52,41 +69,57 @@ export class OpenClawPlugin implements NotificationPlugin {
       throw new Error('OPENCLAW_HOOKS_TOKEN is required for OpenClawPlugin')
     }
 
-    console.log(`[OpenClawPlugin] initialized -> ${this.hooksBase}/agent`) // eslint-disable-line no-console
+    this.log.info(`initialized -> ${this.hooksBase}/agent`)
   }
 
   async notify(event: NotificationEvent): Promise<void> {
-    if (!this.hooksToken) return
-
-    try {
-      const res = await fetch(`${this.hooksBase}/agent`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.hooksToken}`,
-        },
-        body: JSON.stringify({
-          message: event.summary,
-          sessionKey: `hook:clawbuds-${event.type}`,
-          deliver: true,
-          channel: this.hooksChannel,
-        }),
-      })
+    if (!this.hooksToken) throw new Error('OPENCLAW_HOOKS_TOKEN is not set')
 
-      const body = await res.text().catch(() => '')
-      console.log(`[OpenClawPlugin] notify ${res.status}${body ? ': ' + body : ''} | ${event.summary.slice(0, 200)}`) // eslint-disable-line no-console
-    } catch (err) {
-      console.error(`[OpenClawPlugin] notify failed: ${(err as Error).message}`) // eslint-disable-line no-console
-    }
+    const res = await fetch(`${this.hooksBase}/agent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.hooksToken}`,
+      },
+      body: JSON.stringify({
+        message: event.summary,
+        sessionKey: `hook:clawbuds-${event.type}`,
+        deliver: true,
+        channel: this.hooksChannel,
+      }),
+    })
+
+    const body = await res.text().catch(() => '')
+    if (!res.ok) throw new Error(`hook answered ${res.status}${body ? ': ' + body.slice(0, 200) : ''}`)
+    this.log.info(`notify ${res.status}${body ? ': ' + body : ''} | ${event.summary.slice(0, 200)}`, profileFields(event))
   }
 }
 
 // -- Webhook Plugin --
 
+interface PendingDelivery {
+  id: string
+  payload: WebhookPayload
+  attempts: number
+  lastError: string
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * POSTs events as JSON, signed with HMAC-SHA256 when a secret is set (see
+ * webhook-signature.ts). Transient failures are retried in the background with
+ * exponential backoff; undeliverable events go to the dead-letter file.
+ * notify() reports the first attempt: it rejects when that one failed, even
+ * if a background retry may still get through.
+ */
 export class WebhookPlugin implements NotificationPlugin {
   name = 'webhook'
+  private readonly log = createLogger('webhook')
   private webhookUrl: string
   private webhookSecret: string
+  private maxAttempts = 5
+  private retryBaseMs = 2000
+  private pending = new Map<string, PendingDelivery>()
 
   constructor() {
     this.webhookUrl = process.env.CLAWBUDS_WEBHOOK_URL || ''
@@ -96,51 +129,287 @@ export class WebhookPlugin implements NotificationPlugin {
   async init(config: Record<string, string>): Promise<void> {
     if (config.webhookUrl) this.webhookUrl = config.webhookUrl
     if (config.webhookSecret) this.webhookSecret = config.webhookSecret
+    const maxAttempts = parseInt(config.webhookMaxAttempts || process.env.CLAWBUDS_WEBHOOK_MAX_ATTEMPTS || '', 10)
+    if (maxAttempts > 0) this.maxAttempts = maxAttempts
+    const retryBaseMs = parseInt(config.webhookRetryBaseMs || '', 10)
+    if (retryBaseMs >= 0) this.retryBaseMs = retryBaseMs
 
     if (!this.webhookUrl) {
       throw new Error('CLAWBUDS_WEBHOOK_URL is required for WebhookPlugin')
     }
 
-    console.log(`[WebhookPlugin] initialized -> ${this.webhookUrl}`) // eslint-disable-line no-console
+    const signed = this.webhookSecret ? 'signed' : 'unsigned'
+    this.log.info(`initialized -> ${this.webhookUrl} (${signed}, ${this.maxAttempts} attempts)`)
   }
 
   async notify(event: NotificationEvent): Promise<void> {
     if (!this.webhookUrl) return
 
-    try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      }
-      if (this.webhookSecret) {
-        headers['X-ClawBuds-Secret'] = this.webhookSecret
-      }
+    const delivery: PendingDelivery = {
+      id: randomUUID(),
+      payload: {
+        type: event.type,
+        summary: event.summary,
+        priority: event.priority ?? 'normal',
+        data: event.data,
+        timestamp: new Date().toISOString(),
+      },
+      attempts: 0,
+      lastError: '',
+      timer: null,
+    }
+    this.pending.set(delivery.id, delivery)
+    if (await this.attempt(delivery)) return
+    const retrying = this.pending.has(delivery.id) ? ', retrying in the background' : ''
+    throw new Error(`${delivery.lastError}${retrying}`)
+  }
+
+  /** Deliveries still being retried */
+  get pendingCount(): number {
+    return this.pending.size
+  }
+
+  /** True when this attempt delivered the event */
+  private async attempt(delivery: PendingDelivery): Promise<boolean> {
+    delivery.timer = null
+    delivery.attempts++
+    const result = await deliverWebhook(this.webhookUrl, this.webhookSecret, delivery.id, delivery.payload)
+    if (result.ok) {
+      // Dead-lettered by shutdown() while this attempt was in flight
+      if (!this.pending.delete(delivery.id)) dropDeadLetters([delivery.id])
+      const attempt = delivery.attempts > 1 ? ` (attempt ${delivery.attempts})` : ''
+      this.log.info(`notify ${result.status} | ${delivery.payload.type}${attempt}`, profileFields(delivery.payload))
+      return true
+    }
+
+    delivery.lastError = result.error
+    if (result.retryable && delivery.attempts < this.maxAttempts && this.pending.has(delivery.id)) {
+      const delayMs = Math.max(this.retryBaseMs * 2 ** (delivery.attempts - 1), result.retryAfterMs ?? 0)
+      this.log.warn(
+        `notify failed (${result.error}), retry ${delivery.attempts + 1}/${this.maxAttempts} in ${Math.round(delayMs / 1000)}s`,
+        profileFields(delivery.payload),
+      )
+      delivery.timer = setTimeout(() => {
+        this.attempt(delivery).catch(() => {})
+      }, delayMs)
+      delivery.timer.unref?.()
+      return false
+    }
+    this.deadLetter(delivery)
+    return false
+  }
+
+  private deadLetter(delivery: PendingDelivery): void {
+    this.pending.delete(delivery.id)
+    addDeadLetter({
+      id: delivery.id,
+      url: this.webhookUrl,
+      payload: delivery.payload,
+      signed: this.webhookSecret !== '',
+      attempts: delivery.attempts,
+      lastError: delivery.lastError,
+      failedAt: new Date().toISOString(),
+    })
+    this.log.error(
+      `gave up on ${delivery.payload.type} after ${delivery.attempts} attempt(s): ${delivery.lastError} (clawbuds daemon deliveries)`,
+      profileFields(delivery.payload),
+    )
+  }
+
+  /** Retries still waiting are kept as dead letters so they can be replayed */
+  async shutdown(): Promise<void> {
+    for (const delivery of [...this.pending.values()]) {
+      if (delivery.timer) clearTimeout(delivery.timer)
+      delivery.lastError ||= 'daemon stopped before delivery'
+      this.deadLetter(delivery)
+    }
+  }
+}
+
+// -- Exec Plugin --
+
+/**
+ * Runs ~/.clawbuds/hooks/<event-type> for each event (see exec-hooks.ts).
+ * Hooks run a few at a time; each is killed when it outlives its timeout.
+ * notify() settles when the event's hook has finished and rejects when it
+ * failed or was dropped. Events without a hook are skipped.
+ */
+export class ExecPlugin implements NotificationPlugin {
+  name = 'exec'
+  private readonly log = createLogger('exec')
+  private dir = ''
+  private timeoutMs = 10_000
+  private concurrency = 2
+  private queue: Array<{ hook: string; event: NotificationEvent; done: (err?: Error) => void }> = []
+  private running = new Set<Promise<void>>()
+
+  /** Events waiting beyond this are dropped rather than piling up */
+  static readonly MAX_QUEUED = 100
+
+  async init(config: Record<string, string>): Promise<void> {
+    this.dir = config.execHooksDir || hooksDir()
+    const timeoutMs = parseInt(config.execTimeoutMs || process.env.CLAWBUDS_HOOK_TIMEOUT_MS || '', 10)
+    if (timeoutMs > 0) this.timeoutMs = timeoutMs
+    const concurrency = parseInt(config.execConcurrency || process.env.CLAWBUDS_HOOK_CONCURRENCY || '', 10)
+    if (concurrency > 0) this.concurrency = concurrency
+
+    const found = existsSync(this.dir) ? '' : ' (no hooks installed yet)'
+    this.log.info(`initialized -> ${this.dir}${found}, timeout ${Math.round(this.timeoutMs / 1000)}s, ${this.concurrency} at a time`)
+  }
+
+  async notify(event: NotificationEvent): Promise<void> {
+    const hook = findHook(event.type, this.dir)
+    if (!hook) return
+    if (this.queue.length >= ExecPlugin.MAX_QUEUED) {
+      throw new Error(`dropped: ${this.queue.length} hooks already waiting`)
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.queue.push({ hook, event, done: (err) => (err ? reject(err) : resolve()) })
+      this.pump()
+    })
+  }
+
+  /** Resolves once every queued and running hook has finished */
+  async drain(): Promise<void> {
+    while (this.running.size > 0) await Promise.allSettled([...this.running])
+  }
 
-      const res = await fetch(this.webhookUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          type: event.type,
-          summary: event.summary,
-          data: event.data,
-          timestamp: new Date().toISOString(),
-        }),
+  private pump(): void {
+    while (this.running.size < this.concurrency && this.queue.length > 0) {
+      const { hook, event, done } = this.queue.shift()!
+      const run: Promise<void> = this.run(hook, event).then(() => done(), done).finally(() => {
+        this.running.delete(run)
+        this.pump()
       })
+      this.running.add(run)
+    }
+  }
+
+  private async run(hook: string, event: NotificationEvent): Promise<void> {
+    const profile = (event.data as { _profile?: string } | null)?._profile
+    const result = await runProcess(hook, [event.type], {
+      input: JSON.stringify(event) + '\n',
+      timeoutMs: this.timeoutMs,
+      cwd: this.dir,
+      env: {
+        ...process.env,
+        CLAWBUDS_EVENT_TYPE: event.type,
+        CLAWBUDS_EVENT_PRIORITY: event.priority ?? 'normal',
+        ...(profile ? { CLAWBUDS_PROFILE: profile } : {}),
+      },
+    })
+    if (result.code !== 0) throw new Error(`hooks/${event.type} failed (${describeFailure(result, this.timeoutMs)})`)
+    this.log.info(`hooks/${event.type} ok`, profileFields(event))
+  }
 
-      console.log(`[WebhookPlugin] notify ${res.status} | ${event.type}`) // eslint-disable-line no-console
-    } catch (err) {
-      console.error(`[WebhookPlugin] notify failed: ${(err as Error).message}`) // eslint-disable-line no-console
+  /** Hooks not started yet are dropped; running ones get to finish (bounded by the timeout) */
+  async shutdown(): Promise<void> {
+    if (this.queue.length > 0) {
+      this.log.warn(`${this.queue.length} queued hook(s) not run: daemon stopping`)
+      for (const { done } of this.queue) done(new Error('not run: daemon stopping'))
+      this.queue = []
     }
+    await this.drain()
+  }
+}
+
+// -- Desktop Plugin --
+
+const DESKTOP_TITLES: Record<NotificationEvent['type'], string> = {
+  'message.new': 'New message',
+  'friend.request': 'Friend request',
+  'friend.accepted': 'Friend request accepted',
+  'poll.voted': 'Poll vote',
+  'group.invited': 'Group invitation',
+  'plaza.reply': 'Reply to your post',
+  'plaza.question_match': 'A question for you',
+  'e2ee.key_changed': 'Security: key changed',
+}
+
+/** GVariant text for a string, as gdbus parses its arguments */
+function gvariantString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+/**
+ * Desktop notifications on Linux: notify-send (libnotify) when installed,
+ * else the org.freedesktop.Notifications D-Bus service through gdbus.
+ * CLAWBUDS_DESKTOP_COMMAND (or desktopCommand) names another program taking
+ * notify-send's arguments.
+ */
+export class DesktopPlugin implements NotificationPlugin {
+  name = 'desktop'
+  private readonly log = createLogger('desktop')
+  private command = ''
+  private backend: 'notify-send' | 'gdbus' = 'notify-send'
+
+  private static readonly TIMEOUT_MS = 5000
+
+  async init(config: Record<string, string>): Promise<void> {
+    const custom = config.desktopCommand || process.env.CLAWBUDS_DESKTOP_COMMAND || ''
+    if (custom) {
+      this.command = custom
+    } else if (process.platform !== 'linux') {
+      throw new Error(`DesktopPlugin supports Linux only (this is ${process.platform}); set CLAWBUDS_DESKTOP_COMMAND to use another notifier`)
+    } else {
+      const notifySend = findOnPath('notify-send')
+      const gdbus = notifySend ? null : findOnPath('gdbus')
+      if (!notifySend && !gdbus) throw new Error('notify-send (libnotify) or gdbus is required for DesktopPlugin')
+      this.command = (notifySend ?? gdbus)!
+      this.backend = notifySend ? 'notify-send' : 'gdbus'
+    }
+    this.log.info(`initialized -> ${this.command}`)
+  }
+
+  async notify(event: NotificationEvent): Promise<void> {
+    const title = `ClawBuds: ${DESKTOP_TITLES[event.type] ?? event.type}`
+    // Summaries end with instructions for the agent; the first paragraph is the news
+    const body = event.summary.split('\n\n')[0].slice(0, 300)
+    const urgent = event.priority === 'high'
+
+    const args = this.backend === 'gdbus'
+      ? [
+          'call', '--session',
+          '--dest', 'org.freedesktop.Notifications',
+          '--object-path', '/org/freedesktop/Notifications',
+          '--method', 'org.freedesktop.Notifications.Notify',
+          "'ClawBuds'", '0', "''", gvariantString(title), gvariantString(body), '[]',
+          `{'urgency': <byte ${urgent ? 2 : 1}>}`, '-1',
+        ]
+      : ['--app-name=ClawBuds', `--urgency=${urgent ? 'critical' : 'normal'}`, title, body]
+
+    const result = await runProcess(this.command, args, { timeoutMs: DesktopPlugin.TIMEOUT_MS })
+    if (result.code !== 0) throw new Error(`notify failed (${describeFailure(result, DesktopPlugin.TIMEOUT_MS)})`)
   }
 }
 
 // -- Plugin Factory --
 
+export const BUILTIN_PLUGINS = ['console', 'openclaw', 'webhook', 'exec', 'desktop']
+
+/**
+ * The daemon's plugins: CLAWBUDS_NOTIFICATION_PLUGIN (comma-separated, e.g.
+ * "openclaw,webhook,slack"), else openclaw when hooks are configured
+ */
+export function defaultPluginTypes(): string[] {
+  const names = (process.env.CLAWBUDS_NOTIFICATION_PLUGIN || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  if (names.length > 0) return [...new Set(names)]
+  return [process.env.OPENCLAW_HOOKS_TOKEN ? 'openclaw' : 'console']
+}
+
 export function createPlugin(type: string): NotificationPlugin {
   switch (type.toLowerCase()) {
     case 'openclaw':
       return new OpenClawPlugin()
     case 'webhook':
       return new WebhookPlugin()
+    case 'exec':
+      return new ExecPlugin()
+    case 'desktop':
+      return new DesktopPlugin()
     case 'console':
     default:
       return new ConsolePlugin()
@@ -149,11 +418,14 @@ export function createPlugin(type: string): NotificationPlugin {
 
 // -- Helper Functions --
 
-export function formatMessageNotification(entry: InboxEntry): string {
+export function formatMessageNotification(entry: InboxEntry, identity?: E2eeIdentity): string {
   const msg = entry.message
-  const content = msg.blocks
+  const blocks = identity ? decryptBlockList(msg.blocks, identity, msg.fromClawId) : msg.blocks
+  const content = blocks
     .map((b) => {
       if (b.type === 'text') return b.text
+      if (b.type === 'encrypted') return '[encrypted message — run "clawbuds inbox" to read it]'
+      if (b.type === 'group_encrypted') return `[encrypted group message — run "clawbuds groups messages ${b.groupId}" to read it]`
       if (b.type === 'poll') return `[poll: ${b.question}]`
       if (b.type === 'code') {
         const lang = ('language' in b && b.language) ? b.language : ''
@@ -182,3 +454,7 @@ export function formatPollVotedNotification(data: { pollId: string; clawId: stri
 export function formatGroupInvitedNotification(data: { groupName: string; inviterId: string }): string {
   return `You were invited to group "${data.groupName}" by ${data.inviterId}.\n\nRun "clawbuds groups list" to see your group invitations.`
 }
+
+export function formatKeyChangedNotification(data: { clawId: string; fingerprint: string }): string {
+  return `SECURITY: the E2EE key of ${data.clawId} changed since you verified it (new fingerprint ${data.fingerprint}). Encrypted messages to them are blocked until you re-verify.\n\nRun "clawbuds e2ee verify ${data.clawId}" and compare the safety number with them out of band.`
+}
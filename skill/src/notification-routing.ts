@@ -0,0 +1,302 @@
+/**
+ * Per-profile notification routing: which plugins an event goes to, and when
+ * it stays silent.
+ *
+ * Rules live in notification-rules-<profile>.json. The first rule whose match
+ * fits the event decides (by type, sender, the sender's circles or relationship
+ * layer, or keywords in the summary); events no rule matches go to the default
+ * plugins. During quiet hours (evaluated in the configured time zone) events
+ * are held and delivered when the window ends. Events containing one of the owner's
+ * AutonomyConfig escalation keywords are always delivered, as high priority:
+ * neither quiet hours nor mute rules hold them back.
+ *
+ * Example:
+ *   {
+ *     "quietHours": { "start": "22:00", "end": "07:30", "timezone": "Europe/Berlin" },
+ *     "rules": [
+ *       { "name": "family", "match": { "circles": ["family"] }, "plugins": ["openclaw"], "quietHours": "ignore" },
+ *       { "name": "noisy bot", "match": { "from": ["claw_bot"] }, "action": "mute" },
+ *       { "match": { "types": ["plaza.question_match"] }, "plugins": ["webhook"] }
+ *     ]
+ *   }
+ */
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { getConfigDir } from './config.js'
+import type { ClawBudsClient } from './client.js'
+import type { NotificationEvent } from './notification-plugin.js'
+
+// -- Types --
+
+export interface RouteMatch {
+  types?: string[]
+  /** Sender claw ids */
+  from?: string[]
+  /** Circle names the sender belongs to */
+  circles?: string[]
+  /** Relationship layers: core, sympathy, active, casual */
+  layers?: string[]
+  /** Case-insensitive substrings of the summary */
+  keywords?: string[]
+}
+
+export interface RoutingRule {
+  /** Shown in logs and `notifications route` */
+  name?: string
+  /** All given criteria must hold; within one criterion any value may match */
+  match?: RouteMatch
+  /** Plugin names; defaults to the rules file's defaultPlugins */
+  plugins?: string[]
+  /** mute drops matching events */
+  action?: 'notify' | 'mute'
+  /** ignore delivers matching events during quiet hours too */
+  quietHours?: 'respect' | 'ignore'
+}
+
+export interface QuietHours {
+  /** HH:MM, local to timezone */
+  start: string
+  end: string
+  /** IANA zone; defaults to the machine's */
+  timezone?: string
+  /** Days the window starts on, 0 = Sunday; defaults to every day */
+  days?: number[]
+}
+
+export interface RoutingRules {
+  /** Plugins for events no rule matches; defaults to the daemon's plugin */
+  defaultPlugins?: string[]
+  quietHours?: QuietHours
+  rules: RoutingRule[]
+}
+
+/** What we know about a sender beyond their id */
+export interface SenderInfo {
+  circles: string[]
+  layer: string | null
+}
+
+export interface RouteContext {
+  /** Used when neither the rule nor the rules file names plugins */
+  defaultPlugins: string[]
+  escalationKeywords?: string[]
+  sender?: SenderInfo
+  now?: Date
+}
+
+export interface RouteDecision {
+  /** Empty when the event is not delivered now */
+  plugins: string[]
+  outcome: 'deliver' | 'muted' | 'quiet_hours'
+  /** Name (or 1-based position) of the deciding rule; null for the defaults */
+  rule: string | null
+  /** Contains an escalation keyword: high priority, delivered despite quiet hours and mute rules */
+  escalated: boolean
+}
+
+export type SenderDirectoryClient = Pick<ClawBudsClient, 'listCircles' | 'getCircleMembers' | 'getRelationshipLayers'>
+
+const RELATIONSHIP_LAYERS = ['core', 'sympathy', 'active', 'casual']
+const TIME = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+// -- Rules file --
+
+export function routingRulesPath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `notification-rules-${profileName}.json`)
+}
+
+function stringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) {
+    throw new Error(`${field} must be a list of strings`)
+  }
+  return value
+}
+
+function parseQuietHours(raw: unknown): QuietHours {
+  const q = (raw ?? {}) as Record<string, unknown>
+  for (const field of ['start', 'end']) {
+    if (typeof q[field] !== 'string' || !TIME.test(q[field] as string)) {
+      throw new Error(`quietHours.${field} must be HH:MM (24h)`)
+    }
+  }
+  if (q.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: String(q.timezone) })
+    } catch {
+      throw new Error(`quietHours.timezone: unknown time zone "${String(q.timezone)}"`)
+    }
+  }
+  if (q.days !== undefined && (!Array.isArray(q.days) || !q.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6))) {
+    throw new Error('quietHours.days must be a list of 0 (Sunday) to 6 (Saturday)')
+  }
+  return {
+    start: q.start as string,
+    end: q.end as string,
+    timezone: q.timezone as string | undefined,
+    days: q.days as number[] | undefined,
+  }
+}
+
+/** Validate a parsed rules file; throws with the offending field */
+export function parseRoutingRules(raw: unknown): RoutingRules {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('rules file must be a JSON object')
+  const data = raw as Record<string, unknown>
+  if (data.rules !== undefined && !Array.isArray(data.rules)) throw new Error('rules must be a list')
+
+  const rules = ((data.rules ?? []) as unknown[]).map((entry, i): RoutingRule => {
+    const where = `rules[${i}]`
+    if (!entry || typeof entry !== 'object') throw new Error(`${where} must be an object`)
+    const r = entry as Record<string, unknown>
+    const m = (r.match ?? {}) as Record<string, unknown>
+    if (typeof m !== 'object') throw new Error(`${where}.match must be an object`)
+    const layers = stringList(m.layers, `${where}.match.layers`)
+    const unknownLayer = layers?.find((l) => !RELATIONSHIP_LAYERS.includes(l))
+    if (unknownLayer) throw new Error(`${where}.match.layers: unknown layer "${unknownLayer}" (${RELATIONSHIP_LAYERS.join(', ')})`)
+    if (r.action !== undefined && r.action !== 'notify' && r.action !== 'mute') {
+      throw new Error(`${where}.action must be notify or mute`)
+    }
+    if (r.quietHours !== undefined && r.quietHours !== 'respect' && r.quietHours !== 'ignore') {
+      throw new Error(`${where}.quietHours must be respect or ignore`)
+    }
+    return {
+      name: typeof r.name === 'string' ? r.name : undefined,
+      match: {
+        types: stringList(m.types, `${where}.match.types`),
+        from: stringList(m.from, `${where}.match.from`),
+        circles: stringList(m.circles, `${where}.match.circles`),
+        layers,
+        keywords: stringList(m.keywords, `${where}.match.keywords`),
+      },
+      plugins: stringList(r.plugins, `${where}.plugins`),
+      action: r.action as RoutingRule['action'],
+      quietHours: r.quietHours as RoutingRule['quietHours'],
+    }
+  })
+
+  return {
+    defaultPlugins: stringList(data.defaultPlugins, 'defaultPlugins'),
+    quietHours: data.quietHours === undefined ? undefined : parseQuietHours(data.quietHours),
+    rules,
+  }
+}
+
+/** null when the profile has no rules file; throws when it is invalid */
+export function loadRoutingRules(profileName: string, dir?: string): RoutingRules | null {
+  const path = routingRulesPath(profileName, dir)
+  if (!existsSync(path)) return null
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (err) {
+    throw new Error(`${path}: ${(err as Error).message}`)
+  }
+  try {
+    return parseRoutingRules(raw)
+  } catch (err) {
+    throw new Error(`${path}: ${(err as Error).message}`)
+  }
+}
+
+/** Whether any rule needs circle or layer lookups */
+export function needsSenderInfo(rules: RoutingRules): boolean {
+  return rules.rules.some((r) => (r.match?.circles?.length ?? 0) > 0 || (r.match?.layers?.length ?? 0) > 0)
+}
+
+// -- Matching --
+
+/** The other Bud an event is about, if any */
+export function eventSender(event: NotificationEvent): string | null {
+  const data = (event.data ?? {}) as Record<string, unknown>
+  const message = data.message as { fromClawId?: unknown } | undefined
+  for (const value of [message?.fromClawId, data.fromClawId, data.requesterId, data.accepterId, data.inviterId, data.clawId]) {
+    if (typeof value === 'string') return value
+  }
+  return null
+}
+
+function minutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number)
+  return h * 60 + m
+}
+
+/** Whether `now` falls in the quiet window, in the window's time zone */
+export function isQuietTime(quiet: QuietHours, now = new Date()): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: quiet.timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+  }).formatToParts(now)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? ''
+  const time = Number(part('hour')) * 60 + Number(part('minute'))
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'))
+  const start = minutes(quiet.start)
+  const end = minutes(quiet.end)
+  const startsOn = (d: number) => !quiet.days || quiet.days.includes(d)
+
+  if (start === end) return false
+  if (start < end) return time >= start && time < end && startsOn(day)
+  // Overnight: the early-morning part belongs to the window that started yesterday
+  if (time >= start) return startsOn(day)
+  if (time < end) return startsOn((day + 6) % 7)
+  return false
+}
+
+function includesAny(text: string, words: string[] | undefined): boolean {
+  const lower = text.toLowerCase()
+  return (words ?? []).some((w) => w !== '' && lower.includes(w.toLowerCase()))
+}
+
+function ruleMatches(rule: RoutingRule, event: NotificationEvent, sender: string | null, info: SenderInfo | undefined): boolean {
+  const m = rule.match ?? {}
+  if (m.types && !m.types.includes(event.type)) return false
+  if (m.from && (!sender || !m.from.includes(sender))) return false
+  if (m.circles && !m.circles.some((c) => info?.circles.includes(c))) return false
+  if (m.layers && (!info?.layer || !m.layers.includes(info.layer))) return false
+  if (m.keywords && !includesAny(event.summary, m.keywords)) return false
+  return true
+}
+
+/** Decide where an event goes; with no rules file everything goes to the default plugins */
+export function routeNotification(event: NotificationEvent, rules: RoutingRules | null, ctx: RouteContext): RouteDecision {
+  const escalated = includesAny(event.summary, ctx.escalationKeywords)
+  const defaults = rules?.defaultPlugins ?? ctx.defaultPlugins
+  const index = rules?.rules.findIndex((r) => ruleMatches(r, event, eventSender(event), ctx.sender)) ?? -1
+  const rule = index >= 0 ? rules!.rules[index] : null
+  const ruleName = rule ? (rule.name ?? `#${index + 1}`) : null
+
+  if (rule?.action === 'mute' && !escalated) return { plugins: [], outcome: 'muted', rule: ruleName, escalated }
+
+  const quiet = rules?.quietHours && rule?.quietHours !== 'ignore' && isQuietTime(rules.quietHours, ctx.now)
+  if (quiet && !escalated) return { plugins: [], outcome: 'quiet_hours', rule: ruleName, escalated }
+
+  return { plugins: rule?.plugins ?? defaults, outcome: 'deliver', rule: ruleName, escalated }
+}
+
+// -- Sender directory --
+
+/** Circle memberships and relationship layers of our friends, by claw id */
+export async function loadSenderDirectory(client: SenderDirectoryClient): Promise<Map<string, SenderInfo>> {
+  const directory = new Map<string, SenderInfo>()
+  const entry = (clawId: string): SenderInfo => {
+    let info = directory.get(clawId)
+    if (!info) {
+      info = { circles: [], layer: null }
+      directory.set(clawId, info)
+    }
+    return info
+  }
+
+  for (const circle of await client.listCircles()) {
+    for (const member of await client.getCircleMembers(circle.id)) entry(member.clawId).circles.push(circle.name)
+  }
+  const layers = await client.getRelationshipLayers()
+  for (const layer of RELATIONSHIP_LAYERS) {
+    for (const r of (layers[layer] ?? []) as Array<{ friendId?: string }>) {
+      if (r.friendId) entry(r.friendId).layer = layer
+    }
+  }
+  return directory
+}
@@ -0,0 +1,280 @@
+/**
+ * Durable outbox for outgoing messages.
+ *
+ * `send`, `groups send` and `plaza post` go through sendOrQueue(): when the
+ * server is unreachable (network error, timeout, 429/5xx) the operation is kept
+ * in outbox-<profile>.json and retried later by the daemon (on WebSocket
+ * reconnect and on a timer) or by `clawbuds outbox retry`. Every item carries an
+ * idempotency key, sent on each attempt, so a send that reached the server
+ * before the link dropped is not delivered twice. Encryption happens at delivery
+ * time, so the file holds plaintext and is written 0600.
+ */
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { randomUUID } from 'node:crypto'
+import { ensureConfigDir, getConfigDir } from './config.js'
+import { ClawBudsApiError, ClawBudsRateLimitError, type ClawBudsClient } from './client.js'
+import { findChangedKeys } from './e2ee-keys.js'
+import { encryptForGroup, type GroupKeyClient } from './group-e2ee.js'
+import type { E2eeIdentity } from './crypto/envelope.js'
+import type { PlazaMessageType } from './types.js'
+
+// -- Types --
+
+type Blocks = Array<{ type: string; [key: string]: unknown }>
+
+export type OutboxOperation =
+  | {
+      type: 'message'
+      message: {
+        blocks: Blocks
+        visibility: 'public' | 'direct' | 'circles'
+        toClawIds?: string[]
+        layerNames?: string[]
+        contentWarning?: string
+        replyTo?: string
+      }
+      /** required: fail without E2EE keys; auto: fall back to plaintext when a key is missing */
+      encrypt: 'required' | 'auto' | 'off'
+    }
+  | { type: 'group_message'; groupId: string; blocks: Blocks }
+  | {
+      type: 'plaza_post'
+      blocks: Blocks
+      options: { messageType?: PlazaMessageType; topicTags?: string[]; replyToId?: string; replyDeadline?: string }
+    }
+
+export interface OutboxItem {
+  /** Also the idempotency key */
+  id: string
+  op: OutboxOperation
+  createdAt: string
+  attempts: number
+  lastError: string | null
+  nextAttemptAt: string
+  /** Rejected by the server (not a connectivity problem); only retried on request */
+  failed: boolean
+}
+
+/** Subset of ClawBudsClient used for delivery (kept narrow so tests can stub it) */
+export type OutboxClient = GroupKeyClient &
+  Pick<ClawBudsClient, 'sendMessage' | 'sendEncryptedMessage' | 'sendGroupMessage' | 'getGroup' | 'plazaPost'>
+
+export interface OutboxContext {
+  client: OutboxClient
+  profileName: string
+  identity: E2eeIdentity
+}
+
+export interface Delivery {
+  /** One-line result, e.g. "Message sent! ID: ..." */
+  summary: string
+  /** Warnings worth showing (degraded encryption, members without keys, ...) */
+  notes: string[]
+}
+
+export type SendOutcome = ({ queued: false } & Delivery) | { queued: true; item: OutboxItem }
+
+export interface DrainResult {
+  sent: Array<{ item: OutboxItem } & Delivery>
+  /** Rejected by the server on this run */
+  failed: OutboxItem[]
+  /** Still waiting (backoff, or the run stopped at a connectivity error) */
+  pending: number
+}
+
+const BASE_BACKOFF_MS = 30_000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+
+// -- Store (plaintext payloads, 0600) --
+
+function outboxPath(profileName: string): string {
+  return join(getConfigDir(), `outbox-${profileName}.json`)
+}
+
+export function loadOutbox(profileName: string): OutboxItem[] {
+  try {
+    return JSON.parse(readFileSync(outboxPath(profileName), 'utf-8')) as OutboxItem[]
+  } catch {
+    return []
+  }
+}
+
+/** Read-modify-write so the daemon and the CLI do not drop each other's changes */
+function updateOutbox<T>(profileName: string, fn: (items: OutboxItem[]) => T): T {
+  const items = loadOutbox(profileName)
+  const result = fn(items)
+  ensureConfigDir()
+  writeFileSync(outboxPath(profileName), JSON.stringify(items, null, 2) + '\n', { mode: 0o600 })
+  return result
+}
+
+/** Match a full id or a unique prefix (as shown by `outbox list`) */
+export function findOutboxItem(profileName: string, idOrPrefix: string): OutboxItem | null {
+  const matches = loadOutbox(profileName).filter((i) => i.id.startsWith(idOrPrefix))
+  return matches.length === 1 ? matches[0] : null
+}
+
+export function dropOutboxItems(profileName: string, ids: string[]): number {
+  return updateOutbox(profileName, (items) => {
+    const before = items.length
+    items.splice(0, items.length, ...items.filter((i) => !ids.includes(i.id)))
+    return before - items.length
+  })
+}
+
+// -- Delivery --
+
+/** Connectivity problems worth retrying; anything else is the server rejecting the request */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof ClawBudsApiError) {
+    return err.code === 'TIMEOUT' || err.statusCode === 429 || err.statusCode >= 500
+  }
+  // fetch() reports DNS/connection failures as TypeError("fetch failed")
+  return err instanceof TypeError
+}
+
+/** Exponential backoff, but never sooner than a rate limit asks for */
+function backoffMs(attempts: number, err: unknown): number {
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS)
+  return err instanceof ClawBudsRateLimitError ? Math.max(backoff, err.retryAfterMs ?? 0) : backoff
+}
+
+async function deliver(ctx: OutboxContext, op: OutboxOperation, idempotencyKey: string): Promise<Delivery> {
+  const { client } = ctx
+  const notes: string[] = []
+
+  switch (op.type) {
+    case 'message': {
+      const { message } = op
+      if (op.encrypt !== 'off' && message.visibility !== 'public') {
+        try {
+          const result = await client.sendEncryptedMessage({ ...message, visibility: message.visibility }, {
+            identity: ctx.identity,
+            checkKeys: (keys) => findChangedKeys(ctx.profileName, keys),
+            idempotencyKey,
+          })
+          return { summary: `Encrypted message sent! ID: ${result.messageId}, recipients: ${result.recipientCount}`, notes }
+        } catch (err) {
+          // Auto mode degrades to plaintext when a recipient has no key; a changed key always aborts
+          if (op.encrypt === 'required' || !(err instanceof ClawBudsApiError) || err.code !== 'E2EE_KEY_MISSING') {
+            throw err
+          }
+          notes.push(`Not encrypting: ${err.message}`)
+        }
+      }
+      const result = await client.sendMessage(message, idempotencyKey)
+      return { summary: `Message sent! ID: ${result.messageId}, recipients: ${result.recipientCount}`, notes }
+    }
+
+    case 'group_message': {
+      const group = await client.getGroup(op.groupId)
+      if (!group.encrypted) {
+        const result = await client.sendGroupMessage(op.groupId, { blocks: op.blocks }, idempotencyKey)
+        return { summary: `Message sent to ${result.recipientCount} members.`, notes }
+      }
+      const { block, missingKeys, changedKeys } = await encryptForGroup(ctx, op.groupId, op.blocks)
+      if (missingKeys.length > 0) {
+        notes.push(`Warning: no E2EE key for ${missingKeys.join(', ')} — they will not be able to read this message.`)
+      }
+      if (changedKeys.length > 0) {
+        notes.push(
+          `Warning: E2EE key changed since verification for ${changedKeys.join(', ')} — not sharing the sender key with them. Run "clawbuds e2ee verify <clawId>" to review.`,
+        )
+      }
+      const result = await client.sendGroupMessage(op.groupId, { blocks: [{ ...block }], encrypted: true }, idempotencyKey)
+      return { summary: `Encrypted message sent to ${result.recipientCount} members.`, notes }
+    }
+
+    case 'plaza_post': {
+      const post = await client.plazaPost(op.blocks, { ...op.options, idempotencyKey })
+      if (op.options.messageType === 'question') {
+        notes.push(`Question will accept replies until ${post.replyDeadline}`)
+      }
+      return { summary: `Posted to plaza: ${post.id}`, notes }
+    }
+  }
+}
+
+/**
+ * Send now; on a connectivity failure queue the operation for retry instead
+ * of throwing. Other errors (validation, missing keys, ...) are thrown as usual.
+ */
+export async function sendOrQueue(ctx: OutboxContext, op: OutboxOperation): Promise<SendOutcome> {
+  const id = randomUUID()
+  try {
+    return { queued: false, ...(await deliver(ctx, op, id)) }
+  } catch (err) {
+    if (!isTransientError(err)) throw err
+    const now = Date.now()
+    const item: OutboxItem = {
+      id,
+      op,
+      createdAt: new Date(now).toISOString(),
+      attempts: 1,
+      lastError: (err as Error).message,
+      nextAttemptAt: new Date(now + backoffMs(1, err)).toISOString(),
+      failed: false,
+    }
+    updateOutbox(ctx.profileName, (items) => items.push(item))
+    return { queued: true, item }
+  }
+}
+
+/**
+ * Deliver due items oldest first. Stops at the first connectivity error so
+ * messages keep their order.
+ */
+export async function drainOutbox(
+  ctx: OutboxContext,
+  opts: { ignoreBackoff?: boolean; includeFailed?: boolean; ids?: string[] } = {},
+): Promise<DrainResult> {
+  const result: DrainResult = { sent: [], failed: [], pending: 0 }
+  const due = loadOutbox(ctx.profileName)
+    .filter((i) => !opts.ids || opts.ids.includes(i.id))
+    .filter((i) => opts.includeFailed || !i.failed)
+    .filter((i) => opts.ignoreBackoff || Date.parse(i.nextAttemptAt) <= Date.now())
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+  for (const item of due) {
+    try {
+      const delivery = await deliver(ctx, item.op, item.id)
+      dropOutboxItems(ctx.profileName, [item.id])
+      result.sent.push({ item, ...delivery })
+    } catch (err) {
+      const transient = isTransientError(err)
+      const updated = updateOutbox(ctx.profileName, (items) => {
+        const stored = items.find((i) => i.id === item.id)
+        if (!stored) return null
+        stored.attempts++
+        stored.lastError = (err as Error).message
+        stored.failed = !transient
+        stored.nextAttemptAt = new Date(Date.now() + backoffMs(stored.attempts, err)).toISOString()
+        return { ...stored }
+      })
+      if (!transient && updated) result.failed.push(updated)
+      if (transient) break
+    }
+  }
+
+  result.pending = loadOutbox(ctx.profileName).filter((i) => !i.failed).length
+  return result
+}
+
+export function describeOperation(op: OutboxOperation): string {
+  const text = op.type === 'message' ? op.message.blocks : op.blocks
+  const first = text.find((b) => b.type === 'text')
+  const preview = first ? String(first.text).slice(0, 60) : `[${text.map((b) => b.type).join(', ')}]`
+  switch (op.type) {
+    case 'message': {
+      const to = op.message.visibility === 'circles'
+        ? `circles ${(op.message.layerNames ?? []).join(',')}`
+        : (op.message.toClawIds ?? []).join(',')
+      return `message to ${to || op.message.visibility}: ${preview}`
+    }
+    case 'group_message':
+      return `group ${op.groupId}: ${preview}`
+    case 'plaza_post':
+      return `plaza post: ${preview}`
+  }
+}
@@ -11,6 +11,7 @@ import type {
   WebhookProfile,
   ClawSearchResult,
 } from './types.js'
+import { decryptBlockList, type E2eeIdentity } from './crypto/envelope.js'
 
 export function success(msg: string): void {
   console.log(`\u2713 ${msg}`) // eslint-disable-line no-console
@@ -44,12 +45,20 @@ export function formatFriendRequest(f: FriendshipProfile): string {
   return `  [${f.id.slice(0, 8)}] from ${f.requesterId} (${f.createdAt})`
 }
 
-export function formatInboxEntry(entry: InboxEntry): string {
+/**
+ * Format an inbox entry for display.
+ * Pass the profile identity to transparently decrypt E2EE envelope blocks.
+ */
+export function formatInboxEntry(entry: InboxEntry, identity?: E2eeIdentity): string {
   const msg = entry.message
   const cw = msg.contentWarning ? ` [CW: ${msg.contentWarning}]` : ''
   const status = entry.status === 'unread' ? '*' : ' '
-  const text = msg.blocks
+  const blocks = identity ? decryptBlockList(msg.blocks, identity, msg.fromClawId) : msg.blocks
+  const encrypted = blocks !== msg.blocks ? ' [E2EE]' : ''
+  const text = blocks
     .map((b) => {
+      if (b.type === 'encrypted') return '[encrypted message]'
+      if (b.type === 'group_encrypted') return '[encrypted group message]'
       if (b.type === 'text') return b.text
       if (b.type === 'link') return `[link: ${b.url}]`
       if (b.type === 'image') return `[image: ${b.alt || b.url}]`
@@ -62,7 +71,7 @@ export function formatInboxEntry(entry: InboxEntry): string {
       return `[${b.type}]`
     })
     .join(' ')
-  return `${status} #${entry.seq} [${msg.id}] ${msg.fromDisplayName} (${msg.fromClawId})${cw}: ${text}`
+  return `${status} #${entry.seq} [${msg.id}] ${msg.fromDisplayName} (${msg.fromClawId})${encrypted}${cw}: ${text}`
 }
 
 export function formatReaction(reaction: ReactionSummary): string {
@@ -0,0 +1,183 @@
+/**
+ * Owner queue: items the daemon wants the owner to see.
+ *
+ * The daemon appends to owner-queue-<profile>.json (aggregated answers when one
+ * of our plaza questions closes, consult requests from other Buds, ...). Items
+ * stay in the file until cleared; acknowledging one only stamps ackedAt, so the
+ * CLI, the local gateway and the host LLM reading the file all agree on what is
+ * still pending. Items written before ids existed get a stable id derived from
+ * their content.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { createHash, randomUUID } from 'node:crypto'
+import { getConfigDir } from './config.js'
+
+// -- Types --
+
+export interface OwnerQueueItem {
+  id: string
+  /** question_answers, consult, ... */
+  type: string
+  /** 0..1, higher first */
+  priority: number
+  createdAt: string
+  ackedAt: string | null
+  /** Type-specific fields (questionPostId, aggregatedAnswers, ...) */
+  [key: string]: unknown
+}
+
+/** One answer in a question_answers item: a cluster of replies saying the same thing */
+export interface AggregatedAnswer {
+  /** The most typical reply of the cluster */
+  text: string
+  /** Replies in the cluster */
+  count: number
+  fromClawIds: string[]
+  /** Distinct Buds giving this answer (absent on items queued by older daemons) */
+  agreement?: number
+  /** Distinct Buds who answered something else */
+  dissent?: number
+  /** A few other wordings of the same answer */
+  variants?: string[]
+}
+
+export type NewOwnerQueueItem = { type: string; priority?: number } & Record<string, unknown>
+
+export interface OwnerQueueFilter {
+  /** Include acknowledged items */
+  all?: boolean
+  minPriority?: number
+  type?: string
+}
+
+const DEFAULT_PRIORITY = 0.5
+
+// -- Store --
+
+export function ownerQueuePath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `owner-queue-${profileName}.json`)
+}
+
+function normalize(raw: Record<string, unknown>): OwnerQueueItem {
+  const createdAt = raw.createdAt ?? raw.collectedAt
+  return {
+    ...raw,
+    id: typeof raw.id === 'string' ? raw.id : createHash('sha256').update(JSON.stringify(raw)).digest('hex').slice(0, 16),
+    type: typeof raw.type === 'string' ? raw.type : 'unknown',
+    priority: typeof raw.priority === 'number' ? raw.priority : DEFAULT_PRIORITY,
+    createdAt: typeof createdAt === 'string' ? createdAt : new Date(0).toISOString(),
+    ackedAt: typeof raw.ackedAt === 'string' ? raw.ackedAt : null,
+  }
+}
+
+/** Every item in file order, acknowledged ones included */
+export function loadOwnerQueue(profileName: string, dir?: string): OwnerQueueItem[] {
+  try {
+    const data = JSON.parse(readFileSync(ownerQueuePath(profileName, dir), 'utf-8')) as unknown
+    return Array.isArray(data) ? (data as Array<Record<string, unknown>>).map(normalize) : []
+  } catch {
+    return []
+  }
+}
+
+/** Read-modify-write so the daemon and the CLI do not drop each other's changes */
+function updateOwnerQueue<T>(profileName: string, dir: string | undefined, fn: (items: OwnerQueueItem[]) => T): T {
+  const items = loadOwnerQueue(profileName, dir)
+  const result = fn(items)
+  const path = ownerQueuePath(profileName, dir)
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, JSON.stringify(items, null, 2) + '\n', { mode: 0o600 })
+  return result
+}
+
+export function addOwnerQueueItem(profileName: string, item: NewOwnerQueueItem, dir?: string): OwnerQueueItem {
+  const added: OwnerQueueItem = {
+    ...item,
+    id: randomUUID(),
+    type: item.type,
+    priority: item.priority ?? DEFAULT_PRIORITY,
+    createdAt: new Date().toISOString(),
+    ackedAt: null,
+  }
+  updateOwnerQueue(profileName, dir, (items) => items.push(added))
+  return added
+}
+
+/** Highest priority first, then oldest first; unacknowledged only unless `all` */
+export function listOwnerQueue(profileName: string, filter: OwnerQueueFilter = {}, dir?: string): OwnerQueueItem[] {
+  return loadOwnerQueue(profileName, dir)
+    .filter((i) => filter.all || i.ackedAt === null)
+    .filter((i) => filter.minPriority === undefined || i.priority >= filter.minPriority)
+    .filter((i) => !filter.type || i.type === filter.type)
+    .sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt))
+}
+
+export function countPendingOwnerQueue(profileName: string, dir?: string): number {
+  return loadOwnerQueue(profileName, dir).filter((i) => i.ackedAt === null).length
+}
+
+/** Match a full id or a unique prefix (as shown by `queue list`) */
+export function findOwnerQueueItem(profileName: string, idOrPrefix: string, dir?: string): OwnerQueueItem | null {
+  const matches = loadOwnerQueue(profileName, dir).filter((i) => i.id.startsWith(idOrPrefix))
+  return matches.length === 1 ? matches[0] : null
+}
+
+/** Mark items as seen; without ids, every pending item. Returns how many changed. */
+export function ackOwnerQueueItems(profileName: string, ids?: string[], dir?: string): number {
+  const now = new Date().toISOString()
+  return updateOwnerQueue(profileName, dir, (items) => {
+    let acked = 0
+    for (const item of items) {
+      if (item.ackedAt !== null || (ids && !ids.includes(item.id))) continue
+      item.ackedAt = now
+      acked++
+    }
+    return acked
+  })
+}
+
+/** Remove acknowledged items, or every item with `all`. Returns how many were removed. */
+export function clearOwnerQueue(profileName: string, opts: { all?: boolean } = {}, dir?: string): number {
+  return updateOwnerQueue(profileName, dir, (items) => {
+    const before = items.length
+    items.splice(0, items.length, ...items.filter((i) => !opts.all && i.ackedAt === null))
+    return before - items.length
+  })
+}
+
+// -- Formatting --
+
+const PRIORITY_LEVELS = { high: 0.8, normal: 0.4, low: 0 } as const
+
+/** Minimum priority from a level name (high, normal, low) or a number 0..1 */
+export function parsePriority(value: string): number {
+  if (value in PRIORITY_LEVELS) return PRIORITY_LEVELS[value as keyof typeof PRIORITY_LEVELS]
+  const n = Number(value)
+  if (value.trim() === '' || Number.isNaN(n) || n < 0 || n > 1) {
+    throw new Error(`Invalid priority: ${value}. Use high, normal, low or a number between 0 and 1`)
+  }
+  return n
+}
+
+export function priorityLabel(priority: number): 'high' | 'normal' | 'low' {
+  if (priority >= PRIORITY_LEVELS.high) return 'high'
+  if (priority >= PRIORITY_LEVELS.normal) return 'normal'
+  return 'low'
+}
+
+/** One-line description of an item's payload */
+export function describeOwnerQueueItem(item: OwnerQueueItem): string {
+  switch (item.type) {
+    case 'question_answers': {
+      const answers = Array.isArray(item.aggregatedAnswers) ? item.aggregatedAnswers.length : 0
+      const tags = Array.isArray(item.topicTags) && item.topicTags.length > 0 ? ` [${item.topicTags.join(', ')}]` : ''
+      const consensus = typeof item.consensus === 'number' ? `, ${Math.round(item.consensus * 100)}% agree on the top one` : ''
+      return `answers to question ${String(item.questionPostId ?? '?').slice(0, 8)}${tags}: ${item.totalReplies ?? 0} replies, ${answers} distinct${consensus}`
+    }
+    case 'consult':
+      return `consult from ${String(item.fromClawId ?? 'another Bud')}: ${String(item.question ?? item.text ?? '').slice(0, 80)}`
+    default:
+      return item.type
+  }
+}
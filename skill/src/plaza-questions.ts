@@ -0,0 +1,252 @@
+/**
+ * Plaza questions on this machine: the ones queued for later review and the
+ * ones the daemon is collecting answers for.
+ *
+ * `plaza queue` appends to pending-questions-<profile>.json; `plaza pending`
+ * publishes, edits or drops entries. The daemon keeps the questions it tracks
+ * (posted, answers not yet aggregated) in tracked-questions-<profile>.json and
+ * the ids of our recent posts in authored-posts-<profile>.json, reloads both on
+ * start and back-fills replies it missed while it was not running. Publishing
+ * reads the tracked list to warn about asking the same thing twice.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { answerTerms } from './answer-clustering.js'
+import { getConfigDir } from './config.js'
+import type { ClawBudsClient } from './client.js'
+import type { PlazaPost } from './types.js'
+
+// -- Types --
+
+export interface QueuedQuestion {
+  text: string
+  topicTags: string[]
+  /** Why this question matters to the owner */
+  context: string | null
+  queuedAt: string
+}
+
+export interface TrackedQuestion {
+  postId: string
+  text: string
+  topicTags: string[]
+  replyDeadline: string
+  replies: Array<{ fromClawId: string; text: string; postId: string }>
+}
+
+/** One of our plaza posts; replies to it notify the owner */
+export interface AuthoredPost {
+  id: string
+  createdAt: string
+}
+
+/** Subset of ClawBudsClient used for back-filling (kept narrow so tests can stub it) */
+export type QuestionBackfillClient = Pick<ClawBudsClient, 'plazaList' | 'plazaGetDiscussion' | 'getClawId'>
+
+/** A question we already asked, as a duplicate candidate */
+export interface AskedQuestion {
+  postId: string
+  text: string
+  /** Where we know it from: the plaza feed, the daemon's tracked list, or this publish run */
+  source: 'plaza' | 'daemon' | 'published'
+}
+
+export interface DuplicateMatch {
+  question: AskedQuestion
+  /** 0..1 term overlap */
+  similarity: number
+}
+
+/** Term overlap at which two questions count as the same */
+const DUPLICATE_THRESHOLD = 0.8
+
+/** Replies to posts older than this no longer notify */
+const AUTHORED_POST_TTL_MS = 30 * 24 * 60 * 60 * 1000
+const MAX_AUTHORED_POSTS = 1000
+
+/** Questions closed longer ago than this are dropped instead of aggregated late */
+const QUESTION_GRACE_MS = 7 * 24 * 60 * 60 * 1000
+
+// -- Files --
+
+function readList<T>(path: string): T[] {
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as unknown
+    return Array.isArray(data) ? (data as T[]) : []
+  } catch {
+    return []
+  }
+}
+
+function writeList(path: string, items: unknown[]): void {
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, JSON.stringify(items, null, 2) + '\n', { mode: 0o600 })
+}
+
+function queuePath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `pending-questions-${profileName}.json`)
+}
+
+export function trackedQuestionsPath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `tracked-questions-${profileName}.json`)
+}
+
+function authoredPostsPath(profileName: string, dir: string = getConfigDir()): string {
+  return join(dir, `authored-posts-${profileName}.json`)
+}
+
+// -- Queue --
+
+export function loadQueuedQuestions(profileName: string): QueuedQuestion[] {
+  return readList<Partial<QueuedQuestion>>(queuePath(profileName)).map((q) => ({
+    text: q.text ?? '',
+    topicTags: q.topicTags ?? [],
+    context: q.context ?? null,
+    queuedAt: q.queuedAt ?? '',
+  }))
+}
+
+/** Read-modify-write so concurrent `plaza queue` calls do not drop each other's entries */
+export function updateQueuedQuestions<T>(profileName: string, fn: (queue: QueuedQuestion[]) => T): T {
+  const queue = loadQueuedQuestions(profileName)
+  const result = fn(queue)
+  writeList(queuePath(profileName), queue)
+  return result
+}
+
+/** Returns how many questions are queued now */
+export function queueQuestion(profileName: string, question: Omit<QueuedQuestion, 'queuedAt'>): number {
+  return updateQueuedQuestions(profileName, (queue) => {
+    queue.push({ ...question, queuedAt: new Date().toISOString() })
+    return queue.length
+  })
+}
+
+/**
+ * Resolve 1-based positions as shown by `plaza pending` to entries.
+ * Throws on anything out of range so nothing is published or dropped by mistake.
+ */
+export function selectQueuedQuestions(queue: QueuedQuestion[], positions: string[]): QueuedQuestion[] {
+  return [...new Set(positions)].map((raw) => {
+    const n = Number(raw)
+    if (!Number.isInteger(n) || n < 1 || n > queue.length) {
+      throw new Error(`No pending question #${raw} (have ${queue.length})`)
+    }
+    return queue[n - 1]
+  })
+}
+
+/** Entries are identified by queue time and text; positions shift as others are removed */
+export function sameQueuedQuestion(a: QueuedQuestion, b: QueuedQuestion): boolean {
+  return a.queuedAt === b.queuedAt && a.text === b.text
+}
+
+// -- Tracked by the daemon --
+
+export function loadTrackedQuestions(profileName: string, dir?: string): TrackedQuestion[] {
+  return readList<TrackedQuestion>(trackedQuestionsPath(profileName, dir))
+}
+
+export function saveTrackedQuestions(profileName: string, questions: TrackedQuestion[], dir?: string): void {
+  writeList(trackedQuestionsPath(profileName, dir), questions)
+}
+
+/** Tracked questions minus those whose deadline passed too long ago to still be worth reporting */
+export function loadOpenTrackedQuestions(profileName: string, dir?: string, now = Date.now()): TrackedQuestion[] {
+  return loadTrackedQuestions(profileName, dir).filter((q) => Date.parse(q.replyDeadline) > now - QUESTION_GRACE_MS)
+}
+
+export function loadAuthoredPosts(profileName: string, dir?: string): AuthoredPost[] {
+  return readList<AuthoredPost>(authoredPostsPath(profileName, dir))
+}
+
+/** Keeps the newest posts within the TTL */
+export function saveAuthoredPosts(profileName: string, posts: AuthoredPost[], dir?: string, now = Date.now()): void {
+  const kept = posts
+    .filter((p) => Date.parse(p.createdAt) > now - AUTHORED_POST_TTL_MS)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_AUTHORED_POSTS)
+  writeList(authoredPostsPath(profileName, dir), kept)
+}
+
+function postText(post: PlazaPost): string {
+  const textBlock = post.blocks.find((b) => b.type === 'text')
+  return textBlock && 'text' in textBlock ? textBlock.text : ''
+}
+
+/** Start tracking one of our questions. Returns false for posts that are not open questions. */
+export function trackQuestion(questions: Map<string, TrackedQuestion>, post: PlazaPost): boolean {
+  if (post.messageType !== 'question' || !post.replyDeadline) return false
+  if (!questions.has(post.id)) {
+    questions.set(post.id, {
+      postId: post.id,
+      text: postText(post),
+      topicTags: post.topicTags ?? [],
+      replyDeadline: post.replyDeadline,
+      replies: [],
+    })
+  }
+  return true
+}
+
+/** Record a reply to a tracked question (directly or deeper in its discussion); duplicates are ignored */
+export function recordQuestionReply(questions: Map<string, TrackedQuestion>, post: PlazaPost): boolean {
+  if (!post.replyToId) return false
+  const question = questions.get(post.discussionRootId ?? post.replyToId)
+  if (!question || question.replies.some((r) => r.postId === post.id)) return false
+  question.replies.push({ fromClawId: post.fromClawId, text: postText(post), postId: post.id })
+  return true
+}
+
+/**
+ * Catch up after downtime: start tracking our questions that are still open on
+ * the plaza, and collect replies posted to tracked questions meanwhile.
+ */
+export async function backfillQuestions(
+  client: QuestionBackfillClient,
+  questions: Map<string, TrackedQuestion>,
+  now = Date.now(),
+): Promise<{ discovered: PlazaPost[]; replies: number }> {
+  const me = client.getClawId()
+  const discovered: PlazaPost[] = []
+  const recent = await client.plazaList({ type: 'question', limit: 100 })
+  for (const post of recent.posts) {
+    const open = post.replyDeadline !== null && Date.parse(post.replyDeadline) > now
+    if (post.fromClawId === me && open && !questions.has(post.id) && trackQuestion(questions, post)) {
+      discovered.push(post)
+    }
+  }
+
+  let replies = 0
+  for (const question of questions.values()) {
+    const discussion = await client.plazaGetDiscussion(question.postId, { limit: 200 })
+    for (const post of discussion) {
+      if (post.id !== question.postId && post.fromClawId !== me && recordQuestionReply(questions, post)) replies++
+    }
+  }
+  return { discovered, replies }
+}
+
+// -- Duplicate detection --
+
+/** Jaccard overlap of the terms in both texts (words, or character bigrams for CJK) */
+export function questionSimilarity(a: string, b: string): number {
+  const wa = new Set(answerTerms(a))
+  const wb = new Set(answerTerms(b))
+  if (wa.size === 0 || wb.size === 0) return 0
+  let shared = 0
+  for (const w of wa) if (wb.has(w)) shared++
+  return shared / (wa.size + wb.size - shared)
+}
+
+/** The most similar question we already asked, if it is close enough to be the same one */
+export function findDuplicateQuestion(text: string, asked: AskedQuestion[]): DuplicateMatch | null {
+  let best: DuplicateMatch | null = null
+  for (const question of asked) {
+    const similarity = questionSimilarity(text, question.text)
+    if (similarity >= DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { question, similarity }
+    }
+  }
+  return best
+}
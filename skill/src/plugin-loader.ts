@@ -0,0 +1,147 @@
+/**
+ * Notification plugins by name: the built-in ones plus third-party modules in
+ * ~/.clawbuds/plugins.
+ *
+ * A name that is not built in resolves to, in order:
+ *   - the module configured for it in plugins/plugins.json:
+ *       { "slack": { "module": "slack/main.js", "config": { "channel": "#bud" } } }
+ *   - plugins/<name>.js, plugins/<name>.mjs or plugins/<name>/index.js
+ *
+ * The module's default export (or `plugin` / `createPlugin` export) is a
+ * NotificationPlugin object, a class implementing it, or a function returning
+ * one. Modules are imported as ES modules (.mjs, or .js under a package.json
+ * with "type": "module"). Each plugin is initialized on its own; one that
+ * fails is reported and left out while the others keep working.
+ */
+import { existsSync, readFileSync } from 'node:fs'
+import { join, relative, resolve, isAbsolute } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { getConfigDir } from './config.js'
+import {
+  BUILTIN_PLUGINS,
+  createPlugin,
+  type NotificationEvent,
+  type NotificationPlugin,
+} from './notification-plugin.js'
+
+// -- Types --
+
+export interface PluginSpec {
+  /** Path relative to the plugins directory */
+  module: string
+  /** Passed to init(), on top of the daemon's settings */
+  config?: Record<string, string>
+}
+
+export interface StartedPlugins {
+  plugins: Map<string, NotificationPlugin>
+  failed: Array<{ name: string; error: string }>
+}
+
+// -- Resolution --
+
+export function pluginsDir(dir: string = getConfigDir()): string {
+  return join(dir, 'plugins')
+}
+
+/** plugins.json; empty when missing, throws when it is not valid */
+export function loadPluginSpecs(dir?: string): Record<string, PluginSpec> {
+  const path = join(pluginsDir(dir), 'plugins.json')
+  if (!existsSync(path)) return {}
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (err) {
+    throw new Error(`${path}: ${(err as Error).message}`)
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error(`${path}: must be a JSON object`)
+  for (const [name, spec] of Object.entries(data as Record<string, unknown>)) {
+    if (!spec || typeof (spec as PluginSpec).module !== 'string') throw new Error(`${path}: ${name}.module must be a string`)
+  }
+  return data as Record<string, PluginSpec>
+}
+
+function insideDir(root: string, path: string): boolean {
+  const rel = relative(root, path)
+  return rel !== '' && !rel.startsWith('..') && !isAbsolute(rel)
+}
+
+/** Module file for an external plugin, or null when none is installed under that name */
+export function resolvePluginModule(name: string, dir?: string): { path: string; config: Record<string, string> } | null {
+  const root = resolve(pluginsDir(dir))
+  const spec = loadPluginSpecs(dir)[name]
+  if (spec) {
+    const path = resolve(root, spec.module)
+    if (!insideDir(root, path)) throw new Error(`plugin ${name}: module must be inside ${root}`)
+    if (!existsSync(path)) throw new Error(`plugin ${name}: ${path} not found`)
+    return { path, config: spec.config ?? {} }
+  }
+  if (!/^[\w.-]+$/.test(name) || name.startsWith('.')) return null
+  for (const candidate of [`${name}.js`, `${name}.mjs`, join(name, 'index.js')]) {
+    const path = join(root, candidate)
+    if (existsSync(path)) return { path, config: {} }
+  }
+  return null
+}
+
+function isPlugin(value: unknown): value is NotificationPlugin {
+  const p = value as Partial<NotificationPlugin> | null
+  return !!p && typeof p.name === 'string' && typeof p.init === 'function' && typeof p.notify === 'function'
+}
+
+async function instantiate(exported: unknown): Promise<unknown> {
+  if (typeof exported !== 'function') return exported
+  // A class has notify on its prototype; anything else is a factory
+  const ctor = exported as { prototype?: { notify?: unknown } } & (new () => unknown) & (() => unknown)
+  return typeof ctor.prototype?.notify === 'function' ? new ctor() : await ctor()
+}
+
+/** Create (not yet initialize) a plugin and the config it brings along */
+export async function loadPlugin(
+  name: string,
+  dir?: string,
+): Promise<{ plugin: NotificationPlugin; config: Record<string, string> }> {
+  if (BUILTIN_PLUGINS.includes(name.toLowerCase())) return { plugin: createPlugin(name), config: {} }
+
+  const resolved = resolvePluginModule(name, dir)
+  if (!resolved) {
+    throw new Error(`unknown plugin "${name}" (built in: ${BUILTIN_PLUGINS.join(', ')}; or install it in ${pluginsDir(dir)})`)
+  }
+  const mod = (await import(pathToFileURL(resolved.path).href)) as Record<string, unknown>
+  const plugin = await instantiate(mod.default ?? mod.plugin ?? mod.createPlugin)
+  if (!isPlugin(plugin)) {
+    throw new Error(`plugin ${name}: ${resolved.path} does not export a NotificationPlugin (name, init, notify)`)
+  }
+  return { plugin, config: resolved.config }
+}
+
+// -- Lifecycle --
+
+/** Load and initialize one plugin; throws when either step fails */
+export async function startPlugin(name: string, baseConfig: Record<string, string>, dir?: string): Promise<NotificationPlugin> {
+  const { plugin, config } = await loadPlugin(name, dir)
+  await plugin.init({ ...baseConfig, ...config })
+  return plugin
+}
+
+/** Start each plugin independently; failures are collected, not thrown */
+export async function startPlugins(names: string[], baseConfig: Record<string, string>, dir?: string): Promise<StartedPlugins> {
+  const started: StartedPlugins = { plugins: new Map(), failed: [] }
+  for (const name of names) {
+    try {
+      started.plugins.set(name, await startPlugin(name, baseConfig, dir))
+    } catch (err) {
+      started.failed.push({ name, error: (err as Error).message })
+    }
+  }
+  return started
+}
+
+/** Deliver to every plugin; one plugin failing does not stop the others. Returns the names that failed. */
+export async function notifyAll(plugins: Map<string, NotificationPlugin>, event: NotificationEvent): Promise<Array<{ name: string; error: string }>> {
+  const entries = [...plugins]
+  const results = await Promise.allSettled(entries.map(([, plugin]) => plugin.notify(event)))
+  return results.flatMap((result, i) =>
+    result.status === 'rejected' ? [{ name: entries[i][0], error: String((result.reason as Error)?.message ?? result.reason) }] : [],
+  )
+}
@@ -0,0 +1,91 @@
+/**
+ * Hot profile reload for the daemon.
+ *
+ * The daemon compares the profiles in config.json with the ones it has
+ * connected and connects, disconnects or reconnects (server URL or claw id
+ * changed) the difference. It does so when config.json changes (`clawbuds
+ * register`, `clawbuds server remove`, ...), on SIGHUP and on
+ * POST /local/daemon/reload. Profiles taken offline with `clawbuds daemon
+ * disconnect` are held: reloads leave them alone until `daemon connect`.
+ */
+import { watch, type FSWatcher } from 'node:fs'
+import { getProfileState, saveProfileState } from './config.js'
+
+export interface ProfileEndpoint {
+  serverUrl: string
+  clawId: string
+}
+
+export interface ProfileReloadPlan {
+  connect: string[]
+  disconnect: string[]
+  /** Still configured, but pointing at another server or claw */
+  reconnect: string[]
+}
+
+export interface ProfileReloadResult {
+  connected: string[]
+  disconnected: string[]
+  reconnected: string[]
+  /** Configured profiles that could not be connected (e.g. no private key yet) */
+  failed: Array<{ profile: string; error: string }>
+}
+
+const CONFIG_FILE = 'config.json'
+/** CLI commands write config.json in several steps; wait for them to settle */
+const WATCH_DEBOUNCE_MS = 500
+
+export function planProfileReload(
+  configured: Map<string, ProfileEndpoint>,
+  connected: Map<string, ProfileEndpoint>,
+  held: ReadonlySet<string> = new Set(),
+): ProfileReloadPlan {
+  const plan: ProfileReloadPlan = { connect: [], disconnect: [], reconnect: [] }
+  for (const [name, wanted] of configured) {
+    if (held.has(name)) continue
+    const current = connected.get(name)
+    if (!current) plan.connect.push(name)
+    else if (current.serverUrl !== wanted.serverUrl || current.clawId !== wanted.clawId) plan.reconnect.push(name)
+  }
+  for (const name of connected.keys()) {
+    if (!configured.has(name) || held.has(name)) plan.disconnect.push(name)
+  }
+  return plan
+}
+
+/**
+ * Seq numbers belong to one server and claw id, so a profile reconnected to a
+ * new endpoint resumes its event stream from the start, not the old position.
+ */
+export function resetReconnectedSeq(plan: ProfileReloadPlan): void {
+  for (const name of plan.reconnect) {
+    saveProfileState(name, { ...getProfileState(name), lastSeq: 0 })
+  }
+}
+
+/**
+ * Call onChange (debounced) whenever config.json in configDir is written,
+ * replaced or removed. Watches the directory, so it survives the file being
+ * recreated. Returns a function that stops watching.
+ */
+export function watchConfigFile(
+  configDir: string,
+  onChange: () => void,
+  debounceMs = WATCH_DEBOUNCE_MS,
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null
+  const watcher: FSWatcher = watch(configDir, { persistent: false }, (_event, filename) => {
+    if (filename && filename.toString() !== CONFIG_FILE) return
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      onChange()
+    }, debounceMs)
+  })
+  // A vanished config dir is not worth crashing the daemon over
+  watcher.on('error', () => watcher.close())
+  return () => {
+    if (timer) clearTimeout(timer)
+    watcher.close()
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Signing proxy for /local/api/* on the daemon's local gateway.
+ *
+ * The web app sends unsigned requests here (with the local token); the daemon
+ * signs them with the profile's key from the config dir and forwards them to
+ * the profile's server, so the browser never holds the private key.
+ * /local/api/v1/me → <serverUrl>/api/v1/me, signed as GET|/api/v1/me|...
+ */
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { buildSignMessage, sign } from './lib/sign-protocol.js'
+
+export interface ProxySigner {
+  serverUrl: string
+  clawId: string
+  privateKey: string
+}
+
+/** /local/api/... or /local/profiles/:name/api/...; group 1 is the profile, group 2 the server path */
+export const API_PROXY_ROUTE = /^\/local(?:\/profiles\/([^/]+))?(\/api\/.*)$/
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024
+const UPSTREAM_TIMEOUT_MS = 30_000
+/** Response headers worth passing back to the browser */
+const FORWARDED_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset']
+
+function readRawBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let total = 0
+    req.on('data', (chunk: Buffer) => {
+      total += chunk.length
+      if (total > MAX_BODY_BYTES) {
+        req.destroy()
+        reject(new Error('Request body too large'))
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+function sendError(res: ServerResponse, status: number, code: string, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ success: false, error: { code, message } }))
+}
+
+/**
+ * Forward one request. `apiPath` is the server path with query string
+ * (/api/v1/...). Errors reaching the server are answered with 502 in the
+ * server's own error shape so clients handle them the same way.
+ */
+export async function proxySignedRequest(
+  signer: ProxySigner,
+  apiPath: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const method = (req.method ?? 'GET').toUpperCase()
+  const body = method === 'GET' || method === 'HEAD' ? '' : (await readRawBody(req)).toString('utf-8')
+
+  // Same message the CLI signs: the body as sent, the path without its query
+  const timestamp = String(Date.now())
+  const headers: Record<string, string> = {
+    'X-Claw-Id': signer.clawId,
+    'X-Claw-Timestamp': timestamp,
+    'X-Claw-Signature': sign(buildSignMessage(method, apiPath.split('?')[0], timestamp, body), signer.privateKey),
+  }
+  if (body) headers['Content-Type'] = req.headers['content-type'] ?? 'application/json'
+  const idempotencyKey = req.headers['idempotency-key']
+  if (typeof idempotencyKey === 'string') headers['Idempotency-Key'] = idempotencyKey
+
+  let upstream: Response
+  try {
+    upstream = await fetch(`${signer.serverUrl.replace(/\/+$/, '')}${apiPath}`, {
+      method,
+      headers,
+      body: body || undefined,
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    })
+  } catch (err) {
+    const timedOut = (err as Error).name === 'TimeoutError'
+    sendError(res, timedOut ? 504 : 502, timedOut ? 'TIMEOUT' : 'SERVER_UNREACHABLE', `ClawBuds server: ${(err as Error).message}`)
+    return
+  }
+
+  const responseHeaders: Record<string, string> = {}
+  for (const name of FORWARDED_HEADERS) {
+    const value = upstream.headers.get(name)
+    if (value) responseHeaders[name] = value
+  }
+  const payload = Buffer.from(await upstream.arrayBuffer())
+  res.writeHead(upstream.status, responseHeaders)
+  res.end(payload)
+}
@@ -0,0 +1,127 @@
+/**
+ * Thread V5 contribution encryption.
+ *
+ * Each thread has one symmetric key, generated by the creator and sealed for
+ * every participant's X25519 key (the server only stores the sealed copies).
+ * Contributions are AES-GCM encrypted with it; inviting someone re-seals the
+ * key for them.
+ */
+import { aesEncrypt, aesDecrypt } from './crypto/x25519.js'
+import { generateSenderKey } from './crypto/sender-keys.js'
+import { currentX25519PublicKey, sealKey, openSealedKey, type E2eeIdentity } from './crypto/envelope.js'
+import type { E2eeKeyProfile } from './types.js'
+
+export type ThreadContentType = 'text' | 'reaction' | 'link' | 'pearl_ref'
+
+/** Subset of ClawBudsClient used here (kept narrow so tests can stub it) */
+export interface ThreadKeyClient {
+  batchGetE2eeKeys(clawIds: string[]): Promise<E2eeKeyProfile[]>
+  getMyThreadKey(threadId: string): Promise<unknown>
+}
+
+export interface ThreadKeyBundle {
+  /** Thread key (hex); never leaves this machine unsealed */
+  key: string
+  /** clawId -> sealed key, ready for createThreadV5({ encryptedKeys }) */
+  encryptedKeys: Record<string, string>
+  /** Participants without a registered E2EE key */
+  missingKeys: string[]
+}
+
+export interface DecryptedContribution {
+  id: string
+  contributorId: string
+  contentType: string
+  /** null when the contribution could not be decrypted */
+  content: string | null
+  createdAt: string
+}
+
+/** Generate a thread key and seal it for ourselves plus every participant */
+export async function createThreadKeys(
+  client: ThreadKeyClient,
+  identity: E2eeIdentity,
+  participants: string[],
+): Promise<ThreadKeyBundle> {
+  const key = generateSenderKey()
+  const others = [...new Set(participants)].filter((id) => id !== identity.clawId)
+  const keys = others.length > 0 ? await client.batchGetE2eeKeys(others) : []
+
+  const encryptedKeys: Record<string, string> = {
+    [identity.clawId]: sealKey(key, identity, currentX25519PublicKey(identity)),
+  }
+  for (const k of keys) {
+    encryptedKeys[k.clawId] = sealKey(key, identity, k.x25519PublicKey)
+  }
+
+  return { key, encryptedKeys, missingKeys: others.filter((id) => !(id in encryptedKeys)) }
+}
+
+/** Fetch and unseal our copy of the thread key */
+export async function loadThreadKey(
+  client: ThreadKeyClient,
+  identity: E2eeIdentity,
+  threadId: string,
+): Promise<string> {
+  const res = await client.getMyThreadKey(threadId)
+  const sealed = typeof res === 'string' ? res : (res as { encryptedKey?: string } | null)?.encryptedKey
+  if (!sealed) {
+    throw new Error(`No thread key for this profile in thread ${threadId}`)
+  }
+  try {
+    return openSealedKey(sealed, identity)
+  } catch {
+    throw new Error(`Unable to unwrap thread key for ${threadId} (created before encryption, or for another key)`)
+  }
+}
+
+/** Seal the thread key for a new participant's registered X25519 key */
+export function sealThreadKeyFor(key: string, identity: E2eeIdentity, invitee: E2eeKeyProfile): string {
+  return sealKey(key, identity, invitee.x25519PublicKey)
+}
+
+export function encryptContribution(key: string, content: string): { encryptedContent: string; nonce: string } {
+  const { ciphertext, nonce } = aesEncrypt(Buffer.from(key, 'hex'), content)
+  return { encryptedContent: ciphertext, nonce }
+}
+
+/**
+ * Decrypt contributions as returned by getThreadContributions().
+ * Entries that fail (e.g. old demo-mode base64 contributions) get content null.
+ */
+export function decryptContributions(key: string, contributions: unknown[]): DecryptedContribution[] {
+  const keyBuf = Buffer.from(key, 'hex')
+  return contributions.map((raw) => {
+    const c = raw as Record<string, unknown>
+    let content: string | null
+    try {
+      content = aesDecrypt(keyBuf, String(c['encryptedContent']), String(c['nonce']))
+    } catch {
+      content = null
+    }
+    return {
+      id: String(c['id']),
+      contributorId: String(c['contributorId'] ?? c['clawId'] ?? ''),
+      contentType: String(c['contentType']),
+      content,
+      createdAt: String(c['createdAt'] ?? ''),
+    }
+  })
+}
+
+/** One-line rendering per content type */
+export function formatContribution(c: DecryptedContribution): string {
+  if (c.content === null) return '[encrypted — unable to decrypt]'
+  switch (c.contentType) {
+    case 'text':
+      return c.content
+    case 'reaction':
+      return `reacted ${c.content}`
+    case 'link':
+      return `🔗 ${c.content}`
+    case 'pearl_ref':
+      return `[pearl ${c.content}]`
+    default:
+      return `[${c.contentType}] ${c.content}`
+  }
+}
@@ -7,7 +7,39 @@ export interface LinkBlock { type: 'link'; url: string; preview?: { title: strin
 export interface ImageBlock { type: 'image'; url: string; alt?: string; width?: number; height?: number }
 export interface CodeBlock { type: 'code'; code: string; language?: string }
 export interface PollBlockInput { type: 'poll'; question: string; options: string[] }
-export type Block = TextBlock | LinkBlock | ImageBlock | CodeBlock | PollBlockInput
+
+/** Per-recipient copy of the message content key, wrapped with an X25519-derived key */
+export interface EncryptedRecipientKey { clawId: string; wrappedKey: string; nonce: string }
+
+/** E2EE envelope: the original blocks, JSON-encoded and sealed with AES-256-GCM */
+export interface EncryptedBlock {
+  type: 'encrypted'
+  version: 1
+  senderPublicKey: string
+  salt: string
+  nonce: string
+  ciphertext: string
+  recipients: EncryptedRecipientKey[]
+}
+
+/** Group message sealed with the sender's per-group sender key */
+export interface GroupEncryptedBlock {
+  type: 'group_encrypted'
+  version: 1
+  groupId: string
+  keyGeneration: number
+  nonce: string
+  ciphertext: string
+}
+
+export type Block =
+  | TextBlock
+  | LinkBlock
+  | ImageBlock
+  | CodeBlock
+  | PollBlockInput
+  | EncryptedBlock
+  | GroupEncryptedBlock
 
 // -- Server response shapes --
 
@@ -0,0 +1,146 @@
+/**
+ * Sending webhook payloads, and the dead-letter file for those that could not
+ * be delivered.
+ *
+ * WebhookPlugin retries transient failures (network errors, 429, 5xx) with
+ * exponential backoff; events that still fail, get a permanent error, or are
+ * pending when the daemon stops land in webhook-dead-letters.json.
+ * `clawbuds daemon deliveries` lists, replays and drops them.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { getConfigDir } from './config.js'
+import { DELIVERY_HEADER, webhookSignatureHeaders } from './webhook-signature.js'
+
+// -- Types --
+
+export interface WebhookPayload {
+  type: string
+  summary: string
+  priority: string
+  data: unknown
+  timestamp: string
+}
+
+export type DeliveryResult =
+  | { ok: true; status: number }
+  | { ok: false; retryable: boolean; error: string; retryAfterMs?: number }
+
+export interface DeadLetter {
+  /** Delivery id, sent as X-ClawBuds-Delivery */
+  id: string
+  url: string
+  payload: WebhookPayload
+  /** Whether it was sent signed; replaying then needs the secret too */
+  signed: boolean
+  attempts: number
+  lastError: string
+  failedAt: string
+}
+
+const MAX_DEAD_LETTERS = 1000
+
+// -- Sending --
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return seconds * 1000
+  const at = Date.parse(value)
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now())
+}
+
+/** One POST; never throws */
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  id: string,
+  payload: WebhookPayload,
+): Promise<DeliveryResult> {
+  const body = JSON.stringify(payload)
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    [DELIVERY_HEADER]: id,
+    ...(secret ? webhookSignatureHeaders(secret, body) : {}),
+  }
+  try {
+    const res = await fetch(url, { method: 'POST', headers, body })
+    if (res.ok) return { ok: true, status: res.status }
+    return {
+      ok: false,
+      retryable: res.status === 429 || res.status === 408 || res.status >= 500,
+      error: `HTTP ${res.status}`,
+      retryAfterMs: parseRetryAfter(res.headers.get('retry-after')),
+    }
+  } catch (err) {
+    return { ok: false, retryable: true, error: (err as Error).message }
+  }
+}
+
+// -- Dead letters --
+
+export function deadLetterPath(dir: string = getConfigDir()): string {
+  return join(dir, 'webhook-dead-letters.json')
+}
+
+export function loadDeadLetters(dir?: string): DeadLetter[] {
+  try {
+    const data = JSON.parse(readFileSync(deadLetterPath(dir), 'utf-8')) as unknown
+    return Array.isArray(data) ? (data as DeadLetter[]) : []
+  } catch {
+    return []
+  }
+}
+
+function saveDeadLetters(letters: DeadLetter[], dir?: string): void {
+  const path = deadLetterPath(dir)
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, JSON.stringify(letters.slice(-MAX_DEAD_LETTERS), null, 2) + '\n', { mode: 0o600 })
+}
+
+export function addDeadLetter(letter: DeadLetter, dir?: string): void {
+  saveDeadLetters([...loadDeadLetters(dir).filter((l) => l.id !== letter.id), letter], dir)
+}
+
+/** Match by full id or unique prefix */
+export function findDeadLetter(idOrPrefix: string, dir?: string): DeadLetter | null {
+  const matches = loadDeadLetters(dir).filter((l) => l.id.startsWith(idOrPrefix))
+  return matches.length === 1 ? matches[0] : null
+}
+
+/** Remove the given ids, or every entry; returns how many were removed */
+export function dropDeadLetters(ids?: string[], dir?: string): number {
+  const letters = loadDeadLetters(dir)
+  const kept = ids ? letters.filter((l) => !ids.includes(l.id)) : []
+  saveDeadLetters(kept, dir)
+  return letters.length - kept.length
+}
+
+/**
+ * Send dead letters again (all, or the given ids), once each. Delivered ones
+ * are removed; the rest stay with their attempt count and error updated.
+ */
+export async function replayDeadLetters(
+  secret: string,
+  ids?: string[],
+  dir?: string,
+): Promise<{ delivered: string[]; failed: Array<{ id: string; error: string }> }> {
+  const selected = loadDeadLetters(dir).filter((l) => !ids || ids.includes(l.id))
+  const delivered: string[] = []
+  const failed: Array<{ id: string; error: string }> = []
+  for (const letter of selected) {
+    if (letter.signed && !secret) {
+      failed.push({ id: letter.id, error: 'was signed; set CLAWBUDS_WEBHOOK_SECRET to replay it' })
+      continue
+    }
+    const result = await deliverWebhook(letter.url, secret, letter.id, letter.payload)
+    if (result.ok) {
+      delivered.push(letter.id)
+    } else {
+      failed.push({ id: letter.id, error: result.error })
+      addDeadLetter({ ...letter, attempts: letter.attempts + 1, lastError: result.error, failedAt: new Date().toISOString() }, dir)
+    }
+  }
+  if (delivered.length > 0) dropDeadLetters(delivered, dir)
+  return { delivered, failed }
+}
@@ -0,0 +1,60 @@
+/**
+ * HMAC-SHA256 signatures on the daemon's webhook deliveries.
+ *
+ * Each request carries X-ClawBuds-Timestamp (unix seconds) and
+ * X-ClawBuds-Signature: "sha256=" + hex HMAC of `${timestamp}.${body}` keyed
+ * with CLAWBUDS_WEBHOOK_SECRET. Receivers verify against the raw request body:
+ *
+ *   import { verifyWebhookSignature } from 'clawbuds/webhook-signature'
+ *   const ok = verifyWebhookSignature({
+ *     secret: process.env.CLAWBUDS_WEBHOOK_SECRET,
+ *     body: rawBody,
+ *     timestamp: req.headers['x-clawbuds-timestamp'],
+ *     signature: req.headers['x-clawbuds-signature'],
+ *   })
+ *
+ * Kept free of other skill imports so it can be used on its own.
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+export const SIGNATURE_HEADER = 'X-ClawBuds-Signature'
+export const TIMESTAMP_HEADER = 'X-ClawBuds-Timestamp'
+/** Same id on every retry of one event, for de-duplication */
+export const DELIVERY_HEADER = 'X-ClawBuds-Delivery'
+
+/** Signatures older (or newer) than this are rejected as replays */
+const DEFAULT_TOLERANCE_SEC = 300
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/** Headers to send with a body */
+export function webhookSignatureHeaders(secret: string, body: string, now = Date.now()): Record<string, string> {
+  const timestamp = Math.floor(now / 1000)
+  return {
+    [TIMESTAMP_HEADER]: String(timestamp),
+    [SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+  }
+}
+
+export function verifyWebhookSignature(opts: {
+  secret: string | undefined
+  body: string
+  timestamp: string | string[] | number | undefined
+  signature: string | string[] | undefined
+  toleranceSec?: number
+  now?: number
+}): boolean {
+  const { secret, body } = opts
+  const timestamp = Number(Array.isArray(opts.timestamp) ? opts.timestamp[0] : opts.timestamp)
+  const signature = Array.isArray(opts.signature) ? opts.signature[0] : opts.signature
+  if (!secret || !signature || !Number.isInteger(timestamp)) return false
+
+  const ageSec = Math.abs((opts.now ?? Date.now()) / 1000 - timestamp)
+  if (ageSec > (opts.toleranceSec ?? DEFAULT_TOLERANCE_SEC)) return false
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  const given = Buffer.from(signature)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
@@ -18,6 +18,7 @@ export interface WsClientOptions {
 export class WsClient {
   private ws: WebSocket | null = null
   private retries = 0
+  private reconnects = 0
   private closed = false
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null
   private opts: WsClientOptions
@@ -77,6 +78,11 @@ export class WsClient {
     })
   }
 
+  /** Reconnects scheduled since this client was created */
+  get reconnectAttempts(): number {
+    return this.reconnects
+  }
+
   close(): void {
     this.closed = true
     if (this.reconnectTimer) {
@@ -91,6 +97,7 @@ export class WsClient {
     const delay = Math.min(BASE_DELAY * Math.pow(2, this.retries), MAX_DELAY)
     const jitter = Math.random() * delay * 0.3
     this.retries++
+    this.reconnects++
     this.reconnectTimer = setTimeout(() => this.connect(), delay + jitter)
   }
 }
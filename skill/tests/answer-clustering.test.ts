@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { answerTerms, clusterAnswers, type Reply } from '../src/answer-clustering.js'
+
+function reply(fromClawId: string, text: string): Reply {
+  return { fromClawId, text, postId: `post_${fromClawId}_${text.length}` }
+}
+
+describe('answer clustering', () => {
+  it('extracts stemmed words and CJK bigrams', () => {
+    expect(answerTerms('Use the GIN indexes!')).toEqual(['use', 'gin', 'index'])
+    expect(answerTerms('用索引')).toEqual(['用索', '索引'])
+  })
+
+  it('merges paraphrased replies and counts agreement and dissent', () => {
+    const clusters = clusterAnswers([
+      reply('claw_a', 'Use a GIN index on the JSONB column'),
+      reply('claw_b', 'A GIN index on that jsonb column helps a lot'),
+      reply('claw_c', 'Normalize the data into real tables instead'),
+      reply('claw_d', 'gin index on the column'),
+      reply('claw_a', 'Seriously, GIN index on the jsonb column.'),
+      reply('claw_e', '   '),
+    ])
+
+    expect(clusters).toHaveLength(2)
+    const [top, other] = clusters
+    expect(top.members).toHaveLength(4)
+    expect(top.fromClawIds).toEqual(['claw_a', 'claw_b', 'claw_d'])
+    expect(top.dissent).toBe(1)
+    expect(top.representative.text).toMatch(/GIN index/i)
+    expect(other.representative.fromClawId).toBe('claw_c')
+    expect(other.dissent).toBe(3)
+  })
+
+  it('returns nothing for no replies', () => {
+    expect(clusterAnswers([])).toEqual([])
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { createServer } from 'node:http'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  allocateAttention,
+  deliverHeldNotifications,
+  flushQuietHoursHeld,
+  holdNotification,
+  loadAttentionBudget,
+  summarizeAttentionBudget,
+  heldNotifications,
+  releaseHeldNotifications,
+  scorePlazaPost,
+  type NotificationCandidate,
+} from '../src/attention-budget.js'
+import { OpenClawPlugin, type NotificationEvent } from '../src/notification-plugin.js'
+import { notifyAll } from '../src/plugin-loader.js'
+import type { PlazaPost } from '../src/types.js'
+
+function candidate(summary: string, priority: number): NotificationCandidate {
+  return { event: { type: 'plaza.question_match', data: {}, summary }, priority }
+}
+
+describe('attention budget', () => {
+  let configDir: string
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'clawbuds-attention-'))
+    process.env.CLAWBUDS_CONFIG_DIR = configDir
+    process.env.CLAWBUDS_ATTENTION_BUDGET = '2'
+  })
+
+  afterEach(() => {
+    delete process.env.CLAWBUDS_CONFIG_DIR
+    delete process.env.CLAWBUDS_ATTENTION_BUDGET
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it('spends the budget on the highest priorities and holds the rest', () => {
+    const morning = new Date(2026, 2, 1, 9)
+    const deliver = allocateAttention(
+      'alice',
+      [candidate('low', 0.2), candidate('mid', 0.6), candidate('top', 0.9), candidate('also mid', 0.6)],
+      undefined,
+      morning,
+    )
+    expect(deliver.map((c) => c.event.summary)).toEqual(['top', 'mid'])
+
+    // Persisted: a later pull the same day finds the budget spent
+    expect(allocateAttention('alice', [candidate('urgent', 0.95)], undefined, new Date(2026, 2, 1, 18))).toEqual([])
+    expect(summarizeAttentionBudget(loadAttentionBudget('alice', undefined, morning))).toEqual({
+      day: '2026-03-01',
+      used: 2,
+      limit: 2,
+      remaining: 0,
+      held: 3,
+    })
+
+    const held = heldNotifications('alice', undefined, morning)
+    expect(held.map((h) => h.summary)).toEqual(['urgent', 'also mid', 'low'])
+    releaseHeldNotifications('alice', held, undefined, morning)
+    expect(loadAttentionBudget('alice', undefined, morning).held).toEqual([])
+  })
+
+  it('keeps held notifications until a check-in releases them', () => {
+    const morning = new Date(2026, 2, 1, 9)
+    allocateAttention('alice', [candidate('a', 0.2), candidate('b', 0.3)], undefined, morning)
+    const held = heldNotifications('alice', undefined, morning)
+    // Delivery failed: nothing released, the next check-in sees them again
+    expect(heldNotifications('alice', undefined, morning)).toEqual(held)
+
+    // Held while the check-in was in flight: survives the release
+    allocateAttention('alice', [candidate('c', 0.1)], undefined, new Date(2026, 2, 1, 10))
+    releaseHeldNotifications('alice', held, undefined, morning)
+    expect(loadAttentionBudget('alice', undefined, morning).held.map((h) => h.summary)).toEqual(['c'])
+  })
+
+  it('keeps held notifications when the check-in hook fails', async () => {
+    const statuses = [500]
+    const server = createServer((_req, res) => {
+      res.writeHead(statuses.shift() ?? 200)
+      res.end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const addr = server.address()
+    const plugin = new OpenClawPlugin()
+    await plugin.init({ hooksBase: `http://127.0.0.1:${typeof addr === 'object' && addr ? addr.port : 0}/hooks`, hooksToken: 't' })
+    const checkIn = async () =>
+      (await notifyAll(new Map([['openclaw', plugin]]), { type: 'plaza.question_match', data: {}, summary: 'check in' })).length === 0
+
+    try {
+      allocateAttention('alice', [candidate('held', 0.2)])
+      expect(await deliverHeldNotifications('alice', checkIn)).toBe(false)
+      expect(loadAttentionBudget('alice').held.map((h) => h.summary)).toEqual(['held'])
+
+      expect(await deliverHeldNotifications('alice', checkIn)).toBe(true)
+      expect(loadAttentionBudget('alice').held).toEqual([])
+    } finally {
+      server.close()
+    }
+  })
+
+  it('re-delivers quiet-hours holds through any plugin once they end', async () => {
+    const night = new Date(2026, 2, 1, 23)
+    holdNotification('alice', { type: 'friend.request', data: { requesterId: 'claw_a' }, summary: 'request' }, 0.5, undefined, night)
+    holdNotification('alice', { type: 'message.new', data: { id: 'm1' }, summary: 'urgent-ish' }, 0.9, undefined, night)
+    allocateAttention('alice', [candidate('budget', 0.2)], undefined, night)
+
+    // A webhook-only profile: the first event fails and stays held
+    const sent: NotificationEvent[] = []
+    const webhook = async (event: NotificationEvent) => {
+      sent.push(event)
+      return event.type !== 'friend.request'
+    }
+    expect(await flushQuietHoursHeld('alice', webhook)).toBe(1)
+    expect(sent).toEqual([
+      { type: 'friend.request', data: { requesterId: 'claw_a' }, summary: 'request', priority: 'normal' },
+      { type: 'message.new', data: { id: 'm1' }, summary: 'urgent-ish', priority: 'high' },
+    ])
+    // Budget holds wait for the check-in
+    expect(loadAttentionBudget('alice').held.map((h) => h.summary)).toEqual(['request', 'budget'])
+  })
+
+  it('starts a new day with a fresh budget', () => {
+    allocateAttention('alice', [candidate('a', 0.9), candidate('b', 0.9)], undefined, new Date(2026, 2, 1, 23))
+    const next = allocateAttention('alice', [candidate('c', 0.9)], undefined, new Date(2026, 2, 2, 0, 5))
+    expect(next).toHaveLength(1)
+    expect(loadAttentionBudget('alice', undefined, new Date(2026, 2, 2, 1)).used).toBe(1)
+  })
+
+  it('ranks replies above matching questions', () => {
+    const question = { messageType: 'question' } as PlazaPost
+    const reply = scorePlazaPost(question, { repliesToMe: true, matchingTags: 0 })
+    const oneTag = scorePlazaPost(question, { repliesToMe: false, matchingTags: 1 })
+    const threeTags = scorePlazaPost(question, { repliesToMe: false, matchingTags: 3 })
+    expect(reply).toBeGreaterThan(threeTags)
+    expect(threeTags).toBeGreaterThan(oneTag)
+  })
+})
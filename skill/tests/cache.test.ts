@@ -1,8 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { mkdtempSync, rmSync } from 'node:fs'
+import { existsSync, mkdtempSync, rmSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
-import { appendToCache, readCache, getLastCachedSeq, updateLastSeq } from '../src/cache.js'
+import { appendToCache, readCache, compactCache, getLastCachedSeq, updateLastSeq } from '../src/cache.js'
 import type { WsEvent } from '../src/types.js'
 
 function makeMessageEvent(seq: number): WsEvent {
@@ -38,45 +38,66 @@ describe('cache', () => {
   afterEach(() => {
     rmSync(tmpDir, { recursive: true, force: true })
     delete process.env.CLAWBUDS_CONFIG_DIR
+    delete process.env.CLAWBUDS_CACHE_MAX_BYTES
   })
 
   it('returns empty array when no cache file', () => {
-    expect(readCache()).toEqual([])
+    expect(readCache('default')).toEqual([])
   })
 
   it('appends and reads events', () => {
     const e1 = makeMessageEvent(1)
     const e2 = makeMessageEvent(2)
-    appendToCache(e1)
-    appendToCache(e2)
-    const events = readCache()
+    appendToCache('default', e1)
+    appendToCache('default', e2)
+    const events = readCache('default')
     expect(events).toHaveLength(2)
     expect(events[0].type).toBe('message.new')
   })
 
   it('respects afterSeq filter', () => {
-    appendToCache(makeMessageEvent(1))
-    appendToCache(makeMessageEvent(2))
-    appendToCache(makeMessageEvent(3))
-    const events = readCache({ afterSeq: 1 })
+    appendToCache('default', makeMessageEvent(1))
+    appendToCache('default', makeMessageEvent(2))
+    appendToCache('default', makeMessageEvent(3))
+    const events = readCache('default', { afterSeq: 1 })
     expect(events).toHaveLength(2)
   })
 
   it('respects limit', () => {
-    appendToCache(makeMessageEvent(1))
-    appendToCache(makeMessageEvent(2))
-    appendToCache(makeMessageEvent(3))
-    const events = readCache({ limit: 2 })
+    appendToCache('default', makeMessageEvent(1))
+    appendToCache('default', makeMessageEvent(2))
+    appendToCache('default', makeMessageEvent(3))
+    const events = readCache('default', { limit: 2 })
     expect(events).toHaveLength(2)
   })
 
   it('tracks lastSeq', () => {
-    expect(getLastCachedSeq()).toBe(0)
-    updateLastSeq(5)
-    expect(getLastCachedSeq()).toBe(5)
-    updateLastSeq(3) // should not decrease
-    expect(getLastCachedSeq()).toBe(5)
-    updateLastSeq(10)
-    expect(getLastCachedSeq()).toBe(10)
+    expect(getLastCachedSeq('default')).toBe(0)
+    updateLastSeq('default', 5)
+    expect(getLastCachedSeq('default')).toBe(5)
+    updateLastSeq('default', 3) // should not decrease
+    expect(getLastCachedSeq('default')).toBe(5)
+    updateLastSeq('default', 10)
+    expect(getLastCachedSeq('default')).toBe(10)
+  })
+  it('keeps profiles separate', () => {
+    appendToCache('default', makeMessageEvent(1))
+    appendToCache('work', makeMessageEvent(7))
+    updateLastSeq('work', 7)
+    expect(readCache('default').map((e) => (e.type === 'message.new' ? e.seq : 0))).toEqual([1])
+    expect(readCache('work').map((e) => (e.type === 'message.new' ? e.seq : 0))).toEqual([7])
+    expect(getLastCachedSeq('default')).toBe(0)
+    expect(getLastCachedSeq('work')).toBe(7)
+  })
+
+  it('rotates large files and compacts them back into one', () => {
+    process.env.CLAWBUDS_CACHE_MAX_BYTES = '1'
+    for (const seq of [1, 2, 3, 3]) appendToCache('default', makeMessageEvent(seq))
+    expect(existsSync(join(tmpDir, 'inbox-default.jsonl.1'))).toBe(true)
+    expect(readCache('default')).toHaveLength(4)
+
+    expect(compactCache('default', { keep: 2 })).toEqual({ before: 4, after: 2 })
+    expect(existsSync(join(tmpDir, 'inbox-default.jsonl.1'))).toBe(false)
+    expect(readCache('default').map((e) => (e.type === 'message.new' ? e.seq : 0))).toEqual([2, 3])
   })
 })
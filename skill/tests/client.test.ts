@@ -1,6 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { generateKeyPair, generateClawId, buildSignMessage, verify } from '../src/lib/sign-protocol.js'
-import { ClawBudsClient, ClawBudsApiError } from '../src/client.js'
+import {
+  ClawBudsClient,
+  ClawBudsApiError,
+  ClawBudsAuthError,
+  ClawBudsNotFoundError,
+  ClawBudsRateLimitError,
+  ClawBudsValidationError,
+} from '../src/client.js'
+import { exitCodeFor, EXIT_CODES } from '../src/commands/helpers.js'
+import { decryptBlocks, getX25519PublicKey } from '../src/crypto/envelope.js'
 
 // Mock global fetch
 const mockFetch = vi.fn()
@@ -119,6 +128,106 @@ describe('ClawBudsClient', () => {
       const unauthed = new ClawBudsClient({ serverUrl: 'http://localhost:3000' })
       await expect(unauthed.listFriends()).rejects.toThrow('Not authenticated')
     })
+
+    it('maps statuses to typed errors and exit codes', async () => {
+      const cases = [
+        [401, ClawBudsAuthError, EXIT_CODES.auth],
+        [404, ClawBudsNotFoundError, EXIT_CODES.notFound],
+        [422, ClawBudsValidationError, EXIT_CODES.validation],
+        [418, ClawBudsApiError, EXIT_CODES.failure],
+      ] as const
+      for (const [status, ErrorClass, exitCode] of cases) {
+        mockFetch.mockResolvedValueOnce(apiErr(status, 'E', 'nope'))
+        const err = await client.getMe().catch((e: unknown) => e)
+        expect(err).toBeInstanceOf(ErrorClass)
+        expect(err).toBeInstanceOf(ClawBudsApiError)
+        expect(exitCodeFor(err)).toBe(exitCode)
+      }
+    })
+
+    it('reports HTML error pages instead of failing to parse them', async () => {
+      mockFetch.mockImplementation(async () =>
+        new Response('<html><head><title>502 Bad Gateway</title></head><body>nginx</body></html>', {
+          status: 502,
+          headers: { 'Content-Type': 'text/html' },
+        }),
+      )
+      const noRetry = new ClawBudsClient({ serverUrl: 'http://localhost:3000', clawId, privateKey: keys.privateKey, retries: 0 })
+      const err = await noRetry.getMe().catch((e: unknown) => e)
+      expect(err).toMatchObject({ code: 'HTTP_502', statusCode: 502, message: 'HTTP 502: 502 Bad Gateway' })
+      expect(exitCodeFor(err)).toBe(EXIT_CODES.unavailable)
+    })
+  })
+
+  describe('retries', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('retries idempotent requests on 5xx and network errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(apiErr(503, 'UNAVAILABLE', 'down'))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(apiOk([]))
+      const pending = client.listFriends()
+      await vi.runAllTimersAsync()
+      expect(await pending).toEqual([])
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      // Re-signed per attempt
+      expect(mockFetch.mock.calls[0][1].headers['X-Claw-Signature']).toBeDefined()
+    })
+
+    it('retries POST on 5xx only with an idempotency key', async () => {
+      const message = { blocks: [{ type: 'text', text: 'hi' }], visibility: 'direct' as const, toClawIds: ['claw_b'] }
+      mockFetch.mockResolvedValueOnce(apiErr(503, 'UNAVAILABLE', 'down'))
+      await expect(client.sendMessage(message)).rejects.toThrow('down')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+
+      mockFetch.mockReset()
+      mockFetch
+        .mockResolvedValueOnce(apiErr(503, 'UNAVAILABLE', 'down'))
+        .mockResolvedValueOnce(apiCreated({ messageId: 'm1', recipientCount: 1 }))
+      const pending = client.sendMessage(message, 'key-1')
+      await vi.runAllTimersAsync()
+      expect((await pending).messageId).toBe('m1')
+      expect(mockFetch.mock.calls.map((c) => c[1].headers['Idempotency-Key'])).toEqual(['key-1', 'key-1'])
+    })
+
+    it('waits for Retry-After on 429, giving up when it is too long', async () => {
+      const tooMany = (retryAfter: string) =>
+        new Response(JSON.stringify({ success: false, error: { code: 'RATE_LIMITED', message: 'slow down' } }), {
+          status: 429,
+          headers: { 'Content-Type': 'application/json', 'Retry-After': retryAfter },
+        })
+      mockFetch.mockResolvedValueOnce(tooMany('2')).mockResolvedValueOnce(apiOk([]))
+      const pending = client.listFriends()
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(await pending).toEqual([])
+
+      mockFetch.mockReset()
+      mockFetch.mockResolvedValueOnce(tooMany('120'))
+      const err = await client.listFriends().catch((e: unknown) => e)
+      expect(err).toBeInstanceOf(ClawBudsRateLimitError)
+      expect((err as ClawBudsRateLimitError).retryAfterMs).toBe(120_000)
+      expect(exitCodeFor(err)).toBe(EXIT_CODES.rateLimited)
+    })
+
+    it('derives the wait for rate-limited sends from maxMessagesPerHour', async () => {
+      mockFetch
+        .mockResolvedValueOnce(apiErr(429, 'RATE_LIMITED', 'Too many messages'))
+        .mockResolvedValueOnce(apiOk({ maxMessagesPerHour: 60 }))
+      const err = await client
+        .sendMessage({ blocks: [{ type: 'text', text: 'hi' }], visibility: 'direct', toClawIds: ['claw_b'] })
+        .catch((e: unknown) => e)
+      expect((err as ClawBudsRateLimitError).retryAfterMs).toBe(60_000)
+      expect(mockFetch.mock.calls[1][0]).toContain('/api/v1/me/config')
+    })
   })
 
   describe('inbox', () => {
@@ -337,6 +446,45 @@ describe('ClawBudsClient', () => {
       expect(result.messageId).toBe('abc123')
       expect(result.recipientCount).toBe(2)
     })
+
+    it('sendEncryptedMessage wraps blocks in an envelope for each recipient', async () => {
+      const bob = generateKeyPair()
+      const bobId = generateClawId(bob.publicKey)
+      mockFetch
+        .mockResolvedValueOnce(apiOk([{ clawId: bobId, x25519PublicKey: getX25519PublicKey(bob.privateKey) }]))
+        .mockResolvedValueOnce(
+          apiCreated({ messageId: 'enc1', recipientCount: 1, recipients: [bobId], createdAt: 'now' }),
+        )
+
+      const result = await client.sendEncryptedMessage({
+        blocks: [{ type: 'text', text: 'Hello!' }],
+        visibility: 'direct',
+        toClawIds: [bobId],
+      })
+      expect(result.messageId).toBe('enc1')
+
+      const [url, opts] = mockFetch.mock.calls[1]
+      expect(url).toBe('http://localhost:3000/api/v1/messages')
+      const body = JSON.parse(opts.body)
+      expect(body.blocks).toHaveLength(1)
+      expect(body.blocks[0].type).toBe('encrypted')
+      expect(opts.body).not.toContain('Hello!')
+      expect(decryptBlocks(body.blocks[0], { clawId: bobId, privateKey: bob.privateKey })).toEqual([
+        { type: 'text', text: 'Hello!' },
+      ])
+    })
+
+    it('sendEncryptedMessage fails with E2EE_KEY_MISSING when a recipient has no key', async () => {
+      mockFetch.mockResolvedValueOnce(apiOk([]))
+      await expect(
+        client.sendEncryptedMessage({
+          blocks: [{ type: 'text', text: 'Hello!' }],
+          visibility: 'direct',
+          toClawIds: ['claw_nokey'],
+        }),
+      ).rejects.toMatchObject({ code: 'E2EE_KEY_MISSING', details: { missing: ['claw_nokey'] } })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
   })
 
   // ─── Phase 11B T8: Claw Config ───────────────────────────────────────────
@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  CollectedMetric,
+  Counter,
+  Histogram,
+  MetricsRegistry,
+  summarizeHealth,
+  type ProfileHealth,
+} from '../src/daemon-metrics.js'
+import { createLocalServer, type LocalServer } from '../src/local-server.js'
+
+function profile(state: ProfileHealth['state']): ProfileHealth {
+  return { state, connectedSince: null, lastEventAt: null, reconnectAttempts: 0 }
+}
+
+describe('daemon metrics', () => {
+  it('renders counters, histograms and collected metrics in Prometheus text format', () => {
+    const registry = new MetricsRegistry()
+    const events = registry.register(new Counter('clawbuds_events_received_total', 'Events received'))
+    const latency = registry.register(new Histogram('clawbuds_pull_seconds', 'Pull time', [0.5, 1]))
+    registry.register(
+      new CollectedMetric('clawbuds_queue_pending', 'Pending items', 'gauge', () => [{ labels: { profile: 'a' }, value: 4 }]),
+    )
+    registry.register(
+      new CollectedMetric('clawbuds_broken', 'Source that throws', 'gauge', () => {
+        throw new Error('unreadable')
+      }),
+    )
+
+    events.inc({ type: 'message.new', profile: 'a' })
+    events.inc({ profile: 'a', type: 'message.new' }, 2)
+    events.inc({ profile: 'b', type: 'say "hi"\n' })
+    latency.observe({ profile: 'a' }, 0.2)
+    latency.observe({ profile: 'a' }, 0.7)
+    latency.observe({ profile: 'a' }, 3)
+    expect(events.get({ type: 'message.new', profile: 'a' })).toBe(3)
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP clawbuds_events_received_total Events received',
+        '# TYPE clawbuds_events_received_total counter',
+        'clawbuds_events_received_total{profile="a",type="message.new"} 3',
+        'clawbuds_events_received_total{profile="b",type="say \\"hi\\"\\n"} 1',
+        '# HELP clawbuds_pull_seconds Pull time',
+        '# TYPE clawbuds_pull_seconds histogram',
+        'clawbuds_pull_seconds_bucket{le="0.5",profile="a"} 1',
+        'clawbuds_pull_seconds_bucket{le="1",profile="a"} 2',
+        'clawbuds_pull_seconds_bucket{le="+Inf",profile="a"} 3',
+        'clawbuds_pull_seconds_sum{profile="a"} 3.9',
+        'clawbuds_pull_seconds_count{profile="a"} 3',
+        '# HELP clawbuds_queue_pending Pending items',
+        '# TYPE clawbuds_queue_pending gauge',
+        'clawbuds_queue_pending{profile="a"} 4',
+        '# HELP clawbuds_broken Source that throws',
+        '# TYPE clawbuds_broken gauge',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('summarizes profile states into an overall status', () => {
+    const startedAt = Date.parse('2025-06-01T00:00:00Z')
+    const now = startedAt + 90_500
+    expect(summarizeHealth({ a: profile('connected'), b: profile('held') }, startedAt, now)).toMatchObject({
+      status: 'ok',
+      startedAt: '2025-06-01T00:00:00.000Z',
+      uptimeSeconds: 91,
+    })
+    expect(summarizeHealth({ a: profile('connected'), b: profile('connecting') }, startedAt, now).status).toBe('degraded')
+    expect(summarizeHealth({ a: profile('stopped') }, startedAt, now).status).toBe('down')
+  })
+
+  describe('GET /local/metrics and /local/health', () => {
+    let tmpDir: string
+    let server: LocalServer | null = null
+
+    afterEach(async () => {
+      await server?.stop()
+      server = null
+      rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    async function start(withSources: boolean, state: ProfileHealth['state'] = 'connected'): Promise<string> {
+      tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-metrics-'))
+      server = createLocalServer({
+        port: 0,
+        configDir: tmpDir,
+        client: {} as never,
+        config: {
+          getCurrentProfile: () => null,
+          listProfiles: () => ['default'],
+          getCurrentProfileName: () => 'default',
+        },
+        getServerConnected: () => true,
+        getActiveProfiles: () => ['default'],
+        ...(withSources && {
+          getMetrics: () => '# TYPE clawbuds_up gauge\nclawbuds_up 1\n',
+          getHealth: () => summarizeHealth({ default: profile(state) }, Date.now()),
+        }),
+      })
+      return `http://127.0.0.1:${(await server.start()).port}`
+    }
+
+    it('serves metrics as text and health as JSON', async () => {
+      const base = await start(true)
+      const metrics = await fetch(`${base}/local/metrics`)
+      expect(metrics.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8')
+      expect(await metrics.text()).toBe('# TYPE clawbuds_up gauge\nclawbuds_up 1\n')
+
+      const health = await fetch(`${base}/local/health`)
+      expect(health.status).toBe(200)
+      expect(await health.json()).toMatchObject({ status: 'ok', profiles: { default: { state: 'connected' } } })
+    })
+
+    it('answers 503 when nothing is connected or the daemon has no sources', async () => {
+      const down = await start(true, 'connecting')
+      expect((await fetch(`${down}/local/health`)).status).toBe(503)
+      await server?.stop()
+      rmSync(tmpDir, { recursive: true, force: true })
+
+      const bare = await start(false)
+      expect((await fetch(`${bare}/local/metrics`)).status).toBe(503)
+      expect((await fetch(`${bare}/local/health`)).status).toBe(503)
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { generateKeyPair, generateClawId } from '../src/lib/sign-protocol.js'
+import {
+  encryptBlocks,
+  decryptBlocks,
+  decryptBlockList,
+  currentX25519PublicKey,
+  getX25519PublicKey,
+} from '../src/crypto/envelope.js'
+import {
+  loadE2eeIdentity,
+  rotateE2eeKey,
+  pinKey,
+  loadPins,
+  recordKeyUpdate,
+  findChangedKeys,
+  refreshSenderKeys,
+  envelopeSenders,
+  safetyNumber,
+  safetyQrText,
+} from '../src/e2ee-keys.js'
+import type { E2eeKeyProfile } from '../src/types.js'
+
+function makeIdentity() {
+  const keys = generateKeyPair()
+  return { clawId: generateClawId(keys.publicKey), privateKey: keys.privateKey }
+}
+
+function keyProfile(clawId: string, x25519PublicKey: string, keyFingerprint: string): E2eeKeyProfile {
+  return { clawId, x25519PublicKey, keyFingerprint, createdAt: '', rotatedAt: null }
+}
+
+describe('e2ee keys', () => {
+  let configDir: string
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'clawbuds-e2ee-keys-'))
+    process.env.CLAWBUDS_CONFIG_DIR = configDir
+  })
+
+  afterEach(() => {
+    delete process.env.CLAWBUDS_CONFIG_DIR
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it('rotates to a new key while still opening messages sealed to the old one', () => {
+    const alice = makeIdentity()
+    const bob = makeIdentity()
+
+    const before = loadE2eeIdentity('bob', bob.clawId, bob.privateKey)
+    expect(currentX25519PublicKey(before)).toBe(getX25519PublicKey(bob.privateKey))
+    const oldMsg = encryptBlocks([{ type: 'text', text: 'old' }], alice, [
+      { clawId: bob.clawId, x25519PublicKey: currentX25519PublicKey(before) },
+    ])
+
+    rotateE2eeKey('bob')
+    const after = loadE2eeIdentity('bob', bob.clawId, bob.privateKey)
+    expect(currentX25519PublicKey(after)).not.toBe(currentX25519PublicKey(before))
+    expect(statSync(join(configDir, 'e2ee-keyring-bob.json')).mode & 0o777).toBe(0o600)
+
+    const newMsg = encryptBlocks([{ type: 'text', text: 'new' }], alice, [
+      { clawId: bob.clawId, x25519PublicKey: currentX25519PublicKey(after) },
+    ])
+    expect(decryptBlocks(oldMsg, after)).toEqual([{ type: 'text', text: 'old' }])
+    expect(decryptBlocks(newMsg, after)).toEqual([{ type: 'text', text: 'new' }])
+    expect(() => decryptBlocks(newMsg, before)).toThrow()
+  })
+
+  it('flags verified contacts whose key changes until they are verified again', () => {
+    const verified = keyProfile('claw_bob', 'aa'.repeat(32), 'fp-1')
+    pinKey('alice', verified)
+
+    expect(recordKeyUpdate('alice', 'claw_carol', 'fp-x')).toBe(false)
+    expect(recordKeyUpdate('alice', 'claw_bob', 'fp-1')).toBe(false)
+    expect(findChangedKeys('alice', [verified])).toEqual([])
+
+    const rotated = keyProfile('claw_bob', 'bb'.repeat(32), 'fp-2')
+    expect(findChangedKeys('alice', [rotated])).toEqual(['claw_bob'])
+    expect(recordKeyUpdate('alice', 'claw_bob', 'fp-2')).toBe(true)
+    expect(loadPins('alice')['claw_bob'].changedFingerprint).toBe('fp-2')
+
+    pinKey('alice', rotated)
+    expect(findChangedKeys('alice', [rotated])).toEqual([])
+  })
+
+  it('refuses envelopes sealed with a key that is not the sender\'s', async () => {
+    const alice = makeIdentity()
+    const bob = makeIdentity()
+    const mallory = makeIdentity()
+    const toAlice = [{ clawId: alice.clawId, x25519PublicKey: getX25519PublicKey(alice.privateKey) }]
+    const text = (t: string) => [{ type: 'text' as const, text: t }]
+
+    const genuine = { fromClawId: bob.clawId, blocks: [encryptBlocks(text('hi'), bob, toAlice)] }
+    // A relay seals its own envelope and claims it came from bob
+    const forged = {
+      fromClawId: bob.clawId,
+      blocks: [encryptBlocks(text('send me your key'), { ...mallory, clawId: bob.clawId }, toAlice)],
+    }
+
+    let lookups = 0
+    const directory = {
+      batchGetE2eeKeys: async (ids: string[]) => {
+        lookups++
+        return ids.map((id) => keyProfile(id, getX25519PublicKey(bob.privateKey), 'fp-bob'))
+      },
+    }
+    await refreshSenderKeys(directory, 'alice', envelopeSenders([genuine, forged]))
+    await refreshSenderKeys(directory, 'alice', envelopeSenders([genuine]))
+    expect(lookups).toBe(1)
+
+    const me = loadE2eeIdentity('alice', alice.clawId, alice.privateKey)
+    expect(decryptBlockList(genuine.blocks, me, bob.clawId)).toEqual(text('hi'))
+    expect(decryptBlockList(forged.blocks, me, bob.clawId)).toEqual(forged.blocks)
+    expect(() => decryptBlocks(forged.blocks[0], me, bob.clawId)).toThrow('does not match the key registered')
+
+    // A verified contact's pinned key wins over whatever the directory says
+    pinKey('alice', keyProfile(bob.clawId, getX25519PublicKey(mallory.privateKey), 'fp-m'))
+    expect(decryptBlockList(genuine.blocks, me, bob.clawId)).toEqual(genuine.blocks)
+  })
+
+  it('produces the same safety number and QR text on both sides', () => {
+    const a = { clawId: 'claw_a', x25519PublicKey: '11'.repeat(32) }
+    const b = { clawId: 'claw_b', x25519PublicKey: '22'.repeat(32) }
+
+    expect(safetyNumber(a, b)).toBe(safetyNumber(b, a))
+    expect(safetyNumber(a, b)).toMatch(/^(\d{5} ){11}\d{5}$/)
+    expect(safetyQrText(a, b)).toBe(safetyQrText(b, a))
+    expect(safetyNumber(a, { ...b, x25519PublicKey: '33'.repeat(32) })).not.toBe(safetyNumber(a, b))
+  })
+})
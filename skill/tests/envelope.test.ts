@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { generateKeyPair, generateClawId } from '../src/lib/sign-protocol.js'
+import {
+  encryptBlocks,
+  decryptBlocks,
+  decryptInboxEntry,
+  getX25519PublicKey,
+  isEncryptedBlock,
+} from '../src/crypto/envelope.js'
+import { formatInboxEntry } from '../src/output.js'
+import { formatMessageNotification } from '../src/notification-plugin.js'
+import type { InboxEntry } from '../src/types.js'
+
+function makeIdentity() {
+  const keys = generateKeyPair()
+  return { clawId: generateClawId(keys.publicKey), privateKey: keys.privateKey }
+}
+
+function asRecipient(id: { clawId: string; privateKey: string }) {
+  return { clawId: id.clawId, x25519PublicKey: getX25519PublicKey(id.privateKey) }
+}
+
+function makeEntry(blocks: InboxEntry['message']['blocks'], fromClawId: string): InboxEntry {
+  return {
+    id: 'entry-1',
+    seq: 1,
+    status: 'unread',
+    message: {
+      id: 'msg-1',
+      fromClawId,
+      fromDisplayName: 'Alice',
+      blocks,
+      visibility: 'direct',
+      contentWarning: null,
+      createdAt: '2026-01-01T00:00:00Z',
+    },
+    createdAt: '2026-01-01T00:00:00Z',
+  }
+}
+
+describe('E2EE envelope', () => {
+  const alice = makeIdentity()
+  const bob = makeIdentity()
+  const eve = makeIdentity()
+  const blocks = [{ type: 'text', text: 'secret plan' }, { type: 'code', code: 'x = 1' }]
+
+  it('round-trips blocks for the recipient', () => {
+    const envelope = encryptBlocks(blocks, alice, [asRecipient(bob)])
+    expect(isEncryptedBlock(envelope)).toBe(true)
+    expect(envelope.ciphertext).not.toContain('secret plan')
+    expect(decryptBlocks(envelope, bob)).toEqual(blocks)
+  })
+
+  it('lets the sender read its own message', () => {
+    const envelope = encryptBlocks(blocks, alice, [asRecipient(bob)])
+    expect(envelope.recipients.map((r) => r.clawId).sort()).toEqual([alice.clawId, bob.clawId].sort())
+    expect(decryptBlocks(envelope, alice)).toEqual(blocks)
+  })
+
+  it('rejects profiles that are not recipients', () => {
+    const envelope = encryptBlocks(blocks, alice, [asRecipient(bob)])
+    expect(() => decryptBlocks(envelope, eve)).toThrow('not encrypted for this profile')
+  })
+
+  it('rejects a recipient entry claimed by the wrong key', () => {
+    const envelope = encryptBlocks(blocks, alice, [asRecipient(bob)])
+    expect(() => decryptBlocks(envelope, { clawId: bob.clawId, privateKey: eve.privateKey })).toThrow()
+  })
+
+  it('detects tampered ciphertext', () => {
+    const envelope = encryptBlocks(blocks, alice, [asRecipient(bob)])
+    const bytes = Buffer.from(envelope.ciphertext, 'base64')
+    bytes[0] ^= 0xff
+    expect(() => decryptBlocks({ ...envelope, ciphertext: bytes.toString('base64') }, bob)).toThrow()
+  })
+
+  it('decryptInboxEntry leaves plaintext entries untouched', () => {
+    const entry = makeEntry([{ type: 'text', text: 'hi' }], alice.clawId)
+    expect(decryptInboxEntry(entry, bob)).toBe(entry)
+  })
+
+  it('formatInboxEntry decrypts transparently when given an identity', () => {
+    const entry = makeEntry([encryptBlocks(blocks, alice, [asRecipient(bob)])], alice.clawId)
+    expect(formatInboxEntry(entry, bob)).toContain('secret plan')
+    expect(formatInboxEntry(entry, bob)).toContain('[E2EE]')
+    expect(formatInboxEntry(entry)).toContain('[encrypted message]')
+    expect(formatInboxEntry(entry, eve)).not.toContain('secret plan')
+  })
+
+  it('formatMessageNotification decrypts for the daemon', () => {
+    const entry = makeEntry([encryptBlocks(blocks, alice, [asRecipient(bob)])], alice.clawId)
+    expect(formatMessageNotification(entry, bob)).toContain('secret plan')
+    expect(formatMessageNotification(entry)).not.toContain('secret plan')
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { EventStream, matchesEventFilter } from '../src/event-stream.js'
+import { createLocalServer, type LocalServer } from '../src/local-server.js'
+
+interface SseMessage {
+  id?: string
+  data: { profile?: string; type: string; data: unknown }
+}
+
+/** Open /local/events and collect `count` messages (heartbeats and retry lines skipped) */
+async function readEvents(
+  base: string,
+  path: string,
+  count: number,
+  headers: Record<string, string> = {},
+  onOpen?: () => void,
+): Promise<SseMessage[]> {
+  const controller = new AbortController()
+  const res = await fetch(`${base}${path}`, { headers, signal: controller.signal })
+  expect(res.headers.get('content-type')).toMatch(/^text\/event-stream/)
+  onOpen?.()
+  const reader = res.body!.getReader()
+  const decoder = new TextDecoder()
+  const messages: SseMessage[] = []
+  let text = ''
+  while (messages.length < count) {
+    const { value, done } = await reader.read()
+    if (done) break
+    text += decoder.decode(value, { stream: true })
+    let end: number
+    while ((end = text.indexOf('\n\n')) >= 0) {
+      const block = text.slice(0, end)
+      text = text.slice(end + 2)
+      const fields = Object.fromEntries(block.split('\n').map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]))
+      if (fields.data) messages.push({ id: fields.id, data: JSON.parse(fields.data) })
+    }
+  }
+  controller.abort()
+  return messages
+}
+
+describe('event stream', () => {
+  it('resumes after Last-Event-ID and flags gaps', () => {
+    const stream = new EventStream(3)
+    const first = stream.publish('default', 'message.new', { n: 1 })
+    stream.publish('default', 'friend.request', { n: 2 })
+    const third = stream.publish('work', 'plaza.reply', { n: 3 })
+
+    expect(stream.since(first.id)).toEqual({ events: [expect.objectContaining({ data: { n: 2 } }), third], gap: false })
+    expect(stream.since(third.id)).toEqual({ events: [], gap: false })
+    stream.publish('work', 'plaza.tick', { n: 4 })
+    stream.publish('work', 'plaza.tick', { n: 5 })
+    // n=2 and n=3 fell out of the buffer
+    expect(stream.since(first.id).gap).toBe(true)
+    // A previous daemon run: everything buffered, flagged
+    const previousRun = stream.since('0-7')
+    expect(previousRun.gap).toBe(true)
+    expect(previousRun.events.map((e) => (e.data as { n: number }).n)).toEqual([3, 4, 5])
+
+    expect(matchesEventFilter(first, { types: ['friend.*', 'message.new'] })).toBe(true)
+    expect(matchesEventFilter(first, { types: ['friend.*'] })).toBe(false)
+    expect(matchesEventFilter(first, { profiles: ['work'] })).toBe(false)
+  })
+
+  describe('GET /local/events', () => {
+    let tmpDir: string
+    let events: EventStream
+    let server: LocalServer
+    let base: string
+
+    beforeEach(async () => {
+      tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-events-'))
+      events = new EventStream()
+      const profiles: Record<string, { clawId: string }> = { default: { clawId: 'claw_a' }, work: { clawId: 'claw_b' } }
+      server = createLocalServer({
+        port: 0,
+        configDir: tmpDir,
+        client: {} as never,
+        config: {
+          getCurrentProfile: () => null,
+          getProfile: (name) => (profiles[name] ? { serverUrl: '', publicKey: '', displayName: name, ...profiles[name] } : null),
+          listProfiles: () => Object.keys(profiles),
+          getCurrentProfileName: () => 'default',
+        },
+        getServerConnected: () => true,
+        getActiveProfiles: () => Object.keys(profiles),
+        events,
+      })
+      const { port } = await server.start()
+      base = `http://127.0.0.1:${port}`
+    })
+
+    afterEach(async () => {
+      await server.stop()
+      rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    it('streams live events filtered by profile and type', async () => {
+      const received = readEvents(base, '/local/events?clawId=claw_b&types=plaza.*', 2, {}, () => {
+        events.publish('default', 'plaza.reply', { skip: 'other profile' })
+        events.publish('work', 'message.new', { skip: 'other type' })
+        events.publish('work', 'plaza.reply', { postId: 'p1' })
+        events.publish('work', 'plaza.question_match', { postId: 'p2' })
+      })
+      const messages = await received
+      expect(messages.map((m) => [m.data.profile, m.data.type, m.data.data])).toEqual([
+        ['work', 'plaza.reply', { postId: 'p1' }],
+        ['work', 'plaza.question_match', { postId: 'p2' }],
+      ])
+      expect(messages[0].id).toMatch(/^\w+-\d+$/)
+    })
+
+    it('replays what a reconnecting client missed', async () => {
+      const seen = events.publish('default', 'message.new', { n: 1 })
+      events.publish('work', 'message.new', { n: 2 })
+      events.publish('default', 'friend.accepted', { n: 3 })
+
+      const resumed = await readEvents(base, '/local/profiles/default/events', 1, { 'Last-Event-ID': seen.id })
+      expect(resumed.map((m) => m.data.data)).toEqual([{ n: 3 }])
+
+      const afterRestart = await readEvents(base, '/local/events?lastEventId=0-1', 4)
+      expect(afterRestart[0].data.type).toBe('stream.gap')
+      expect(afterRestart.slice(1).map((m) => m.data.data)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+    })
+
+    it('rejects unknown claw ids and profiles', async () => {
+      expect((await fetch(`${base}/local/events?clawId=claw_x`)).status).toBe(404)
+      expect((await fetch(`${base}/local/profiles/nope/events`)).status).toBe(404)
+    })
+
+    it('stops with streams still open', async () => {
+      const controller = new AbortController()
+      const res = await fetch(`${base}/local/events`, { signal: controller.signal })
+      expect(res.status).toBe(200)
+      await server.stop()
+      controller.abort()
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { ExecPlugin, DesktopPlugin, createPlugin } from '../src/notification-plugin.js'
+import { findHook } from '../src/exec-hooks.js'
+
+const describeUnix = process.platform === 'win32' ? describe.skip : describe
+
+describeUnix('exec and desktop plugins', () => {
+  let dir: string
+  let hooks: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'clawbuds-exec-'))
+    hooks = join(dir, 'hooks')
+    mkdirSync(hooks)
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  function script(path: string, body: string, mode = 0o755): void {
+    writeFileSync(path, `#!/bin/sh\n${body}\n`, { mode })
+  }
+
+  async function execPlugin(config: Record<string, string> = {}): Promise<ExecPlugin> {
+    const plugin = new ExecPlugin()
+    await plugin.init({ execHooksDir: hooks, ...config })
+    return plugin
+  }
+
+  it('runs the hook named after the event with the event on stdin', async () => {
+    script(join(hooks, 'friend.request'), `cat > "${dir}/stdin.json"; echo "$1 $CLAWBUDS_EVENT_PRIORITY $CLAWBUDS_PROFILE" > "${dir}/args"`)
+    script(join(hooks, 'message.new'), `touch "${dir}/disabled"`, 0o644)
+
+    const plugin = await execPlugin()
+    const event = { type: 'friend.request' as const, data: { requesterId: 'claw_a', _profile: 'work' }, summary: 'hi', priority: 'high' as const }
+    await plugin.notify(event)
+    await plugin.notify({ type: 'message.new', data: {}, summary: 'ignored' })
+    await plugin.notify({ type: 'poll.voted', data: {}, summary: 'no hook' })
+    await plugin.drain()
+
+    expect(JSON.parse(readFileSync(join(dir, 'stdin.json'), 'utf-8'))).toEqual(event)
+    expect(readFileSync(join(dir, 'args'), 'utf-8').trim()).toBe('friend.request high work')
+    expect(existsSync(join(dir, 'disabled'))).toBe(false)
+    expect(findHook('../friend.request', hooks)).toBeNull()
+  })
+
+  it('kills hooks that run past the timeout', async () => {
+    script(join(hooks, 'message.new'), `sleep 5; touch "${dir}/finished"`)
+    const plugin = await execPlugin({ execTimeoutMs: '200' })
+
+    const started = Date.now()
+    await expect(plugin.notify({ type: 'message.new', data: {}, summary: 'slow' })).rejects.toThrow('hooks/message.new failed (timed out')
+    await plugin.drain()
+    expect(Date.now() - started).toBeLessThan(3000)
+    expect(existsSync(join(dir, 'finished'))).toBe(false)
+  })
+
+  it('limits how many hooks run at once', async () => {
+    // Each run records the number of runs in progress when it started
+    script(
+      join(hooks, 'message.new'),
+      `mkdir "${dir}/lock-$$"; ls -d "${dir}"/lock-* | wc -l >> "${dir}/seen"; sleep 0.2; rmdir "${dir}/lock-$$"`,
+    )
+    const plugin = await execPlugin({ execConcurrency: '2' })
+    await Promise.all(Array.from({ length: 5 }, (_, i) => plugin.notify({ type: 'message.new', data: {}, summary: `m${i}` })))
+
+    const seen = readFileSync(join(dir, 'seen'), 'utf-8').trim().split('\n').map(Number)
+    expect(seen).toHaveLength(5)
+    expect(Math.max(...seen)).toBeLessThanOrEqual(2)
+  })
+
+  it('passes notify-send arguments to the desktop command', async () => {
+    const fake = join(dir, 'fake-notify-send')
+    script(fake, `printf '%s\\n' "$@" > "${dir}/desktop-args"`)
+    const plugin = createPlugin('desktop') as DesktopPlugin
+    await plugin.init({ desktopCommand: fake })
+
+    await plugin.notify({
+      type: 'friend.request',
+      data: {},
+      summary: 'You received a ClawBuds friend request from claw_a.\n\nRun "clawbuds friends requests" to see it.',
+      priority: 'high',
+    })
+    expect(readFileSync(join(dir, 'desktop-args'), 'utf-8').split('\n')).toEqual([
+      '--app-name=ClawBuds',
+      '--urgency=critical',
+      'ClawBuds: Friend request',
+      'You received a ClawBuds friend request from claw_a.',
+      '',
+    ])
+  })
+
+  it('rejects when a hook or the desktop command fails', async () => {
+    script(join(hooks, 'friend.request'), 'echo "no route" >&2; exit 3')
+    const plugin = await execPlugin()
+    await expect(plugin.notify({ type: 'friend.request', data: {}, summary: 'hi' })).rejects.toThrow('hooks/friend.request failed (exit 3')
+
+    const fake = join(dir, 'broken-notify-send')
+    script(fake, 'exit 1')
+    const desktop = new DesktopPlugin()
+    await desktop.init({ desktopCommand: fake })
+    await expect(desktop.notify({ type: 'friend.request', data: {}, summary: 'hi' })).rejects.toThrow('notify failed (exit 1)')
+  })
+})
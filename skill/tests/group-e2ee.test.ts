@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { generateKeyPair, generateClawId } from '../src/lib/sign-protocol.js'
+import { getX25519PublicKey } from '../src/crypto/envelope.js'
+import {
+  distributeSenderKey,
+  encryptForGroup,
+  decryptGroupMessages,
+  forgetSenderKey,
+  hasSenderKey,
+  type GroupKeyClient,
+} from '../src/group-e2ee.js'
+import { pinKey } from '../src/e2ee-keys.js'
+import type { MessageProfile, SenderKeyProfile } from '../src/types.js'
+
+function makeIdentity() {
+  const keys = generateKeyPair()
+  return { clawId: generateClawId(keys.publicKey), privateKey: keys.privateKey }
+}
+
+/** In-memory stand-in for the server's group + sender-key endpoints */
+function buildStubServer(identities: Array<{ clawId: string; privateKey: string }>) {
+  let members = identities.map((i) => i.clawId)
+  const senderKeys: SenderKeyProfile[] = []
+
+  const clientFor = (senderId: string): GroupKeyClient => ({
+    async getGroupMembers(groupId) {
+      return members.map((clawId) => ({
+        id: clawId,
+        groupId,
+        clawId,
+        displayName: clawId,
+        role: 'member' as const,
+        joinedAt: '',
+        invitedBy: null,
+      }))
+    },
+    async batchGetE2eeKeys(clawIds) {
+      return identities
+        .filter((i) => clawIds.includes(i.clawId))
+        .map((i) => ({
+          clawId: i.clawId,
+          x25519PublicKey: getX25519PublicKey(i.privateKey),
+          keyFingerprint: '',
+          createdAt: '',
+          rotatedAt: null,
+        }))
+    },
+    async uploadSenderKeys(groupId, keys, keyGeneration) {
+      const uploaded = keys.map((k) => ({
+        id: `${senderId}:${k.recipientId}:${keyGeneration}`,
+        groupId,
+        senderId,
+        recipientId: k.recipientId,
+        encryptedKey: k.encryptedKey,
+        keyGeneration: keyGeneration ?? 1,
+        createdAt: '',
+      }))
+      senderKeys.push(...uploaded)
+      return uploaded
+    },
+    async getSenderKeys(groupId) {
+      return senderKeys.filter((k) => k.groupId === groupId)
+    },
+  })
+
+  return {
+    clientFor,
+    senderKeys,
+    removeMember(clawId: string) {
+      members = members.filter((m) => m !== clawId)
+    },
+  }
+}
+
+function message(fromClawId: string, blocks: MessageProfile['blocks']): MessageProfile {
+  return {
+    id: 'm1',
+    fromClawId,
+    blocks,
+    visibility: 'direct',
+    contentWarning: null,
+    replyToId: null,
+    threadId: null,
+    edited: false,
+    editedAt: null,
+    createdAt: '',
+  }
+}
+
+describe('group sender keys', () => {
+  let tmpDir: string
+  const alice = makeIdentity()
+  const bob = makeIdentity()
+  const carol = makeIdentity()
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-group-e2ee-'))
+    process.env.CLAWBUDS_CONFIG_DIR = tmpDir
+  })
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true })
+    delete process.env.CLAWBUDS_CONFIG_DIR
+  })
+
+  it('distributes a sender key to every member, including ourselves', async () => {
+    const server = buildStubServer([alice, bob, carol])
+    const ctx = { client: server.clientFor(alice.clawId), profileName: 'alice', identity: alice }
+
+    const result = await distributeSenderKey(ctx, 'g1')
+    expect(result.keyGeneration).toBe(1)
+    expect(result.distributedTo.sort()).toEqual([alice.clawId, bob.clawId, carol.clawId].sort())
+    expect(result.missingKeys).toEqual([])
+    expect(hasSenderKey('alice', 'g1')).toBe(true)
+    expect(statSync(join(tmpDir, 'sender-keys-alice.json')).mode & 0o777).toBe(0o600)
+
+    // Second call is a no-op: everyone already holds this generation
+    await distributeSenderKey(ctx, 'g1')
+    expect(server.senderKeys).toHaveLength(3)
+  })
+
+  it('members decrypt messages sealed with the sender key', async () => {
+    const server = buildStubServer([alice, bob])
+    const aliceCtx = { client: server.clientFor(alice.clawId), profileName: 'alice', identity: alice }
+    const bobCtx = { client: server.clientFor(bob.clawId), profileName: 'bob', identity: bob }
+
+    const { block } = await encryptForGroup(aliceCtx, 'g1', [{ type: 'text', text: 'group secret' }])
+    expect(JSON.stringify(block)).not.toContain('group secret')
+
+    const [decrypted] = await decryptGroupMessages(bobCtx, 'g1', [message(alice.clawId, [block])])
+    expect(decrypted.blocks).toEqual([{ type: 'text', text: 'group secret' }])
+
+    const [own] = await decryptGroupMessages(aliceCtx, 'g1', [message(alice.clawId, [block])])
+    expect(own.blocks).toEqual([{ type: 'text', text: 'group secret' }])
+  })
+
+  it('rotation excludes members who left', async () => {
+    const server = buildStubServer([alice, bob, carol])
+    const aliceCtx = { client: server.clientFor(alice.clawId), profileName: 'alice', identity: alice }
+    const carolCtx = { client: server.clientFor(carol.clawId), profileName: 'carol', identity: carol }
+    await distributeSenderKey(aliceCtx, 'g1')
+
+    server.removeMember(carol.clawId)
+    const rotated = await distributeSenderKey(aliceCtx, 'g1', { rotate: true })
+    expect(rotated.keyGeneration).toBe(2)
+    expect(rotated.distributedTo).not.toContain(carol.clawId)
+
+    const { block } = await encryptForGroup(aliceCtx, 'g1', [{ type: 'text', text: 'after carol left' }])
+    expect(block.keyGeneration).toBe(2)
+    const [forCarol] = await decryptGroupMessages(carolCtx, 'g1', [message(alice.clawId, [block])])
+    expect(forCarol.blocks[0].type).toBe('group_encrypted')
+  })
+
+  it('skips members whose key changed since verification until they are verified again', async () => {
+    const server = buildStubServer([alice, bob, carol])
+    const ctx = { client: server.clientFor(alice.clawId), profileName: 'alice', identity: alice }
+    const verified = { clawId: bob.clawId, keyFingerprint: 'fp-old', createdAt: '', rotatedAt: null }
+    pinKey('alice', { ...verified, x25519PublicKey: 'aa'.repeat(32) })
+
+    const result = await distributeSenderKey(ctx, 'g1')
+    expect(result.changedKeys).toEqual([bob.clawId])
+    expect(result.missingKeys).toEqual([])
+    expect(result.distributedTo).not.toContain(bob.clawId)
+    expect(server.senderKeys.map((k) => k.recipientId)).not.toContain(bob.clawId)
+
+    const { changedKeys } = await encryptForGroup(ctx, 'g1', [{ type: 'text', text: 'not for bob' }])
+    expect(changedKeys).toEqual([bob.clawId])
+
+    pinKey('alice', { ...verified, x25519PublicKey: getX25519PublicKey(bob.privateKey) })
+    const reverified = await distributeSenderKey(ctx, 'g1')
+    expect(reverified.changedKeys).toEqual([])
+    expect(reverified.distributedTo).toContain(bob.clawId)
+  })
+
+  it('forgetSenderKey drops the local key', async () => {
+    const server = buildStubServer([alice])
+    await distributeSenderKey({ client: server.clientFor(alice.clawId), profileName: 'alice', identity: alice }, 'g1')
+    expect(forgetSenderKey('alice', 'g1')).toBe(true)
+    expect(hasSenderKey('alice', 'g1')).toBe(false)
+    expect(forgetSenderKey('alice', 'g1')).toBe(false)
+  })
+})
@@ -3,14 +3,17 @@
  * Phase 13a: Daemon local HTTP API
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, existsSync } from 'node:fs'
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync, readFileSync, existsSync, statSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
-import { createServer, type Server } from 'node:http'
+import { createServer, request as httpRequest, type Server } from 'node:http'
 import type { IncomingMessage, ServerResponse } from 'node:http'
 
 // Will be implemented in skill/src/local-api.ts
-import { createLocalApiHandler } from '../src/local-api.js'
+import { createLocalApiHandler, loadOrCreateLocalToken } from '../src/local-api.js'
+import { LocalStore } from '../src/local-store.js'
+import { addOwnerQueueItem, loadOwnerQueue } from '../src/owner-queue.js'
+import { allocateAttention } from '../src/attention-budget.js'
 
 // Helper: HTTP client for test requests
 async function request(
@@ -18,6 +21,7 @@ async function request(
   method: string,
   path: string,
   body?: unknown,
+  extraHeaders: Record<string, string> = {},
 ): Promise<{ status: number; data: unknown; headers: Record<string, string> }> {
   const addr = server.address()
   const port = typeof addr === 'object' && addr ? addr.port : 0
@@ -25,7 +29,7 @@ async function request(
 
   const res = await fetch(url, {
     method,
-    headers: body ? { 'Content-Type': 'application/json' } : {},
+    headers: { ...(body ? { 'Content-Type': 'application/json' } : {}), ...extraHeaders },
     body: body ? JSON.stringify(body) : undefined,
   })
 
@@ -111,9 +115,23 @@ describe('Local API Handler', () => {
       expect((data as { activeProfiles: string[] }).activeProfiles).toEqual(['default'])
     })
 
-    it('should include CORS headers', async () => {
-      const { headers } = await request(server, 'GET', '/local/status')
-      expect(headers['access-control-allow-origin']).toBeTruthy()
+    it('should report the attention budget of active profiles', async () => {
+      allocateAttention(
+        'default',
+        [{ event: { type: 'plaza.reply', data: {}, summary: 'reply' }, priority: 0.9 }],
+        tmpDir,
+      )
+      const { data } = await request(server, 'GET', '/local/status')
+      const budget = (data as { attentionBudget: Record<string, { used: number; held: number }> }).attentionBudget
+      expect(Object.keys(budget)).toEqual(['default'])
+      expect(budget.default).toMatchObject({ used: 1, held: 0 })
+    })
+
+    it('should include CORS headers for same-origin browser requests', async () => {
+      const addr = server.address()
+      const origin = `http://127.0.0.1:${typeof addr === 'object' && addr ? addr.port : 0}`
+      const { headers } = await request(server, 'GET', '/local/status', undefined, { Origin: origin })
+      expect(headers['access-control-allow-origin']).toBe(origin)
     })
   })
 
@@ -222,4 +240,247 @@ describe('Local API Handler', () => {
       expect(status).toBe(204)
     })
   })
+
+  // ─── Auth + origin allow-list ─────────────────────────────────────────────
+
+  describe('auth', () => {
+    let authServer: Server
+
+    beforeEach(async () => {
+      authServer = await startServer(
+        createLocalApiHandler({
+          configDir: tmpDir,
+          client: mockClient as never,
+          config: mockConfig as never,
+          getServerConnected: () => true,
+          getActiveProfiles: () => ['default'],
+          authToken: 'secret-token',
+          allowedOrigins: ['http://localhost:5173'],
+        }),
+      )
+    })
+
+    afterEach(() => {
+      authServer?.close()
+    })
+
+    it('should reject browser requests from origins not on the allow-list', async () => {
+      const { status, headers } = await request(authServer, 'GET', '/local/carapace', undefined, {
+        Origin: 'https://evil.example',
+      })
+      expect(status).toBe(403)
+      expect(headers['access-control-allow-origin']).toBeUndefined()
+    })
+
+    it('should reflect allow-listed origins', async () => {
+      const { status, headers } = await request(authServer, 'OPTIONS', '/local/carapace', undefined, {
+        Origin: 'http://localhost:5173',
+      })
+      expect(status).toBe(204)
+      expect(headers['access-control-allow-origin']).toBe('http://localhost:5173')
+      expect(headers['access-control-allow-headers']).toMatch(/Authorization/)
+    })
+
+    it('should require the token on mutating routes', async () => {
+      const body = { content: '# New', reason: 'manual' }
+      const denied = await request(authServer, 'PUT', '/local/carapace', body)
+      expect(denied.status).toBe(401)
+      expect(mockClient.pushCarapaceSnapshot).not.toHaveBeenCalled()
+
+      const wrong = await request(authServer, 'PUT', '/local/carapace', body, { Authorization: 'Bearer nope' })
+      expect(wrong.status).toBe(401)
+
+      const ok = await request(authServer, 'PUT', '/local/carapace', body, { Authorization: 'Bearer secret-token' })
+      expect(ok.status).toBe(200)
+    })
+
+    it('should refuse requests whose Host is not the loopback gateway (DNS rebinding)', async () => {
+      const addr = authServer.address()
+      const port = typeof addr === 'object' && addr ? addr.port : 0
+      // fetch will not send a custom Host, so go through node:http
+      const get = (host: string) =>
+        new Promise<number>((resolve, reject) => {
+          const origin = `http://${host}`
+          httpRequest({ host: '127.0.0.1', port, path: '/local/auth/token', headers: { Host: host, Origin: origin } }, (res) => {
+            res.resume()
+            resolve(res.statusCode ?? 0)
+          })
+            .on('error', reject)
+            .end()
+        })
+
+      expect(await get(`evil.example:${port}`)).toBe(403)
+      expect(await get(`127.0.0.1:${port + 1}`)).toBe(403)
+      expect(await get(`localhost:${port}`)).toBe(200)
+    })
+
+    it('should hand the token only to same-origin pages', async () => {
+      const addr = authServer.address()
+      const origin = `http://127.0.0.1:${typeof addr === 'object' && addr ? addr.port : 0}`
+
+      const same = await request(authServer, 'GET', '/local/auth/token', undefined, { Origin: origin })
+      expect(same.status).toBe(200)
+      expect((same.data as { token: string }).token).toBe('secret-token')
+
+      const dev = await request(authServer, 'GET', '/local/auth/token', undefined, { Origin: 'http://localhost:5173' })
+      expect(dev.status).toBe(403)
+
+      const verify = await request(authServer, 'GET', '/local/auth/verify', undefined, {
+        Origin: 'http://localhost:5173',
+        Authorization: 'Bearer secret-token',
+      })
+      expect(verify.status).toBe(200)
+    })
+  })
+
+  it('should persist the generated token with 0600 permissions', () => {
+    const token = loadOrCreateLocalToken(tmpDir)
+    expect(token).toMatch(/^[0-9a-f]{64}$/)
+    expect(loadOrCreateLocalToken(tmpDir)).toBe(token)
+    expect(statSync(join(tmpDir, 'local-token')).mode & 0o777).toBe(0o600)
+  })
+
+  // ─── Per-profile routes ───────────────────────────────────────────────────
+
+  describe('/local/profiles/:name/*', () => {
+    let profileServer: Server
+    let workClient: typeof mockClient
+
+    beforeEach(async () => {
+      workClient = {
+        pushCarapaceSnapshot: vi.fn().mockResolvedValue({ version: 9, createdAt: '2026-02-22T02:00:00Z' }),
+        getCarapaceVersion: vi.fn().mockResolvedValue({ content: '# Work from server', version: 4 }),
+      }
+      profileServer = await startServer(
+        createLocalApiHandler({
+          configDir: tmpDir,
+          client: mockClient as never,
+          getClient: (name) => (name === 'work' ? (workClient as never) : name === 'default' ? (mockClient as never) : null),
+          config: mockConfig as never,
+          getServerConnected: () => true,
+          getActiveProfiles: () => ['default', 'work'],
+        }),
+      )
+    })
+
+    afterEach(() => {
+      profileServer?.close()
+    })
+
+    it('should keep a separate carapace file per profile', async () => {
+      const put = await request(profileServer, 'PUT', '/local/profiles/work/carapace', {
+        content: '# Work rules',
+        reason: 'manual',
+      })
+      expect(put.status).toBe(200)
+      expect(workClient.pushCarapaceSnapshot).toHaveBeenCalledWith('# Work rules', 'manual')
+      expect(mockClient.pushCarapaceSnapshot).not.toHaveBeenCalled()
+      expect(readFileSync(join(carapaceDir, 'carapace-work.md'), 'utf-8')).toBe('# Work rules')
+
+      // Default profile still uses the shared file
+      const def = await request(profileServer, 'GET', '/local/profiles/default/carapace')
+      expect((def.data as { content: string }).content).toBe('# Carapace\n\n> Test content')
+      const work = await request(profileServer, 'GET', '/local/profiles/work/carapace')
+      expect((work.data as { content: string }).content).toBe('# Work rules')
+    })
+
+    it('should not swap carapace files when the default profile changes', async () => {
+      await request(profileServer, 'PUT', '/local/profiles/work/carapace', { content: '# Work rules', reason: 'manual' })
+      // carapace.md was claimed by 'default' on first use
+      mockConfig.getCurrentProfileName.mockReturnValue('work')
+
+      const work = await request(profileServer, 'GET', '/local/profiles/work/carapace')
+      expect((work.data as { content: string }).content).toBe('# Work rules')
+      const def = await request(profileServer, 'GET', '/local/profiles/default/carapace')
+      expect((def.data as { content: string }).content).toBe('# Carapace\n\n> Test content')
+      // Unscoped routes follow the current profile
+      const current = await request(profileServer, 'GET', '/local/carapace')
+      expect((current.data as { content: string }).content).toBe('# Work rules')
+    })
+
+    it('should sync a profile from its own server client', async () => {
+      const { status, data } = await request(profileServer, 'POST', '/local/profiles/work/carapace/sync')
+      expect(status).toBe(200)
+      expect((data as { version: number }).version).toBe(4)
+      expect(readFileSync(join(carapaceDir, 'carapace-work.md'), 'utf-8')).toBe('# Work from server')
+    })
+
+    it('should 404 unknown profiles', async () => {
+      const { status } = await request(profileServer, 'GET', '/local/profiles/nope/carapace')
+      expect(status).toBe(404)
+    })
+  })
+  // ─── GET /local/search ────────────────────────────────────────────────────
+
+  describe('GET /local/search', () => {
+    beforeEach(() => {
+      const base = { scopeId: null, fromDisplayName: null, blockTypes: ['text'], visibility: 'public' }
+      LocalStore.open('default', tmpDir).upsert([
+        { ...base, kind: 'inbox', id: 'm1', fromClawId: 'claw_a', text: 'lunch on friday', createdAt: '2026-03-01T10:00:00Z' },
+        { ...base, kind: 'plaza', id: 'p1', fromClawId: 'claw_b', text: 'friday release notes', createdAt: '2026-03-02T10:00:00Z' },
+      ])
+      LocalStore.open('work', tmpDir).upsert([
+        { ...base, kind: 'inbox', id: 'w1', fromClawId: 'claw_c', text: 'friday standup', createdAt: '2026-03-03T10:00:00Z' },
+      ])
+    })
+
+    it('should search the current profile with filters', async () => {
+      const all = await request(server, 'GET', '/local/search?q=friday')
+      expect(all.status).toBe(200)
+      expect((all.data as { results: Array<{ id: string }> }).results.map((r) => r.id)).toEqual(['p1', 'm1'])
+
+      const filtered = await request(server, 'GET', '/local/search?q=friday&kind=inbox&from=claw_a')
+      expect((filtered.data as { results: Array<{ id: string }> }).results.map((r) => r.id)).toEqual(['m1'])
+    })
+
+    it('should search a named profile without a server connection', async () => {
+      const { status, data } = await request(server, 'GET', '/local/profiles/work/search?q=standup')
+      expect(status).toBe(200)
+      expect((data as { results: Array<{ id: string }> }).results.map((r) => r.id)).toEqual(['w1'])
+    })
+
+    it('should reject bad filters and unknown profiles', async () => {
+      expect((await request(server, 'GET', '/local/search?q=x&kind=email')).status).toBe(400)
+      expect((await request(server, 'GET', '/local/search?q=x&since=yesterday')).status).toBe(400)
+      expect((await request(server, 'GET', '/local/profiles/nope/search?q=x')).status).toBe(404)
+      expect((await request(server, 'GET', '/local/profiles/%E0/search?q=x')).status).toBe(400)
+      expect((await request(server, 'GET', '/local/profiles/%E0/inbox')).status).toBe(400)
+    })
+  })
+
+  // ─── /local/owner-queue ───────────────────────────────────────────────────
+
+  describe('/local/owner-queue', () => {
+    let ids: string[]
+
+    beforeEach(() => {
+      ids = [
+        addOwnerQueueItem('default', { type: 'consult', priority: 0.3, question: 'favourite editor?' }, tmpDir).id,
+        addOwnerQueueItem('default', { type: 'question_answers', priority: 1.0, questionPostId: 'post_1' }, tmpDir).id,
+      ]
+    })
+
+    it('should list pending items highest priority first', async () => {
+      const { status, data } = await request(server, 'GET', '/local/owner-queue')
+      expect(status).toBe(200)
+      expect((data as { items: Array<{ id: string }> }).items.map((i) => i.id)).toEqual([ids[1], ids[0]])
+
+      const high = await request(server, 'GET', '/local/owner-queue?priority=high')
+      expect((high.data as { items: Array<{ id: string }> }).items.map((i) => i.id)).toEqual([ids[1]])
+      expect((await request(server, 'GET', '/local/owner-queue?priority=urgent')).status).toBe(400)
+      expect((await request(server, 'GET', '/local/profiles/work/owner-queue')).data).toEqual({ items: [] })
+    })
+
+    it('should acknowledge and clear items', async () => {
+      const ack = await request(server, 'POST', '/local/owner-queue/ack', { ids: [ids[0]] })
+      expect(ack).toMatchObject({ status: 200, data: { acked: 1 } })
+      const pending = await request(server, 'GET', '/local/owner-queue')
+      expect((pending.data as { items: Array<{ id: string }> }).items.map((i) => i.id)).toEqual([ids[1]])
+
+      const cleared = await request(server, 'DELETE', '/local/owner-queue')
+      expect(cleared.data).toEqual({ removed: 1 })
+      expect(loadOwnerQueue('default', tmpDir).map((i) => i.id)).toEqual([ids[1]])
+      expect((await request(server, 'POST', '/local/owner-queue/ack', { ids: 'all' })).status).toBe(400)
+    })
+  })
 })
@@ -23,11 +23,12 @@ async function req(
   method: string,
   path: string,
   body?: unknown,
+  extraHeaders: Record<string, string> = {},
 ): Promise<{ status: number; data: unknown; headers: Record<string, string> }> {
   const url = `http://127.0.0.1:${port}${path}`
   const res = await fetch(url, {
     method,
-    headers: body ? { 'Content-Type': 'application/json' } : {},
+    headers: { ...(body ? { 'Content-Type': 'application/json' } : {}), ...extraHeaders },
     body: body ? JSON.stringify(body) : undefined,
   })
   const ct = res.headers.get('content-type') ?? ''
@@ -318,15 +319,26 @@ describe('Local HTTP Gateway — Integration', () => {
   // ─── CORS headers ────────────────────────────────────────────────────────
 
   describe('CORS', () => {
-    it('all /local/* responses include CORS headers', async () => {
+    it('all /local/* responses include CORS headers for the gateway origin', async () => {
+      const origin = `http://127.0.0.1:${port}`
       for (const path of ['/local/status', '/local/carapace', '/local/config', '/local/profiles']) {
-        const { headers } = await req(port, 'GET', path)
-        expect(headers['access-control-allow-origin']).toBeTruthy()
+        const { headers } = await req(port, 'GET', path, undefined, { Origin: origin })
+        expect(headers['access-control-allow-origin']).toBe(origin)
       }
     })
 
+    it('foreign origins are refused', async () => {
+      const { status } = await req(port, 'PUT', '/local/carapace', { content: 'x', reason: 'y' }, {
+        Origin: 'https://evil.example',
+      })
+      expect(status).toBe(403)
+      expect(stubClient.snapshotCalls).toHaveLength(0)
+    })
+
     it('OPTIONS preflight returns 204 with CORS headers', async () => {
-      const { status, headers } = await req(port, 'OPTIONS', '/local/carapace')
+      const { status, headers } = await req(port, 'OPTIONS', '/local/carapace', undefined, {
+        Origin: `http://127.0.0.1:${port}`,
+      })
       expect(status).toBe(204)
       expect(headers['access-control-allow-origin']).toBeTruthy()
       expect(headers['access-control-allow-methods']).toMatch(/PUT/)
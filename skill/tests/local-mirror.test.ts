@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { LocalStore, type StoredMessage } from '../src/local-store.js'
+import { saveFriendsMirror } from '../src/local-mirror.js'
+import { createLocalServer, type LocalServer } from '../src/local-server.js'
+import type { FriendInfo, WsEvent } from '../src/types.js'
+
+function messageEvent(seq: number): WsEvent {
+  return {
+    type: 'message.new',
+    seq,
+    data: {
+      id: `entry-${seq}`,
+      seq,
+      status: 'unread',
+      message: {
+        id: `msg-${seq}`,
+        fromClawId: 'claw_sender00000000',
+        fromDisplayName: 'Sender',
+        blocks: [{ type: 'text', text: `Message ${seq}` }],
+        visibility: 'public',
+        contentWarning: null,
+        createdAt: new Date(Date.UTC(2025, 5, seq)).toISOString(),
+      },
+      createdAt: new Date(Date.UTC(2025, 5, seq)).toISOString(),
+    },
+  }
+}
+
+function stored(kind: StoredMessage['kind'], id: string, day: number, scopeId: string | null = null): StoredMessage {
+  return {
+    kind,
+    id,
+    scopeId,
+    fromClawId: 'claw_a',
+    fromDisplayName: 'A',
+    text: id,
+    blockTypes: ['text'],
+    visibility: 'public',
+    createdAt: new Date(Date.UTC(2025, 5, day)).toISOString(),
+  }
+}
+
+interface Page {
+  items: Array<{ seq?: number; id?: string; clawId?: string }>
+  total: number
+  offset: number
+  limit: number
+  cachedAt: string | null
+}
+
+describe('local mirror routes', () => {
+  let tmpDir: string
+  let server: LocalServer
+  let base: string
+
+  beforeEach(async () => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-mirror-'))
+    server = createLocalServer({
+      port: 0,
+      configDir: tmpDir,
+      client: {} as never,
+      config: {
+        getCurrentProfile: () => null,
+        listProfiles: () => ['default', 'work'],
+        getCurrentProfileName: () => 'default',
+      },
+      // The server is down; the mirror does not need it
+      getServerConnected: () => false,
+      getActiveProfiles: () => ['default'],
+    })
+    base = `http://127.0.0.1:${(await server.start()).port}`
+  })
+
+  afterEach(async () => {
+    await server.stop()
+    rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  async function getPage(path: string): Promise<Page> {
+    const res = await fetch(`${base}${path}`)
+    expect(res.status).toBe(200)
+    return (await res.json()) as Page
+  }
+
+  it('pages through cached inbox entries, newest first', async () => {
+    expect(await getPage('/local/inbox')).toEqual({ items: [], total: 0, offset: 0, limit: 50, cachedAt: null })
+
+    // Written where the daemon's cache lives: the gateway's configDir, not CLAWBUDS_CONFIG_DIR
+    const cache = join(tmpDir, 'inbox-default.jsonl')
+    for (const seq of [1, 2, 3, 4, 2]) appendFileSync(cache, JSON.stringify(messageEvent(seq)) + '\n')
+    appendFileSync(cache, JSON.stringify({ type: 'friend.request', data: {} }) + '\n')
+
+    const all = await getPage('/local/inbox')
+    expect(all.items.map((e) => e.seq)).toEqual([4, 3, 2, 1])
+    expect(all.cachedAt).toEqual(expect.any(String))
+
+    const second = await getPage('/local/inbox?limit=2&offset=2')
+    expect(second).toMatchObject({ total: 4, offset: 2, limit: 2 })
+    expect(second.items.map((e) => e.seq)).toEqual([2, 1])
+
+    expect((await getPage('/local/inbox?afterSeq=2')).items.map((e) => e.seq)).toEqual([4, 3])
+    expect((await fetch(`${base}/local/inbox?limit=-1`)).status).toBe(400)
+  })
+
+  it('serves the last fetched friends list with its fetch time', async () => {
+    const friends = [{ clawId: 'claw_b' }, { clawId: 'claw_c' }] as FriendInfo[]
+    saveFriendsMirror('work', friends, tmpDir, new Date('2025-06-03T00:00:00Z'))
+
+    const page = await getPage('/local/profiles/work/friends?limit=1')
+    expect(page).toEqual({ items: [{ clawId: 'claw_b' }], total: 2, offset: 0, limit: 1, cachedAt: '2025-06-03T00:00:00.000Z' })
+    expect((await getPage('/local/friends')).total).toBe(0)
+  })
+
+  it('serves cached plaza posts and group messages', async () => {
+    const store = LocalStore.open('default', tmpDir)
+    store.upsert([
+      stored('plaza', 'p1', 1),
+      stored('plaza', 'p2', 2),
+      stored('group', 'g1', 1, 'grp_1'),
+      stored('group', 'g2', 3, 'grp_2'),
+      stored('inbox', 'i1', 4),
+    ])
+
+    expect((await getPage('/local/plaza')).items.map((m) => m.id)).toEqual(['p2', 'p1'])
+    expect((await getPage('/local/groups/grp_1/messages')).items.map((m) => m.id)).toEqual(['g1'])
+    // Group messages and plaza posts have no seq to resume from
+    const afterSeq = await fetch(`${base}/local/groups/grp_1/messages?afterSeq=3`)
+    expect(afterSeq.status).toBe(400)
+    expect(await afterSeq.json()).toEqual({ error: 'afterSeq is only supported on /local/inbox; use limit and offset' })
+
+    // Appended by the daemon after the gateway opened the store
+    LocalStore.open('default', tmpDir).upsert([stored('plaza', 'p3', 5)])
+    expect((await getPage('/local/plaza?limit=1')).items.map((m) => m.id)).toEqual(['p3'])
+  })
+
+  it('rejects unknown profiles', async () => {
+    expect((await fetch(`${base}/local/profiles/nope/inbox`)).status).toBe(404)
+  })
+})
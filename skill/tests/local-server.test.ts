@@ -107,6 +107,41 @@ describe('Local Server', () => {
       const { status } = await get(port, '/local/nonexistent')
       expect(status).toBe(404)
     })
+
+    it('should reject a malformed profile segment and keep serving', async () => {
+      server = createLocalServer({
+        port: 0,
+        configDir: tmpDir,
+        client: mockClient as never,
+        config: mockConfig as never,
+        getServerConnected: () => true,
+        getActiveProfiles: () => ['default'],
+      })
+      const { port } = await server.start()
+      const { status, data } = await get(port, '/local/profiles/%E0%A4%A/config')
+      expect(status).toBe(400)
+      expect(JSON.parse(data)).toEqual({ error: 'Malformed profile name' })
+      expect((await get(port, '/local/status')).status).toBe(200)
+    })
+
+    it('should answer 500 when a route throws', async () => {
+      server = createLocalServer({
+        port: 0,
+        configDir: tmpDir,
+        client: mockClient as never,
+        config: mockConfig as never,
+        getServerConnected: () => true,
+        getActiveProfiles: () => ['default'],
+      })
+      const { port } = await server.start()
+      mockConfig.listProfiles.mockImplementationOnce(() => {
+        throw new Error('config unreadable')
+      })
+      const { status, data } = await get(port, '/local/profiles/default/config')
+      expect(status).toBe(500)
+      expect(JSON.parse(data)).toEqual({ error: 'Internal error' })
+      expect((await get(port, '/local/status')).status).toBe(200)
+    })
   })
 
   // ─── static file serving ──────────────────────────────────────────────────
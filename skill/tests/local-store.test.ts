@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, utimesSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { LocalStore, fromInboxEntry, fromPlazaPost, parseSearchFilters } from '../src/local-store.js'
+import type { InboxEntry, PlazaPost } from '../src/types.js'
+
+function inboxEntry(id: string, text: string, createdAt: string, from = 'claw_alice'): InboxEntry {
+  return {
+    id: `entry-${id}`,
+    seq: 1,
+    status: 'unread',
+    message: {
+      id,
+      fromClawId: from,
+      fromDisplayName: from === 'claw_alice' ? 'Alice' : 'Bob',
+      blocks: [{ type: 'text', text }],
+      visibility: 'direct',
+      contentWarning: null,
+      createdAt,
+    },
+    createdAt,
+  }
+}
+
+function plazaPost(id: string, url: string, createdAt: string): PlazaPost {
+  return {
+    id,
+    fromClawId: 'claw_bob',
+    messageType: 'share',
+    blocks: [{ type: 'link', url, preview: { title: 'Deploy guide', description: '' } }],
+    topicTags: null,
+    replyToId: null,
+    discussionRootId: null,
+    replyCount: 0,
+    reactionSummary: null,
+    acceptingReplies: false,
+    replyDeadline: null,
+    edited: false,
+    editedAt: null,
+    deletedAt: null,
+    createdAt,
+    updatedAt: null,
+  }
+}
+
+describe('local store', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-store-'))
+    process.env.CLAWBUDS_CONFIG_DIR = tmpDir
+  })
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true })
+    delete process.env.CLAWBUDS_CONFIG_DIR
+  })
+
+  it('matches every query word by substring, newest first', () => {
+    const store = LocalStore.open('default')
+    store.upsert([
+      fromInboxEntry(inboxEntry('m1', 'Deploying the new server tonight', '2026-03-01T10:00:00Z')),
+      fromInboxEntry(inboxEntry('m2', 'server is down', '2026-03-02T10:00:00Z', 'claw_bob')),
+      fromPlazaPost(plazaPost('p1', 'https://example.com/deploy', '2026-03-03T10:00:00Z')),
+      fromInboxEntry(inboxEntry('m3', '明天部署服务器', '2026-03-04T10:00:00Z')),
+    ])
+
+    expect(store.search('server').map((m) => m.id)).toEqual(['m2', 'm1'])
+    expect(store.search('deploy').map((m) => m.id)).toEqual(['p1', 'm1'])
+    expect(store.search('deploy server').map((m) => m.id)).toEqual(['m1'])
+    expect(store.search('服务器').map((m) => m.id)).toEqual(['m3'])
+    expect(store.search('nothing')).toEqual([])
+  })
+
+  it('applies from, date, visibility, block type and kind filters', () => {
+    const store = LocalStore.open('default')
+    store.upsert([
+      fromInboxEntry(inboxEntry('m1', 'hello', '2026-03-01T10:00:00Z')),
+      fromInboxEntry(inboxEntry('m2', 'hello', '2026-03-02T23:00:00Z', 'claw_bob')),
+      fromPlazaPost(plazaPost('p1', 'https://hello.example', '2026-03-03T10:00:00Z')),
+    ])
+    const ids = (raw: Record<string, string>) => store.search('hello', parseSearchFilters(raw)).map((m) => m.id)
+
+    expect(ids({ from: 'alice' })).toEqual(['m1'])
+    expect(ids({ from: 'claw_bob' })).toEqual(['p1', 'm2'])
+    expect(ids({ since: '2026-03-02', until: '2026-03-02' })).toEqual(['m2'])
+    expect(ids({ visibility: 'public' })).toEqual(['p1'])
+    expect(ids({ type: 'link' })).toEqual(['p1'])
+    expect(ids({ kind: 'inbox', limit: '1' })).toEqual(['m2'])
+    expect(() => parseSearchFilters({ kind: 'email' })).toThrow(/Invalid kind/)
+  })
+
+  it('shares one log between writers and replaces edited messages', () => {
+    const daemon = LocalStore.open('default')
+    const cli = LocalStore.open('default')
+
+    daemon.upsert([fromInboxEntry(inboxEntry('m1', 'first draft', '2026-03-01T10:00:00Z'))])
+    expect(cli.search('draft').map((m) => m.id)).toEqual(['m1'])
+
+    expect(cli.upsert([fromInboxEntry(inboxEntry('m1', 'final version', '2026-03-01T10:00:00Z'))])).toBe(1)
+    expect(daemon.search('draft')).toEqual([])
+    expect(daemon.search('final').map((m) => m.id)).toEqual(['m1'])
+    expect(daemon.upsert([fromInboxEntry(inboxEntry('m1', 'final version', '2026-03-01T10:00:00Z'))])).toBe(0)
+
+    daemon.compact()
+    const path = join(tmpDir, 'store-default.jsonl')
+    expect(readFileSync(path, 'utf-8').trim().split('\n')).toHaveLength(1)
+    expect(statSync(path).mode & 0o777).toBe(0o600)
+    expect(LocalStore.open('default').size).toBe(1)
+    expect(LocalStore.open('work').size).toBe(0)
+  })
+
+  it('compacts only on request, without losing appends from other processes', () => {
+    const path = join(tmpDir, 'store-default.jsonl')
+    const edits = Array.from({ length: 1200 }, (_, i) =>
+      fromInboxEntry(inboxEntry(`m${i % 10}`, `edit ${i}`, '2026-03-01T10:00:00Z')),
+    )
+    LocalStore.append('default', edits)
+
+    const daemon = LocalStore.open('default')
+    const reader = LocalStore.open('default')
+    expect(readFileSync(path, 'utf-8').trim().split('\n')).toHaveLength(1200)
+
+    // A stale lock from a crashed writer does not block the next one
+    writeFileSync(`${path}.lock`, '')
+    utimesSync(`${path}.lock`, new Date(0), new Date(0))
+    expect(daemon.compactIfNeeded()).toBe(true)
+    expect(daemon.compactIfNeeded()).toBe(false)
+    expect(existsSync(`${path}.lock`)).toBe(false)
+    expect(readFileSync(path, 'utf-8').trim().split('\n')).toHaveLength(10)
+
+    LocalStore.append('default', [fromInboxEntry(inboxEntry('m99', 'after compaction', '2026-03-02T10:00:00Z'))])
+    expect(reader.search('compaction').map((m) => m.id)).toEqual(['m99'])
+    expect(reader.search('1199').map((m) => m.id)).toEqual(['m9'])
+    expect(reader.size).toBe(11)
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  configureLogging,
+  createLogger,
+  formatLogRecord,
+  groupLogEntries,
+  matchesLogFilter,
+  parseLogLine,
+  RotatingFile,
+  type LogRecord,
+} from '../src/logger.js'
+
+describe('logger', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-log-'))
+  })
+
+  afterEach(() => {
+    configureLogging({})
+    rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('formats records as text or JSON lines and reads both back', () => {
+    const record: LogRecord = {
+      time: '2025-06-01T12:00:00.000Z',
+      level: 'warn',
+      component: 'daemon',
+      profile: 'work',
+      msg: 'plaza pull error',
+      status: 502,
+      reason: 'bad gateway',
+    }
+    const text = formatLogRecord(record)
+    expect(text).toBe('2025-06-01T12:00:00.000Z WARN  [daemon:work] plaza pull error status=502 reason="bad gateway"')
+    expect(parseLogLine(text)).toEqual({
+      time: record.time,
+      level: 'warn',
+      component: 'daemon',
+      profile: 'work',
+      msg: 'plaza pull error status=502 reason="bad gateway"',
+    })
+    expect(parseLogLine(formatLogRecord(record, 'json'))).toEqual(record)
+    expect(parseLogLine('    at Object.<anonymous> (daemon.js:1:1)')).toBeNull()
+  })
+
+  it('writes leveled records with context fields through the configured output', () => {
+    const file = join(tmpDir, 'daemon.log')
+    configureLogging({ level: 'info', format: 'json', file, now: () => new Date('2025-06-01T00:00:00Z') })
+    const log = createLogger('webhook').child({ profile: 'work' })
+    log.debug('not written')
+    log.info('delivered', { status: 200 })
+    log.error('gave up')
+
+    const records = readFileSync(file, 'utf-8').trim().split('\n').map((line) => JSON.parse(line))
+    expect(records).toEqual([
+      { time: '2025-06-01T00:00:00.000Z', level: 'info', component: 'webhook', msg: 'delivered', profile: 'work', status: 200 },
+      { time: '2025-06-01T00:00:00.000Z', level: 'error', component: 'webhook', msg: 'gave up', profile: 'work' },
+    ])
+  })
+
+  it('rotates by size and by day, keeping a bounded number of files', () => {
+    const path = join(tmpDir, 'daemon.log')
+    let now = new Date('2025-06-01T10:00:00Z')
+    const file = new RotatingFile(path, 30, 2, () => now)
+
+    file.write('first line of 20 ch')
+    file.write('second line 20 char') // over 30 bytes: rotates
+    expect(readFileSync(`${path}.1`, 'utf-8')).toBe('first line of 20 ch\n')
+
+    now = new Date('2025-06-02T00:00:01Z')
+    file.write('next day') // new day: rotates
+    file.write('same day')
+    file.write('this one rotates again')
+    expect(readFileSync(path, 'utf-8')).toBe('this one rotates again\n')
+    expect(readFileSync(`${path}.1`, 'utf-8')).toBe('next day\nsame day\n')
+    expect(readFileSync(`${path}.2`, 'utf-8')).toBe('second line 20 char\n')
+    expect(existsSync(`${path}.3`)).toBe(false)
+  })
+
+  it('filters entries by level and profile, keeping multi-line messages together', () => {
+    const at = '2025-06-01T00:00:00.000Z'
+    const lines = [
+      formatLogRecord({ time: at, level: 'info', component: 'console', profile: 'work', msg: 'poll.voted: 2 votes\n\nRun "clawbuds poll results"' }),
+      formatLogRecord({ time: at, level: 'error', component: 'daemon', profile: 'home', msg: 'plugin failed' }),
+      formatLogRecord({ time: at, level: 'debug', component: 'daemon', profile: 'work', msg: 'event data' }),
+      'Error: crash outside the logger',
+    ].flatMap((entry) => entry.split('\n'))
+
+    const entries = groupLogEntries(lines)
+    expect(entries).toHaveLength(4)
+    expect(entries[0]).toContain('\n  Run "clawbuds poll results"')
+
+    expect(entries.filter((e) => matchesLogFilter(e, {}))).toHaveLength(4)
+    expect(entries.filter((e) => matchesLogFilter(e, { level: 'info' }))).toEqual([entries[0], entries[1]])
+    expect(entries.filter((e) => matchesLogFilter(e, { profile: 'work' }))).toEqual([entries[0], entries[2]])
+    expect(entries.filter((e) => matchesLogFilter(e, { level: 'warn', profile: 'work' }))).toEqual([])
+  })
+})
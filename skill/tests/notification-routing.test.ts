@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  parseRoutingRules,
+  routeNotification,
+  isQuietTime,
+  eventSender,
+  loadSenderDirectory,
+} from '../src/notification-routing.js'
+import type { NotificationEvent } from '../src/notification-plugin.js'
+
+function message(fromClawId: string, summary = 'hello'): NotificationEvent {
+  return { type: 'message.new', data: { message: { fromClawId } }, summary }
+}
+
+const rules = parseRoutingRules({
+  quietHours: { start: '22:00', end: '07:00', timezone: 'Asia/Tokyo' },
+  rules: [
+    { name: 'bot', match: { from: ['claw_bot'] }, action: 'mute' },
+    { name: 'family', match: { circles: ['family'] }, plugins: ['openclaw'], quietHours: 'ignore' },
+    { match: { types: ['plaza.question_match'], keywords: ['postgres'] }, plugins: ['webhook'] },
+  ],
+})
+
+// 12:00 and 23:30 in Tokyo
+const noon = new Date('2026-03-02T03:00:00Z')
+const night = new Date('2026-03-02T14:30:00Z')
+
+describe('notification routing', () => {
+  it('validates the rules file', () => {
+    expect(() => parseRoutingRules({ rules: {} })).toThrow(/rules must be a list/)
+    expect(() => parseRoutingRules({ quietHours: { start: '25:00', end: '07:00' } })).toThrow(/quietHours.start/)
+    expect(() => parseRoutingRules({ quietHours: { start: '22:00', end: '07:00', timezone: 'Mars/Base' } })).toThrow(/time zone/)
+    expect(() => parseRoutingRules({ rules: [{ match: { layers: ['best'] } }] })).toThrow(/unknown layer "best"/)
+  })
+
+  it('routes by sender, circle and keyword, first match wins', () => {
+    const ctx = { defaultPlugins: ['console'], now: noon }
+    expect(routeNotification(message('claw_bot'), rules, ctx)).toMatchObject({ outcome: 'muted', rule: 'bot' })
+    expect(routeNotification(message('claw_mum'), rules, { ...ctx, sender: { circles: ['family'], layer: 'core' } }))
+      .toMatchObject({ outcome: 'deliver', plugins: ['openclaw'], rule: 'family' })
+
+    const question: NotificationEvent = { type: 'plaza.question_match', data: {}, summary: 'Tuning Postgres?' }
+    expect(routeNotification(question, rules, ctx)).toMatchObject({ plugins: ['webhook'], rule: '#3' })
+    expect(routeNotification(message('claw_x'), rules, ctx)).toMatchObject({ plugins: ['console'], rule: null })
+    expect(routeNotification(message('claw_x'), null, ctx).plugins).toEqual(['console'])
+  })
+
+  it('holds events during quiet hours unless escalated or exempt', () => {
+    const ctx = { defaultPlugins: ['console'], now: night, escalationKeywords: ['URGENT'] }
+    expect(routeNotification(message('claw_x'), rules, ctx).outcome).toBe('quiet_hours')
+    expect(routeNotification(message('claw_x', 'urgent: server down'), rules, ctx))
+      .toMatchObject({ outcome: 'deliver', escalated: true })
+    expect(routeNotification(message('claw_mum'), rules, { ...ctx, sender: { circles: ['family'], layer: null } }).outcome)
+      .toBe('deliver')
+  })
+
+  it('delivers escalations from muted senders', () => {
+    const ctx = { defaultPlugins: ['console'], now: night, escalationKeywords: ['URGENT'] }
+    expect(routeNotification(message('claw_bot', 'URGENT: disk full'), rules, ctx))
+      .toMatchObject({ outcome: 'deliver', plugins: ['console'], rule: 'bot', escalated: true })
+    expect(routeNotification(message('claw_bot', 'daily report'), rules, ctx).outcome).toBe('muted')
+  })
+
+  it('evaluates overnight windows per start day in the given time zone', () => {
+    const weekdays = { start: '22:00', end: '07:00', timezone: 'UTC', days: [1, 2, 3, 4, 5] }
+    // Saturday 01:00 belongs to Friday night's window
+    expect(isQuietTime(weekdays, new Date('2026-03-07T01:00:00Z'))).toBe(true)
+    // Sunday 01:00 belongs to Saturday night, which is not quiet
+    expect(isQuietTime(weekdays, new Date('2026-03-08T01:00:00Z'))).toBe(false)
+    expect(isQuietTime(weekdays, new Date('2026-03-09T23:00:00Z'))).toBe(true)
+    expect(isQuietTime(weekdays, new Date('2026-03-09T12:00:00Z'))).toBe(false)
+    expect(isQuietTime({ start: '09:00', end: '17:00', timezone: 'America/New_York' }, new Date('2026-03-09T15:00:00Z'))).toBe(true)
+  })
+
+  it('finds senders and their circles and layers', async () => {
+    expect(eventSender({ type: 'friend.request', data: { requesterId: 'claw_r' }, summary: '' })).toBe('claw_r')
+    expect(eventSender({ type: 'plaza.reply', data: {}, summary: '' })).toBeNull()
+
+    const client = {
+      listCircles: vi.fn().mockResolvedValue([{ id: 'c1', name: 'family' }]),
+      getCircleMembers: vi.fn().mockResolvedValue([{ clawId: 'claw_mum' }]),
+      getRelationshipLayers: vi.fn().mockResolvedValue({ core: [{ friendId: 'claw_mum' }], casual: [{ friendId: 'claw_x' }] }),
+    }
+    const directory = await loadSenderDirectory(client as never)
+    expect(directory.get('claw_mum')).toEqual({ circles: ['family'], layer: 'core' })
+    expect(directory.get('claw_x')).toEqual({ circles: [], layer: 'casual' })
+  })
+})
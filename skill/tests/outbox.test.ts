@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { ClawBudsApiError } from '../src/client.js'
+import { sendOrQueue, drainOutbox, loadOutbox, findOutboxItem, type OutboxOperation } from '../src/outbox.js'
+
+function message(text: string): OutboxOperation {
+  return { type: 'message', message: { blocks: [{ type: 'text', text }], visibility: 'direct', toClawIds: ['claw_bob'] }, encrypt: 'off' }
+}
+
+/** Stub client whose sendMessage fails with whatever `failures` holds next */
+function buildContext(failures: unknown[]) {
+  const sendMessage = vi.fn(async (opts: { blocks: Array<{ text?: unknown }> }, _key?: string) => {
+    const failure = failures.shift()
+    if (failure) throw failure
+    return { messageId: `msg-${String(opts.blocks[0].text)}`, recipientCount: 1, recipients: ['claw_bob'], createdAt: '' }
+  })
+  const client = { sendMessage } as never
+  return { ctx: { client, profileName: 'default', identity: { clawId: 'claw_me', privateKey: '00'.repeat(32) } }, sendMessage }
+}
+
+describe('outbox', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-outbox-'))
+    process.env.CLAWBUDS_CONFIG_DIR = tmpDir
+  })
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true })
+    delete process.env.CLAWBUDS_CONFIG_DIR
+  })
+
+  it('queues only connectivity failures', async () => {
+    const { ctx, sendMessage } = buildContext([
+      undefined,
+      new TypeError('fetch failed'),
+      new ClawBudsApiError('VALIDATION_ERROR', 'bad recipient', 400),
+    ])
+
+    const sent = await sendOrQueue(ctx, message('one'))
+    expect(sent).toMatchObject({ queued: false, summary: 'Message sent! ID: msg-one, recipients: 1' })
+
+    const queued = await sendOrQueue(ctx, message('two'))
+    expect(queued.queued).toBe(true)
+    await expect(sendOrQueue(ctx, message('three'))).rejects.toThrow('bad recipient')
+
+    const items = loadOutbox('default')
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ attempts: 1, lastError: 'fetch failed', failed: false })
+    expect(queued.queued && queued.item.id).toBe(items[0].id)
+    expect(sendMessage.mock.calls[1][1]).toBe(items[0].id)
+    expect(findOutboxItem('default', items[0].id.slice(0, 8))?.id).toBe(items[0].id)
+    expect(statSync(join(tmpDir, 'outbox-default.json')).mode & 0o777).toBe(0o600)
+  })
+
+  it('drains in order with the original idempotency keys, honouring backoff', async () => {
+    const offline = buildContext([new TypeError('fetch failed'), new TypeError('fetch failed')])
+    await sendOrQueue(offline.ctx, message('a'))
+    await sendOrQueue(offline.ctx, message('b'))
+    const ids = loadOutbox('default').map((i) => i.id)
+
+    // Backoff has not expired yet
+    expect(await drainOutbox(offline.ctx)).toEqual({ sent: [], failed: [], pending: 2 })
+
+    // Still offline: stop at the first item so "b" cannot overtake "a"
+    const stillOffline = buildContext([new ClawBudsApiError('TIMEOUT', 'Request timed out', 0)])
+    expect((await drainOutbox(stillOffline.ctx, { ignoreBackoff: true })).pending).toBe(2)
+    expect(stillOffline.sendMessage).toHaveBeenCalledTimes(1)
+    expect(loadOutbox('default')[0]).toMatchObject({ attempts: 2, lastError: 'Request timed out' })
+
+    const online = buildContext([])
+    const result = await drainOutbox(online.ctx, { ignoreBackoff: true })
+    expect(result.sent.map((s) => s.summary)).toEqual([
+      'Message sent! ID: msg-a, recipients: 1',
+      'Message sent! ID: msg-b, recipients: 1',
+    ])
+    expect(online.sendMessage.mock.calls.map((c) => c[1])).toEqual(ids)
+    expect(loadOutbox('default')).toEqual([])
+  })
+
+  it('parks rejected items until retried explicitly', async () => {
+    const { ctx } = buildContext([new TypeError('fetch failed')])
+    await sendOrQueue(ctx, message('x'))
+
+    const rejecting = buildContext([new ClawBudsApiError('NOT_FRIENDS', 'Not friends', 403)])
+    const result = await drainOutbox(rejecting.ctx, { ignoreBackoff: true })
+    expect(result.failed.map((i) => i.lastError)).toEqual(['Not friends'])
+    expect(result.pending).toBe(0)
+
+    const online = buildContext([])
+    expect((await drainOutbox(online.ctx, { ignoreBackoff: true })).sent).toEqual([])
+    expect((await drainOutbox(online.ctx, { ignoreBackoff: true, includeFailed: true })).sent).toHaveLength(1)
+    expect(loadOutbox('default')).toEqual([])
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  addOwnerQueueItem,
+  listOwnerQueue,
+  loadOwnerQueue,
+  findOwnerQueueItem,
+  ackOwnerQueueItems,
+  clearOwnerQueue,
+  countPendingOwnerQueue,
+  parsePriority,
+  ownerQueuePath,
+} from '../src/owner-queue.js'
+
+describe('owner queue', () => {
+  let configDir: string
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'clawbuds-owner-queue-'))
+    process.env.CLAWBUDS_CONFIG_DIR = configDir
+  })
+
+  afterEach(() => {
+    delete process.env.CLAWBUDS_CONFIG_DIR
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it('reads items written before ids existed with stable ids', () => {
+    const legacy = {
+      type: 'question_answers',
+      priority: 1.0,
+      questionPostId: 'post_1',
+      totalReplies: 2,
+      aggregatedAnswers: [],
+      collectedAt: '2026-03-01T10:00:00Z',
+    }
+    writeFileSync(ownerQueuePath('alice'), JSON.stringify([legacy]))
+
+    const [item] = loadOwnerQueue('alice')
+    expect(item).toMatchObject({ type: 'question_answers', createdAt: '2026-03-01T10:00:00Z', ackedAt: null })
+    expect(loadOwnerQueue('alice')[0].id).toBe(item.id)
+    expect(findOwnerQueueItem('alice', item.id.slice(0, 8))?.questionPostId).toBe('post_1')
+
+    // Rewriting the file keeps the derived id
+    addOwnerQueueItem('alice', { type: 'consult' })
+    expect(loadOwnerQueue('alice')[0].id).toBe(item.id)
+  })
+
+  it('lists by priority, then age, and filters', () => {
+    const low = addOwnerQueueItem('alice', { type: 'consult', priority: 0.2 })
+    const high = addOwnerQueueItem('alice', { type: 'question_answers', priority: 1.0 })
+    const normal = addOwnerQueueItem('alice', { type: 'consult' })
+
+    expect(listOwnerQueue('alice').map((i) => i.id)).toEqual([high.id, normal.id, low.id])
+    expect(listOwnerQueue('alice', { minPriority: parsePriority('normal') }).map((i) => i.id)).toEqual([high.id, normal.id])
+    expect(listOwnerQueue('alice', { type: 'consult' }).map((i) => i.id)).toEqual([normal.id, low.id])
+    expect(() => parsePriority('urgent')).toThrow(/Invalid priority/)
+    expect(statSync(ownerQueuePath('alice')).mode & 0o777).toBe(0o600)
+  })
+
+  it('hides acknowledged items until cleared', () => {
+    const a = addOwnerQueueItem('alice', { type: 'consult' })
+    const b = addOwnerQueueItem('alice', { type: 'consult' })
+
+    expect(ackOwnerQueueItems('alice', [a.id])).toBe(1)
+    expect(ackOwnerQueueItems('alice', [a.id])).toBe(0)
+    expect(countPendingOwnerQueue('alice')).toBe(1)
+    expect(listOwnerQueue('alice').map((i) => i.id)).toEqual([b.id])
+    expect(listOwnerQueue('alice', { all: true })).toHaveLength(2)
+
+    expect(clearOwnerQueue('alice')).toBe(1)
+    expect(loadOwnerQueue('alice').map((i) => i.id)).toEqual([b.id])
+    expect(clearOwnerQueue('alice', { all: true })).toBe(1)
+    expect(loadOwnerQueue('alice')).toEqual([])
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  loadQueuedQuestions,
+  queueQuestion,
+  updateQueuedQuestions,
+  selectQueuedQuestions,
+  sameQueuedQuestion,
+  findDuplicateQuestion,
+  questionSimilarity,
+  saveTrackedQuestions,
+  loadTrackedQuestions,
+  loadOpenTrackedQuestions,
+  saveAuthoredPosts,
+  loadAuthoredPosts,
+  backfillQuestions,
+  type TrackedQuestion,
+} from '../src/plaza-questions.js'
+import type { PlazaPost } from '../src/types.js'
+
+function plazaPost(id: string, overrides: Partial<PlazaPost> = {}): PlazaPost {
+  return {
+    id,
+    fromClawId: 'claw_me',
+    messageType: 'normal',
+    blocks: [{ type: 'text', text: `text of ${id}` }],
+    topicTags: null,
+    replyToId: null,
+    discussionRootId: null,
+    replyCount: 0,
+    reactionSummary: null,
+    acceptingReplies: true,
+    replyDeadline: null,
+    edited: false,
+    editedAt: null,
+    deletedAt: null,
+    createdAt: '2026-03-01T10:00:00Z',
+    updatedAt: null,
+    ...overrides,
+  }
+}
+
+describe('plaza questions', () => {
+  let configDir: string
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'clawbuds-plaza-questions-'))
+    process.env.CLAWBUDS_CONFIG_DIR = configDir
+  })
+
+  afterEach(() => {
+    delete process.env.CLAWBUDS_CONFIG_DIR
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it('queues, selects by position and removes entries', () => {
+    // Entries written by older versions lack fields
+    writeFileSync(join(configDir, 'pending-questions-alice.json'), JSON.stringify([{ text: 'old one', queuedAt: 't0' }]))
+    expect(queueQuestion('alice', { text: 'new one', topicTags: ['x'], context: null })).toBe(2)
+
+    const queue = loadQueuedQuestions('alice')
+    expect(queue[0]).toEqual({ text: 'old one', topicTags: [], context: null, queuedAt: 't0' })
+    expect(selectQueuedQuestions(queue, ['2', '2']).map((q) => q.text)).toEqual(['new one'])
+    expect(() => selectQueuedQuestions(queue, ['3'])).toThrow(/No pending question #3/)
+    expect(() => selectQueuedQuestions(queue, ['1.5'])).toThrow()
+
+    const [first] = queue
+    updateQueuedQuestions('alice', (current) => {
+      current.splice(current.findIndex((q) => sameQueuedQuestion(q, first)), 1)
+    })
+    expect(loadQueuedQuestions('alice').map((q) => q.text)).toEqual(['new one'])
+  })
+
+  it('flags questions we already asked', () => {
+    expect(questionSimilarity('How do I tune JSONB GIN indexes?', 'how do i tune jsonb gin indexes')).toBe(1)
+    expect(questionSimilarity('', 'anything')).toBe(0)
+
+    saveTrackedQuestions('alice', [
+      { postId: 'post_1', text: 'Best Rust async runtime?', topicTags: [], replyDeadline: '2099-01-01T00:00:00Z', replies: [] },
+    ])
+    const asked = [
+      { postId: 'post_2', text: 'Which Postgres version should we run?', source: 'plaza' as const },
+      ...loadTrackedQuestions('alice').map((q) => ({ postId: q.postId, text: q.text, source: 'daemon' as const })),
+    ]
+
+    expect(findDuplicateQuestion('best rust async runtime', asked)?.question.postId).toBe('post_1')
+    expect(findDuplicateQuestion('Best Rust web framework?', asked)).toBeNull()
+  })
+
+  it('compares unspaced CJK questions by character bigrams', () => {
+    const asked = [{ postId: 'post_1', text: '数据库的索引应该怎么优化？', source: 'plaza' as const }]
+    expect(findDuplicateQuestion('请问数据库的索引应该怎么优化', asked)?.question.postId).toBe('post_1')
+    expect(findDuplicateQuestion('数据库应该怎么备份？', asked)).toBeNull()
+  })
+
+  it('expires stale state when reloading', () => {
+    const now = Date.parse('2026-03-20T00:00:00Z')
+    const question = (postId: string, replyDeadline: string): TrackedQuestion => ({ postId, text: '', topicTags: [], replyDeadline, replies: [] })
+    saveTrackedQuestions('alice', [question('open', '2026-03-21T00:00:00Z'), question('closed', '2026-03-18T00:00:00Z'), question('stale', '2026-03-01T00:00:00Z')])
+    expect(loadOpenTrackedQuestions('alice', undefined, now).map((q) => q.postId)).toEqual(['open', 'closed'])
+
+    saveAuthoredPosts('alice', [{ id: 'old', createdAt: '2026-01-01T00:00:00Z' }, { id: 'recent', createdAt: '2026-03-19T00:00:00Z' }], undefined, now)
+    expect(loadAuthoredPosts('alice').map((p) => p.id)).toEqual(['recent'])
+  })
+
+  it('back-fills open questions and replies missed while offline', async () => {
+    const now = Date.parse('2026-03-20T00:00:00Z')
+    const questions = new Map<string, TrackedQuestion>([
+      ['q1', { postId: 'q1', text: 'known', topicTags: [], replyDeadline: '2026-03-19T00:00:00Z', replies: [] }],
+    ])
+    const client = {
+      getClawId: () => 'claw_me',
+      plazaList: vi.fn().mockResolvedValue({
+        hasMore: false,
+        posts: [
+          plazaPost('q2', { messageType: 'question', replyDeadline: '2026-03-21T00:00:00Z' }),
+          plazaPost('q3', { messageType: 'question', replyDeadline: '2026-03-10T00:00:00Z' }),
+          plazaPost('q4', { messageType: 'question', replyDeadline: '2026-03-21T00:00:00Z', fromClawId: 'claw_other' }),
+        ],
+      }),
+      plazaGetDiscussion: vi.fn(async (id: string) => [
+        plazaPost(id),
+        plazaPost(`${id}-r1`, { fromClawId: 'claw_a', replyToId: id }),
+        plazaPost(`${id}-r2`, { fromClawId: 'claw_b', replyToId: `${id}-r1`, discussionRootId: id }),
+        plazaPost(`${id}-mine`, { replyToId: id }),
+      ]),
+    }
+
+    const result = await backfillQuestions(client, questions, now)
+    expect(result.discovered.map((p) => p.id)).toEqual(['q2'])
+    expect(result.replies).toBe(4)
+    expect(questions.get('q2')?.replies.map((r) => r.postId)).toEqual(['q2-r1', 'q2-r2'])
+
+    // Running again does not count the same replies twice
+    expect((await backfillQuestions(client, questions, now)).replies).toBe(0)
+    expect(questions.get('q1')?.replies).toHaveLength(2)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { loadPlugin, startPlugins, notifyAll, resolvePluginModule } from '../src/plugin-loader.js'
+import { defaultPluginTypes, type NotificationPlugin } from '../src/notification-plugin.js'
+
+describe('plugin loader', () => {
+  let configDir: string
+  let pluginDir: string
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), 'clawbuds-plugins-'))
+    pluginDir = join(configDir, 'plugins')
+    mkdirSync(pluginDir)
+  })
+
+  afterEach(() => {
+    delete process.env.CLAWBUDS_NOTIFICATION_PLUGIN
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it('reads a comma-separated plugin list from the environment', () => {
+    process.env.CLAWBUDS_NOTIFICATION_PLUGIN = 'openclaw, webhook,,openclaw'
+    expect(defaultPluginTypes()).toEqual(['openclaw', 'webhook'])
+  })
+
+  it('loads classes, objects and factories from the plugins directory', async () => {
+    writeFileSync(
+      join(pluginDir, 'klass.mjs'),
+      `export default class { name = 'klass'; async init(c) { this.channel = c.channel } async notify() {} }`,
+    )
+    mkdirSync(join(pluginDir, 'factory'))
+    writeFileSync(join(pluginDir, 'factory', 'package.json'), JSON.stringify({ type: 'module' }))
+    writeFileSync(
+      join(pluginDir, 'factory', 'index.js'),
+      `export function createPlugin() { return { name: 'factory', async init() {}, async notify() {} } }`,
+    )
+    writeFileSync(join(pluginDir, 'plugins.json'), JSON.stringify({ chat: { module: 'klass.mjs', config: { channel: '#bud' } } }))
+
+    expect((await loadPlugin('klass', configDir)).plugin.name).toBe('klass')
+    expect((await loadPlugin('factory', configDir)).plugin.name).toBe('factory')
+    expect((await loadPlugin('webhook', configDir)).plugin.name).toBe('webhook')
+
+    const { plugins, failed } = await startPlugins(['chat'], { hooksToken: 'x' }, configDir)
+    expect(failed).toEqual([])
+    expect((plugins.get('chat') as unknown as { channel: string }).channel).toBe('#bud')
+  })
+
+  it('isolates failures to the plugin that caused them', async () => {
+    writeFileSync(join(pluginDir, 'broken.mjs'), `export default { name: 'broken', async init() { throw new Error('no token') }, async notify() {} }`)
+    writeFileSync(join(pluginDir, 'empty.mjs'), `export default 42`)
+
+    const { plugins, failed } = await startPlugins(['console', 'broken', 'empty', 'missing'], {}, configDir)
+    expect([...plugins.keys()]).toEqual(['console'])
+    expect(failed.map((f) => f.name)).toEqual(['broken', 'empty', 'missing'])
+    expect(failed[0].error).toBe('no token')
+    expect(failed[1].error).toMatch(/does not export a NotificationPlugin/)
+    expect(failed[2].error).toMatch(/unknown plugin "missing"/)
+  })
+
+  it('keeps configured modules inside the plugins directory', () => {
+    writeFileSync(join(pluginDir, 'plugins.json'), JSON.stringify({ evil: { module: '../../etc/passwd' } }))
+    expect(() => resolvePluginModule('evil', configDir)).toThrow(/must be inside/)
+    expect(resolvePluginModule('../x', configDir)).toBeNull()
+  })
+
+  it('fans out even when one plugin throws', async () => {
+    const ok: NotificationPlugin = { name: 'ok', init: vi.fn(), notify: vi.fn().mockResolvedValue(undefined) }
+    const bad: NotificationPlugin = { name: 'bad', init: vi.fn(), notify: vi.fn().mockRejectedValue(new Error('down')) }
+    const failures = await notifyAll(new Map([['bad', bad], ['ok', ok]]), { type: 'friend.request', data: {}, summary: 'hi' })
+    expect(failures).toEqual([{ name: 'bad', error: 'down' }])
+    expect(ok.notify).toHaveBeenCalled()
+  })
+})
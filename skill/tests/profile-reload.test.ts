@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  planProfileReload,
+  resetReconnectedSeq,
+  watchConfigFile,
+  type ProfileEndpoint,
+} from '../src/profile-reload.js'
+import { getProfileState, saveProfileState } from '../src/config.js'
+import { createLocalServer, type LocalServer } from '../src/local-server.js'
+
+function endpoints(entries: Record<string, string>): Map<string, ProfileEndpoint> {
+  return new Map(Object.entries(entries).map(([name, clawId]) => [name, { serverUrl: 'https://clawbuds.example', clawId }]))
+}
+
+describe('profile reload', () => {
+  it('plans connects, disconnects and reconnects, leaving held profiles alone', () => {
+    const configured = endpoints({ default: 'claw_a', work: 'claw_b', added: 'claw_c', held: 'claw_d' })
+    const connected = endpoints({ default: 'claw_a', work: 'claw_old', removed: 'claw_e' })
+    expect(planProfileReload(configured, connected, new Set(['held']))).toEqual({
+      connect: ['added'],
+      disconnect: ['removed'],
+      reconnect: ['work'],
+    })
+
+    // Held while still connected (disconnect raced a reload): take it down
+    expect(planProfileReload(configured, endpoints({ held: 'claw_d' }), new Set(['held'])).disconnect).toEqual(['held'])
+  })
+
+  it('restarts the event stream of profiles that now point at another identity', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'clawbuds-reload-'))
+    process.env.CLAWBUDS_CONFIG_DIR = dir
+    try {
+      saveProfileState('work', { lastSeq: 42 })
+      saveProfileState('held', { lastSeq: 7 })
+      const plan = planProfileReload(
+        endpoints({ work: 'claw_new' }),
+        endpoints({ work: 'claw_old', held: 'claw_h' }),
+        new Set(['held']),
+      )
+      resetReconnectedSeq(plan)
+      expect(getProfileState('work').lastSeq).toBe(0)
+      expect(getProfileState('held').lastSeq).toBe(7)
+    } finally {
+      delete process.env.CLAWBUDS_CONFIG_DIR
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('notices config.json changes once they settle', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'clawbuds-reload-'))
+    let calls = 0
+    const stop = watchConfigFile(dir, () => calls++, 50)
+    try {
+      writeFileSync(join(dir, 'state.json'), '{}')
+      writeFileSync(join(dir, 'config.json'), '{"profiles":{}}')
+      writeFileSync(join(dir, 'config.json'), '{"profiles":{"a":{}}}')
+      await new Promise((resolve) => setTimeout(resolve, 300))
+      expect(calls).toBe(1)
+    } finally {
+      stop()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  describe('POST /local/daemon/*', () => {
+    let tmpDir: string
+    let server: LocalServer
+    let base: string
+    let active: Set<string>
+
+    beforeEach(async () => {
+      tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-control-'))
+      active = new Set(['default'])
+      server = createLocalServer({
+        port: 0,
+        configDir: tmpDir,
+        client: {} as never,
+        config: {
+          getCurrentProfile: () => null,
+          listProfiles: () => ['default', 'work', 'keyless'],
+          getCurrentProfileName: () => 'default',
+        },
+        getServerConnected: () => true,
+        getActiveProfiles: () => [...active],
+        authToken: 'tok',
+        control: {
+          reload: () => ({ connected: ['work'], disconnected: [], reconnected: [], failed: [] }),
+          connect: (name) => {
+            if (name === 'keyless') return 'private key not found'
+            active.add(name)
+            return null
+          },
+          disconnect: (name) => {
+            active.delete(name)
+          },
+        },
+      })
+      base = `http://127.0.0.1:${(await server.start()).port}`
+    })
+
+    afterEach(async () => {
+      await server.stop()
+      rmSync(tmpDir, { recursive: true, force: true })
+    })
+
+    const post = (path: string, token = 'tok') =>
+      fetch(`${base}${path}`, { method: 'POST', headers: { Authorization: `Bearer ${token}` } })
+
+    it('reloads, connects and disconnects with the local token', async () => {
+      expect((await post('/local/daemon/reload', 'nope')).status).toBe(401)
+
+      const reload = await post('/local/daemon/reload')
+      expect(await reload.json()).toEqual({ connected: ['work'], disconnected: [], reconnected: [], failed: [] })
+
+      const connect = await post('/local/daemon/profiles/work/connect')
+      expect(await connect.json()).toEqual({ profile: 'work', connected: true })
+      const disconnect = await post('/local/daemon/profiles/default/disconnect')
+      expect(await disconnect.json()).toEqual({ profile: 'default', connected: false })
+      expect([...active]).toEqual(['work'])
+    })
+
+    it('reports profiles that cannot be connected', async () => {
+      const keyless = await post('/local/daemon/profiles/keyless/connect')
+      expect(keyless.status).toBe(409)
+      expect(await keyless.json()).toEqual({ error: 'Cannot connect keyless: private key not found' })
+      expect((await post('/local/daemon/profiles/nope/connect')).status).toBe(404)
+      expect((await post('/local/daemon/profiles/%E0%A4%A/connect')).status).toBe(400)
+    })
+  })
+})
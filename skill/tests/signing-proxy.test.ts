@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { createServer, type Server } from 'node:http'
+import { createLocalServer, type LocalServer } from '../src/local-server.js'
+import { buildSignMessage, generateKeyPair, verify } from '../src/lib/sign-protocol.js'
+
+interface Upstream {
+  method: string
+  url: string
+  body: string
+  verified: boolean
+}
+
+describe('signing proxy', () => {
+  const keys = generateKeyPair()
+  let tmpDir: string
+  let upstream: Server
+  let received: Upstream[]
+  let local: LocalServer
+  let base: string
+
+  beforeEach(async () => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'clawbuds-proxy-'))
+    received = []
+    // Stand-in for the ClawBuds server: checks the signature like the real one
+    upstream = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        const message = buildSignMessage(req.method!, req.url!.split('?')[0], String(req.headers['x-claw-timestamp']), body)
+        const verified = req.headers['x-claw-id'] === 'claw_me' && verify(String(req.headers['x-claw-signature']), message, keys.publicKey)
+        received.push({ method: req.method!, url: req.url!, body, verified })
+        res.writeHead(verified ? 200 : 401, { 'Content-Type': 'application/json', 'Retry-After': '3' })
+        res.end(JSON.stringify(verified ? { success: true, data: { clawId: 'claw_me' } } : { success: false }))
+      })
+    })
+    await new Promise<void>((resolve) => upstream.listen(0, '127.0.0.1', resolve))
+    const addr = upstream.address()
+    const serverUrl = `http://127.0.0.1:${typeof addr === 'object' && addr ? addr.port : 0}`
+
+    local = createLocalServer({
+      port: 0,
+      configDir: tmpDir,
+      client: {} as never,
+      config: {
+        getCurrentProfile: () => null,
+        listProfiles: () => ['default', 'keyless'],
+        getCurrentProfileName: () => 'default',
+      },
+      getServerConnected: () => true,
+      getActiveProfiles: () => ['default'],
+      authToken: 'tok',
+      getSigner: (name) => (name === 'default' ? { serverUrl, clawId: 'claw_me', privateKey: keys.privateKey } : null),
+    })
+    base = `http://127.0.0.1:${(await local.start()).port}`
+  })
+
+  afterEach(async () => {
+    await local.stop()
+    upstream.close()
+    rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  const auth = { Authorization: 'Bearer tok' }
+
+  it('signs and forwards requests as the profile', async () => {
+    const get = await fetch(`${base}/local/api/v1/me?fields=all`, { headers: auth })
+    expect(get.status).toBe(200)
+    expect(await get.json()).toEqual({ success: true, data: { clawId: 'claw_me' } })
+    expect(get.headers.get('retry-after')).toBe('3')
+
+    const body = JSON.stringify({ blocks: [{ type: 'text', text: 'hi ✓' }] })
+    const post = await fetch(`${base}/local/profiles/default/api/v1/messages`, {
+      method: 'POST',
+      headers: { ...auth, 'Content-Type': 'application/json' },
+      body,
+    })
+    expect(post.status).toBe(200)
+
+    expect(received).toEqual([
+      { method: 'GET', url: '/api/v1/me?fields=all', body: '', verified: true },
+      { method: 'POST', url: '/api/v1/messages', body, verified: true },
+    ])
+  })
+
+  it('requires the local token even for reads', async () => {
+    expect((await fetch(`${base}/local/api/v1/me`)).status).toBe(401)
+    expect((await fetch(`${base}/local/api/v1/me`, { headers: { Authorization: 'Bearer nope' } })).status).toBe(401)
+    expect(received).toEqual([])
+  })
+
+  it('refuses profiles without a key and unknown profiles', async () => {
+    expect((await fetch(`${base}/local/profiles/keyless/api/v1/me`, { headers: auth })).status).toBe(503)
+    expect((await fetch(`${base}/local/profiles/other/api/v1/me`, { headers: auth })).status).toBe(404)
+  })
+
+  it('answers 502 in the server error shape when the server is unreachable', async () => {
+    await new Promise<void>((resolve) => upstream.close(() => resolve()))
+    const res = await fetch(`${base}/local/api/v1/me`, { headers: auth })
+    expect(res.status).toBe(502)
+    expect(((await res.json()) as { error: { code: string } }).error.code).toBe('SERVER_UNREACHABLE')
+  })
+})
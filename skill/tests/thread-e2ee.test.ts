@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { generateKeyPair, generateClawId } from '../src/lib/sign-protocol.js'
+import { getX25519PublicKey } from '../src/crypto/envelope.js'
+import {
+  createThreadKeys,
+  loadThreadKey,
+  sealThreadKeyFor,
+  encryptContribution,
+  decryptContributions,
+  formatContribution,
+  type ThreadKeyClient,
+} from '../src/thread-e2ee.js'
+import type { E2eeKeyProfile } from '../src/types.js'
+
+function makeIdentity() {
+  const keys = generateKeyPair()
+  return { clawId: generateClawId(keys.publicKey), privateKey: keys.privateKey }
+}
+
+function keyProfile(identity: { clawId: string; privateKey: string }): E2eeKeyProfile {
+  return {
+    clawId: identity.clawId,
+    x25519PublicKey: getX25519PublicKey(identity.privateKey),
+    keyFingerprint: '',
+    createdAt: '',
+    rotatedAt: null,
+  }
+}
+
+/** Stub server: registered E2EE keys plus the per-participant sealed thread keys */
+function buildStub(registered: Array<{ clawId: string; privateKey: string }>, threadKeys: Record<string, string>) {
+  return (me: string): ThreadKeyClient => ({
+    async batchGetE2eeKeys(clawIds) {
+      return registered.filter((i) => clawIds.includes(i.clawId)).map(keyProfile)
+    },
+    async getMyThreadKey() {
+      return threadKeys[me] ? { encryptedKey: threadKeys[me] } : null
+    },
+  })
+}
+
+describe('thread e2ee', () => {
+  it('seals the thread key for creator and participants, reporting missing keys', async () => {
+    const alice = makeIdentity()
+    const bob = makeIdentity()
+    const carol = makeIdentity()
+    const clientFor = buildStub([alice, bob], {})
+
+    const bundle = await createThreadKeys(clientFor(alice.clawId), alice, [bob.clawId, carol.clawId])
+
+    expect(Object.keys(bundle.encryptedKeys).sort()).toEqual([alice.clawId, bob.clawId].sort())
+    expect(bundle.missingKeys).toEqual([carol.clawId])
+
+    const stored = buildStub([alice, bob], bundle.encryptedKeys)
+    expect(await loadThreadKey(stored(alice.clawId), alice, 't1')).toBe(bundle.key)
+    expect(await loadThreadKey(stored(bob.clawId), bob, 't1')).toBe(bundle.key)
+    await expect(loadThreadKey(stored(carol.clawId), carol, 't1')).rejects.toThrow(/No thread key/)
+  })
+
+  it('round-trips contributions and lets an invitee decrypt after re-sealing', async () => {
+    const alice = makeIdentity()
+    const dave = makeIdentity()
+    const bundle = await createThreadKeys(buildStub([alice], {})(alice.clawId), alice, [])
+
+    const text = encryptContribution(bundle.key, 'hello thread')
+    expect(text.encryptedContent).not.toContain('hello')
+    const link = encryptContribution(bundle.key, 'https://example.com')
+
+    const keys = { ...bundle.encryptedKeys, [dave.clawId]: sealThreadKeyFor(bundle.key, alice, keyProfile(dave)) }
+    const daveKey = await loadThreadKey(buildStub([], keys)(dave.clawId), dave, 't1')
+
+    const contributions = decryptContributions(daveKey, [
+      { id: 'c1', contributorId: alice.clawId, contentType: 'text', createdAt: '', ...text },
+      { id: 'c2', contributorId: alice.clawId, contentType: 'link', createdAt: '', ...link },
+      { id: 'c3', contributorId: alice.clawId, contentType: 'text', createdAt: '', encryptedContent: 'aGk=', nonce: 'abcdef0123456789' },
+    ])
+
+    expect(contributions.map((c) => c.content)).toEqual(['hello thread', 'https://example.com', null])
+    expect(formatContribution(contributions[1])).toBe('🔗 https://example.com')
+    expect(formatContribution(contributions[2])).toBe('[encrypted — unable to decrypt]')
+  })
+})
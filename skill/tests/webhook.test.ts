@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { createServer, type Server, type IncomingMessage } from 'node:http'
+import { WebhookPlugin } from '../src/notification-plugin.js'
+import { loadDeadLetters, replayDeadLetters } from '../src/webhook-deliveries.js'
+import { signWebhookPayload, verifyWebhookSignature } from '../src/webhook-signature.js'
+
+interface Received {
+  headers: IncomingMessage['headers']
+  body: string
+}
+
+describe('webhook deliveries', () => {
+  let configDir: string
+  let server: Server
+  let url: string
+  let received: Received[]
+  /** Status codes to answer with, in order; 200 once used up */
+  let statuses: number[]
+
+  beforeEach(async () => {
+    configDir = mkdtempSync(join(tmpdir(), 'clawbuds-webhook-'))
+    process.env.CLAWBUDS_CONFIG_DIR = configDir
+    received = []
+    statuses = []
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        received.push({ headers: req.headers, body })
+        res.writeHead(statuses.shift() ?? 200)
+        res.end()
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const addr = server.address()
+    url = `http://127.0.0.1:${typeof addr === 'object' && addr ? addr.port : 0}/hook`
+  })
+
+  afterEach(() => {
+    server.close()
+    delete process.env.CLAWBUDS_CONFIG_DIR
+    rmSync(configDir, { recursive: true, force: true })
+  })
+
+  async function startPlugin(secret = 'shh'): Promise<WebhookPlugin> {
+    const plugin = new WebhookPlugin()
+    await plugin.init({ webhookUrl: url, webhookSecret: secret, webhookMaxAttempts: '3', webhookRetryBaseMs: '5' })
+    return plugin
+  }
+
+  async function settle(plugin: WebhookPlugin): Promise<void> {
+    while (plugin.pendingCount > 0) await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+
+  it('signs over timestamp and body, verifiable by receivers', async () => {
+    const plugin = await startPlugin()
+    await plugin.notify({ type: 'friend.request', data: { requesterId: 'claw_a' }, summary: 'hi' })
+
+    const [{ headers, body }] = received
+    expect(headers['x-clawbuds-secret']).toBeUndefined()
+    expect(headers['x-clawbuds-delivery']).toMatch(/^[0-9a-f-]{36}$/)
+    const check = { body, timestamp: headers['x-clawbuds-timestamp'], signature: headers['x-clawbuds-signature'] }
+    expect(verifyWebhookSignature({ secret: 'shh', ...check })).toBe(true)
+    expect(verifyWebhookSignature({ secret: 'wrong', ...check })).toBe(false)
+    expect(verifyWebhookSignature({ secret: 'shh', ...check, body: body + ' ' })).toBe(false)
+    expect(verifyWebhookSignature({ secret: 'shh', ...check, now: Date.now() + 600_000 })).toBe(false)
+    expect(signWebhookPayload('k', 1, '{}')).toMatch(/^sha256=[0-9a-f]{64}$/)
+  })
+
+  it('retries transient failures with the same delivery id', async () => {
+    statuses = [503, 500]
+    const plugin = await startPlugin()
+    await expect(plugin.notify({ type: 'friend.request', data: {}, summary: 'hi' })).rejects.toThrow('HTTP 503, retrying in the background')
+    await settle(plugin)
+
+    expect(received).toHaveLength(3)
+    expect(new Set(received.map((r) => r.headers['x-clawbuds-delivery'])).size).toBe(1)
+    expect(loadDeadLetters()).toEqual([])
+  })
+
+  it('dead-letters undeliverable events and replays them', async () => {
+    statuses = [400, 503, 503, 503]
+    const plugin = await startPlugin()
+    await expect(plugin.notify({ type: 'friend.request', data: {}, summary: 'rejected' })).rejects.toThrow(/^HTTP 400$/)
+    await expect(plugin.notify({ type: 'friend.accepted', data: {}, summary: 'server down' })).rejects.toThrow('HTTP 503')
+    await settle(plugin)
+
+    // 400 is permanent (1 attempt); 503 gives up after 3
+    expect(received).toHaveLength(4)
+    const letters = loadDeadLetters()
+    expect(letters.map((l) => [l.payload.summary, l.attempts, l.lastError])).toEqual([
+      ['rejected', 1, 'HTTP 400'],
+      ['server down', 3, 'HTTP 503'],
+    ])
+
+    expect((await replayDeadLetters('', [letters[0].id])).failed[0].error).toMatch(/CLAWBUDS_WEBHOOK_SECRET/)
+    const replay = await replayDeadLetters('shh')
+    expect(replay.delivered).toHaveLength(2)
+    expect(received.at(-1)?.headers['x-clawbuds-delivery']).toBe(letters[1].id)
+    expect(loadDeadLetters()).toEqual([])
+  })
+
+  it('keeps pending retries as dead letters on shutdown', async () => {
+    statuses = [503]
+    const plugin = new WebhookPlugin()
+    await plugin.init({ webhookUrl: url, webhookRetryBaseMs: '60000' })
+    await expect(plugin.notify({ type: 'friend.request', data: {}, summary: 'later' })).rejects.toThrow('HTTP 503')
+    expect(plugin.pendingCount).toBe(1)
+
+    await plugin.shutdown()
+    expect(loadDeadLetters().map((l) => [l.payload.summary, l.signed])).toEqual([['later', false]])
+  })
+})
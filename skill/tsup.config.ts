@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/cli.ts', 'src/daemon.ts'],
+  entry: ['src/cli.ts', 'src/daemon.ts', 'src/webhook-signature.ts'],
   format: ['esm'],
   target: 'node22',
   outDir: 'dist',
@@ -14,6 +14,7 @@ import PearlsPage from '@/pages/PearlsPage'
 import DraftsPage from '@/pages/DraftsPage'
 import ReflexesPage from '@/pages/ReflexesPage'
 import CarapacePage from '@/pages/CarapacePage'
+import OwnerQueuePage from '@/pages/OwnerQueuePage'
 import PatternHealthPage from '@/pages/PatternHealthPage'
 import PlazaPage from '@/pages/PlazaPage'
 
@@ -50,6 +51,7 @@ export default function App() {
           <Route path="/drafts" element={<DraftsPage />} />
           <Route path="/reflexes" element={<ReflexesPage />} />
           <Route path="/carapace" element={<CarapacePage />} />
+          <Route path="/owner-queue" element={<OwnerQueuePage />} />
           <Route path="/pattern-health" element={<PatternHealthPage />} />
         </Route>
 
@@ -64,6 +64,11 @@ describe('AppLayout CLAW MIND navigation', () => {
     expect(screen.getByText('Carapace')).toBeInTheDocument()
   })
 
+  it('should include Owner Queue nav link', () => {
+    renderLayout()
+    expect(screen.getByText('Owner Queue')).toBeInTheDocument()
+  })
+
   it('should include Pattern Health nav link', () => {
     renderLayout()
     expect(screen.getByText('Pattern Health')).toBeInTheDocument()
@@ -14,9 +14,13 @@ vi.mock('../lib/local-api-client')
 
 const mockLocalClient = {
   getStatus: vi.fn().mockResolvedValue({ running: true, serverConnected: true, activeProfiles: ['default'] }),
+  getProfiles: vi.fn().mockResolvedValue({ profiles: ['default'], current: 'default' }),
   getCarapace: vi.fn().mockResolvedValue('# Carapace\n\n> Test rule'),
   putCarapace: vi.fn().mockResolvedValue({ version: 2, createdAt: '2026-02-22T00:00:00Z' }),
   syncCarapace: vi.fn().mockResolvedValue(3),
+  isPaired: vi.fn().mockReturnValue(true),
+  pair: vi.fn().mockResolvedValue(true),
+  unpair: vi.fn(),
 }
 
 function renderPage() {
@@ -38,6 +42,9 @@ describe('CarapacePage', () => {
     mockLocalClient.getCarapace.mockResolvedValue('# Carapace\n\n> Test rule')
     mockLocalClient.putCarapace.mockResolvedValue({ version: 2, createdAt: '2026-02-22T00:00:00Z' })
     mockLocalClient.syncCarapace.mockResolvedValue(3)
+    mockLocalClient.getProfiles.mockResolvedValue({ profiles: ['default'], current: 'default' })
+    mockLocalClient.isPaired.mockReturnValue(true)
+    mockLocalClient.pair.mockResolvedValue(true)
   })
 
   afterEach(() => {
@@ -97,4 +104,39 @@ describe('CarapacePage', () => {
       expect(screen.getByText(/daemon not available/i)).toBeInTheDocument()
     })
   })
+
+  it('should ask for the daemon token when automatic pairing fails', async () => {
+    mockLocalClient.isPaired.mockReturnValue(false)
+    mockLocalClient.pair.mockResolvedValueOnce(false).mockResolvedValueOnce(true)
+    renderPage()
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText('Daemon token')).toBeInTheDocument()
+    })
+    fireEvent.change(screen.getByPlaceholderText('Daemon token'), { target: { value: 'abc' } })
+    fireEvent.click(screen.getByText('Pair'))
+    await waitFor(() => {
+      expect(mockLocalClient.pair).toHaveBeenLastCalledWith('abc')
+      expect(screen.queryByPlaceholderText('Daemon token')).not.toBeInTheDocument()
+    })
+  })
+
+  it('should switch the edited profile from the picker', async () => {
+    mockLocalClient.getProfiles.mockResolvedValue({ profiles: ['default', 'work'], current: 'default' })
+    mockLocalClient.getCarapace.mockImplementation(async (profile?: string) =>
+      profile === 'work' ? '# Work rules' : '# Carapace\n\n> Test rule',
+    )
+    renderPage()
+    await waitFor(() => {
+      expect(screen.getByLabelText('Profile')).toBeInTheDocument()
+    })
+    fireEvent.change(screen.getByLabelText('Profile'), { target: { value: 'work' } })
+    await waitFor(() => {
+      expect(screen.getByText(/# Work rules/)).toBeInTheDocument()
+    })
+    fireEvent.change(screen.getByDisplayValue('# Work rules'), { target: { value: '# Work rules v2' } })
+    fireEvent.click(screen.getByText('Save'))
+    await waitFor(() => {
+      expect(mockLocalClient.putCarapace).toHaveBeenCalledWith('# Work rules v2', 'manual', 'work')
+    })
+  })
 })
@@ -3,9 +3,11 @@ import { render, screen, waitFor, cleanup, fireEvent } from '@testing-library/re
 import { BrowserRouter } from 'react-router'
 import InboxPage from '../pages/InboxPage'
 import * as api from '../lib/api-client'
+import * as localApiClientModule from '../lib/local-api-client'
 import type { InboxEntry } from '../types/api'
 
 vi.mock('../lib/api-client')
+vi.mock('../lib/local-api-client')
 vi.mock('../pages/ConversationDetail', () => ({
   default: ({ entry, onAck }: { entry: InboxEntry; onAck: (id: string) => void }) => (
     <div data-testid="conversation-detail">
@@ -42,10 +44,16 @@ function renderPage() {
   )
 }
 
+const mockLocalClient = {
+  getCachedInbox: vi.fn(),
+}
+
 describe('InboxPage', () => {
   beforeEach(() => {
     vi.mocked(api.getInbox).mockResolvedValue(mockEntries)
     vi.mocked(api.ackInbox).mockResolvedValue({ acknowledged: 1 })
+    mockLocalClient.getCachedInbox.mockResolvedValue(null)
+    vi.mocked(localApiClientModule.createLocalApiClient).mockReturnValue(mockLocalClient as never)
   })
 
   afterEach(() => {
@@ -138,6 +146,24 @@ describe('InboxPage', () => {
     })
   })
 
+  it('should show the daemon cache when the server is unreachable', async () => {
+    vi.mocked(api.getInbox).mockRejectedValue(new Error('Network failure'))
+    mockLocalClient.getCachedInbox.mockResolvedValue({
+      items: [mockEntries[0]],
+      total: 1,
+      offset: 0,
+      limit: 50,
+      cachedAt: '2025-06-03T00:00:00Z',
+    })
+    renderPage()
+    await waitFor(() => {
+      expect(screen.getByText('#101')).toBeInTheDocument()
+    })
+    expect(mockLocalClient.getCachedInbox).toHaveBeenCalledWith({ limit: 50 })
+    expect(screen.getByText(/^Offline — cached as of/)).toBeInTheDocument()
+    expect(screen.queryByText('Network failure')).not.toBeInTheDocument()
+  })
+
   it('should display fallback error message for non-Error throws', async () => {
     vi.mocked(api.getInbox).mockRejectedValue('something went wrong')
     renderPage()
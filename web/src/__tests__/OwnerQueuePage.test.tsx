@@ -0,0 +1,121 @@
+/**
+ * Tests for web/src/pages/OwnerQueuePage.tsx
+ * Owner Queue page (uses local API)
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, waitFor, cleanup, fireEvent } from '@testing-library/react'
+import { BrowserRouter } from 'react-router'
+import OwnerQueuePage from '../pages/OwnerQueuePage'
+import * as localApiClientModule from '../lib/local-api-client'
+
+vi.mock('../lib/local-api-client')
+
+const answers = {
+  id: 'q-answers',
+  type: 'question_answers',
+  priority: 1.0,
+  createdAt: '2026-03-01T10:00:00Z',
+  ackedAt: null,
+  questionPostId: 'post_1',
+  topicTags: ['postgres'],
+  totalReplies: 3,
+  aggregatedAnswers: [{ text: 'Use a GIN index', count: 2, fromClawIds: ['claw_a', 'claw_b'] }],
+}
+
+const mockLocalClient = {
+  getProfiles: vi.fn(),
+  getOwnerQueue: vi.fn(),
+  ackOwnerQueue: vi.fn(),
+  clearOwnerQueue: vi.fn(),
+}
+
+function renderPage() {
+  return render(
+    <BrowserRouter>
+      <OwnerQueuePage />
+    </BrowserRouter>,
+  )
+}
+
+describe('OwnerQueuePage', () => {
+  beforeEach(() => {
+    vi.mocked(localApiClientModule.createLocalApiClient).mockReturnValue(mockLocalClient as never)
+    mockLocalClient.getProfiles.mockResolvedValue({ profiles: ['default'], current: 'default' })
+    mockLocalClient.getOwnerQueue.mockResolvedValue([answers])
+    mockLocalClient.ackOwnerQueue.mockResolvedValue(1)
+    mockLocalClient.clearOwnerQueue.mockResolvedValue(1)
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+  })
+
+  it('should show aggregated answers with their priority', async () => {
+    renderPage()
+    await waitFor(() => {
+      expect(screen.getByText('Owner Queue')).toBeInTheDocument()
+      expect(screen.getByText('Use a GIN index')).toBeInTheDocument()
+      expect(screen.getByText('High')).toBeInTheDocument()
+    })
+    expect(mockLocalClient.getOwnerQueue).toHaveBeenCalledWith({ all: false, priority: undefined }, 'default')
+  })
+
+  it('should show agreement and other wordings of clustered answers', async () => {
+    mockLocalClient.getOwnerQueue.mockResolvedValue([
+      {
+        ...answers,
+        consensus: 0.67,
+        aggregatedAnswers: [
+          {
+            text: 'Use a GIN index',
+            count: 2,
+            fromClawIds: ['claw_a', 'claw_b'],
+            agreement: 2,
+            dissent: 1,
+            variants: ['A GIN index on the column helps'],
+          },
+        ],
+      },
+    ])
+    renderPage()
+    await waitFor(() => {
+      expect(screen.getByText('67% consensus')).toBeInTheDocument()
+      expect(screen.getByText('2 agree · 1 differ')).toBeInTheDocument()
+      expect(screen.getByText('A GIN index on the column helps')).toBeInTheDocument()
+    })
+  })
+
+  it('should acknowledge an item and reload', async () => {
+    renderPage()
+    await waitFor(() => {
+      expect(screen.getByText('Acknowledge')).toBeInTheDocument()
+    })
+    mockLocalClient.getOwnerQueue.mockResolvedValueOnce([])
+    fireEvent.click(screen.getByText('Acknowledge'))
+    await waitFor(() => {
+      expect(mockLocalClient.ackOwnerQueue).toHaveBeenCalledWith(['q-answers'], 'default')
+      expect(screen.getByText('Nothing waiting for you.')).toBeInTheDocument()
+    })
+  })
+
+  it('should filter by priority', async () => {
+    renderPage()
+    await waitFor(() => {
+      expect(screen.getByLabelText('Priority')).toBeInTheDocument()
+    })
+    fireEvent.change(screen.getByLabelText('Priority'), { target: { value: 'high' } })
+    await waitFor(() => {
+      expect(mockLocalClient.getOwnerQueue).toHaveBeenLastCalledWith({ all: false, priority: 'high' }, 'default')
+    })
+  })
+
+  it('should show fallback message when daemon not available', async () => {
+    mockLocalClient.getProfiles.mockResolvedValueOnce(null)
+    mockLocalClient.getOwnerQueue.mockResolvedValueOnce(null)
+    renderPage()
+    await waitFor(() => {
+      expect(screen.getByText(/daemon not available/i)).toBeInTheDocument()
+    })
+  })
+})
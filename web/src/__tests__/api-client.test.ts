@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { setCredentials, clearCredentials, register, getMe, getStats, getInbox } from '../lib/api-client'
+import { setCredentials, setDaemonProxy, clearCredentials, register, getMe, getStats, getInbox } from '../lib/api-client'
 import { generateKeyPair, generateClawId } from '../lib/sign-protocol.js'
 
 const mockFetch = vi.fn()
@@ -85,6 +85,29 @@ describe('api-client', () => {
     })
   })
 
+  describe('daemon proxy', () => {
+    it('should send unsigned requests to /local/api with the daemon token', async () => {
+      setDaemonProxy('http://127.0.0.1:7878/', 'tok')
+      mockSuccess({ clawId: 'claw_d', displayName: 'Bot', publicKey: 'pk' })
+
+      await getMe()
+
+      const [url, opts] = mockFetch.mock.calls[0]
+      expect(url).toBe('http://127.0.0.1:7878/local/api/v1/me')
+      expect(opts.headers.Authorization).toBe('Bearer tok')
+      expect(opts.headers['X-Claw-Signature']).toBeUndefined()
+    })
+
+    it('should leave unauthenticated requests alone', async () => {
+      setDaemonProxy('http://127.0.0.1:7878', 'tok')
+      mockSuccess({ clawId: 'claw_d', displayName: 'Bot', publicKey: 'pk' })
+
+      await register('pk', 'Bot')
+
+      expect(mockFetch.mock.calls[0][0]).toBe('/api/v1/register')
+    })
+  })
+
   describe('error handling', () => {
     it('should throw ApiError on failure', async () => {
       const keyPair = generateKeyPair()
@@ -122,6 +122,68 @@ describe('auth.store', () => {
     })
   })
 
+  describe('loginWithDaemon', () => {
+    it('should pair with the daemon and sign in without a private key', async () => {
+      mockSuccess({ clawId: 'claw_daemon', displayName: 'Daemon Bot', publicKey: 'pk' })
+      localStorage.setItem('clawbuds.localApiToken', 'tok')
+
+      await useAuthStore.getState().loginWithDaemon()
+
+      const state = useAuthStore.getState()
+      expect(state.isAuthenticated).toBe(true)
+      expect(state.daemonBacked).toBe(true)
+      expect(state.clawId).toBe('claw_daemon')
+      expect(state.privateKey).toBeNull()
+      expect(mockFetch.mock.calls[0][0]).toBe('http://127.0.0.1:7878/local/api/v1/me')
+      expect(localStorage.getItem('clawbuds.authMode')).toBe('daemon')
+
+      useAuthStore.getState().logout()
+      expect(localStorage.getItem('clawbuds.authMode')).toBeNull()
+      localStorage.clear()
+    })
+
+    it('should report a daemon that cannot be paired with', async () => {
+      localStorage.clear()
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+
+      await useAuthStore.getState().loginWithDaemon()
+
+      const state = useAuthStore.getState()
+      expect(state.isAuthenticated).toBe(false)
+      expect(state.error).toMatch(/pair with the local daemon/)
+    })
+
+    it('should stay in daemon mode while the daemon is unreachable', async () => {
+      localStorage.clear()
+      localStorage.setItem('clawbuds.authMode', 'daemon')
+      localStorage.setItem('clawbuds.localApiToken', 'tok')
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+
+      await useAuthStore.getState().loginWithDaemon()
+
+      expect(useAuthStore.getState().isAuthenticated).toBe(false)
+      expect(localStorage.getItem('clawbuds.authMode')).toBe('daemon')
+      localStorage.clear()
+    })
+
+    it('should leave daemon mode when the sign-in is rejected', async () => {
+      localStorage.clear()
+      localStorage.setItem('clawbuds.authMode', 'daemon')
+      localStorage.setItem('clawbuds.localApiToken', 'tok')
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({ success: false, error: { code: 'UNAUTHORIZED', message: 'Invalid token' } }),
+      })
+
+      await useAuthStore.getState().loginWithDaemon()
+
+      expect(useAuthStore.getState().error).toBe('Invalid token')
+      expect(localStorage.getItem('clawbuds.authMode')).toBeNull()
+      localStorage.clear()
+    })
+  })
+
   describe('logout', () => {
     it('should clear state but keep IndexedDB', async () => {
       mockSuccess({ clawId: 'claw_test', displayName: 'Bot', publicKey: 'pk' })
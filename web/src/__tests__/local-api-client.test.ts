@@ -10,6 +10,7 @@ const mockFetch = vi.fn()
 
 beforeEach(() => {
   vi.stubGlobal('fetch', mockFetch)
+  localStorage.clear()
 })
 
 afterEach(() => {
@@ -28,7 +29,7 @@ describe('createLocalApiClient', () => {
   let client: LocalApiClient
 
   beforeEach(() => {
-    client = createLocalApiClient({ baseUrl: 'http://127.0.0.1:7878' })
+    client = createLocalApiClient({ baseUrl: 'http://127.0.0.1:7878', token: 'tok' })
   })
 
   // ─── getStatus ─────────────────────────────────────────────────────────────
@@ -105,9 +106,17 @@ describe('createLocalApiClient', () => {
       const [url, opts] = mockFetch.mock.calls[0] as [string, RequestInit]
       expect(url).toBe('http://127.0.0.1:7878/local/carapace')
       expect(opts.method).toBe('PUT')
+      expect((opts.headers as Record<string, string>).Authorization).toBe('Bearer tok')
       expect(JSON.parse(opts.body as string)).toMatchObject({ content: '# Updated', reason: 'manual' })
     })
 
+    it('should forget the token when the daemon rejects it', async () => {
+      mockFetch.mockResolvedValueOnce(makeResponse({ error: 'Unauthorized' }, 401))
+      const result = await client.putCarapace('# test', 'manual')
+      expect(result).toBeNull()
+      expect(client.isPaired()).toBe(false)
+    })
+
     it('should return null on failure', async () => {
       mockFetch.mockRejectedValueOnce(new Error('fail'))
       const result = await client.putCarapace('# test', 'manual')
@@ -117,6 +126,23 @@ describe('createLocalApiClient', () => {
 
   // ─── syncCarapace ──────────────────────────────────────────────────────────
 
+  describe('profile-scoped calls', () => {
+    it('should route to /local/profiles/:name/* when a profile is given', async () => {
+      mockFetch.mockResolvedValueOnce(makeResponse({ content: '# Work' }))
+      expect(await client.getCarapace('work')).toBe('# Work')
+      expect(mockFetch.mock.calls[0][0]).toBe('http://127.0.0.1:7878/local/profiles/work/carapace')
+
+      mockFetch.mockResolvedValueOnce(makeResponse({ version: 6 }))
+      expect(await client.syncCarapace('work')).toBe(6)
+      expect(mockFetch.mock.calls[1][0]).toBe('http://127.0.0.1:7878/local/profiles/work/carapace/sync')
+    })
+
+    it('should list daemon profiles', async () => {
+      mockFetch.mockResolvedValueOnce(makeResponse({ profiles: ['default', 'work'], current: 'default' }))
+      expect(await client.getProfiles()).toEqual({ profiles: ['default', 'work'], current: 'default' })
+    })
+  })
+
   describe('syncCarapace()', () => {
     it('should return version on success', async () => {
       mockFetch.mockResolvedValueOnce(makeResponse({ version: 5 }))
@@ -134,4 +160,105 @@ describe('createLocalApiClient', () => {
       expect(result).toBeNull()
     })
   })
+
+  // ─── owner queue ───────────────────────────────────────────────────────────
+
+  describe('owner queue', () => {
+    it('should list items with filters for a profile', async () => {
+      const item = { id: 'q1', type: 'consult', priority: 0.5, createdAt: '2026-03-01T00:00:00Z', ackedAt: null }
+      mockFetch.mockResolvedValueOnce(makeResponse({ items: [item] }))
+      expect(await client.getOwnerQueue({ all: true, priority: 'high' }, 'work')).toEqual([item])
+      expect(mockFetch.mock.calls[0][0]).toBe('http://127.0.0.1:7878/local/profiles/work/owner-queue?all=1&priority=high')
+    })
+
+    it('should acknowledge and clear with the token', async () => {
+      mockFetch.mockResolvedValueOnce(makeResponse({ acked: 2 })).mockResolvedValueOnce(makeResponse({ removed: 2 }))
+      expect(await client.ackOwnerQueue(['q1', 'q2'])).toBe(2)
+      expect(await client.clearOwnerQueue()).toBe(2)
+
+      const [ackUrl, ackOpts] = mockFetch.mock.calls[0] as [string, RequestInit]
+      expect(ackUrl).toBe('http://127.0.0.1:7878/local/owner-queue/ack')
+      expect(JSON.parse(ackOpts.body as string)).toEqual({ ids: ['q1', 'q2'] })
+      const [clearUrl, clearOpts] = mockFetch.mock.calls[1] as [string, RequestInit]
+      expect(clearUrl).toBe('http://127.0.0.1:7878/local/owner-queue')
+      expect(clearOpts.method).toBe('DELETE')
+      expect((clearOpts.headers as Record<string, string>).Authorization).toBe('Bearer tok')
+    })
+
+    it('should return null when the daemon is unavailable', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('fail'))
+      expect(await client.getOwnerQueue()).toBeNull()
+    })
+  })
+
+  // ─── event stream ──────────────────────────────────────────────────────────
+
+  describe('cached data', () => {
+    it('should page through the daemon mirror', async () => {
+      const page = { items: [{ seq: 7 }], total: 1, offset: 0, limit: 20, cachedAt: '2025-06-03T00:00:00.000Z' }
+      mockFetch.mockResolvedValueOnce(makeResponse(page))
+      expect(await client.getCachedInbox({ limit: 20, afterSeq: 5 })).toEqual(page)
+      expect(mockFetch.mock.calls[0][0]).toBe('http://127.0.0.1:7878/local/inbox?limit=20&afterSeq=5')
+
+      mockFetch.mockResolvedValueOnce(makeResponse(page))
+      await client.getCachedGroupMessages('grp 1', { offset: 20 }, 'work')
+      expect(mockFetch.mock.calls[1][0]).toBe('http://127.0.0.1:7878/local/profiles/work/groups/grp%201/messages?offset=20')
+    })
+
+    it('should return null when the daemon is unavailable', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      expect(await client.getCachedFriends()).toBeNull()
+    })
+  })
+
+  describe('eventsUrl()', () => {
+    it('should build the stream URL with filters', () => {
+      expect(client.eventsUrl()).toBe('http://127.0.0.1:7878/local/events')
+      expect(client.eventsUrl({ clawId: 'claw_a', types: ['message.new', 'friend.*'] })).toBe(
+        'http://127.0.0.1:7878/local/events?clawId=claw_a&types=message.new%2Cfriend.*',
+      )
+      expect(client.eventsUrl({ profile: 'work' })).toBe('http://127.0.0.1:7878/local/profiles/work/events')
+    })
+  })
+
+  // ─── pairing ───────────────────────────────────────────────────────────────
+
+  describe('pair()', () => {
+    it('should fetch, verify and store the token when served by the daemon', async () => {
+      const unpaired = createLocalApiClient({ baseUrl: 'http://127.0.0.1:7878' })
+      expect(unpaired.isPaired()).toBe(false)
+
+      mockFetch
+        .mockResolvedValueOnce(makeResponse({ token: 'from-daemon' }))
+        .mockResolvedValueOnce(makeResponse({ ok: true }))
+      expect(await unpaired.pair()).toBe(true)
+      expect(unpaired.isPaired()).toBe(true)
+
+      const [url, opts] = mockFetch.mock.calls[1] as [string, RequestInit]
+      expect(url).toBe('http://127.0.0.1:7878/local/auth/verify')
+      expect((opts.headers as Record<string, string>).Authorization).toBe('Bearer from-daemon')
+
+      // A new client picks the stored token up
+      expect(createLocalApiClient().isPaired()).toBe(true)
+    })
+
+    it('should reject a pasted token the daemon does not accept', async () => {
+      const unpaired = createLocalApiClient({ baseUrl: 'http://127.0.0.1:7878' })
+      mockFetch.mockResolvedValueOnce(makeResponse({ error: 'Unauthorized' }, 401))
+      expect(await unpaired.pair('wrong')).toBe(false)
+      expect(unpaired.isPaired()).toBe(false)
+    })
+
+    it('should pair on demand before the first mutating call', async () => {
+      const unpaired = createLocalApiClient({ baseUrl: 'http://127.0.0.1:7878' })
+      mockFetch
+        .mockResolvedValueOnce(makeResponse({ token: 'auto' }))
+        .mockResolvedValueOnce(makeResponse({ ok: true }))
+        .mockResolvedValueOnce(makeResponse({ version: 4 }))
+      expect(await unpaired.syncCarapace()).toBe(4)
+
+      const [, opts] = mockFetch.mock.calls[2] as [string, RequestInit]
+      expect((opts.headers as Record<string, string>).Authorization).toBe('Bearer auto')
+    })
+  })
 })
@@ -1,13 +1,17 @@
 import { useEffect, useRef, useCallback } from 'react'
 import { buildSignMessage, sign } from '../lib/sign-protocol.js'
+import { createLocalApiClient } from '../lib/local-api-client.js'
 import { useAuthStore } from '@/stores/auth.store'
 import { useRealtimeStore } from '@/stores/realtime.store'
 
 const MAX_RECONNECT_DELAY = 30_000
 const INITIAL_RECONNECT_DELAY = 1_000
+/** Failed reconnects to the daemon's event stream before switching to /ws */
+const MAX_DAEMON_RETRIES = 3
 
 export function useWebSocket() {
   const wsRef = useRef<WebSocket | null>(null)
+  const eventSourceRef = useRef<EventSource | null>(null)
   const reconnectTimerRef = useRef<ReturnType<typeof setTimeout>>()
   const reconnectDelayRef = useRef(INITIAL_RECONNECT_DELAY)
 
@@ -74,10 +78,56 @@ export function useWebSocket() {
     }
   }, [clawId, privateKey, isAuthenticated, setConnected, pushEvent])
 
+  // The daemon's /local/events carries the same events without a signed handshake.
+  // /ws is used when no daemon runs, it is not logged in as this claw, or it goes away.
+  const connectDaemon = useCallback(() => {
+    if (!clawId || !isAuthenticated) return
+    if (typeof EventSource === 'undefined') {
+      connect()
+      return
+    }
+    if (eventSourceRef.current) return
+
+    const source = new EventSource(createLocalApiClient().eventsUrl({ clawId }))
+    eventSourceRef.current = source
+    let opened = false
+    let failures = 0
+
+    source.onopen = () => {
+      opened = true
+      failures = 0
+      setConnected(true)
+    }
+
+    source.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data)
+        // Missed events cannot be replayed; pages refetch on their own
+        if (data.type === 'stream.gap') return
+        pushEvent(data)
+      } catch {
+        // ignore malformed messages
+      }
+    }
+
+    source.onerror = () => {
+      setConnected(false)
+      // Once open, the browser reconnects by itself and resumes with Last-Event-ID
+      if (opened && source.readyState === EventSource.CONNECTING && ++failures < MAX_DAEMON_RETRIES) return
+      source.close()
+      if (eventSourceRef.current === source) eventSourceRef.current = null
+      connect()
+    }
+  }, [clawId, isAuthenticated, setConnected, pushEvent, connect])
+
   const disconnect = useCallback(() => {
     if (reconnectTimerRef.current) {
       clearTimeout(reconnectTimerRef.current)
     }
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
     if (wsRef.current) {
       wsRef.current.close()
       wsRef.current = null
@@ -87,7 +137,7 @@ export function useWebSocket() {
 
   useEffect(() => {
     if (isAuthenticated) {
-      connect()
+      connectDaemon()
     } else {
       disconnect()
     }
@@ -95,7 +145,7 @@ export function useWebSocket() {
     return () => {
       disconnect()
     }
-  }, [isAuthenticated, connect, disconnect])
+  }, [isAuthenticated, connectDaemon, disconnect])
 
   return { isConnected }
 }
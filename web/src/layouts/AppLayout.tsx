@@ -16,6 +16,7 @@ const mindNavItems = [
   { to: '/drafts', label: 'Drafts' },
   { to: '/reflexes', label: 'Reflexes' },
   { to: '/carapace', label: 'Carapace' },
+  { to: '/owner-queue', label: 'Owner Queue' },
   { to: '/pattern-health', label: 'Pattern Health' },
 ]
 
@@ -57,15 +57,24 @@ export class ApiError extends Error {
 
 let _clawId: string | null = null
 let _privateKey: string | null = null
+/** Set in daemon-backed mode: the daemon signs requests on /local/api/* */
+let _daemonProxy: { baseUrl: string; token: string } | null = null
 
 export function setCredentials(clawId: string, privateKey: string) {
   _clawId = clawId
   _privateKey = privateKey
+  _daemonProxy = null
+}
+
+/** Send authenticated requests through the daemon's signing proxy instead of signing here */
+export function setDaemonProxy(baseUrl: string, token: string) {
+  _daemonProxy = { baseUrl: baseUrl.replace(/\/+$/, ''), token }
 }
 
 export function clearCredentials() {
   _clawId = null
   _privateKey = null
+  _daemonProxy = null
 }
 
 async function request<T>(
@@ -81,7 +90,11 @@ async function request<T>(
     headers['Content-Type'] = 'application/json'
   }
 
-  if (auth) {
+  let url = BASE_URL + path
+  if (auth && _daemonProxy) {
+    url = `${_daemonProxy.baseUrl}/local${path}`
+    headers.Authorization = `Bearer ${_daemonProxy.token}`
+  } else if (auth) {
     if (!_clawId || !_privateKey) {
       throw new Error('Not authenticated: clawId and privateKey required')
     }
@@ -94,7 +107,7 @@ async function request<T>(
     headers['X-Claw-Signature'] = signature
   }
 
-  const res = await fetch(BASE_URL + path, {
+  const res = await fetch(url, {
     method,
     headers,
     body: bodyStr || undefined,
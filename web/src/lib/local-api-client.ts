@@ -5,10 +5,15 @@
  * Requests are made to 127.0.0.1 (daemon local gateway).
  * All calls have a 500ms timeout and return null on any failure
  * so callers can gracefully degrade when the daemon is unavailable.
+ *
+ * Mutating routes need the daemon's local token. The bundled SPA pairs
+ * automatically (the daemon hands the token to same-origin pages); other UIs
+ * pair with the token printed by `clawbuds daemon token`.
  */
 
 const DEFAULT_BASE_URL = 'http://127.0.0.1:7878'
 const TIMEOUT_MS = 500
+const TOKEN_STORAGE_KEY = 'clawbuds.localApiToken'
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -18,25 +23,109 @@ export interface DaemonStatus {
   activeProfiles: string[]
 }
 
+export interface LocalProfiles {
+  profiles: string[]
+  /** The daemon's default profile */
+  current: string
+}
+
 export interface CarapacePushResult {
   version: number
   createdAt: string
 }
 
+export interface OwnerQueueItem {
+  id: string
+  /** question_answers, consult, ... */
+  type: string
+  /** 0..1, higher first */
+  priority: number
+  createdAt: string
+  ackedAt: string | null
+  /** Type-specific fields (questionPostId, aggregatedAnswers, ...) */
+  [key: string]: unknown
+}
+
+export interface OwnerQueueQuery {
+  /** Include acknowledged items */
+  all?: boolean
+  /** high, normal, low or 0-1 */
+  priority?: string
+}
+
+export interface EventStreamQuery {
+  /** Only the daemon profile logged in as this claw (the daemon answers 404 when it has none) */
+  clawId?: string
+  /** Only this profile */
+  profile?: string
+  /** Exact types or prefixes such as "friend.*" */
+  types?: string[]
+}
+
+export interface MirrorPage<T> {
+  items: T[]
+  /** Matching items before paging */
+  total: number
+  offset: number
+  limit: number
+  /** When the daemon's copy last changed; null when it has nothing cached */
+  cachedAt: string | null
+}
+
+export interface MirrorQuery {
+  limit?: number
+  offset?: number
+  /** Inbox only: entries after this seq */
+  afterSeq?: number
+}
+
 export interface LocalApiClient {
+  /** The daemon's gateway, e.g. http://127.0.0.1:7878 */
+  readonly baseUrl: string
   /** Returns daemon status, or null if unreachable */
   getStatus(): Promise<DaemonStatus | null>
-  /** Returns carapace.md content, or null if unavailable */
-  getCarapace(): Promise<string | null>
+  /** Returns profile names known to the daemon, or null if unreachable */
+  getProfiles(): Promise<LocalProfiles | null>
+  /** Returns carapace.md content (default profile unless given), or null if unavailable */
+  getCarapace(profile?: string): Promise<string | null>
   /** Writes carapace and pushes snapshot. Returns result or null on failure */
-  putCarapace(content: string, reason: string): Promise<CarapacePushResult | null>
+  putCarapace(content: string, reason: string, profile?: string): Promise<CarapacePushResult | null>
   /** Syncs carapace from server. Returns new version number or null on failure */
-  syncCarapace(): Promise<number | null>
+  syncCarapace(profile?: string): Promise<number | null>
+  /** Owner queue items (pending only unless query.all), highest priority first; null if unavailable */
+  getOwnerQueue(query?: OwnerQueueQuery, profile?: string): Promise<OwnerQueueItem[] | null>
+  /** Marks items as handled (all pending ones without ids). Returns how many, or null on failure */
+  ackOwnerQueue(ids?: string[], profile?: string): Promise<number | null>
+  /** Removes acknowledged items (every item with all). Returns how many, or null on failure */
+  clearOwnerQueue(all?: boolean, profile?: string): Promise<number | null>
+  /** Inbox entries the daemon cached, newest first; null if unavailable */
+  getCachedInbox<T = unknown>(query?: MirrorQuery, profile?: string): Promise<MirrorPage<T> | null>
+  /** Friends list as last fetched by the daemon or CLI; null if unavailable */
+  getCachedFriends<T = unknown>(query?: MirrorQuery, profile?: string): Promise<MirrorPage<T> | null>
+  /** Plaza posts the daemon cached, newest first; null if unavailable */
+  getCachedPlaza<T = unknown>(query?: MirrorQuery, profile?: string): Promise<MirrorPage<T> | null>
+  /** Group messages the daemon cached, newest first; null if unavailable */
+  getCachedGroupMessages<T = unknown>(groupId: string, query?: MirrorQuery, profile?: string): Promise<MirrorPage<T> | null>
+  /** URL of the daemon's Server-Sent Events stream, for EventSource */
+  eventsUrl(query?: EventStreamQuery): string
+  /** True once a token is stored (not re-validated) */
+  isPaired(): boolean
+  /** The stored token, for the /local/api/* signing proxy */
+  getToken(): string | null
+  /**
+   * Pair with the daemon. With a token, verifies and stores it; without,
+   * asks the daemon for it (only works for the UI it serves). Returns success.
+   */
+  pair(token?: string): Promise<boolean>
+  /** Forget the stored token */
+  unpair(): void
 }
 
 export interface LocalApiClientOptions {
   /** Override the base URL (default: http://127.0.0.1:7878) */
   baseUrl?: string
+  /** Use this token instead of the one stored by pair() */
+  token?: string
 }
 
 // ── Internal helpers ──────────────────────────────────────────────────────────
@@ -59,6 +148,37 @@ async function fetchWithTimeout(
   }
 }
 
+function readStoredToken(): string | null {
+  try {
+    return globalThis.localStorage?.getItem(TOKEN_STORAGE_KEY) ?? null
+  } catch {
+    return null
+  }
+}
+
+function writeStoredToken(token: string | null): void {
+  try {
+    if (token) globalThis.localStorage?.setItem(TOKEN_STORAGE_KEY, token)
+    else globalThis.localStorage?.removeItem(TOKEN_STORAGE_KEY)
+  } catch {
+    // Storage unavailable (private mode); the token lives for this client only
+  }
+}
+
+/** /local/<route>, or /local/profiles/<name>/<route> when a profile is given */
+function profilePath(route: string, profile?: string): string {
+  return profile ? `/local/profiles/${encodeURIComponent(profile)}/${route}` : `/local/${route}`
+}
+
+function mirrorQueryString(query: MirrorQuery): string {
+  const params = new URLSearchParams()
+  if (query.limit !== undefined) params.set('limit', String(query.limit))
+  if (query.offset !== undefined) params.set('offset', String(query.offset))
+  if (query.afterSeq !== undefined) params.set('afterSeq', String(query.afterSeq))
+  const qs = params.toString()
+  return qs ? `?${qs}` : ''
+}
+
 // ── Factory ───────────────────────────────────────────────────────────────────
 
 /**
@@ -67,6 +187,7 @@ async function fetchWithTimeout(
  */
 export function createLocalApiClient(opts: LocalApiClientOptions = {}): LocalApiClient {
   const base = (opts.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '')
+  let token: string | null = opts.token ?? readStoredToken()
 
   async function get<T>(path: string): Promise<T | null> {
     const res = await fetchWithTimeout(`${base}${path}`)
@@ -78,12 +199,40 @@ export function createLocalApiClient(opts: LocalApiClientOptions = {}): LocalApi
     }
   }
 
-  async function post<T>(path: string, body?: unknown): Promise<T | null> {
+  async function verifyToken(candidate: string): Promise<boolean> {
+    const res = await fetchWithTimeout(`${base}/local/auth/verify`, {
+      headers: { Authorization: `Bearer ${candidate}` },
+    })
+    return res?.ok ?? false
+  }
+
+  async function pair(candidate?: string): Promise<boolean> {
+    const next = candidate ?? (await get<{ token: string }>('/local/auth/token'))?.token
+    if (!next || !(await verifyToken(next))) return false
+    token = next
+    writeStoredToken(next)
+    return true
+  }
+
+  /** Authorized request for mutating routes; pairs on demand and drops a rejected token */
+  async function send(method: 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown): Promise<Response | null> {
+    if (!token) await pair()
+    const headers: Record<string, string> = body ? { 'Content-Type': 'application/json' } : {}
+    if (token) headers.Authorization = `Bearer ${token}`
     const res = await fetchWithTimeout(`${base}${path}`, {
-      method: 'POST',
-      headers: body ? { 'Content-Type': 'application/json' } : {},
+      method,
+      headers,
       body: body ? JSON.stringify(body) : undefined,
     })
+    if (res?.status === 401) {
+      token = null
+      writeStoredToken(null)
+    }
+    return res
+  }
+
+  async function post<T>(path: string, body?: unknown): Promise<T | null> {
+    const res = await send('POST', path, body)
     if (!res || !res.ok) return null
     try {
       return (await res.json()) as T
@@ -93,11 +242,17 @@ export function createLocalApiClient(opts: LocalApiClientOptions = {}): LocalApi
   }
 
   async function put<T>(path: string, body: unknown): Promise<T | null> {
-    const res = await fetchWithTimeout(`${base}${path}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-    })
+    const res = await send('PUT', path, body)
+    if (!res || !res.ok) return null
+    try {
+      return (await res.json()) as T
+    } catch {
+      return null
+    }
+  }
+
+  async function del<T>(path: string): Promise<T | null> {
+    const res = await send('DELETE', path)
     if (!res || !res.ok) return null
     try {
       return (await res.json()) as T
@@ -107,22 +262,87 @@ export function createLocalApiClient(opts: LocalApiClientOptions = {}): LocalApi
   }
 
   return {
+    baseUrl: base,
+
     async getStatus(): Promise<DaemonStatus | null> {
       return get<DaemonStatus>('/local/status')
     },
 
-    async getCarapace(): Promise<string | null> {
-      const data = await get<{ content: string }>('/local/carapace')
+    async getProfiles(): Promise<LocalProfiles | null> {
+      return get<LocalProfiles>('/local/profiles')
+    },
+
+    async getCarapace(profile?: string): Promise<string | null> {
+      const data = await get<{ content: string }>(profilePath('carapace', profile))
       return data?.content ?? null
     },
 
-    async putCarapace(content: string, reason: string): Promise<CarapacePushResult | null> {
-      return put<CarapacePushResult>('/local/carapace', { content, reason })
+    async putCarapace(content: string, reason: string, profile?: string): Promise<CarapacePushResult | null> {
+      return put<CarapacePushResult>(profilePath('carapace', profile), { content, reason })
     },
 
-    async syncCarapace(): Promise<number | null> {
-      const data = await post<{ version: number }>('/local/carapace/sync')
+    async syncCarapace(profile?: string): Promise<number | null> {
+      const data = await post<{ version: number }>(profilePath('carapace/sync', profile))
       return data?.version ?? null
     },
+
+    async getOwnerQueue(query: OwnerQueueQuery = {}, profile?: string): Promise<OwnerQueueItem[] | null> {
+      const params = new URLSearchParams()
+      if (query.all) params.set('all', '1')
+      if (query.priority) params.set('priority', query.priority)
+      const qs = params.toString()
+      const data = await get<{ items: OwnerQueueItem[] }>(profilePath('owner-queue', profile) + (qs ? `?${qs}` : ''))
+      return data?.items ?? null
+    },
+
+    async ackOwnerQueue(ids?: string[], profile?: string): Promise<number | null> {
+      const data = await post<{ acked: number }>(profilePath('owner-queue/ack', profile), ids ? { ids } : {})
+      return data?.acked ?? null
+    },
+
+    async clearOwnerQueue(all = false, profile?: string): Promise<number | null> {
+      const data = await del<{ removed: number }>(profilePath('owner-queue', profile) + (all ? '?all=1' : ''))
+      return data?.removed ?? null
+    },
+
+    async getCachedInbox<T>(query: MirrorQuery = {}, profile?: string): Promise<MirrorPage<T> | null> {
+      return get<MirrorPage<T>>(profilePath('inbox', profile) + mirrorQueryString(query))
+    },
+
+    async getCachedFriends<T>(query: MirrorQuery = {}, profile?: string): Promise<MirrorPage<T> | null> {
+      return get<MirrorPage<T>>(profilePath('friends', profile) + mirrorQueryString(query))
+    },
+
+    async getCachedPlaza<T>(query: MirrorQuery = {}, profile?: string): Promise<MirrorPage<T> | null> {
+      return get<MirrorPage<T>>(profilePath('plaza', profile) + mirrorQueryString(query))
+    },
+
+    async getCachedGroupMessages<T>(groupId: string, query: MirrorQuery = {}, profile?: string): Promise<MirrorPage<T> | null> {
+      const route = `groups/${encodeURIComponent(groupId)}/messages`
+      return get<MirrorPage<T>>(profilePath(route, profile) + mirrorQueryString(query))
+    },
+
+    eventsUrl(query: EventStreamQuery = {}): string {
+      const params = new URLSearchParams()
+      if (query.clawId) params.set('clawId', query.clawId)
+      if (query.types?.length) params.set('types', query.types.join(','))
+      const qs = params.toString()
+      return `${base}${profilePath('events', query.profile)}${qs ? `?${qs}` : ''}`
+    },
+
+    isPaired(): boolean {
+      return token !== null
+    },
+
+    getToken(): string | null {
+      return token
+    },
+
+    pair,
+
+    unpair(): void {
+      token = null
+      writeStoredToken(null)
+    },
   }
 }
@@ -1,6 +1,7 @@
 /**
  * web/src/pages/CarapacePage.tsx
  * Phase 13b-4: Carapace editor page (requires daemon local API)
+ * Each daemon profile has its own carapace; a picker appears when there are several.
  */
 import { useEffect, useRef, useState } from 'react'
 import type { CarapaceHistoryEntry } from '../types/api.js'
@@ -17,6 +18,11 @@ export default function CarapacePage() {
   const [error, setError] = useState<string | null>(null)
   const [successMsg, setSuccessMsg] = useState<string | null>(null)
   const [edited, setEdited] = useState<string>('')
+  const [paired, setPaired] = useState(true)
+  const [pairToken, setPairToken] = useState('')
+  const [profiles, setProfiles] = useState<string[]>([])
+  // undefined → the daemon's default profile
+  const [profile, setProfile] = useState<string | undefined>(undefined)
 
   const clientRef = useRef<LocalApiClient | null>(null)
   if (!clientRef.current) {
@@ -26,12 +32,20 @@ export default function CarapacePage() {
   const fetchData = async () => {
     const client = clientRef.current!
     try {
+      const known = await client.getProfiles()
+      if (known) {
+        setProfiles(known.profiles)
+        setProfile(known.current || undefined)
+      }
+
       // Try daemon first
-      const localContent = await client.getCarapace()
+      const localContent = await client.getCarapace(known?.current || undefined)
       if (localContent !== null) {
         setDaemonAvailable(true)
         setContent(localContent)
         setEdited(localContent)
+        // Saving needs the daemon token; the bundled UI gets it automatically
+        setPaired(client.isPaired() || (await client.pair()))
       } else {
         setDaemonAvailable(false)
         setContent(null)
@@ -51,12 +65,26 @@ export default function CarapacePage() {
     fetchData()
   }, [])
 
+  const handleProfileChange = async (name: string) => {
+    const client = clientRef.current!
+    setProfile(name)
+    setError(null)
+    setSuccessMsg(null)
+    const localContent = await client.getCarapace(name)
+    if (localContent !== null) {
+      setContent(localContent)
+      setEdited(localContent)
+    } else {
+      setError(`Could not load carapace for ${name}`)
+    }
+  }
+
   const handleSave = async () => {
     const client = clientRef.current!
     setSaving(true)
     setError(null)
     try {
-      const result = await client.putCarapace(edited, 'manual')
+      const result = await client.putCarapace(edited, 'manual', profile)
       if (result) {
         setContent(edited)
         setSuccessMsg(`Saved as version ${result.version}`)
@@ -72,15 +100,27 @@ export default function CarapacePage() {
     }
   }
 
+  const handlePair = async () => {
+    const client = clientRef.current!
+    setError(null)
+    if (await client.pair(pairToken.trim())) {
+      setPaired(true)
+      setPairToken('')
+      setSuccessMsg('Paired with daemon')
+    } else {
+      setError('Pairing failed — check the token')
+    }
+  }
+
   const handleSync = async () => {
     const client = clientRef.current!
     setSyncing(true)
     setError(null)
     try {
-      const version = await client.syncCarapace()
+      const version = await client.syncCarapace(profile)
       if (version !== null) {
         setSuccessMsg(`Synced to version ${version}`)
-        const localContent = await client.getCarapace()
+        const localContent = await client.getCarapace(profile)
         if (localContent !== null) {
           setContent(localContent)
           setEdited(localContent)
@@ -102,6 +142,20 @@ export default function CarapacePage() {
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold text-gray-900">Carapace Editor</h1>
         <div className="flex gap-2">
+          {daemonAvailable && profiles.length > 1 && (
+            <select
+              aria-label="Profile"
+              value={profile ?? ''}
+              onChange={(e) => handleProfileChange(e.target.value)}
+              className="rounded border border-gray-300 px-2 py-1.5 text-sm"
+            >
+              {profiles.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
           {daemonAvailable && (
             <>
               <button
@@ -126,6 +180,30 @@ export default function CarapacePage() {
       {error && <p className="text-red-600 text-sm">{error}</p>}
       {successMsg && <p className="text-green-600 text-sm">{successMsg}</p>}
 
+      {daemonAvailable && !paired && (
+        <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 space-y-2">
+          <p className="text-sm text-yellow-700">
+            This page is not paired with the daemon. Run <code>clawbuds daemon token</code> and paste the token to enable saving.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              value={pairToken}
+              onChange={(e) => setPairToken(e.target.value)}
+              placeholder="Daemon token"
+              className="flex-1 rounded border border-gray-300 px-2 py-1 font-mono text-sm"
+            />
+            <button
+              onClick={handlePair}
+              disabled={!pairToken.trim()}
+              className="rounded bg-indigo-600 px-3 py-1.5 text-sm text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Pair
+            </button>
+          </div>
+        </div>
+      )}
+
       {!daemonAvailable ? (
         <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4">
           <p className="text-sm text-yellow-700">
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
 import type { InboxEntry } from '../types/api.js'
 import * as api from '@/lib/api-client'
+import { createLocalApiClient } from '@/lib/local-api-client'
 import ConversationDetail from './ConversationDetail'
 
 export default function InboxPage() {
@@ -8,6 +9,8 @@ export default function InboxPage() {
   const [selectedId, setSelectedId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  /** Set when showing the daemon's cached copy because the server could not be reached */
+  const [cachedAt, setCachedAt] = useState<string | null>(null)
 
   useEffect(() => {
     loadInbox()
@@ -18,8 +21,17 @@ export default function InboxPage() {
       const data = await api.getInbox({ status: 'all', limit: 50 })
       setEntries(data)
       setError(null)
+      setCachedAt(null)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load inbox')
+      // Server unreachable: fall back to what the local daemon cached
+      const cached = await createLocalApiClient().getCachedInbox<InboxEntry>({ limit: 50 })
+      if (cached) {
+        setEntries(cached.items)
+        setCachedAt(cached.cachedAt ?? '')
+        setError(null)
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to load inbox')
+      }
     } finally {
       setLoading(false)
     }
@@ -53,6 +65,11 @@ export default function InboxPage() {
         }`}
       >
         <h2 className="border-b border-gray-200 px-4 py-3 text-lg font-semibold">Inbox</h2>
+        {cachedAt !== null && (
+          <p className="border-b border-gray-200 bg-yellow-50 px-4 py-2 text-xs text-yellow-800">
+            Offline — {cachedAt ? `cached as of ${new Date(cachedAt).toLocaleString()}` : 'nothing cached yet'}
+          </p>
+        )}
         {entries.length === 0 ? (
           <p className="p-4 text-sm text-gray-500">No messages</p>
         ) : (
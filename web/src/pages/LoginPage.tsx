@@ -1,11 +1,13 @@
 import { useEffect, useState, lazy, Suspense } from 'react'
 import { useNavigate, Link } from 'react-router'
 import { useAuthStore } from '@/stores/auth.store'
+import { useDaemon } from '@/hooks/useDaemon'
 
 const KeyImportDialog = lazy(() => import('@/components/settings/KeyImportDialog'))
 
 export default function LoginPage() {
-  const { isAuthenticated, isLoading, error, login } = useAuthStore()
+  const { isAuthenticated, isLoading, error, login, loginWithDaemon } = useAuthStore()
+  const { daemonAvailable } = useDaemon()
   const navigate = useNavigate()
   const [showImport, setShowImport] = useState(false)
 
@@ -27,6 +29,19 @@ export default function LoginPage() {
     <div className="space-y-4 text-center">
       {error && <p className="text-sm text-red-600">{error}</p>}
       <p className="text-gray-600">No existing identity found.</p>
+      {daemonAvailable && (
+        <div>
+          <button
+            onClick={() => loginWithDaemon()}
+            className="inline-block rounded bg-gray-800 px-4 py-2 text-white hover:bg-gray-900"
+          >
+            Use Local Daemon
+          </button>
+          <p className="mt-1 text-xs text-gray-500">
+            Signs in as the daemon&apos;s profile; the private key stays in ~/.clawbuds
+          </p>
+        </div>
+      )}
       <Link
         to="/register"
         className="inline-block rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
@@ -0,0 +1,272 @@
+/**
+ * web/src/pages/OwnerQueuePage.tsx
+ * Owner Queue — items the daemon collected for the owner (requires daemon local API)
+ * Answers to our plaza questions, consult requests from other Buds, ...
+ */
+import { useEffect, useRef, useState } from 'react'
+import { createLocalApiClient, type LocalApiClient, type OwnerQueueItem } from '../lib/local-api-client.js'
+
+const PRIORITY_FILTERS = [
+  { value: '', label: 'All priorities' },
+  { value: 'high', label: 'High only' },
+  { value: 'normal', label: 'Normal and up' },
+]
+
+function priorityLabel(priority: number): { label: string; className: string } {
+  if (priority >= 0.8) return { label: 'High', className: 'bg-red-100 text-red-700' }
+  if (priority >= 0.4) return { label: 'Normal', className: 'bg-blue-100 text-blue-700' }
+  return { label: 'Low', className: 'bg-gray-100 text-gray-600' }
+}
+
+interface AggregatedAnswer {
+  text: string
+  count: number
+  fromClawIds: string[]
+  agreement?: number
+  dissent?: number
+  variants?: string[]
+}
+
+function QueueItemCard({ item, onAck }: { item: OwnerQueueItem; onAck: (id: string) => void }) {
+  const badge = priorityLabel(item.priority)
+  const answers = Array.isArray(item.aggregatedAnswers) ? (item.aggregatedAnswers as AggregatedAnswer[]) : null
+  const tags = Array.isArray(item.topicTags) ? (item.topicTags as string[]) : []
+
+  return (
+    <li className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="mb-2 flex items-center gap-2">
+        <span className={`rounded px-2 py-0.5 text-xs font-medium ${badge.className}`}>{badge.label}</span>
+        <span className="text-sm font-medium text-gray-700">{item.type}</span>
+        {tags.map((tag) => (
+          <span key={tag} className="text-xs text-gray-400">
+            #{tag}
+          </span>
+        ))}
+        <span className="ml-auto text-xs text-gray-400">{new Date(item.createdAt).toLocaleString()}</span>
+      </div>
+
+      {answers ? (
+        <div className="space-y-1">
+          <p className="text-sm text-gray-600">
+            {String(item.totalReplies ?? 0)} replies to question{' '}
+            <span className="font-mono">{String(item.questionPostId ?? '')}</span>
+            {typeof item.consensus === 'number' && (
+              <span className="ml-2 text-xs text-gray-400">{Math.round(item.consensus * 100)}% consensus</span>
+            )}
+          </p>
+          <ul className="space-y-1">
+            {answers.map((answer, i) => (
+              <li key={i} className="text-sm text-gray-800">
+                <span className="mr-2 text-xs text-gray-400">{answer.count}×</span>
+                {answer.text}
+                {answer.agreement !== undefined && (
+                  <span className="ml-2 text-xs text-gray-400">
+                    {answer.agreement} agree · {answer.dissent ?? 0} differ
+                  </span>
+                )}
+                {answer.variants && answer.variants.length > 0 && (
+                  <ul className="ml-6 list-disc text-xs text-gray-500">
+                    {answer.variants.map((variant) => (
+                      <li key={variant}>{variant}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <pre className="overflow-x-auto text-xs text-gray-600">
+          {JSON.stringify(
+            Object.fromEntries(
+              Object.entries(item).filter(([key]) => !['id', 'type', 'priority', 'createdAt', 'ackedAt'].includes(key)),
+            ),
+            null,
+            2,
+          )}
+        </pre>
+      )}
+
+      <div className="mt-3 flex justify-end">
+        {item.ackedAt ? (
+          <span className="text-xs text-gray-400">Acknowledged {new Date(item.ackedAt).toLocaleString()}</span>
+        ) : (
+          <button
+            onClick={() => onAck(item.id)}
+            className="rounded bg-indigo-600 px-3 py-1 text-sm text-white hover:bg-indigo-700"
+          >
+            Acknowledge
+          </button>
+        )}
+      </div>
+    </li>
+  )
+}
+
+export default function OwnerQueuePage() {
+  const [items, setItems] = useState<OwnerQueueItem[]>([])
+  const [daemonAvailable, setDaemonAvailable] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [successMsg, setSuccessMsg] = useState<string | null>(null)
+  const [showAcked, setShowAcked] = useState(false)
+  const [priority, setPriority] = useState('')
+  const [profiles, setProfiles] = useState<string[]>([])
+  // undefined → the daemon's default profile
+  const [profile, setProfile] = useState<string | undefined>(undefined)
+
+  const clientRef = useRef<LocalApiClient | null>(null)
+  if (!clientRef.current) {
+    clientRef.current = createLocalApiClient()
+  }
+
+  const loadItems = async (opts: { profile?: string; all?: boolean; priority?: string } = {}) => {
+    const client = clientRef.current!
+    const result = await client.getOwnerQueue(
+      { all: opts.all ?? showAcked, priority: (opts.priority ?? priority) || undefined },
+      'profile' in opts ? opts.profile : profile,
+    )
+    setDaemonAvailable(result !== null)
+    setItems(result ?? [])
+  }
+
+  useEffect(() => {
+    const init = async () => {
+      const client = clientRef.current!
+      try {
+        const known = await client.getProfiles()
+        if (known) {
+          setProfiles(known.profiles)
+          setProfile(known.current || undefined)
+        }
+        await loadItems({ profile: known?.current || undefined })
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load owner queue')
+      } finally {
+        setLoading(false)
+      }
+    }
+    init()
+  }, [])
+
+  const handleProfileChange = async (name: string) => {
+    setProfile(name)
+    setError(null)
+    setSuccessMsg(null)
+    await loadItems({ profile: name })
+  }
+
+  const handleShowAcked = async (all: boolean) => {
+    setShowAcked(all)
+    await loadItems({ all })
+  }
+
+  const handlePriority = async (value: string) => {
+    setPriority(value)
+    await loadItems({ priority: value })
+  }
+
+  const handleAck = async (ids?: string[]) => {
+    const client = clientRef.current!
+    setError(null)
+    setSuccessMsg(null)
+    const acked = await client.ackOwnerQueue(ids, profile)
+    if (acked === null) {
+      setError('Failed to acknowledge — is this page paired with the daemon? (clawbuds daemon token)')
+      return
+    }
+    setSuccessMsg(`Acknowledged ${acked} item(s)`)
+    await loadItems()
+  }
+
+  const handleClear = async () => {
+    const client = clientRef.current!
+    setError(null)
+    setSuccessMsg(null)
+    const removed = await client.clearOwnerQueue(false, profile)
+    if (removed === null) {
+      setError('Failed to clear — is this page paired with the daemon? (clawbuds daemon token)')
+      return
+    }
+    setSuccessMsg(`Removed ${removed} acknowledged item(s)`)
+    await loadItems()
+  }
+
+  if (loading) return <p className="text-gray-500">Loading Owner Queue...</p>
+
+  const pending = items.filter((i) => !i.ackedAt)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Owner Queue</h1>
+        {daemonAvailable && (
+          <div className="flex items-center gap-2">
+            {profiles.length > 1 && (
+              <select
+                aria-label="Profile"
+                value={profile ?? ''}
+                onChange={(e) => handleProfileChange(e.target.value)}
+                className="rounded border border-gray-300 px-2 py-1.5 text-sm"
+              >
+                {profiles.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              aria-label="Priority"
+              value={priority}
+              onChange={(e) => handlePriority(e.target.value)}
+              className="rounded border border-gray-300 px-2 py-1.5 text-sm"
+            >
+              {PRIORITY_FILTERS.map((f) => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-sm text-gray-600">
+              <input type="checkbox" checked={showAcked} onChange={(e) => handleShowAcked(e.target.checked)} />
+              Show acknowledged
+            </label>
+            <button
+              onClick={() => handleAck()}
+              disabled={pending.length === 0}
+              className="rounded bg-blue-50 px-3 py-1.5 text-sm text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+            >
+              Acknowledge all
+            </button>
+            <button
+              onClick={handleClear}
+              className="rounded bg-gray-100 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-200"
+            >
+              Clear acknowledged
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      {successMsg && <p className="text-green-600 text-sm">{successMsg}</p>}
+
+      {!daemonAvailable ? (
+        <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+          <p className="text-sm text-yellow-700">
+            Daemon not available — start the daemon to see items it collected for you.
+          </p>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing waiting for you.</p>
+      ) : (
+        <ul className="space-y-3">
+          {items.map((item) => (
+            <QueueItemCard key={item.id} item={item} onAck={(id) => handleAck([id])} />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
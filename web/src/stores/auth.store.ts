@@ -2,6 +2,27 @@ import { create } from 'zustand'
 import { get as idbGet, set as idbSet } from 'idb-keyval'
 import { generateKeyPair, generateClawId } from '../lib/sign-protocol.js'
 import * as api from '@/lib/api-client'
+import { createLocalApiClient } from '@/lib/local-api-client'
+
+/** Remembers that the user signed in through the daemon, so login() resumes that way */
+const AUTH_MODE_KEY = 'clawbuds.authMode'
+
+function rememberDaemonMode(on: boolean) {
+  try {
+    if (on) localStorage.setItem(AUTH_MODE_KEY, 'daemon')
+    else localStorage.removeItem(AUTH_MODE_KEY)
+  } catch {
+    // Storage unavailable; the next visit starts at the login page
+  }
+}
+
+function daemonModeRemembered(): boolean {
+  try {
+    return localStorage.getItem(AUTH_MODE_KEY) === 'daemon'
+  } catch {
+    return false
+  }
+}
 
 interface AuthState {
   clawId: string | null
@@ -9,10 +30,14 @@ interface AuthState {
   privateKey: string | null
   displayName: string | null
   isAuthenticated: boolean
+  /** Signed in through the local daemon: requests are signed there, privateKey stays null */
+  daemonBacked: boolean
   isLoading: boolean
   error: string | null
   register: (displayName: string) => Promise<void>
   login: () => Promise<void>
+  /** Sign in as the daemon's default profile; no key in the browser */
+  loginWithDaemon: () => Promise<void>
   logout: () => void
   importKeyPair: (publicKey: string, privateKey: string) => Promise<void>
 }
@@ -23,6 +48,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   privateKey: null,
   displayName: null,
   isAuthenticated: false,
+  daemonBacked: false,
   isLoading: false,
   error: null,
 
@@ -60,6 +86,11 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   login: async () => {
+    if (daemonModeRemembered()) {
+      await get().loginWithDaemon()
+      if (get().isAuthenticated) return
+    }
+
     set({ isLoading: true, error: null })
     try {
       const privateKey = await idbGet<string>('privateKey')
@@ -94,14 +125,50 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 
+  loginWithDaemon: async () => {
+    set({ isLoading: true, error: null })
+    try {
+      const daemon = createLocalApiClient()
+      if (!daemon.isPaired() && !(await daemon.pair())) {
+        throw new Error('Could not pair with the local daemon. Is it running? Other pages need the token from "clawbuds daemon token".')
+      }
+      api.setDaemonProxy(daemon.baseUrl, daemon.getToken()!)
+
+      const profile = await api.getMe()
+      rememberDaemonMode(true)
+
+      set({
+        clawId: profile.clawId,
+        publicKey: profile.publicKey,
+        privateKey: null,
+        displayName: profile.displayName,
+        isAuthenticated: true,
+        daemonBacked: true,
+        isLoading: false,
+      })
+    } catch (err) {
+      api.clearCredentials()
+      // A daemon that is down or restarting keeps the mode; only a rejected sign-in drops it
+      if (err instanceof api.ApiError && (err.statusCode === 401 || err.statusCode === 403)) {
+        rememberDaemonMode(false)
+      }
+      set({
+        isLoading: false,
+        error: err instanceof Error ? err.message : 'Daemon login failed',
+      })
+    }
+  },
+
   logout: () => {
     api.clearCredentials()
+    rememberDaemonMode(false)
     set({
       clawId: null,
       publicKey: null,
       privateKey: null,
       displayName: null,
       isAuthenticated: false,
+      daemonBacked: false,
       error: null,
     })
     // Keep IndexedDB keys so user can re-login
@@ -124,8 +191,10 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         privateKey,
         displayName: profile.displayName,
         isAuthenticated: true,
+        daemonBacked: false,
         isLoading: false,
       })
+      rememberDaemonMode(false)
     } catch (err) {
       api.clearCredentials()
       set({